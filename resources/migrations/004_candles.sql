@@ -0,0 +1,24 @@
+-- OHLC candle cache
+-- Stores bars fetched by the screener so repeat scans only request bars newer
+-- than what is already cached, and the coach can reason over history offline.
+
+CREATE TABLE IF NOT EXISTS candles (
+  symbol     TEXT    NOT NULL,       -- always stored uppercase
+  interval   TEXT    NOT NULL,       -- provider interval: '5m', '15m', '1h', '1d', '1wk', '1mo'
+  timestamp  INTEGER NOT NULL,       -- unix seconds, bar open time
+  open       REAL    NOT NULL,
+  high       REAL    NOT NULL,
+  low        REAL    NOT NULL,
+  close      REAL    NOT NULL,
+  volume     REAL    NOT NULL DEFAULT 0,
+  PRIMARY KEY (symbol, interval, timestamp)
+);
+
+-- One row per cached series: how far back it is complete and when it was last refreshed
+CREATE TABLE IF NOT EXISTS candle_series (
+  symbol          TEXT    NOT NULL,
+  interval        TEXT    NOT NULL,
+  covered_from    INTEGER NOT NULL,  -- unix seconds; bars from here to the latest are complete
+  last_fetched_at INTEGER NOT NULL,  -- unix ms timestamp
+  PRIMARY KEY (symbol, interval)
+);
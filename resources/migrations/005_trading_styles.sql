@@ -0,0 +1,9 @@
+-- Trading style timeframe sets
+-- Only styles the user has edited are stored; the rest use the built-in
+-- defaults from trading-styles.ts.
+
+CREATE TABLE IF NOT EXISTS trading_styles (
+  id          TEXT PRIMARY KEY,      -- 'day-trade' | 'swing-trade' | 'position-trade'
+  timeframes  TEXT NOT NULL,         -- JSON array of timeframe labels, e.g. '["1H","4H","1D"]'
+  updated_at  INTEGER NOT NULL       -- unix ms timestamp
+);
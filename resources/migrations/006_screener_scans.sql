@@ -0,0 +1,26 @@
+-- Screener scan history
+-- Every live scan is stored so setups can be reviewed after the fact and
+-- any two scans diffed (see screener-history.ts).
+
+CREATE TABLE IF NOT EXISTS screener_scans (
+  id               TEXT PRIMARY KEY,
+  trading_style    TEXT NOT NULL,
+  timeframe_labels TEXT NOT NULL,    -- JSON array, e.g. '["1H","4H","1D"]'
+  data_source      TEXT NOT NULL,    -- 'yahoo' | 'file' | 'replay'
+  scanned_at       INTEGER NOT NULL, -- unix ms timestamp
+  duration         INTEGER NOT NULL  -- ms
+);
+
+-- One row per symbol; the full ScreenerSymbolResult is kept as JSON
+CREATE TABLE IF NOT EXISTS screener_scan_results (
+  scan_id    TEXT NOT NULL REFERENCES screener_scans(id) ON DELETE CASCADE,
+  symbol     TEXT NOT NULL,
+  position   INTEGER NOT NULL,       -- order within the scan response
+  alignment  TEXT NOT NULL,
+  direction  TEXT,
+  result     TEXT NOT NULL,
+  PRIMARY KEY (scan_id, symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_screener_scans_style_scanned_at ON screener_scans(trading_style, scanned_at DESC);
+CREATE INDEX IF NOT EXISTS idx_screener_scans_scanned_at ON screener_scans(scanned_at DESC);
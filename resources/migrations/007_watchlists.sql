@@ -0,0 +1,35 @@
+-- Named watchlists
+-- Replaces the single global `watchlist` table from 003_watchlist.sql. Its
+-- symbols move into the built-in 'default' list, which can't be deleted.
+
+CREATE TABLE IF NOT EXISTS watchlists (
+  id                     TEXT PRIMARY KEY,
+  name                   TEXT NOT NULL UNIQUE,
+  default_trading_style  TEXT,              -- NULL = use the screener's selected style
+  created_at             INTEGER NOT NULL,  -- unix ms timestamp
+  updated_at             INTEGER NOT NULL   -- unix ms timestamp
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_items (
+  watchlist_id  TEXT NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  symbol        TEXT NOT NULL,              -- always stored uppercase
+  tier          INTEGER NOT NULL DEFAULT 2, -- 1 = tier1 (daily), 2 = tier2 (high beta), …
+  position      INTEGER NOT NULL,           -- manual order, lowest first
+  notes         TEXT,
+  added_at      INTEGER NOT NULL,           -- unix ms timestamp
+  PRIMARY KEY (watchlist_id, symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_items_order ON watchlist_items(watchlist_id, tier, position);
+
+INSERT INTO watchlists (id, name, default_trading_style, created_at, updated_at)
+VALUES ('default', 'Main', NULL, CAST(strftime('%s', 'now') AS INTEGER) * 1000, CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+
+INSERT INTO watchlist_items (watchlist_id, symbol, tier, position, notes, added_at)
+SELECT 'default', symbol, tier, ROW_NUMBER() OVER (ORDER BY tier, symbol) - 1, NULL, added_at
+FROM watchlist;
+
+DROP TABLE watchlist;
+
+-- Scan history records which list was scanned
+ALTER TABLE screener_scans ADD COLUMN watchlist_id TEXT;
@@ -0,0 +1,13 @@
+-- Asset class of each watchlist symbol
+-- Decides which market session (US equities, CME futures, forex, crypto) a
+-- symbol's candles and scans follow. Existing rows are classified from their
+-- Yahoo ticker the same way new symbols are by default.
+
+ALTER TABLE watchlist_items ADD COLUMN asset_class TEXT NOT NULL DEFAULT 'equity'; -- equity | etf | future | crypto | forex
+
+UPDATE watchlist_items SET asset_class = CASE
+  WHEN symbol LIKE '%=F' OR symbol LIKE '/%' THEN 'future'
+  WHEN symbol LIKE '%=X' THEN 'forex'
+  WHEN symbol LIKE '%-USD' OR symbol LIKE '%-USDT' OR symbol LIKE '%-USDC' OR symbol LIKE '%-BTC' OR symbol LIKE '%-ETH' THEN 'crypto'
+  ELSE 'equity'
+END;
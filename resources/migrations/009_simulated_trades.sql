@@ -0,0 +1,7 @@
+-- Paper trades
+-- Fills from the simulated broker (paper-broker.ts) are journaled alongside
+-- live trades; the flag keeps paper and live performance apart.
+
+ALTER TABLE trades ADD COLUMN simulated INTEGER NOT NULL DEFAULT 0; -- 1 = paper trade
+
+CREATE INDEX IF NOT EXISTS idx_trades_simulated ON trades(simulated, created_at DESC);
@@ -0,0 +1,19 @@
+-- Replay training scores
+-- One row per bar-by-bar training session (replay-training.ts), rewritten
+-- after every bar so a session left half way still counts.
+
+CREATE TABLE IF NOT EXISTS replay_sessions (
+  id               TEXT PRIMARY KEY,
+  symbol           TEXT NOT NULL,
+  timeframe        TEXT NOT NULL,    -- catalog label, e.g. '1D'
+  total_bars       INTEGER NOT NULL, -- bars the session was set up for
+  bars             INTEGER NOT NULL, -- bars called so far
+  label_correct    INTEGER NOT NULL,
+  setup_correct    INTEGER NOT NULL,
+  trigger_correct  INTEGER NOT NULL,
+  trigger_total    INTEGER NOT NULL, -- bars that completed a setup
+  started_at       INTEGER NOT NULL, -- unix ms timestamp
+  updated_at       INTEGER NOT NULL  -- unix ms timestamp
+);
+
+CREATE INDEX IF NOT EXISTS idx_replay_sessions_started_at ON replay_sessions(started_at DESC);
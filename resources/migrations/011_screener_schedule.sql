@@ -0,0 +1,11 @@
+-- Background screener schedule
+-- The scheduler's settings (screener-scheduler.ts), restored at launch so
+-- scheduled scans resume without the screener panel. At most one row.
+
+CREATE TABLE IF NOT EXISTS screener_schedule (
+  id             INTEGER PRIMARY KEY CHECK (id = 1),
+  trading_style  TEXT NOT NULL,     -- 'day-trade' | 'swing-trade' | 'position-trade'
+  watchlist_id   TEXT NOT NULL,
+  enabled        INTEGER NOT NULL,  -- 1 = scheduled scans on
+  updated_at     INTEGER NOT NULL   -- unix ms timestamp
+);
@@ -7,7 +7,7 @@ import { app, shell, BrowserWindow, protocol, net } from 'electron';
 import { join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { createMainWindow } from './window';
-import { registerIpcHandlers, cleanupIpcResources } from './ipc';
+import { registerIpcHandlers, cleanupIpcResources, startScreenerScheduler } from './ipc';
 
 const __dirname = join(fileURLToPath(import.meta.url), '..');
 
@@ -144,6 +144,9 @@ async function initialize(): Promise<void> {
 
   // Create the main window
   await createMainWindow();
+
+  // Background screener scans on a market-aware cadence (alerts even when the panel is closed)
+  startScreenerScheduler();
 }
 
 /**
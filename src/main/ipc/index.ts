@@ -3,7 +3,10 @@
  * Central registration of all IPC channels with sender validation
  */
 
-import { ipcMain, WebContents, app } from 'electron';
+import { ipcMain, WebContents, app, Notification, dialog } from 'electron';
+import type { OpenDialogOptions, SaveDialogOptions } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
 import type {
   ChatSendMessageRequest,
   ChatMessageChunk,
@@ -23,8 +26,53 @@ import type {
   MultiTimeframeAnalyzeResponse,
   ScreenerScanRequest,
   ScreenerScanResponse,
+  ScreenerScanProgress,
+  MarketDataSource,
+  ScreenerTradingStyle,
+  SaveTradingStyleRequest,
+  TradingStylesResponse,
+  TradingStyleDefinition,
+  ScreenerAlert,
+  ScreenerScheduleStatus,
+  ConfigureScreenerScheduleRequest,
+  ScreenerScanSummary,
+  ListScreenerScansRequest,
+  DiffScreenerScansRequest,
+  ScreenerScanDiff,
+  ExportScreenerResultsRequest,
+  BacktestRequest,
+  BacktestResponse,
+  ExportBacktestRequest,
+  TradePerformance,
+  PlacePaperOrderRequest,
+  PaperOrder,
+  PaperBrokerState,
+  PaperFillInterval,
+  ConfigurePaperBrokerRequest,
+  StartReplayRequest,
+  ReplayAnswerRequest,
+  ReplaySession,
+  ReplayScore,
+  ReplaySetupCall,
+  StratCandleType,
+  SymbolKeyLevels,
+  Watchlist,
+  WatchlistItem,
+  AssetClass,
+  CreateWatchlistRequest,
+  UpdateWatchlistRequest,
+  AddWatchlistItemRequest,
+  UpdateWatchlistItemRequest,
+  RemoveWatchlistItemRequest,
+  ReorderWatchlistRequest,
+  ImportWatchlistRequest,
+  ImportWatchlistResult,
+  ExportWatchlistRequest,
+  ExportFileResult,
 } from '@shared/ipc-types';
-import { IPC_CHANNELS } from '@shared/ipc-types';
+import { IPC_CHANNELS, DEFAULT_WATCHLIST_ID } from '@shared/ipc-types';
+import { isAssetClass, sessionForAssetClass, sessionForSymbol } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
 import { setSplitRatio, getSplitRatio, getMainWindow, getChatView, getTradingViewView } from '../window';
 import { DatabaseService } from '../services/database';
 import { ClaudeService } from '../services/claude';
@@ -35,6 +83,34 @@ import { MultiTimeframeScreenshotService } from '../services/multi-timeframe-scr
 import { TradingViewOAuthService } from '../services/tradingview-oauth';
 import { BackendService } from '../services/backend-service';
 import { scanWatchlist, DEFAULT_SYMBOLS } from '../services/screener';
+import type { ScanOptions } from '../services/screener';
+import { ScanWorkerPool } from '../services/scan-pool';
+import { createMarketDataProvider } from '../services/market-data';
+import type { MarketDataProvider } from '../services/market-data';
+import { CachedMarketDataProvider } from '../services/candle-cache';
+import {
+  TIMEFRAME_CATALOG,
+  getTimeframeSpec,
+  isTradingStyle,
+  normalizeTimeframes,
+  resolveTradingStyle,
+  resolveTradingStyles,
+} from '../services/trading-styles';
+import { ScreenerScheduler } from '../services/screener-scheduler';
+import { PaperBroker } from '../services/paper-broker';
+import { ReplayTrainer } from '../services/replay-training';
+import { SCAN_HISTORY_RETENTION_DAYS, diffScans, summarizeScan } from '../services/screener-history';
+import {
+  WATCHLIST_FILE_EXTENSIONS,
+  formatFromPath,
+  parseWatchlist,
+  serializeWatchlist,
+} from '../services/watchlist-io';
+import { SCREENER_EXPORT_EXTENSIONS, defaultExportFileName, serializeScanResults } from '../services/screener-export';
+import { DEFAULT_MAX_HOLD_BARS, runBacktest } from '../services/backtest';
+import { defaultBacktestFileName, serializeBacktest } from '../services/backtest-export';
+import { formatKeyLevels, getKeyLevels } from '../services/key-levels';
+import { formatStructures } from '../services/strat-structures';
 import type { Trade, Conversation, Message } from '@shared/models';
 
 // Singleton service instances
@@ -45,6 +121,22 @@ let screenshot: ScreenshotService | null = null;
 let multiTimeframe: MultiTimeframeScreenshotService | null = null;
 let tvOAuth: TradingViewOAuthService | null = null;
 let backend: BackendService | null = null;
+let screenerScheduler: ScreenerScheduler | null = null;
+let scanPool: ScanWorkerPool | null = null;
+let paperBroker: PaperBroker | null = null;
+let replayTrainer: ReplayTrainer | null = null;
+
+/** Watchlists at least this long are scanned on worker threads */
+const POOL_MIN_SYMBOLS = 50;
+
+/** Chat messages get market context for at most this many mentioned tickers */
+const MAX_CONTEXT_TICKERS = 3;
+
+/** Key levels that take longer than this are left out and the message goes without them */
+const TICKER_CONTEXT_TIMEOUT_MS = 3000;
+
+/** In-flight manual scans by renderer request id, for cancelScreenerScan */
+const activeScans = new Map<string, AbortController>();
 
 /**
  * Get or create the database service instance
@@ -121,6 +213,243 @@ function getBackendService(): BackendService {
   return backend;
 }
 
+/**
+ * Create the screener's market data provider. Live Yahoo data goes through
+ * the SQLite candle cache; file and replay sources are read as-is.
+ */
+function getMarketDataProvider(source?: MarketDataSource): MarketDataProvider {
+  const provider = createMarketDataProvider(source);
+  return provider.source === 'yahoo' ? new CachedMarketDataProvider(provider, getDatabase()) : provider;
+}
+
+/**
+ * Get or create the scan worker pool. Workers read and fill the candle cache
+ * through the main process's database.
+ */
+function getScanPool(): ScanWorkerPool {
+  if (!scanPool) {
+    scanPool = new ScanWorkerPool({ store: getDatabase() });
+  }
+  return scanPool;
+}
+
+/**
+ * Where a scan's symbols run: large watchlists on the worker pool so the main
+ * thread stays responsive, small ones in-process
+ */
+function scanTarget(symbolCount: number, source?: MarketDataSource): Pick<ScanOptions, 'provider' | 'scanner'> {
+  return symbolCount >= POOL_MIN_SYMBOLS
+    ? { scanner: getScanPool().scannerFor(source ?? { kind: 'yahoo' }) }
+    : { provider: getMarketDataProvider(source) };
+}
+
+/**
+ * The user's timeframe set for a style (see trading-styles.ts), swing-trade when unknown
+ */
+function getTradingStyle(id: string | undefined): TradingStyleDefinition {
+  return resolveTradingStyle(getDatabase(), isTradingStyle(id) ? id : 'swing-trade');
+}
+
+/**
+ * Store a live scan in scan history, pruning scans past the retention window
+ */
+function recordScan(response: ScreenerScanResponse): ScreenerScanResponse {
+  const db = getDatabase();
+  const scanId = db.saveScreenerScan(response);
+  db.deleteScreenerScansBefore(Date.now() - SCAN_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  return { ...response, scanId };
+}
+
+/**
+ * Asset class of every symbol on a saved list, for scanWatchlist
+ */
+function watchlistAssetClasses(watchlistId: string): NonNullable<ScanOptions['assetClasses']> {
+  return Object.fromEntries(getDatabase().getWatchlistItems(watchlistId).map((item) => [item.symbol, item.assetClass]));
+}
+
+/**
+ * Market sessions a saved list trades in — the scheduler scans through each
+ */
+function watchlistSessions(watchlistId: string): MarketSession[] {
+  return [...new Set(Object.values(watchlistAssetClasses(watchlistId)).map(sessionForAssetClass))];
+}
+
+/**
+ * Market session for a symbol: from its asset class on the first list that
+ * holds it, else guessed from the ticker
+ */
+function symbolSession(symbol: string): MarketSession {
+  const db = getDatabase();
+  for (const list of db.listWatchlists()) {
+    const item = db.getWatchlistItems(list.id).find((i) => i.symbol === symbol);
+    if (item) return sessionForAssetClass(item.assetClass);
+  }
+  return sessionForSymbol(symbol);
+}
+
+/**
+ * Run a live scan of the saved watchlist — used by the background scheduler
+ */
+async function scanSavedWatchlist(tradingStyle: ScreenerTradingStyle, watchlistId: string): Promise<ScreenerScanResponse> {
+  const style = getTradingStyle(tradingStyle);
+  const symbols = getDatabase().getWatchlist(watchlistId);
+  const response = await scanWatchlist(symbols, style.id, {
+    ...scanTarget(symbols.length),
+    assetClasses: watchlistAssetClasses(watchlistId),
+    timeframes: style.timeframes,
+  });
+  // A throttled scan is missing symbols — keep it out of history so diffs don't report them as removed
+  return response.throttled ? { ...response, watchlistId } : recordScan({ ...response, watchlistId });
+}
+
+/**
+ * Forward scheduler alerts to the renderer and the OS notification center.
+ * More than three alerts at once are collapsed into a single notification.
+ */
+function notifyScreenerAlerts(alerts: ScreenerAlert[]): void {
+  getChatView()?.webContents.send(IPC_CHANNELS.SCREENER_ALERT, alerts);
+
+  if (!Notification.isSupported()) return;
+  const notifications =
+    alerts.length <= 3
+      ? alerts.map((a) => ({ title: `Screener: ${a.symbol}`, body: a.message }))
+      : [{ title: `Screener: ${alerts.length} alerts`, body: alerts.map((a) => a.symbol).join(', ') }];
+  notifications.forEach((n) => new Notification(n).show());
+}
+
+/**
+ * Get or create the paper broker. It fills against the screener's market
+ * data, so live fills share the candle cache.
+ */
+function getPaperBroker(): PaperBroker {
+  if (!paperBroker) {
+    paperBroker = new PaperBroker({ journal: getDatabase(), providerFor: getMarketDataProvider });
+  }
+  return paperBroker;
+}
+
+const PAPER_FILL_INTERVALS: PaperFillInterval[] = ['5m', '15m', '1h', '1d'];
+
+/**
+ * Get or create the replay trainer
+ */
+function getReplayTrainer(): ReplayTrainer {
+  if (!replayTrainer) {
+    replayTrainer = new ReplayTrainer({ store: getDatabase(), providerFor: getMarketDataProvider });
+  }
+  return replayTrainer;
+}
+
+const STRAT_CANDLE_TYPES: StratCandleType[] = ['1', '2-up', '2-down', '3'];
+const REPLAY_SETUP_CALLS: ReplaySetupCall[] = [
+  'none', '2-1-2-reversal', '2-1-2-continuation', '3-1-2', '2-2-reversal', '3-2-2', 'rev-strat',
+];
+
+/**
+ * Get or create the background screener scheduler
+ */
+function getScreenerScheduler(): ScreenerScheduler {
+  if (!screenerScheduler) {
+    screenerScheduler = new ScreenerScheduler({
+      scan: scanSavedWatchlist,
+      onScan: (response) => getChatView()?.webContents.send(IPC_CHANNELS.SCREENER_UPDATED, response),
+      onAlerts: notifyScreenerAlerts,
+      sessions: watchlistSessions,
+      store: getDatabase(),
+    });
+  }
+  return screenerScheduler;
+}
+
+/**
+ * Arm the background screener scheduler (call once the main window exists).
+ * It picks up the stored schedule and stays idle until scheduled scans are
+ * turned on in the screener panel.
+ */
+export function startScreenerScheduler(): void {
+  getScreenerScheduler().start();
+}
+
+/**
+ * Import a TradingView / CSV / JSON watchlist file picked by the user into an
+ * existing list, or into a new list named after the file. Symbols already on
+ * the list are left untouched.
+ */
+async function importWatchlistFile(request: ImportWatchlistRequest): Promise<ImportWatchlistResult> {
+  const options: OpenDialogOptions = {
+    title: 'Import watchlist',
+    properties: ['openFile'],
+    filters: [{ name: 'Watchlists', extensions: Object.values(WATCHLIST_FILE_EXTENSIONS) }],
+  };
+  const window = getMainWindow();
+  const picked = window ? await dialog.showOpenDialog(window, options) : await dialog.showOpenDialog(options);
+  if (picked.canceled || picked.filePaths.length === 0) {
+    return { canceled: true, watchlist: null, added: [], alreadyListed: [], skipped: [] };
+  }
+
+  const filePath = picked.filePaths[0];
+  const parsed = parseWatchlist(fs.readFileSync(filePath, 'utf-8'), formatFromPath(filePath));
+  const db = getDatabase();
+
+  let watchlistId = request.watchlistId;
+  if (!watchlistId) {
+    const base = parsed.name ?? path.basename(filePath, path.extname(filePath));
+    const taken = new Set(db.listWatchlists().map((l) => l.name));
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base} (${n})`;
+    watchlistId = db.createWatchlist(name, parsed.defaultTradingStyle).id;
+  }
+
+  const existing = new Set(db.getWatchlist(watchlistId));
+  const added: string[] = [];
+  const alreadyListed: string[] = [];
+  for (const { symbol, assetClass, tier, notes } of parsed.symbols) {
+    if (existing.has(symbol)) {
+      alreadyListed.push(symbol);
+      continue;
+    }
+    db.addToWatchlist(symbol, watchlistId, { assetClass, tier, notes });
+    added.push(symbol);
+  }
+
+  return { canceled: false, watchlist: db.getWatchlistById(watchlistId), added, alreadyListed, skipped: parsed.skipped };
+}
+
+/**
+ * Ask the user where to save a text file, then write it
+ */
+async function saveTextFile(options: SaveDialogOptions, contents: () => string): Promise<ExportFileResult> {
+  const window = getMainWindow();
+  const picked = window ? await dialog.showSaveDialog(window, options) : await dialog.showSaveDialog(options);
+  if (picked.canceled || !picked.filePath) {
+    return { canceled: true, filePath: null };
+  }
+
+  fs.writeFileSync(picked.filePath, contents(), 'utf-8');
+  return { canceled: false, filePath: picked.filePath };
+}
+
+/**
+ * Write a list to a file picked by the user
+ */
+async function exportWatchlistFile(request: ExportWatchlistRequest): Promise<ExportFileResult> {
+  const db = getDatabase();
+  const list = db.getWatchlistById(request.watchlistId);
+  if (!list) {
+    throw new Error(`Watchlist not found: ${request.watchlistId}`);
+  }
+
+  const extension = WATCHLIST_FILE_EXTENSIONS[request.format];
+  return saveTextFile(
+    {
+      title: 'Export watchlist',
+      defaultPath: `${list.name}.${extension}`,
+      filters: [{ name: request.format === 'tradingview' ? 'TradingView watchlist' : extension.toUpperCase(), extensions: [extension] }],
+    },
+    () => serializeWatchlist(list, db.getWatchlistItems(list.id), request.format)
+  );
+}
+
 /**
  * Validate that IPC messages come from our renderer, not TradingView
  */
@@ -180,21 +509,87 @@ export function registerIpcHandlers(): void {
   // Chat — via Railway backend (Epic 4 / Auth migration)
   // ============================================================
 
+  // Uppercase Strat/trading jargon that must not be mistaken for a ticker.
+  // Keep this list in sync with memory/strat-acronyms.md
+  const stratAcronyms = new Set([
+    // The Strat — timeframe continuity & structure
+    'FTFC',                       // Full Time Frame Continuity
+    'MTF',                        // Multi Time Frame
+    // Prior period levels (Day/Week/Month/Year)
+    'PDH', 'PDL',                 // Previous Day High/Low
+    'PWH', 'PWL',                 // Previous Week High/Low
+    'PMH', 'PML',                 // Previous Month High/Low
+    'PYH', 'PYL',                 // Previous Year High/Low
+    // Intraday levels
+    'HOD', 'LOD',                 // High/Low of Day
+    'POC',                        // Point of Control (volume profile)
+    // Common TA indicators (not tickers)
+    'ATR',                        // Average True Range
+    'EMA', 'SMA', 'WMA',          // Moving averages
+    'RSI', 'MACD', 'VWAP',        // Momentum / volume indicators
+    'BB',                         // Bollinger Bands
+    // Risk management shorthand
+    'RR', 'SL', 'TP', 'BE',       // Risk/Reward, Stop Loss, Take Profit, Break Even
+    'OR',                         // Opening Range
+  ]);
+
   /**
-   * Timeframes to capture per trading style (The Strat FTFC hierarchy).
-   * These are TradingView interval codes: numbers = minutes, D/W/M = day/week/month.
+   * Tickers a message talks about, in order of mention: $-prefixed symbols,
+   * and bare uppercase words only when they're on one of the user's
+   * watchlists — so "I", "FTFC" or "PDH" never turn into lookups.
    */
-  const TRADING_STYLE_TIMEFRAMES: Record<string, string[]> = {
-    'day-trade':      ['5', '15', '60'],    // 5min, 15min, 1H
-    'swing-trade':    ['60', '1D', '1W'],   // 1H, Daily, Weekly
-    'position-trade': ['1D', '1W', '1M'],   // Daily, Weekly, Monthly
-  };
+  function mentionedTickers(message: string, watched: Set<string>): string[] {
+    const dollar = [...message.matchAll(/\$([A-Za-z]{1,5})\b/g)].map((m) => m[1].toUpperCase());
+    const bare = (message.match(/\b[A-Z]{1,5}\b/g) ?? []).filter((w) => watched.has(w));
+    return [...new Set([...dollar, ...bare])];
+  }
 
-  const TRADING_STYLE_LABELS: Record<string, string> = {
-    'day-trade':      'Day Trading',
-    'swing-trade':    'Swing Trading',
-    'position-trade': 'Position Trading',
-  };
+  /**
+   * Context lines for the tickers in a message: key levels, plus any
+   * broadening formation or PMG from the latest stored screener scan. Best
+   * effort: a failed fetch leaves its line out, and a lookup slower than
+   * TICKER_CONTEXT_TIMEOUT_MS is dropped so the send doesn't wait on it.
+   */
+  async function tickerContext(message: string): Promise<string[]> {
+    const database = getDatabase();
+    const watched = new Set(database.listWatchlists().flatMap((list) => database.getWatchlist(list.id)));
+    const tickers = mentionedTickers(message, watched).slice(0, MAX_CONTEXT_TICKERS);
+    if (tickers.length === 0) return [];
+    const provider = getMarketDataProvider();
+
+    const [latest] = database.listScreenerScans({ limit: 1 });
+    const lastScan = latest ? database.getScreenerScan(latest.id) : null;
+    const structures = tickers.flatMap((symbol) => {
+      const row = lastScan?.results.find((r) => r.symbol === symbol);
+      const line = row ? formatStructures(row) : null;
+      return line ? [`[Structures — ${line}]`] : [];
+    });
+
+    const lookup = Promise.all(
+      tickers.map(async (symbol) => {
+        try {
+          const levels = await getKeyLevels(symbol, provider, Date.now(), symbolSession(symbol));
+          return [`[Key levels — ${formatKeyLevels(levels)}]`];
+        } catch (error) {
+          console.warn(`[IPC] No key levels for ${symbol}:`, error);
+          return [];
+        }
+      })
+    ).then((lines) => lines.flat());
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<string[]>((resolve) => {
+      timer = setTimeout(() => {
+        console.warn(`[IPC] Key levels for ${tickers.join(', ')} timed out, sending without them`);
+        resolve([]);
+      }, TICKER_CONTEXT_TIMEOUT_MS);
+    });
+    try {
+      return [...(await Promise.race([lookup, timeout])), ...structures];
+    } finally {
+      clearTimeout(timer);
+    }
+  }
 
   /**
    * Returns true when the message likely needs chart context (MTF screenshots).
@@ -223,28 +618,6 @@ export function registerIpcHandlers(): void {
     // checked second so Strat jargon (FTFC, MTF, etc.) can't slip through above.
     if (/\$[A-Za-z]{1,5}\b/.test(message)) return true;
     // Bare uppercase ticker: must be 2-5 caps that are NOT known Strat/trading acronyms.
-    // Keep this list in sync with memory/strat-acronyms.md
-    const stratAcronyms = new Set([
-      // The Strat — timeframe continuity & structure
-      'FTFC',                       // Full Time Frame Continuity
-      'MTF',                        // Multi Time Frame
-      // Prior period levels (Day/Week/Month/Year)
-      'PDH', 'PDL',                 // Previous Day High/Low
-      'PWH', 'PWL',                 // Previous Week High/Low
-      'PMH', 'PML',                 // Previous Month High/Low
-      'PYH', 'PYL',                 // Previous Year High/Low
-      // Intraday levels
-      'HOD', 'LOD',                 // High/Low of Day
-      'POC',                        // Point of Control (volume profile)
-      // Common TA indicators (not tickers)
-      'ATR',                        // Average True Range
-      'EMA', 'SMA', 'WMA',          // Moving averages
-      'RSI', 'MACD', 'VWAP',        // Momentum / volume indicators
-      'BB',                         // Bollinger Bands
-      // Risk management shorthand
-      'RR', 'SL', 'TP', 'BE',       // Risk/Reward, Stop Loss, Take Profit, Break Even
-      'OR',                         // Opening Range
-    ]);
     const upperWords = message.match(/\b[A-Z]{2,5}\b/g) ?? [];
     if (upperWords.some((w) => !stratAcronyms.has(w))) return true;
 
@@ -311,6 +684,15 @@ export function registerIpcHandlers(): void {
             content: msg.content,
           }));
 
+        // The user's timeframe set for this style drives both capture and the context prefix
+        const style = getTradingStyle(request.tradingStyle);
+
+        // Fetched alongside the screenshot capture below
+        const tickerLines = tickerContext(request.message).catch((error: unknown) => {
+          console.warn('[IPC] Ticker context failed, sending without it:', error);
+          return [];
+        });
+
         // Support both single screenshot (deprecated) and multiple screenshots
         let screenshotPaths =
           request.screenshotPaths ||
@@ -321,14 +703,14 @@ export function registerIpcHandlers(): void {
         // methodology/educational questions like "how does a 3 effect FTFC?").
         if ((!screenshotPaths || screenshotPaths.length === 0) && messageNeedsChartContext(request.message)) {
           try {
-            const tradingStyle = request.tradingStyle || 'swing-trade';
-            const timeframes = TRADING_STYLE_TIMEFRAMES[tradingStyle] ?? TRADING_STYLE_TIMEFRAMES['swing-trade'];
+            // TradingView interval codes: numbers = minutes, D/W/M = day/week/month
+            const timeframes = style.timeframes.map((label) => getTimeframeSpec(label).tradingView);
 
             // Pass the user's current TradingView chart URL so the capture view loads
             // the same chart (symbol) the user is looking at
             const currentChartUrl = getTradingViewView()?.webContents.getURL();
 
-            console.warn(`[IPC] Auto-capturing MTF screenshots for ${tradingStyle}: ${timeframes.join(', ')}`);
+            console.warn(`[IPC] Auto-capturing MTF screenshots for ${style.id}: ${timeframes.join(', ')}`);
 
             const mtfService = getMultiTimeframeService();
             const mtfResult = await mtfService.captureMultipleTimeframes({
@@ -367,14 +749,14 @@ export function registerIpcHandlers(): void {
 
         // Build the message Claude receives: prepend trading style context so it
         // knows the user's time horizon and which timeframes are in the screenshots.
-        const tradingStyle = request.tradingStyle || 'swing-trade';
-        const styleLabel = TRADING_STYLE_LABELS[tradingStyle] ?? 'Swing Trading';
-        const timeframeList = (TRADING_STYLE_TIMEFRAMES[tradingStyle] ?? []).join(', ');
+        const styleLabel = style.label;
+        const timeframeList = style.timeframes.join(', ');
         const capturedCount = screenshotPaths?.length ?? 0;
         const screenshotNote = capturedCount > 0
           ? `${capturedCount} chart screenshot${capturedCount !== 1 ? 's' : ''} attached (${timeframeList})`
           : 'no chart screenshots available';
-        const contextPrefix = `[Trading Style: ${styleLabel} | ${screenshotNote}]\n\n`;
+        const marketContext = (await tickerLines).map((line) => `${line}\n`).join('');
+        const contextPrefix = `[Trading Style: ${styleLabel} | ${screenshotNote}]\n${marketContext}\n`;
 
         // Stream via backend
         let assistantMessageId: string | undefined;
@@ -496,7 +878,7 @@ export function registerIpcHandlers(): void {
       const limit = request?.limit ?? 100;
       const offset = request?.offset ?? 0;
 
-      const trades = database.listTrades(limit, offset);
+      const trades = database.listTrades(limit, offset, request?.simulated);
 
       // TODO: Implement ticker filtering if needed
       // For now, return all trades
@@ -509,6 +891,10 @@ export function registerIpcHandlers(): void {
     database.deleteTrade(id);
   });
 
+  handleWithValidation<boolean, TradePerformance>(IPC_CHANNELS.DB_TRADE_PERFORMANCE, async (simulated) => {
+    return getDatabase().getTradePerformance(simulated === true);
+  });
+
   // ============================================================
   // Database - Conversations (Epic 3)
   // ============================================================
@@ -850,10 +1236,268 @@ export function registerIpcHandlers(): void {
   handleWithValidation<ScreenerScanRequest | undefined, ScreenerScanResponse>(
     IPC_CHANNELS.SCREENER_SCAN,
     async (request) => {
-      // If no symbols supplied, load from the user's saved watchlist
-      const symbols = request?.symbols ?? getDatabase().getWatchlist();
-      console.warn('[IPC] Screener scan:', symbols.length, 'symbols /', request?.tradingStyle ?? 'swing-trade');
-      return await scanWatchlist(symbols, request?.tradingStyle);
+      // If no symbols supplied, load them from the requested saved watchlist
+      const watchlistId = request?.symbols ? undefined : (request?.watchlistId ?? DEFAULT_WATCHLIST_ID);
+      const symbols = request?.symbols ?? getDatabase().getWatchlist(watchlistId);
+      const target = scanTarget(symbols.length, request?.dataSource);
+      const style = getTradingStyle(request?.tradingStyle);
+      console.warn(
+        '[IPC] Screener scan:', symbols.length, 'symbols /', style.id, style.timeframes.join(','), '/',
+        request?.dataSource?.kind ?? 'yahoo', target.scanner ? '(worker pool)' : ''
+      );
+      // Replaying up to a cursor: candles are forming relative to the cursor, not the wall clock
+      const asOf = request?.dataSource?.kind === 'replay' ? request.dataSource.asOf : undefined;
+      const now = asOf !== undefined ? (): number => asOf * 1000 : undefined;
+
+      // With a request id, stream each symbol to the renderer and allow cancellation
+      const requestId = request?.requestId;
+      const controller = new AbortController();
+      if (requestId) activeScans.set(requestId, controller);
+      let scanned: ScreenerScanResponse;
+      try {
+        scanned = await scanWatchlist(symbols, style.id, {
+          ...target,
+          now,
+          assetClasses: watchlistId !== undefined ? watchlistAssetClasses(watchlistId) : undefined,
+          timeframes: style.timeframes,
+          signal: controller.signal,
+          onResult: requestId
+            ? (result, completed, total): void => {
+                const progress: ScreenerScanProgress = {
+                  requestId,
+                  tradingStyle: style.id,
+                  timeframeLabels: style.timeframes,
+                  result,
+                  completed,
+                  total,
+                };
+                getChatView()?.webContents.send(IPC_CHANNELS.SCREENER_SCAN_PROGRESS, progress);
+              }
+            : undefined,
+        });
+      } finally {
+        if (requestId) activeScans.delete(requestId);
+      }
+      const response = watchlistId ? { ...scanned, watchlistId } : scanned;
+
+      // Complete live scans go into scan history and keep the scheduler's alert baseline current
+      if (response.dataSource !== 'yahoo' || response.throttled || response.cancelled) return response;
+      const recorded = recordScan(response);
+      getScreenerScheduler().observe(recorded);
+      return recorded;
+    }
+  );
+
+  handleWithValidation<string, boolean>(IPC_CHANNELS.SCREENER_SCAN_CANCEL, async (requestId) => {
+    const controller = activeScans.get(requestId);
+    controller?.abort();
+    return controller !== undefined;
+  });
+
+  handleWithValidation<ConfigureScreenerScheduleRequest, ScreenerScheduleStatus>(
+    IPC_CHANNELS.SCREENER_SCHEDULE_CONFIGURE,
+    async (request) => {
+      if (request.tradingStyle !== undefined && !isTradingStyle(request.tradingStyle)) {
+        throw new Error(`Unknown trading style: ${String(request.tradingStyle)}`);
+      }
+      if (request.watchlistId !== undefined && !getDatabase().getWatchlistById(request.watchlistId)) {
+        throw new Error(`Watchlist not found: ${request.watchlistId}`);
+      }
+      return getScreenerScheduler().configure(request);
+    }
+  );
+
+  handleWithValidation<void, ScreenerScheduleStatus>(IPC_CHANNELS.SCREENER_SCHEDULE_STATUS, async () => {
+    return getScreenerScheduler().getStatus();
+  });
+
+  handleWithValidation<ListScreenerScansRequest | undefined, ScreenerScanSummary[]>(
+    IPC_CHANNELS.SCREENER_HISTORY_LIST,
+    async (request) => {
+      return getDatabase().listScreenerScans(request);
+    }
+  );
+
+  handleWithValidation<string, ScreenerScanResponse | null>(IPC_CHANNELS.SCREENER_HISTORY_GET, async (id) => {
+    return getDatabase().getScreenerScan(id);
+  });
+
+  handleWithValidation<ExportScreenerResultsRequest, ExportFileResult>(
+    IPC_CHANNELS.SCREENER_EXPORT,
+    async ({ scan, format }) => {
+      if (!Object.hasOwn(SCREENER_EXPORT_EXTENSIONS, format)) {
+        throw new Error(`Unknown export format: ${String(format)}`);
+      }
+      const extension = SCREENER_EXPORT_EXTENSIONS[format];
+      return saveTextFile(
+        {
+          title: 'Export screener results',
+          defaultPath: defaultExportFileName(scan, format),
+          filters: [{ name: format === 'markdown' ? 'Markdown' : extension.toUpperCase(), extensions: [extension] }],
+        },
+        () => serializeScanResults(scan, format)
+      );
+    }
+  );
+
+  handleWithValidation<DiffScreenerScansRequest, ScreenerScanDiff>(
+    IPC_CHANNELS.SCREENER_HISTORY_DIFF,
+    async (request) => {
+      const db = getDatabase();
+      const from = db.getScreenerScan(request.fromId);
+      const to = db.getScreenerScan(request.toId);
+      if (!from || !to) {
+        throw new Error(`Scan not found: ${!from ? request.fromId : request.toId}`);
+      }
+      return {
+        from: summarizeScan(request.fromId, from),
+        to: summarizeScan(request.toId, to),
+        changes: diffScans(from, to),
+      };
+    }
+  );
+
+  // ============================================================
+  // Backtest
+  // ============================================================
+
+  handleWithValidation<BacktestRequest | undefined, BacktestResponse>(IPC_CHANNELS.BACKTEST_RUN, async (request) => {
+    const symbols = request?.symbols ?? getDatabase().getWatchlist(request?.watchlistId ?? DEFAULT_WATCHLIST_ID);
+    const style = getTradingStyle(request?.tradingStyle);
+    const maxHoldBars = request?.maxHoldBars ?? DEFAULT_MAX_HOLD_BARS;
+    if (!Number.isInteger(maxHoldBars) || maxHoldBars < 1) {
+      throw new Error(`Invalid hold limit: ${String(maxHoldBars)}`);
+    }
+    console.warn('[IPC] Backtest:', symbols.length, 'symbols /', style.id, style.timeframes.join(','));
+    return runBacktest(symbols, {
+      provider: getMarketDataProvider(request?.dataSource),
+      tradingStyle: style.id,
+      timeframes: style.timeframes,
+      maxHoldBars,
+    });
+  });
+
+  handleWithValidation<ExportBacktestRequest, ExportFileResult>(IPC_CHANNELS.BACKTEST_EXPORT, async ({ result, format }) => {
+    if (!Object.hasOwn(SCREENER_EXPORT_EXTENSIONS, format)) {
+      throw new Error(`Unknown export format: ${String(format)}`);
+    }
+    const extension = SCREENER_EXPORT_EXTENSIONS[format];
+    return saveTextFile(
+      {
+        title: 'Export backtest',
+        defaultPath: defaultBacktestFileName(result, format),
+        filters: [{ name: format === 'markdown' ? 'Markdown' : extension.toUpperCase(), extensions: [extension] }],
+      },
+      () => serializeBacktest(result, format)
+    );
+  });
+
+  // ============================================================
+  // Paper Trading
+  // ============================================================
+
+  handleWithValidation<PlacePaperOrderRequest, PaperOrder>(IPC_CHANNELS.PAPER_PLACE_ORDER, async (request) => {
+    if (request.direction !== 'long' && request.direction !== 'short') {
+      throw new Error(`Unknown direction: ${String(request.direction)}`);
+    }
+    if (!['market', 'stop', 'limit'].includes(request.type)) {
+      throw new Error(`Unknown order type: ${String(request.type)}`);
+    }
+    getTimeframeSpec(request.timeframe);
+    return getPaperBroker().placeOrder(request);
+  });
+
+  handleWithValidation<string, PaperOrder>(IPC_CHANNELS.PAPER_CANCEL_ORDER, async (id) => {
+    return getPaperBroker().cancelOrder(id);
+  });
+
+  handleWithValidation<string, Trade>(IPC_CHANNELS.PAPER_CLOSE_POSITION, async (tradeId) => {
+    return getPaperBroker().closePosition(tradeId);
+  });
+
+  handleWithValidation<void, PaperBrokerState>(IPC_CHANNELS.PAPER_SYNC, async () => {
+    return getPaperBroker().sync();
+  });
+
+  handleWithValidation<ConfigurePaperBrokerRequest, PaperBrokerState>(IPC_CHANNELS.PAPER_CONFIGURE, async (request) => {
+    if (request.fillInterval !== undefined && !PAPER_FILL_INTERVALS.includes(request.fillInterval)) {
+      throw new Error(`Unsupported fill interval: ${String(request.fillInterval)}`);
+    }
+    return getPaperBroker().configure(request);
+  });
+
+  // ============================================================
+  // Replay Training
+  // ============================================================
+
+  handleWithValidation<StartReplayRequest, ReplaySession>(IPC_CHANNELS.REPLAY_START, async (request) => {
+    if (typeof request.symbol !== 'string') {
+      throw new Error('A symbol is required');
+    }
+    return getReplayTrainer().start(request);
+  });
+
+  handleWithValidation<ReplayAnswerRequest, ReplaySession>(IPC_CHANNELS.REPLAY_ANSWER, async (request) => {
+    if (!STRAT_CANDLE_TYPES.includes(request.label)) {
+      throw new Error(`Unknown candle label: ${String(request.label)}`);
+    }
+    if (!REPLAY_SETUP_CALLS.includes(request.setup)) {
+      throw new Error(`Unknown setup: ${String(request.setup)}`);
+    }
+    if (request.trigger !== null && typeof request.trigger !== 'number') {
+      throw new Error('The trigger must be a price or null');
+    }
+    return getReplayTrainer().answer(request);
+  });
+
+  handleWithValidation<number | undefined, ReplayScore[]>(IPC_CHANNELS.REPLAY_SCORES, async (limit) => {
+    return getDatabase().listReplayScores(limit);
+  });
+
+  // ============================================================
+  // Key Levels
+  // ============================================================
+
+  handleWithValidation<string, SymbolKeyLevels>(IPC_CHANNELS.KEY_LEVELS_GET, async (symbol) => {
+    if (typeof symbol !== 'string' || !symbol.trim()) {
+      throw new Error('A symbol is required');
+    }
+    const ticker = symbol.trim().toUpperCase();
+    return getKeyLevels(ticker, getMarketDataProvider(), Date.now(), symbolSession(ticker));
+  });
+
+  // ============================================================
+  // Trading Styles
+  // ============================================================
+
+  const listTradingStyles = (): TradingStylesResponse => ({
+    styles: resolveTradingStyles(getDatabase()),
+    availableTimeframes: TIMEFRAME_CATALOG.map((tf) => tf.label),
+  });
+
+  handleWithValidation<void, TradingStylesResponse>(IPC_CHANNELS.TRADING_STYLES_LIST, async () => {
+    return listTradingStyles();
+  });
+
+  handleWithValidation<SaveTradingStyleRequest, TradingStylesResponse>(
+    IPC_CHANNELS.TRADING_STYLES_SAVE,
+    async (request) => {
+      if (!isTradingStyle(request.id)) {
+        throw new Error(`Unknown trading style: ${String(request.id)}`);
+      }
+      getDatabase().saveTradingStyle(request.id, normalizeTimeframes(request.timeframes));
+      return listTradingStyles();
+    }
+  );
+
+  handleWithValidation<ScreenerTradingStyle, TradingStylesResponse>(
+    IPC_CHANNELS.TRADING_STYLES_RESET,
+    async (id) => {
+      if (!isTradingStyle(id)) {
+        throw new Error(`Unknown trading style: ${String(id)}`);
+      }
+      getDatabase().deleteTradingStyle(id);
+      return listTradingStyles();
     }
   );
 
@@ -867,22 +1511,104 @@ export function registerIpcHandlers(): void {
     tier: i < 9 ? 1 : 2, // first 9 are tier1 (AAPL…QQQ)
   }));
 
-  handleWithValidation<void, string[]>(IPC_CHANNELS.WATCHLIST_GET, async () => {
+  /** Tiers start at 1; the editor offers 1–3 but imports may use more */
+  const validTier = (tier: number | undefined): number | undefined => {
+    if (tier !== undefined && (!Number.isInteger(tier) || tier < 1)) {
+      throw new Error(`Invalid tier: ${tier}`);
+    }
+    return tier;
+  };
+
+  const validAssetClass = (assetClass: AssetClass | undefined): AssetClass | undefined => {
+    if (assetClass !== undefined && !isAssetClass(assetClass)) {
+      throw new Error(`Unknown asset class: ${String(assetClass)}`);
+    }
+    return assetClass;
+  };
+
+  const validStyle = (style: ScreenerTradingStyle | null | undefined): ScreenerTradingStyle | null | undefined => {
+    if (style !== undefined && style !== null && !isTradingStyle(style)) {
+      throw new Error(`Unknown trading style: ${String(style)}`);
+    }
+    return style;
+  };
+
+  handleWithValidation<void, Watchlist[]>(IPC_CHANNELS.WATCHLISTS_LIST, async () => {
+    return getDatabase().listWatchlists();
+  });
+
+  handleWithValidation<CreateWatchlistRequest, Watchlist>(IPC_CHANNELS.WATCHLISTS_CREATE, async (request) => {
+    return getDatabase().createWatchlist(request.name, validStyle(request.defaultTradingStyle) ?? null);
+  });
+
+  handleWithValidation<UpdateWatchlistRequest, Watchlist>(IPC_CHANNELS.WATCHLISTS_UPDATE, async (request) => {
+    return getDatabase().updateWatchlist(request.id, {
+      name: request.name,
+      defaultTradingStyle: validStyle(request.defaultTradingStyle),
+    });
+  });
+
+  handleWithValidation<string, Watchlist[]>(IPC_CHANNELS.WATCHLISTS_DELETE, async (id) => {
+    const db = getDatabase();
+    db.deleteWatchlist(id);
+    return db.listWatchlists();
+  });
+
+  handleWithValidation<string, WatchlistItem[]>(IPC_CHANNELS.WATCHLIST_GET, async (watchlistId) => {
+    const db = getDatabase();
+    if (watchlistId === DEFAULT_WATCHLIST_ID) {
+      db.seedWatchlistIfEmpty(WATCHLIST_DEFAULTS);
+    }
+    return db.getWatchlistItems(watchlistId);
+  });
+
+  handleWithValidation<AddWatchlistItemRequest, WatchlistItem[]>(IPC_CHANNELS.WATCHLIST_ADD, async (request) => {
     const db = getDatabase();
-    db.seedWatchlistIfEmpty(WATCHLIST_DEFAULTS);
-    return db.getWatchlist();
+    db.addToWatchlist(request.symbol, request.watchlistId, {
+      assetClass: validAssetClass(request.assetClass),
+      tier: validTier(request.tier),
+      notes: request.notes,
+    });
+    return db.getWatchlistItems(request.watchlistId);
   });
 
-  handleWithValidation<string, string[]>(IPC_CHANNELS.WATCHLIST_ADD, async (symbol) => {
+  handleWithValidation<UpdateWatchlistItemRequest, WatchlistItem[]>(
+    IPC_CHANNELS.WATCHLIST_UPDATE_ITEM,
+    async (request) => {
+      const db = getDatabase();
+      db.updateWatchlistItem(request.watchlistId, request.symbol, {
+        assetClass: validAssetClass(request.assetClass),
+        tier: validTier(request.tier),
+        notes: request.notes,
+      });
+      return db.getWatchlistItems(request.watchlistId);
+    }
+  );
+
+  handleWithValidation<RemoveWatchlistItemRequest, WatchlistItem[]>(IPC_CHANNELS.WATCHLIST_REMOVE, async (request) => {
     const db = getDatabase();
-    db.addToWatchlist(symbol);
-    return db.getWatchlist();
+    db.removeFromWatchlist(request.symbol, request.watchlistId);
+    return db.getWatchlistItems(request.watchlistId);
   });
 
-  handleWithValidation<string, string[]>(IPC_CHANNELS.WATCHLIST_REMOVE, async (symbol) => {
+  handleWithValidation<ReorderWatchlistRequest, WatchlistItem[]>(IPC_CHANNELS.WATCHLIST_REORDER, async (request) => {
     const db = getDatabase();
-    db.removeFromWatchlist(symbol);
-    return db.getWatchlist();
+    db.reorderWatchlist(request.watchlistId, request.symbols);
+    return db.getWatchlistItems(request.watchlistId);
+  });
+
+  handleWithValidation<ImportWatchlistRequest | undefined, ImportWatchlistResult>(
+    IPC_CHANNELS.WATCHLIST_IMPORT,
+    async (request) => {
+      return importWatchlistFile(request ?? {});
+    }
+  );
+
+  handleWithValidation<ExportWatchlistRequest, ExportFileResult>(IPC_CHANNELS.WATCHLIST_EXPORT, async (request) => {
+    if (!Object.hasOwn(WATCHLIST_FILE_EXTENSIONS, request.format)) {
+      throw new Error(`Unknown watchlist format: ${String(request.format)}`);
+    }
+    return exportWatchlistFile(request);
   });
 }
 
@@ -900,6 +1626,14 @@ export function unregisterIpcHandlers(): void {
  * Clean up resources (call on app quit)
  */
 export function cleanupIpcResources(): void {
+  if (screenerScheduler) {
+    screenerScheduler.stop();
+    screenerScheduler = null;
+  }
+  if (scanPool) {
+    scanPool.close();
+    scanPool = null;
+  }
   if (db) {
     db.close();
     db = null;
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the setup backtester and its export
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { BacktestTrade, StratTradeLevels } from '@shared/ipc-types';
+import { backtestSeries, breakDownTrades, runBacktest, simulateTrade, summarizeTrades } from '../backtest';
+import { serializeBacktest } from '../backtest-export';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { OhlcCandle } from '../market-data';
+import { zonedTimeToUtc } from '../market-session';
+import { candle } from './candle-fixtures';
+
+/** 2-down, inside bar, 2-up: a bullish 2-1-2 reversal triggering at 100, stop 90, target 104 */
+const reversal = (): OhlcCandle[] => [candle(105, 95), candle(104, 90), candle(100, 92), candle(102, 93, { open: 95 })];
+
+const levels = (overrides: Partial<StratTradeLevels> = {}): StratTradeLevels => ({
+  timeframe: '1D',
+  pattern: '2-1-2-reversal',
+  bias: 'bullish',
+  trigger: 100,
+  stop: 90,
+  target: 104,
+  inForce: true,
+  lastPrice: 101,
+  ...overrides,
+});
+
+function trade(overrides: Partial<BacktestTrade> = {}): BacktestTrade {
+  return {
+    symbol: 'AAPL',
+    timeframe: '1D',
+    pattern: '2-1-2-reversal',
+    bias: 'bullish',
+    ftfc: true,
+    entryTime: 0,
+    entry: 100,
+    stop: 90,
+    target: 104,
+    outcome: 'target',
+    exitTime: 0,
+    exit: 104,
+    r: 0.4,
+    bars: 1,
+    ...overrides,
+  };
+}
+
+describe('simulateTrade', () => {
+  it('should exit at the target and measure R against the stop', () => {
+    const result = simulateTrade([...reversal(), candle(106, 99)], 3, levels());
+
+    expect(result).toMatchObject({ entry: 100, outcome: 'target', exit: 104, r: 0.4, bars: 1 });
+  });
+
+  it('should count the target on the trigger candle itself', () => {
+    const candles = reversal();
+    candles[3] = candle(105, 93, { open: 95 });
+
+    expect(simulateTrade(candles, 3, levels())).toMatchObject({ outcome: 'target', bars: 0 });
+  });
+
+  it('should assume the stop first when a candle spans both', () => {
+    expect(simulateTrade([...reversal(), candle(110, 85)], 3, levels())).toMatchObject({ outcome: 'stop', r: -1 });
+  });
+
+  it('should fill gaps at the open', () => {
+    const gapDown = candle(88, 80, { open: 87 });
+    const gapUp = reversal();
+    gapUp[3] = candle(103, 98, { open: 101 });
+
+    expect(simulateTrade([...reversal(), gapDown], 3, levels())).toMatchObject({ exit: 87, r: -1.3 });
+    expect(simulateTrade([...gapUp, candle(106, 100)], 3, levels())).toMatchObject({ entry: 101, r: 3 / 11 });
+  });
+
+  it('should close at market after the hold limit and wait for more data before that', () => {
+    const drifting = [...reversal(), candle(102, 95), candle(103, 96)];
+
+    expect(simulateTrade(drifting, 3, levels(), 2)).toMatchObject({ outcome: 'expired', exit: 99.5, bars: 2 });
+    expect(simulateTrade(drifting, 3, levels(), 3)).toBe('unresolved');
+  });
+
+  it('should not trade a setup without room to its target', () => {
+    expect(simulateTrade(reversal(), 3, levels({ target: null }))).toBeNull();
+  });
+});
+
+describe('backtestSeries', () => {
+  it('should trade each combo once and judge FTFC from the candles forming at entry', () => {
+    const candles = [...reversal(), candle(106, 99)].map((c, i) => ({ ...c, timestamp: i * 86_400 }));
+    const higherBelow = [candle(110, 80, { open: 85 })];
+    const higherAbove = [candle(110, 80, { open: 105 })];
+
+    const aligned = backtestSeries('AAPL', '1D', candles, [higherBelow]);
+    const against = backtestSeries('AAPL', '1D', candles, [higherAbove]);
+
+    expect(aligned.trades).toEqual([
+      trade({ entryTime: 3 * 86_400, exitTime: 4 * 86_400, ftfc: true }),
+    ]);
+    expect(against.trades[0].ftfc).toBe(false);
+  });
+
+  it('should count a gap entry at the open as FTFC', () => {
+    const gapUp = [...reversal().slice(0, 3), candle(103, 101, { open: 101 }), candle(106, 101)];
+    const candles = gapUp.map((c, i) => ({ ...c, timestamp: i * 86_400 }));
+    const higherOpeningWithIt = [candle(110, 80, { open: 101, timestamp: 3 * 86_400 })];
+
+    const result = backtestSeries('AAPL', '1D', candles, [higherOpeningWithIt]);
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ entry: 101, ftfc: true });
+  });
+});
+
+describe('breakDownTrades', () => {
+  it('should report win rate, average R and bars to target per slice', () => {
+    const trades = [
+      trade({ bars: 2, r: 1 }),
+      trade({ outcome: 'stop', r: -1, ftfc: false }),
+      trade({ pattern: 'rev-strat', timeframe: '1W', bars: 4, r: 2 }),
+    ];
+
+    const result = breakDownTrades(trades, ['1D', '1W']);
+
+    expect(result.summary).toEqual({
+      trades: 3, wins: 2, losses: 1, expired: 0, winRate: 2 / 3, avgR: 2 / 3, avgBarsToTarget: 3,
+    });
+    expect(result.bySetup.map((g) => [g.pattern, g.trades])).toEqual([['2-1-2-reversal', 2], ['rev-strat', 1]]);
+    expect(result.byFtfc.map((g) => [g.ftfc, g.winRate])).toEqual([[true, 1], [false, 0]]);
+    expect(result.breakdown.map((g) => [g.pattern, g.timeframe, g.ftfc])).toEqual([
+      ['2-1-2-reversal', '1D', true],
+      ['2-1-2-reversal', '1D', false],
+      ['rev-strat', '1W', true],
+    ]);
+  });
+
+  it('should leave averages empty without trades', () => {
+    expect(summarizeTrades([])).toMatchObject({ trades: 0, winRate: null, avgR: null, avgBarsToTarget: null });
+  });
+});
+
+describe('runBacktest', () => {
+  const monday = zonedTimeToUtc(2024, 7, 15, 9, 30) / 1000;
+  const provider = new ReplayMarketDataProvider([
+    {
+      symbol: 'AAPL',
+      interval: '1d',
+      candles: [...reversal(), candle(106, 99)].map((c, i) => ({ ...c, timestamp: monday + i * 86_400 })),
+    },
+  ]);
+  const options = { provider, tradingStyle: 'position-trade' as const, timeframes: ['1D'] };
+
+  it('should backtest completed candles and report symbols without data', async () => {
+    const result = await runBacktest(['AAPL', 'MSFT'], { ...options, now: () => zonedTimeToUtc(2024, 7, 22, 12, 0) });
+
+    expect(result.summary).toMatchObject({ trades: 1, wins: 1 });
+    expect(result.errors).toEqual([{ symbol: 'MSFT', error: 'No recorded fixture for MSFT (1d)' }]);
+    expect(serializeBacktest(result, 'csv').split('\n')[1]).toBe(
+      'AAPL,1D,2-1-2-reversal,bullish,yes,2024-07-18 09:30 ET,100.00,90.00,104.00,target,2024-07-19 09:30 ET,104.00,0.40,1'
+    );
+    expect(serializeBacktest(result, 'markdown')).toContain('| 2-1-2-reversal | 1 | 100% | +0.40R | 1.0 | 1 / 0 / 0 |');
+  });
+
+  it('should leave the forming candle out', async () => {
+    const result = await runBacktest(['AAPL'], { ...options, now: () => zonedTimeToUtc(2024, 7, 19, 11, 0) });
+
+    expect(result.summary.trades).toBe(0);
+    expect(result.unresolved).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for calendar-anchored candle aggregation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateCandles, bucketStart } from '../candle-aggregation';
+import { zonedTimeToUtc } from '../market-session';
+import type { OhlcCandle } from '../market-data';
+import { candle } from './candle-fixtures';
+
+/** Unix seconds for an ET wall-clock time */
+const et = (y: number, mo: number, d: number, h: number, mi = 0): number => zonedTimeToUtc(y, mo, d, h, mi) / 1000;
+
+/** A bar that opens at its low and closes at its high, volume 1 */
+function upBar(high: number, low: number, timestamp: number): OhlcCandle {
+  return candle(high, low, { timestamp, open: low, close: high, volume: 1 });
+}
+
+/** Regular-session 1h bars for one day: 9:30, 10:30 … 15:30 */
+function sessionHours(y: number, mo: number, d: number): OhlcCandle[] {
+  return [0, 1, 2, 3, 4, 5, 6].map((i) => upBar(110 + i, 100 + i, et(y, mo, d, 9 + i, 30)));
+}
+
+describe('bucketStart', () => {
+  it('should anchor intraday buckets to the 9:30 open', () => {
+    expect(bucketStart(et(2024, 7, 15, 12, 30), '4h')).toBe(et(2024, 7, 15, 9, 30));
+    expect(bucketStart(et(2024, 7, 15, 13, 30), '4h')).toBe(et(2024, 7, 15, 13, 30));
+    expect(bucketStart(et(2024, 7, 15, 12, 30), '2h')).toBe(et(2024, 7, 15, 11, 30));
+    expect(bucketStart(et(2024, 7, 15, 15, 30), '12h')).toBe(et(2024, 7, 15, 9, 30));
+  });
+
+  it('should anchor futures buckets to the 18:00 ET open and crypto to midnight UTC', () => {
+    expect(bucketStart(et(2024, 7, 15, 20), '4h', 'cme-futures')).toBe(et(2024, 7, 15, 18));
+    expect(bucketStart(et(2024, 7, 16, 1), '4h', 'cme-futures')).toBe(et(2024, 7, 15, 22));
+    expect(bucketStart(et(2024, 7, 16, 3), '12h', 'cme-futures')).toBe(et(2024, 7, 15, 18));
+    expect(bucketStart(Date.parse('2024-07-15T13:00:00Z') / 1000, '4h', 'crypto')).toBe(Date.parse('2024-07-15T12:00:00Z') / 1000);
+  });
+
+  it('should use calendar quarters and years', () => {
+    expect(bucketStart(et(2024, 8, 1, 0), '3mo')).toBe(et(2024, 7, 1, 0));
+    expect(bucketStart(et(2024, 8, 1, 0), '1y')).toBe(et(2024, 1, 1, 0));
+  });
+});
+
+describe('aggregateCandles', () => {
+  it('should build a 4-bar and a 3-bar 4H candle per session', () => {
+    const candles = aggregateCandles(sessionHours(2024, 7, 15), '4h');
+
+    expect(candles).toEqual([
+      { timestamp: et(2024, 7, 15, 9, 30), open: 100, high: 113, low: 100, close: 113, volume: 4 },
+      { timestamp: et(2024, 7, 15, 13, 30), open: 104, high: 116, low: 104, close: 116, volume: 3 },
+    ]);
+  });
+
+  it('should keep later buckets anchored when a source bar is missing', () => {
+    const hours = sessionHours(2024, 7, 15).filter((_, i) => i !== 1);
+
+    const candles = aggregateCandles([...hours, ...sessionHours(2024, 7, 16)], '4h');
+
+    expect(candles.map((c) => c.timestamp)).toEqual([
+      et(2024, 7, 15, 9, 30),
+      et(2024, 7, 15, 13, 30),
+      et(2024, 7, 16, 9, 30),
+      et(2024, 7, 16, 13, 30),
+    ]);
+    expect(candles[0].volume).toBe(3);
+  });
+
+  it('should drop a leading bucket that started before the first source bar', () => {
+    const candles = aggregateCandles(sessionHours(2024, 7, 15).slice(2), '4h');
+
+    expect(candles.map((c) => c.timestamp)).toEqual([et(2024, 7, 15, 13, 30)]);
+  });
+
+  it('should build quarters from monthly bars', () => {
+    const months = [5, 6, 7, 8, 9, 10].map((m) => upBar(m + 10, m, et(2024, m, 1, 0)));
+
+    const quarters = aggregateCandles(months, '3mo');
+
+    // May–June is a partial Q2 and is dropped; October starts a forming Q4
+    expect(quarters).toHaveLength(2);
+    expect(quarters[0]).toEqual({ timestamp: et(2024, 7, 1, 0), open: 7, high: 19, low: 7, close: 19, volume: 3 });
+  });
+
+  it('should build years from monthly bars', () => {
+    const months = Array.from({ length: 14 }, (_, i) => upBar(i + 10, i, et(2023, 1 + i, 1, 0)));
+
+    expect(aggregateCandles(months, '1y').map((c) => c.timestamp)).toEqual([et(2023, 1, 1, 0), et(2024, 1, 1, 0)]);
+  });
+});
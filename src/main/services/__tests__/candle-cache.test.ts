@@ -0,0 +1,124 @@
+/**
+ * Unit tests for CachedMarketDataProvider
+ * Uses an in-memory CandleStore and a mocked upstream provider
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CachedMarketDataProvider } from '../candle-cache';
+import type { CandleStore } from '../candle-cache';
+import type { CandleRequest, MarketDataProvider, OhlcCandle } from '../market-data';
+import { candle } from './candle-fixtures';
+
+const HOUR = 3600;
+const NOW_MS = 1_700_000_000_000;
+const NOW = NOW_MS / 1000;
+
+/** A candle that opens and closes at `close`, one point either side */
+function bar(timestamp: number, close = 100): OhlcCandle {
+  return candle(close + 1, close - 1, { timestamp, open: close, close });
+}
+
+/** Minimal in-memory implementation of the DatabaseService candle methods */
+function createMemoryStore(): CandleStore {
+  const candles = new Map<string, Map<number, OhlcCandle>>();
+  const series = new Map<string, { coveredFrom: number; lastFetchedAt: number }>();
+  const key = (symbol: string, interval: string): string => `${symbol}:${interval}`;
+
+  return {
+    upsertCandles(symbol, interval, rows) {
+      const bucket = candles.get(key(symbol, interval)) ?? new Map<number, OhlcCandle>();
+      rows.forEach((c) => bucket.set(c.timestamp, c));
+      candles.set(key(symbol, interval), bucket);
+    },
+    getCandles(symbol, interval, since = 0) {
+      const bucket = candles.get(key(symbol, interval)) ?? new Map<number, OhlcCandle>();
+      return [...bucket.values()].filter((c) => c.timestamp >= since).sort((a, b) => a.timestamp - b.timestamp);
+    },
+    getCandleSeries(symbol, interval) {
+      const s = series.get(key(symbol, interval));
+      if (!s) return null;
+      const stamps = [...(candles.get(key(symbol, interval))?.keys() ?? [])];
+      return { ...s, latest: stamps.length ? Math.max(...stamps) : null };
+    },
+    setCandleSeries(symbol, interval, coveredFrom) {
+      series.set(key(symbol, interval), { coveredFrom, lastFetchedAt: now() });
+    },
+  };
+}
+
+let clock = NOW_MS;
+const now = (): number => clock;
+
+describe('CachedMarketDataProvider', () => {
+  let store: CandleStore;
+  let fetchCandles: ReturnType<typeof vi.fn<(request: CandleRequest) => Promise<OhlcCandle[]>>>;
+  let provider: CachedMarketDataProvider;
+
+  beforeEach(() => {
+    clock = NOW_MS;
+    store = createMemoryStore();
+    fetchCandles = vi.fn();
+    const upstream: MarketDataProvider = { source: 'yahoo', batchDelayMs: 600, fetchCandles };
+    provider = new CachedMarketDataProvider(upstream, store, now);
+  });
+
+  it('should do a full fetch when nothing is cached', async () => {
+    fetchCandles.mockResolvedValue([bar(NOW - 2 * HOUR), bar(NOW - HOUR)]);
+
+    const result = await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    expect(fetchCandles).toHaveBeenCalledWith({ symbol: 'AAPL', interval: '1h', range: '1d' });
+    expect(result).toHaveLength(2);
+    expect(provider.batchDelayMs).toBe(600);
+  });
+
+  it('should only request bars from the latest cached bar on refresh', async () => {
+    fetchCandles.mockResolvedValueOnce([bar(NOW - 2 * HOUR), bar(NOW - HOUR, 100)]);
+    await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    clock += 5 * 60_000;
+    fetchCandles.mockResolvedValueOnce([bar(NOW - HOUR, 105), bar(NOW, 106)]);
+    const result = await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    expect(fetchCandles).toHaveBeenLastCalledWith({ symbol: 'AAPL', interval: '1h', range: '1d', since: NOW - HOUR });
+    expect(result.map((c) => c.close)).toEqual([100, 105, 106]);
+  });
+
+  it('should serve from cache without fetching when refreshed recently', async () => {
+    fetchCandles.mockResolvedValueOnce([bar(NOW - HOUR)]);
+    await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    clock += 10_000;
+    await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    expect(fetchCandles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should do a full fetch when a longer range is requested than is cached', async () => {
+    fetchCandles.mockResolvedValueOnce([bar(NOW - HOUR)]);
+    await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    fetchCandles.mockResolvedValueOnce([bar(NOW - 48 * HOUR), bar(NOW - HOUR)]);
+    const result = await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '5d' });
+
+    expect(fetchCandles).toHaveBeenLastCalledWith({ symbol: 'AAPL', interval: '1h', range: '5d' });
+    expect(result).toHaveLength(2);
+  });
+
+  it('should fall back to cached bars when the upstream fetch fails', async () => {
+    fetchCandles.mockResolvedValueOnce([bar(NOW - HOUR)]);
+    await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    clock += 5 * 60_000;
+    fetchCandles.mockRejectedValueOnce(new Error('offline'));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const result = await provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' });
+
+    expect(result).toHaveLength(1);
+  });
+
+  it('should rethrow upstream errors when nothing is cached', async () => {
+    fetchCandles.mockRejectedValueOnce(new Error('offline'));
+    await expect(provider.fetchCandles({ symbol: 'AAPL', interval: '1h', range: '1d' })).rejects.toThrow('offline');
+  });
+});
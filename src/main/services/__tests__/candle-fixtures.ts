@@ -0,0 +1,12 @@
+/**
+ * Candle builder shared by the tests. Always high then low, with a check
+ * that they aren't swapped; open and close default to the midpoint and
+ * anything else is set through `overrides`.
+ */
+
+import type { OhlcCandle } from '../market-data';
+
+export function candle(high: number, low: number, overrides: Partial<OhlcCandle> = {}): OhlcCandle {
+  if (high < low) throw new Error(`Candle high ${high} is below its low ${low}`);
+  return { timestamp: 0, open: (high + low) / 2, high, low, close: (high + low) / 2, volume: 1000, ...overrides };
+}
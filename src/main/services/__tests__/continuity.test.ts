@@ -0,0 +1,57 @@
+/**
+ * Unit tests for open-based Full Timeframe Continuity
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeContinuity } from '../continuity';
+import type { OhlcCandle } from '../market-data';
+import { candle } from './candle-fixtures';
+
+/** A body-only candle: high and low at its open and close */
+function bar(timestamp: number, open: number, close = open): OhlcCandle {
+  return candle(Math.max(open, close), Math.min(open, close), { timestamp, open, close });
+}
+
+/** M / W / D / 60 / 15 series whose current candles open at the given prices; last price is 100 */
+function seriesWithOpens(opens: number[]): OhlcCandle[][] {
+  return opens.map((open, i) => [bar(i, 50), bar(1000 + i, open, i === opens.length - 1 ? 100 : open)]);
+}
+
+describe('computeContinuity', () => {
+  it('should report full bullish continuity when price is above every open', () => {
+    const result = computeContinuity(seriesWithOpens([80, 90, 95, 98, 99]));
+
+    expect(result).toMatchObject({ lastPrice: 100, score: 5, direction: 'bullish' });
+    expect(result?.timeframes.map((t) => t.timeframe)).toEqual(['M', 'W', 'D', '60', '15']);
+  });
+
+  it('should report the open, distance and state per timeframe', () => {
+    const result = computeContinuity(seriesWithOpens([80, 125, 100, 98, 99]));
+
+    expect(result?.timeframes[0]).toEqual({ timeframe: 'M', open: 80, distance: 20, distancePct: 25, state: 'green' });
+    expect(result?.timeframes[1]).toMatchObject({ open: 125, distance: -25, distancePct: -20, state: 'red' });
+    expect(result?.timeframes[2].state).toBe('flat');
+    expect(result).toMatchObject({ score: 2, direction: null });
+  });
+
+  it('should report full bearish continuity', () => {
+    expect(computeContinuity(seriesWithOpens([120, 110, 105, 102, 101]))).toMatchObject({
+      score: -5,
+      direction: 'bearish',
+    });
+  });
+
+  it('should use the most recent close as the last price', () => {
+    const series = seriesWithOpens([80, 90, 95, 98, 99]);
+    series[2].push(bar(2000, 95, 97));
+
+    expect(computeContinuity(series)?.lastPrice).toBe(97);
+  });
+
+  it('should return null when a timeframe has no candles', () => {
+    const series = seriesWithOpens([80, 90, 95, 98, 99]);
+    series[4] = [];
+
+    expect(computeContinuity(series)).toBeNull();
+  });
+});
@@ -5,7 +5,10 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DatabaseService } from '../database';
+import { DEFAULT_WATCHLIST_ID } from '@shared/ipc-types';
 import type { Conversation } from '@shared/models';
+import type { ScreenerScanResponse, ScreenerTradingStyle } from '@shared/ipc-types';
+import { result, scan } from './screener-fixtures';
 
 describe('DatabaseService', () => {
   let db: DatabaseService;
@@ -151,6 +154,26 @@ describe('DatabaseService', () => {
     it('should throw error when deleting non-existent trade', () => {
       expect(() => db.deleteTrade('non-existent-id')).toThrow('Trade not found');
     });
+
+    it('should keep paper trades apart from live ones', () => {
+      const base = { direction: 'long' as const, quantity: 10, stratSetup: '2-1-2', timeframe: '1D', entryTimestamp: Date.now() };
+      const live = db.createTrade({ ...base, ticker: 'AAPL', entry: 100, exit: 110, pnl: 100 });
+      db.createTrade({ ...base, ticker: 'TSLA', entry: 200, exit: 190, pnl: -100, simulated: true });
+      db.createTrade({ ...base, ticker: 'AMD', entry: 120, exit: 126, pnl: 60, simulated: true });
+      db.createTrade({ ...base, ticker: 'NVDA', entry: 400, simulated: true });
+
+      expect(live.simulated).toBe(false);
+      expect(db.listTrades(10, 0, false).map((t) => t.ticker)).toEqual(['AAPL']);
+      expect(db.listTrades(10, 0, true).every((t) => t.simulated)).toBe(true);
+      expect(db.listTrades(10, 0)).toHaveLength(4);
+      expect(db.listOpenTrades(true).map((t) => t.ticker)).toEqual(['NVDA']);
+      expect(db.listOpenTrades(false)).toEqual([]);
+
+      expect(db.getTradePerformance(true)).toEqual({
+        simulated: true, trades: 3, open: 1, wins: 1, losses: 1, winRate: 0.5, totalPnl: -40,
+      });
+      expect(db.getTradePerformance(false)).toMatchObject({ trades: 1, wins: 1, winRate: 1, totalPnl: 100 });
+    });
   });
 
   describe('Conversation Operations', () => {
@@ -348,6 +371,191 @@ describe('DatabaseService', () => {
     });
   });
 
+  describe('Watchlist Operations', () => {
+    it('should start with the built-in default list', () => {
+      expect(db.listWatchlists()).toEqual([
+        expect.objectContaining({ id: DEFAULT_WATCHLIST_ID, name: 'Main', defaultTradingStyle: null, symbolCount: 0 }),
+      ]);
+      expect(() => db.deleteWatchlist(DEFAULT_WATCHLIST_ID)).toThrow('cannot be deleted');
+    });
+
+    it('should create, rename and delete named lists', () => {
+      const list = db.createWatchlist('Mag 7', 'swing-trade');
+      expect(() => db.createWatchlist(' Mag 7 ')).toThrow('already exists');
+
+      const renamed = db.updateWatchlist(list.id, { name: 'Magnificent 7', defaultTradingStyle: null });
+      expect(renamed).toMatchObject({ name: 'Magnificent 7', defaultTradingStyle: null });
+
+      db.addToWatchlist('aapl', list.id);
+      db.deleteWatchlist(list.id);
+      expect(db.listWatchlists().map((l) => l.id)).toEqual([DEFAULT_WATCHLIST_ID]);
+      expect(db.getWatchlist(list.id)).toEqual([]);
+    });
+
+    it('should keep symbols separate per list and order them by tier, then position', () => {
+      const futures = db.createWatchlist('Futures');
+      db.addToWatchlist('tsla');
+      db.addToWatchlist('aapl', DEFAULT_WATCHLIST_ID, { tier: 1, notes: 'earnings Thu' });
+      db.addToWatchlist('nvda');
+      db.addToWatchlist('es=f', futures.id);
+
+      expect(db.getWatchlist()).toEqual(['AAPL', 'TSLA', 'NVDA']);
+      expect(db.getWatchlist(futures.id)).toEqual(['ES=F']);
+      expect(db.getWatchlistItems()[0]).toMatchObject({ symbol: 'AAPL', tier: 1, notes: 'earnings Thu' });
+    });
+
+    it('should reorder, retier and annotate symbols', () => {
+      ['AAPL', 'MSFT', 'NVDA'].forEach((s) => db.addToWatchlist(s));
+
+      db.reorderWatchlist(DEFAULT_WATCHLIST_ID, ['NVDA', 'AAPL']);
+      expect(db.getWatchlist()).toEqual(['NVDA', 'AAPL', 'MSFT']);
+
+      db.updateWatchlistItem(DEFAULT_WATCHLIST_ID, 'msft', { tier: 1, notes: 'inside week' });
+      expect(db.getWatchlistItems()[0]).toMatchObject({ symbol: 'MSFT', tier: 1, notes: 'inside week' });
+      expect(() => db.updateWatchlistItem(DEFAULT_WATCHLIST_ID, 'AMD', { tier: 1 })).toThrow('not on watchlist');
+    });
+
+    it('should guess asset classes from the ticker and let them be changed', () => {
+      db.addToWatchlist('es=f');
+      db.addToWatchlist('btc-usd');
+      db.addToWatchlist('spy', DEFAULT_WATCHLIST_ID, { assetClass: 'etf' });
+
+      db.updateWatchlistItem(DEFAULT_WATCHLIST_ID, 'BTC-USD', { assetClass: 'forex' });
+
+      expect(db.getWatchlistItems().map((item) => [item.symbol, item.assetClass])).toEqual([
+        ['ES=F', 'future'],
+        ['BTC-USD', 'forex'],
+        ['SPY', 'etf'],
+      ]);
+    });
+
+    it('should only seed an empty list', () => {
+      db.seedWatchlistIfEmpty([{ symbol: 'spy', tier: 1 }, { symbol: 'qqq', tier: 1 }]);
+      db.seedWatchlistIfEmpty([{ symbol: 'iwm', tier: 1 }]);
+
+      expect(db.getWatchlist()).toEqual(['SPY', 'QQQ']);
+    });
+  });
+
+  describe('Trading Style Operations', () => {
+    it('should store, overwrite and delete a style override', () => {
+      expect(db.getTradingStyleOverrides()).toEqual([]);
+
+      db.saveTradingStyle('swing-trade', ['1H', '1D']);
+      db.saveTradingStyle('swing-trade', ['4H', '1D', '1W']);
+
+      const overrides = db.getTradingStyleOverrides();
+      expect(overrides).toHaveLength(1);
+      expect(overrides[0]).toMatchObject({ id: 'swing-trade', timeframes: ['4H', '1D', '1W'] });
+
+      db.deleteTradingStyle('swing-trade');
+      expect(db.getTradingStyleOverrides()).toEqual([]);
+    });
+  });
+
+  describe('Screener Schedule', () => {
+    it('should store and overwrite the one schedule', () => {
+      expect(db.getScreenerSchedule()).toBeNull();
+
+      db.saveScreenerSchedule({ tradingStyle: 'swing-trade', watchlistId: DEFAULT_WATCHLIST_ID, enabled: true });
+      db.saveScreenerSchedule({ tradingStyle: 'day-trade', watchlistId: DEFAULT_WATCHLIST_ID, enabled: false });
+
+      expect(db.getScreenerSchedule()).toEqual({ tradingStyle: 'day-trade', watchlistId: DEFAULT_WATCHLIST_ID, enabled: false });
+    });
+  });
+
+  describe('Screener Scan History', () => {
+    const scanAt = (scannedAt: string, tradingStyle: ScreenerTradingStyle = 'swing-trade'): ScreenerScanResponse =>
+      scan([result('NVDA', { direction: 'bullish', alignment: 'full-ftfc' }), result('AMD')], {
+        scannedAt,
+        duration: 850,
+        tradingStyle,
+      });
+
+    it('should store a scan and read it back in order', () => {
+      const id = db.saveScreenerScan(scanAt('2024-07-15T14:05:00.000Z'));
+
+      expect(db.getScreenerScan(id)).toEqual({ ...scanAt('2024-07-15T14:05:00.000Z'), scanId: id });
+      expect(db.getScreenerScan('missing')).toBeNull();
+    });
+
+    it('should list scans newest first with counts and filters', () => {
+      db.saveScreenerScan(scanAt('2024-07-15T14:05:00.000Z'));
+      db.saveScreenerScan(scanAt('2024-07-15T15:05:00.000Z'));
+      db.saveScreenerScan(scanAt('2024-07-15T15:35:00.000Z', 'day-trade'));
+
+      const swing = db.listScreenerScans({ tradingStyle: 'swing-trade' });
+      expect(swing.map((s) => s.scannedAt)).toEqual(['2024-07-15T15:05:00.000Z', '2024-07-15T14:05:00.000Z']);
+      expect(swing[0]).toMatchObject({ symbolCount: 2, fullFtfcCount: 1, timeframeLabels: ['1H', '4H', '1D'] });
+
+      expect(db.listScreenerScans({ since: '2024-07-15T15:00:00.000Z' })).toHaveLength(2);
+      expect(db.listScreenerScans({ limit: 1 })).toHaveLength(1);
+    });
+
+    it('should prune scans older than a cutoff along with their results', () => {
+      const oldId = db.saveScreenerScan(scanAt('2024-07-01T14:05:00.000Z'));
+      db.saveScreenerScan(scanAt('2024-07-15T14:05:00.000Z'));
+
+      expect(db.deleteScreenerScansBefore(Date.parse('2024-07-10T00:00:00.000Z'))).toBe(1);
+      expect(db.getScreenerScan(oldId)).toBeNull();
+      const orphans = db.getDb().prepare('SELECT COUNT(*) AS n FROM screener_scan_results WHERE scan_id = ?').get(oldId);
+      expect(orphans).toEqual({ n: 0 });
+    });
+  });
+
+  describe('Replay Training Scores', () => {
+    it('should update a session score in place and list sessions newest first', () => {
+      const score = {
+        id: 'session-1', symbol: 'SPY', timeframe: '1D', totalBars: 20, bars: 1,
+        labelCorrect: 1, setupCorrect: 0, triggerCorrect: 0, triggerTotal: 0, startedAt: 1000, updatedAt: 1000,
+      };
+      db.saveReplayScore(score);
+      db.saveReplayScore({ ...score, bars: 2, setupCorrect: 1, updatedAt: 2000 });
+      db.saveReplayScore({ ...score, id: 'session-2', symbol: 'QQQ', startedAt: 3000, updatedAt: 3000 });
+
+      const scores = db.listReplayScores();
+
+      expect(scores.map((s) => s.symbol)).toEqual(['QQQ', 'SPY']);
+      expect(scores[1]).toEqual({ ...score, bars: 2, setupCorrect: 1, updatedAt: 2000 });
+    });
+  });
+
+  describe('Candle Cache Operations', () => {
+    const bars = [
+      { timestamp: 1_700_000_000, open: 10, high: 12, low: 9, close: 11, volume: 100 },
+      { timestamp: 1_700_003_600, open: 11, high: 13, low: 10, close: 12, volume: 200 },
+    ];
+
+    it('should store and read candles in timestamp order', () => {
+      db.upsertCandles('aapl', '1h', [bars[1], bars[0]]);
+
+      const candles = db.getCandles('AAPL', '1h');
+      expect(candles).toEqual(bars);
+      expect(db.getCandles('AAPL', '1h', 1_700_003_600)).toHaveLength(1);
+    });
+
+    it('should replace a bar with the same timestamp', () => {
+      db.upsertCandles('AAPL', '1h', bars);
+      db.upsertCandles('AAPL', '1h', [{ ...bars[1], close: 12.5 }]);
+
+      const candles = db.getCandles('AAPL', '1h');
+      expect(candles).toHaveLength(2);
+      expect(candles[1].close).toBe(12.5);
+    });
+
+    it('should track series coverage and the latest bar', () => {
+      expect(db.getCandleSeries('AAPL', '1h')).toBeNull();
+
+      db.upsertCandles('AAPL', '1h', bars);
+      db.setCandleSeries('AAPL', '1h', 1_699_990_000);
+
+      const series = db.getCandleSeries('AAPL', '1h');
+      expect(series?.coveredFrom).toBe(1_699_990_000);
+      expect(series?.latest).toBe(1_700_003_600);
+      expect(series?.lastFetchedAt).toBeGreaterThan(0);
+    });
+  });
+
   describe('Migration System', () => {
     it('should create migrations table', () => {
       const migrations = db
@@ -373,6 +581,15 @@ describe('DatabaseService', () => {
       expect(tableNames).toContain('conversations');
       expect(tableNames).toContain('messages');
       expect(tableNames).toContain('screenshots');
+      expect(tableNames).toContain('candles');
+      expect(tableNames).toContain('trading_styles');
+      expect(tableNames).toContain('screener_scans');
+      expect(tableNames).toContain('watchlists');
+      expect(tableNames).toContain('watchlist_items');
+      expect(tableNames).not.toContain('watchlist');
+      expect(tableNames).toContain('screener_scan_results');
+      expect(tableNames).toContain('replay_sessions');
+      expect(tableNames).toContain('screener_schedule');
       expect(tableNames).toContain('migrations');
     });
   });
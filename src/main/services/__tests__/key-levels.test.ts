@@ -0,0 +1,104 @@
+/**
+ * Unit tests for key level derivation (PDH/PDL … PYH/PYL, HOD/LOD)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { computeKeyLevels, formatKeyLevels, getKeyLevels } from '../key-levels';
+import type { KeyLevelCandles } from '../key-levels';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { OhlcCandle } from '../market-data';
+import { zonedTimeToUtc } from '../market-session';
+import { candle } from './candle-fixtures';
+
+/** Unix seconds for an ET wall-clock time */
+const et = (y: number, mo: number, d: number, h = 9, mi = 30): number => zonedTimeToUtc(y, mo, d, h, mi) / 1000;
+
+/** Every month of 2023 and Jan–Jul 2024; 2023's extremes fall in March and October */
+function monthly(): OhlcCandle[] {
+  const bars: OhlcCandle[] = [];
+  for (let m = 1; m <= 12; m++) bars.push(candle(m === 3 ? 180 : 150, m === 10 ? 110 : 130, { timestamp: et(2023, m, 1) }));
+  for (let m = 1; m <= 7; m++) bars.push(candle(200 + m, 190 + m, { timestamp: et(2024, m, 1) }));
+  return bars;
+}
+
+const candles: KeyLevelCandles = {
+  // Wed–Fri, 10–12 July 2024
+  daily: [
+    candle(201, 195, { timestamp: et(2024, 7, 10) }),
+    candle(204, 198, { timestamp: et(2024, 7, 11) }),
+    candle(203, 199, { timestamp: et(2024, 7, 12) }),
+  ],
+  weekly: [candle(206, 193, { timestamp: et(2024, 7, 1) }), candle(204, 195, { timestamp: et(2024, 7, 8) })],
+  monthly: monthly(),
+};
+
+const prices = (levels: ReturnType<typeof computeKeyLevels>): Record<string, number> =>
+  Object.fromEntries(levels.levels.map((l) => [l.id, l.price]));
+
+describe('computeKeyLevels', () => {
+  it('should take prior-period levels from completed bars and HOD/LOD from the forming day', () => {
+    const duringSession = et(2024, 7, 12, 11, 0) * 1000;
+
+    const result = computeKeyLevels('AAPL', candles, duringSession);
+
+    expect(prices(result)).toEqual({
+      HOD: 203, LOD: 199,
+      PDH: 204, PDL: 198,
+      PWH: 206, PWL: 193,
+      PMH: 206, PML: 196,
+      PYH: 180, PYL: 110,
+    });
+    expect(result.lastPrice).toBe(201);
+    expect(result.levels.find((l) => l.id === 'PWH')?.label).toBe('Previous week high');
+  });
+
+  it('should drop HOD/LOD after the close and treat the finished session as the previous day', () => {
+    const afterClose = et(2024, 7, 12, 17, 0) * 1000;
+
+    const result = prices(computeKeyLevels('AAPL', candles, afterClose));
+
+    expect(result.HOD).toBeUndefined();
+    expect(result.LOD).toBeUndefined();
+    expect(result).toMatchObject({ PDH: 203, PDL: 199 });
+  });
+
+  it('should split the forming day by the session it is given', () => {
+    const afterEquityClose = et(2024, 7, 12, 17, 0) * 1000;
+
+    const result = prices(computeKeyLevels('AAPL', candles, afterEquityClose, 'crypto'));
+
+    expect(result).toMatchObject({ HOD: 203, LOD: 199, PDH: 204, PDL: 198 });
+  });
+
+  it('should leave out levels without enough history', () => {
+    const result = computeKeyLevels('NEWCO', { daily: [], weekly: [], monthly: [] }, Date.now());
+
+    expect(result.levels).toEqual([]);
+    expect(result.lastPrice).toBeNull();
+  });
+});
+
+describe('getKeyLevels', () => {
+  it('should fetch daily, weekly and monthly bars from the provider', async () => {
+    const provider = new ReplayMarketDataProvider([
+      { symbol: 'AAPL', interval: '1d', candles: candles.daily },
+      { symbol: 'AAPL', interval: '1wk', candles: candles.weekly },
+      { symbol: 'AAPL', interval: '1mo', candles: candles.monthly },
+    ]);
+
+    const result = await getKeyLevels('AAPL', provider, et(2024, 7, 12, 11, 0) * 1000);
+
+    expect(prices(result).PYH).toBe(180);
+    await expect(getKeyLevels('MSFT', provider)).rejects.toThrow('No recorded fixture');
+  });
+});
+
+describe('formatKeyLevels', () => {
+  it('should render one line of chat context', () => {
+    const result = computeKeyLevels('AAPL', candles, et(2024, 7, 12, 17, 0) * 1000);
+
+    expect(formatKeyLevels(result)).toBe(
+      'AAPL (last 201.00): PDH 203.00, PDL 199.00, PWH 204.00, PWL 195.00, PMH 206.00, PML 196.00, PYH 180.00, PYL 110.00'
+    );
+  });
+});
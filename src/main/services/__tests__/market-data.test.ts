@@ -0,0 +1,182 @@
+/**
+ * Unit tests for market data providers
+ * File and replay providers run against real temp files — no network
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  FileMarketDataProvider,
+  ReplayMarketDataProvider,
+  RecordingMarketDataProvider,
+  parseCandleCsv,
+  rangeToSeconds,
+} from '../market-data';
+import type { CandleFixture, OhlcCandle } from '../market-data';
+import { scanWatchlist } from '../screener';
+import { candle } from './candle-fixtures';
+
+const DAY = 86_400;
+
+/** Each candle takes out the previous high only → a run of 2-ups */
+function risingCandles(count: number, start = 1_700_000_000, step = DAY): OhlcCandle[] {
+  return Array.from({ length: count }, (_, i) => candle(105 + i, 100 + i, { timestamp: start + i * step, open: 100 + i, close: 105 + i }));
+}
+
+describe('rangeToSeconds', () => {
+  it('should convert Yahoo ranges', () => {
+    expect(rangeToSeconds('15d')).toBe(15 * DAY);
+    expect(rangeToSeconds('2y')).toBe(2 * 366 * DAY);
+    expect(rangeToSeconds('max')).toBeNull();
+  });
+
+  it('should reject unknown ranges', () => {
+    expect(() => rangeToSeconds('ten days')).toThrow('Unsupported range');
+  });
+});
+
+describe('parseCandleCsv', () => {
+  it('should parse ISO dates and missing volume', () => {
+    const candles = parseCandleCsv('Date,Open,High,Low,Close\n2024-01-02,10,12,9,11\n');
+    expect(candles).toEqual([
+      { timestamp: Date.parse('2024-01-02') / 1000, open: 10, high: 12, low: 9, close: 11, volume: 0 },
+    ]);
+  });
+
+  it('should normalise millisecond timestamps to seconds', () => {
+    const candles = parseCandleCsv('timestamp,open,high,low,close,volume\n1700000000000,1,2,0.5,1.5,10');
+    expect(candles[0].timestamp).toBe(1_700_000_000);
+  });
+
+  it('should throw when a price column is missing', () => {
+    expect(() => parseCandleCsv('timestamp,open,high,close\n1,1,1,1')).toThrow('"low"');
+  });
+});
+
+describe('FileMarketDataProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strat-market-data-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should read JSON files and slice to the range from the newest candle', async () => {
+    fs.writeFileSync(path.join(dir, 'AAPL.1d.json'), JSON.stringify(risingCandles(40)));
+    const provider = new FileMarketDataProvider(dir);
+
+    const candles = await provider.fetchCandles({ symbol: 'aapl', interval: '1d', range: '10d' });
+
+    expect(candles).toHaveLength(11);
+    expect(candles[candles.length - 1].high).toBe(105 + 39);
+  });
+
+  it('should read CSV files', async () => {
+    fs.writeFileSync(
+      path.join(dir, 'SPY.1h.csv'),
+      'timestamp,open,high,low,close,volume\n1700003600,2,3,1,2,5\n1700000000,1,2,0,1,5\n'
+    );
+    const provider = new FileMarketDataProvider(dir);
+
+    const candles = await provider.fetchCandles({ symbol: 'SPY', interval: '1h', range: '1d' });
+
+    expect(candles.map((c) => c.timestamp)).toEqual([1_700_000_000, 1_700_003_600]);
+  });
+
+  it('should throw when no file exists', async () => {
+    const provider = new FileMarketDataProvider(dir);
+    await expect(provider.fetchCandles({ symbol: 'NVDA', interval: '1d', range: '30d' })).rejects.toThrow(
+      'No local data for NVDA'
+    );
+  });
+});
+
+describe('ReplayMarketDataProvider', () => {
+  const fixtures: CandleFixture[] = [{ symbol: 'AAPL', interval: '1d', candles: risingCandles(5) }];
+
+  it('should serve recorded candles', async () => {
+    const provider = new ReplayMarketDataProvider(fixtures);
+    const candles = await provider.fetchCandles({ symbol: 'AAPL', interval: '1d', range: '30d' });
+    expect(candles).toHaveLength(5);
+  });
+
+  it('should hide candles after the asOf cursor', async () => {
+    const provider = new ReplayMarketDataProvider(fixtures);
+    provider.setAsOf(fixtures[0].candles[2].timestamp);
+
+    const candles = await provider.fetchCandles({ symbol: 'AAPL', interval: '1d', range: '30d' });
+
+    expect(candles).toHaveLength(3);
+  });
+
+  it('should throw for symbols that were not recorded', async () => {
+    const provider = new ReplayMarketDataProvider(fixtures);
+    await expect(provider.fetchCandles({ symbol: 'MSFT', interval: '1d', range: '30d' })).rejects.toThrow(
+      'No recorded fixture'
+    );
+  });
+
+  it('should replay what a recording provider captured', async () => {
+    const recorder = new RecordingMarketDataProvider(new ReplayMarketDataProvider(fixtures));
+    await recorder.fetchCandles({ symbol: 'AAPL', interval: '1d', range: '30d' });
+
+    const replay = new ReplayMarketDataProvider(recorder.getFixtures());
+    const candles = await replay.fetchCandles({ symbol: 'AAPL', interval: '1d', range: '30d' });
+
+    expect(candles).toEqual(fixtures[0].candles);
+  });
+});
+
+describe('scanWatchlist with a replay provider', () => {
+  it('should scan without touching the network', async () => {
+    const provider = new ReplayMarketDataProvider([
+      { symbol: 'AAPL', interval: '1d', candles: risingCandles(30) },
+      { symbol: 'AAPL', interval: '1wk', candles: risingCandles(30, 1_700_000_000, 7 * DAY) },
+      { symbol: 'AAPL', interval: '1mo', candles: risingCandles(30, 1_600_000_000, 31 * DAY) },
+    ]);
+
+    const response = await scanWatchlist(['AAPL', 'MSFT'], 'position-trade', { provider });
+
+    expect(response.dataSource).toBe('replay');
+    const [aapl, msft] = response.results;
+    expect(aapl.error).toBeUndefined();
+    expect(aapl.alignment).toBe('full-ftfc');
+    expect(aapl.direction).toBe('bullish');
+    expect(msft.error).toContain('No recorded fixture');
+  });
+
+  it('should report each symbol as it finishes', async () => {
+    const provider = new ReplayMarketDataProvider([{ symbol: 'AAPL', interval: '1d', candles: risingCandles(30) }]);
+    const progress: Array<[string, number, number]> = [];
+
+    await scanWatchlist(['AAPL', 'MSFT'], 'position-trade', {
+      provider,
+      timeframes: ['1D'],
+      onResult: (result, completed, total) => progress.push([result.symbol, completed, total]),
+    });
+
+    expect(progress.map(([, completed, total]) => [completed, total])).toEqual([[1, 2], [2, 2]]);
+    expect(progress.map(([symbol]) => symbol).sort()).toEqual(['AAPL', 'MSFT']);
+  });
+
+  it('should stop after the current batch when aborted and flag the response', async () => {
+    const provider = new ReplayMarketDataProvider([]);
+    const controller = new AbortController();
+    const symbols = ['A', 'B', 'C', 'D', 'E', 'F', 'G'];
+
+    const response = await scanWatchlist(symbols, 'position-trade', {
+      provider,
+      timeframes: ['1D'],
+      signal: controller.signal,
+      onResult: () => controller.abort(),
+    });
+
+    expect(response.cancelled).toBe(true);
+    expect(response.results.map((r) => r.symbol)).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for market session math (America/New_York)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { candleCloseTime, getZonedParts, zonedTimeToUtc } from '../market-session';
+
+/** Unix seconds for an ET wall-clock time */
+const et = (y: number, mo: number, d: number, h: number, mi = 0): number => zonedTimeToUtc(y, mo, d, h, mi) / 1000;
+
+describe('zonedTimeToUtc', () => {
+  it('should apply EDT in summer and EST in winter', () => {
+    expect(new Date(zonedTimeToUtc(2024, 7, 15, 9, 30)).toISOString()).toBe('2024-07-15T13:30:00.000Z');
+    expect(new Date(zonedTimeToUtc(2024, 1, 15, 9, 30)).toISOString()).toBe('2024-01-15T14:30:00.000Z');
+  });
+
+  it('should round-trip through getZonedParts on a DST change day', () => {
+    const parts = getZonedParts(zonedTimeToUtc(2024, 3, 10, 16, 0));
+    expect(parts).toMatchObject({ year: 2024, month: 3, day: 10, hour: 16, minute: 0, weekday: 0 });
+  });
+});
+
+describe('candleCloseTime', () => {
+  it('should close intraday bars after their interval', () => {
+    expect(candleCloseTime(et(2024, 7, 15, 10, 30), '1h')).toBe(et(2024, 7, 15, 11, 30) * 1000);
+    expect(candleCloseTime(et(2024, 7, 15, 9, 30), '15m')).toBe(et(2024, 7, 15, 9, 45) * 1000);
+  });
+
+  it('should cap intraday bars at the session close', () => {
+    expect(candleCloseTime(et(2024, 7, 15, 15, 30), '1h')).toBe(et(2024, 7, 15, 16) * 1000);
+    expect(candleCloseTime(et(2024, 7, 15, 13, 30), '4h')).toBe(et(2024, 7, 15, 16) * 1000);
+  });
+
+  it('should close daily bars at 16:00 ET', () => {
+    expect(candleCloseTime(et(2024, 1, 16, 9, 30), '1d')).toBe(Date.parse('2024-01-16T21:00:00Z'));
+  });
+
+  it('should close weekly bars on Friday', () => {
+    expect(candleCloseTime(et(2024, 7, 15, 0), '1wk')).toBe(et(2024, 7, 19, 16) * 1000);
+  });
+
+  it('should follow the session of futures and crypto', () => {
+    // ES=F's Tuesday session runs from 18:00 Monday to 17:00 Tuesday
+    expect(candleCloseTime(et(2024, 7, 15, 18), '1d', 'cme-futures')).toBe(et(2024, 7, 16, 17) * 1000);
+    expect(candleCloseTime(et(2024, 7, 16, 14), '4h', 'cme-futures')).toBe(et(2024, 7, 16, 17) * 1000);
+    expect(candleCloseTime(et(2024, 7, 15, 0), '1wk', 'cme-futures')).toBe(et(2024, 7, 19, 17) * 1000);
+    // Crypto weeks run Monday to Monday UTC, months to midnight on the 1st
+    const monday = Date.parse('2024-07-15T00:00:00Z') / 1000;
+    expect(candleCloseTime(monday, '1wk', 'crypto')).toBe(Date.parse('2024-07-22T00:00:00Z'));
+    expect(candleCloseTime(monday, '1mo', 'crypto')).toBe(Date.parse('2024-08-01T00:00:00Z'));
+  });
+
+  it('should follow holidays and half days', () => {
+    // Good Friday 2024 moves the weekly close to Thursday
+    expect(candleCloseTime(et(2024, 3, 25, 0), '1wk')).toBe(et(2024, 3, 28, 16) * 1000);
+    expect(candleCloseTime(et(2024, 11, 29, 9, 30), '1d')).toBe(et(2024, 11, 29, 13) * 1000);
+    expect(candleCloseTime(et(2024, 11, 29, 12, 30), '1h')).toBe(et(2024, 11, 29, 13) * 1000);
+    // 31 Dec 2024 is a full session; 24 Dec isn't the month's last day
+    expect(candleCloseTime(et(2024, 12, 2, 0), '1mo')).toBe(et(2024, 12, 31, 16) * 1000);
+  });
+
+  it('should close monthly bars on the last weekday of the month', () => {
+    // June 2024 ends on a Sunday
+    expect(candleCloseTime(et(2024, 6, 1, 0), '1mo')).toBe(et(2024, 6, 28, 16) * 1000);
+    expect(candleCloseTime(et(2024, 7, 1, 0), '1mo')).toBe(et(2024, 7, 31, 16) * 1000);
+  });
+
+  it('should close quarterly and yearly bars on their final month', () => {
+    expect(candleCloseTime(et(2024, 7, 1, 0), '3mo')).toBe(et(2024, 9, 30, 16) * 1000);
+    // Dec 31 2023 is a Sunday
+    expect(candleCloseTime(et(2023, 1, 1, 0), '1y')).toBe(et(2023, 12, 29, 16) * 1000);
+  });
+});
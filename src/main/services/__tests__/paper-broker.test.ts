@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the paper trading broker
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { PlacePaperOrderRequest } from '@shared/ipc-types';
+import type { Trade } from '@shared/models';
+import { PaperBroker } from '../paper-broker';
+import type { PaperJournal } from '../paper-broker';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { OhlcCandle } from '../market-data';
+import { candle } from './candle-fixtures';
+
+const T0 = 1_720_000_000; // unix seconds
+/** Start of the i-th 5m candle */
+const at = (i: number): number => T0 + i * 300;
+
+/** In-memory stand-in for DatabaseService's trade journal */
+class MemoryJournal implements PaperJournal {
+  trades: Trade[] = [];
+
+  createTrade(trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>): Trade {
+    const created = { ...trade, id: `t${this.trades.length + 1}`, createdAt: 0, updatedAt: 0 };
+    this.trades.push(created);
+    return created;
+  }
+
+  updateTrade(id: string, updates: Partial<Omit<Trade, 'id' | 'createdAt'>>): Trade {
+    const trade = this.trades.find((t) => t.id === id)!;
+    Object.assign(trade, updates);
+    return trade;
+  }
+
+  listOpenTrades(simulated: boolean): Trade[] {
+    return this.trades.filter((t) => (t.simulated ?? false) === simulated && t.exit === undefined);
+  }
+}
+
+function order(overrides: Partial<PlacePaperOrderRequest> = {}): PlacePaperOrderRequest {
+  return { symbol: 'aapl', direction: 'long', type: 'stop', price: 101, quantity: 10, timeframe: '1H', ...overrides };
+}
+
+describe('PaperBroker', () => {
+  let journal: MemoryJournal;
+  let now: number;
+
+  /** A broker replaying two quiet candles then `later`, with the clock inside the second one */
+  const broker = (...later: OhlcCandle[]): PaperBroker => {
+    const quiet = [candle(100, 99, { timestamp: at(0) }), candle(100.5, 99.5, { timestamp: at(1) })];
+    const candles = [...quiet, ...later];
+    return new PaperBroker({
+      journal,
+      providerFor: () => new ReplayMarketDataProvider([{ symbol: 'AAPL', interval: '5m', candles }]),
+      now: () => now,
+    });
+  };
+
+  beforeEach(() => {
+    journal = new MemoryJournal();
+    now = (T0 + 310) * 1000;
+  });
+
+  it('should fill a stop order once price trades through the trigger and journal it as paper', async () => {
+    const paper = broker(candle(102, 100, { timestamp: at(2), open: 100.2 }));
+    const placed = await paper.placeOrder(order({ stopLoss: 98, takeProfit: 105, stratSetup: '2-1-2-reversal' }));
+
+    expect((await paper.sync()).positions).toEqual([]);
+
+    now = (T0 + 600) * 1000;
+    const state = await paper.sync();
+
+    expect(state.orders[0]).toMatchObject({ id: placed.id, symbol: 'AAPL', status: 'filled', tradeId: 't1' });
+    expect(journal.trades).toEqual([
+      expect.objectContaining({
+        ticker: 'AAPL', entry: 101, stopLoss: 98, takeProfit: 105, stratSetup: '2-1-2-reversal', simulated: true,
+        entryTimestamp: (T0 + 600) * 1000,
+      }),
+    ]);
+  });
+
+  it('should fill at the open when a candle gaps past the trigger', async () => {
+    const paper = broker(candle(98.5, 97, { timestamp: at(2), open: 98 }));
+    await paper.placeOrder(order({ direction: 'short', price: 99 }));
+    now = (T0 + 600) * 1000;
+
+    await paper.sync();
+
+    expect(journal.trades[0]).toMatchObject({ direction: 'short', entry: 98 });
+  });
+
+  it('should close a bracket at the target on a later candle and book the P&L', async () => {
+    const paper = broker(candle(102, 100, { timestamp: at(2), open: 100.2 }), candle(106, 101, { timestamp: at(3) }));
+    await paper.placeOrder(order({ stopLoss: 98, takeProfit: 105 }));
+    now = (T0 + 900) * 1000;
+
+    const state = await paper.sync();
+
+    expect(state.positions).toEqual([]);
+    expect(journal.trades[0]).toMatchObject({ exit: 105, pnl: 40, exitTimestamp: (T0 + 900) * 1000 });
+  });
+
+  it('should take the stop when a candle reaches both ends of the bracket', async () => {
+    const paper = broker(candle(102, 100, { timestamp: at(2), open: 100.2 }), candle(106, 97, { timestamp: at(3) }));
+    await paper.placeOrder(order({ stopLoss: 98, takeProfit: 105 }));
+    now = (T0 + 900) * 1000;
+
+    await paper.sync();
+
+    expect(journal.trades[0]).toMatchObject({ exit: 98, pnl: -30 });
+  });
+
+  it('should fill an order once when syncs overlap', async () => {
+    const paper = broker(candle(102, 100, { timestamp: at(2), open: 100.2 }));
+    await paper.placeOrder(order());
+    now = (T0 + 600) * 1000;
+
+    const [first, second] = await Promise.all([paper.sync(), paper.sync()]);
+
+    expect(second).toBe(first);
+    expect(journal.trades).toHaveLength(1);
+    expect(first.positions).toHaveLength(1);
+  });
+
+  it('should not fill an order cancelled while a sync fetches candles', async () => {
+    const paper = broker(candle(102, 100, { timestamp: at(2), open: 100.2 }));
+    const placed = await paper.placeOrder(order());
+    now = (T0 + 600) * 1000;
+
+    const syncing = paper.sync();
+    paper.cancelOrder(placed.id);
+    await syncing;
+
+    expect(journal.trades).toEqual([]);
+  });
+
+  it('should fill market orders at the last close and close positions on request', async () => {
+    const paper = broker(candle(103, 101, { timestamp: at(2) }));
+    const placed = await paper.placeOrder(order({ type: 'market', price: undefined }));
+
+    expect(placed.status).toBe('filled');
+    expect(journal.trades[0].entry).toBe(100);
+
+    now = (T0 + 600) * 1000;
+    const closed = await paper.closePosition(placed.tradeId!);
+
+    expect(closed).toMatchObject({ exit: 102, pnl: 20 });
+  });
+
+  it('should fill limit orders at the limit or better', async () => {
+    const paper = broker(candle(99.5, 98.5, { timestamp: at(2), open: 99 }));
+    await paper.placeOrder(order({ type: 'limit', price: 99.2 }));
+    now = (T0 + 600) * 1000;
+
+    await paper.sync();
+
+    expect(journal.trades[0].entry).toBe(99);
+  });
+
+  it('should reject brackets on the wrong side of the entry and cancel working orders', async () => {
+    const paper = broker(candle(102, 100, { timestamp: at(2) }));
+
+    await expect(paper.placeOrder(order({ stopLoss: 102 }))).rejects.toThrow('Stop loss 102 must be below the entry');
+    await expect(paper.placeOrder(order({ type: 'limit', price: undefined }))).rejects.toThrow('A limit order needs a price');
+
+    const placed = await paper.placeOrder(order());
+    expect(paper.cancelOrder(placed.id).status).toBe('cancelled');
+    now = (T0 + 600) * 1000;
+    await paper.sync();
+    expect(journal.trades).toEqual([]);
+  });
+
+  it('should pick open paper positions back up from the journal', async () => {
+    journal.createTrade({
+      ticker: 'AAPL', direction: 'long', entry: 100, stopLoss: 99.6, quantity: 10,
+      stratSetup: '3-1-2', timeframe: '1H', entryTimestamp: T0 * 1000, simulated: true,
+    });
+    journal.createTrade({
+      ticker: 'MSFT', direction: 'long', entry: 400, quantity: 1, stratSetup: 'custom', timeframe: '1D', entryTimestamp: 0,
+    });
+
+    const state = await broker().sync();
+
+    expect(state.positions).toEqual([]);
+    expect(journal.trades[0]).toMatchObject({ exit: 99.6, exitTimestamp: (T0 + 300) * 1000 });
+    expect(journal.trades[1].exit).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for guardrail red flags on screener rows
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { StratContinuity, StratTradeLevels } from '@shared/ipc-types';
+import { detectRedFlags, findMotherBar } from '../red-flags';
+import type { RedFlagInput } from '../red-flags';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { OhlcCandle } from '../market-data';
+import { zonedTimeToUtc } from '../market-session';
+import { scanWatchlist } from '../screener';
+import { candle } from './candle-fixtures';
+import { tf } from './screener-fixtures';
+
+const DAY = 86_400;
+
+function level(timeframe: string, bias: 'bullish' | 'bearish'): StratTradeLevels {
+  return { timeframe, pattern: '2-1-2-reversal', bias, trigger: 100, stop: 95, target: 110, inForce: false, lastPrice: 99 };
+}
+
+function input(overrides: Partial<RedFlagInput> = {}): RedFlagInput {
+  return {
+    timeframes: [],
+    direction: null,
+    levels: [],
+    continuity: null,
+    weekly: null,
+    now: Date.now(),
+    session: 'us-equity',
+    ...overrides,
+  };
+}
+
+const reasons = (flags: ReturnType<typeof detectRedFlags>): string[] => flags.map((f) => f.reason);
+
+describe('detectRedFlags', () => {
+  it('should flag a direction that rests only on 2-2 continuations', () => {
+    const bullish = { candle1: '2-up', candle2: '2-up', shape1: null, shape2: null, direction: 'bullish' } as const;
+    const timeframes = [
+      { result: tf('1H', { check: bullish }), candles: [] },
+      { result: tf('1D', { check: bullish }), candles: [] },
+    ];
+
+    const flags = detectRedFlags(input({ timeframes, direction: 'bullish' }));
+
+    expect(flags).toEqual([
+      {
+        reason: '2-2-continuation',
+        timeframes: ['1H', '1D'],
+        message: 'Bullish 2-2 continuation on 1H, 1D — momentum, not an entry trigger',
+      },
+    ]);
+    // An entry pattern the same way makes the row actionable
+    expect(detectRedFlags(input({ timeframes, direction: 'bullish', levels: [level('1H', 'bullish')] }))).toEqual([]);
+  });
+
+  it('should flag price stuck inside a mother bar', () => {
+    const timeframes = [{ result: tf('1D'), candles: [candle(100, 90), candle(120, 80), candle(110, 90), candle(105, 95)] }];
+
+    expect(detectRedFlags(input({ timeframes }))).toMatchObject([{ reason: 'mother-bar', timeframes: ['1D'] }]);
+  });
+
+  it('should flag the highest timeframe forming an inside bar', () => {
+    const timeframes = [
+      { result: tf('1D', { live: '1' }), candles: [] },
+      { result: tf('1W', { live: '1' }), candles: [] },
+    ];
+
+    expect(detectRedFlags(input({ timeframes }))).toMatchObject([{ reason: 'tightening-range', timeframes: ['1W'] }]);
+  });
+
+  it('should flag an inside week only on Thursday and Friday', () => {
+    const monday = zonedTimeToUtc(2024, 7, 15, 9, 30) / 1000;
+    const weekly = [candle(120, 80, { timestamp: monday - 7 * DAY }), candle(110, 90, { timestamp: monday })];
+
+    const wednesday = input({ weekly, now: zonedTimeToUtc(2024, 7, 17, 11, 0) });
+    const thursday = input({ weekly, now: zonedTimeToUtc(2024, 7, 18, 11, 0) });
+    const brokeOut = input({ weekly: [weekly[0], candle(125, 90, { timestamp: monday })], now: thursday.now });
+
+    expect(detectRedFlags(wednesday)).toEqual([]);
+    expect(detectRedFlags(thursday)).toMatchObject([
+      { reason: 'late-week-inside', message: 'Still inside the previous week on Thursday — little time left to break out' },
+    ]);
+    expect(detectRedFlags(brokeOut)).toEqual([]);
+  });
+
+  it('should flag patterns against full timeframe continuity', () => {
+    const continuity: StratContinuity = { lastPrice: 99, timeframes: [], score: 5, direction: 'bullish' };
+
+    const flags = detectRedFlags(input({ continuity, levels: [level('1H', 'bearish'), level('1D', 'bullish')] }));
+
+    expect(flags).toEqual([
+      { reason: 'against-ftfc', timeframes: ['1H'], message: '1H 2-1-2-reversal bearish against bullish FTFC' },
+    ]);
+  });
+});
+
+describe('findMotherBar', () => {
+  it('should need at least two candles inside and the latest one still inside', () => {
+    expect(findMotherBar([candle(100, 90), candle(120, 80), candle(110, 90), candle(105, 95)])).toBe(1);
+    expect(findMotherBar([candle(120, 80), candle(110, 90)])).toBe(-1);
+    expect(findMotherBar([candle(120, 80), candle(110, 90), candle(125, 95)])).toBe(-1);
+  });
+});
+
+describe('scanWatchlist red flags', () => {
+  it('should mark a full FTFC row built from 2-2 continuations', async () => {
+    const rising = (step: number): OhlcCandle[] =>
+      Array.from({ length: 30 }, (_, i) =>
+        candle(105 + i, 100 + i, { timestamp: 1_700_000_000 + i * step, open: 100 + i, close: 105 + i })
+      );
+    const provider = new ReplayMarketDataProvider(
+      ['1d', '1wk', '1mo'].map((interval, i) => ({
+        symbol: 'AAPL',
+        interval: interval as '1d' | '1wk' | '1mo',
+        candles: rising([DAY, 7 * DAY, 31 * DAY][i]),
+      }))
+    );
+
+    const response = await scanWatchlist(['AAPL'], 'position-trade', { provider, now: () => 1_800_000_000_000 });
+
+    expect(response.results[0].alignment).toBe('full-ftfc');
+    expect(reasons(response.results[0].redFlags)).toEqual(['2-2-continuation']);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for bar-by-bar replay training
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ReplayScore } from '@shared/ipc-types';
+import { ReplayTrainer, readReplayBar, scoreReplayBar, triggerChoices } from '../replay-training';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { OhlcCandle } from '../market-data';
+import { zonedTimeToUtc } from '../market-session';
+import { candle } from './candle-fixtures';
+
+const FIRST_OPEN = zonedTimeToUtc(2024, 7, 1, 9, 30) / 1000;
+
+/**
+ * Five context bars, then an inside bar, a 2-up completing a bullish 3-1-2
+ * (trigger 111) and a 2-down completing a bearish Rev Strat (trigger 100)
+ */
+const history = (): OhlcCandle[] =>
+  [
+    [110, 100], [112, 101], [113, 99], [111, 100], [112, 98],
+    [111, 99], [113, 100], [112, 97],
+  ].map(([high, low], i) => candle(high, low, { timestamp: FIRST_OPEN + i * 86_400 }));
+
+describe('readReplayBar', () => {
+  it('should read the label, the combo the bar completes and its trigger', () => {
+    const candles = history();
+
+    expect(readReplayBar(candles, 5, '1D')).toEqual({ label: '1', setup: 'none', bias: null, trigger: null });
+    expect(readReplayBar(candles, 6, '1D')).toEqual({ label: '2-up', setup: '3-1-2', bias: 'bullish', trigger: 111 });
+    expect(readReplayBar(candles, 7, '1D')).toEqual({
+      label: '2-down', setup: 'rev-strat', bias: 'bearish', trigger: 100,
+    });
+  });
+
+  it('should offer the two prior bars\' highs and lows as triggers', () => {
+    expect(triggerChoices(history(), 6)).toEqual([112, 111, 99, 98]);
+  });
+});
+
+describe('scoreReplayBar', () => {
+  it('should mark each call and leave the trigger unscored without a combo', () => {
+    const candles = history();
+
+    expect(scoreReplayBar(candles, 5, { label: '2-down', setup: 'none', trigger: null }, '1D')).toMatchObject({
+      labelCorrect: false, setupCorrect: true, triggerCorrect: null,
+    });
+    expect(scoreReplayBar(candles, 7, { label: '2-down', setup: '2-2-reversal', trigger: 100 }, '1D')).toMatchObject({
+      labelCorrect: true, setupCorrect: false, triggerCorrect: true,
+    });
+  });
+});
+
+describe('ReplayTrainer', () => {
+  let saved: ReplayScore[];
+  let now: number;
+
+  const trainer = (candles = history()): ReplayTrainer =>
+    new ReplayTrainer({
+      store: { saveReplayScore: (score) => saved.push(score) },
+      providerFor: () => new ReplayMarketDataProvider([{ symbol: 'SPY', interval: '1d', candles }]),
+      now: () => now,
+      random: () => 0.99,
+    });
+
+  beforeEach(() => {
+    saved = [];
+    now = zonedTimeToUtc(2024, 8, 1, 12, 0);
+  });
+
+  it('should reveal one bar per call and save the running score', async () => {
+    const replay = trainer();
+    const session = await replay.start({ symbol: 'spy', timeframe: '1D', bars: 3 });
+
+    expect(session.candles).toHaveLength(6);
+    expect(session.candles[5]).toEqual({ timestamp: FIRST_OPEN + 5 * 86_400, open: 105, high: 111, low: 99, close: 105 });
+    expect(session.score).toMatchObject({ symbol: 'SPY', timeframe: '1D', totalBars: 3, bars: 0 });
+
+    replay.answer({ sessionId: session.id, label: '1', setup: 'none', trigger: null });
+    const second = replay.answer({ sessionId: session.id, label: '2-up', setup: '3-1-2', trigger: 111 });
+    expect(second.candles).toHaveLength(8);
+    expect(second.triggerChoices).toEqual([113, 111, 100, 99]);
+
+    const done = replay.answer({ sessionId: session.id, label: '2-down', setup: '2-2-reversal', trigger: 113 });
+
+    expect(done.done).toBe(true);
+    expect(done.triggerChoices).toEqual([]);
+    expect(done.results.map((r) => r.setup)).toEqual(['none', '3-1-2', 'rev-strat']);
+    expect(done.score).toMatchObject({ bars: 3, labelCorrect: 3, setupCorrect: 2, triggerCorrect: 1, triggerTotal: 2 });
+    expect(saved.map((s) => s.bars)).toEqual([1, 2, 3]);
+    expect(() => replay.answer({ sessionId: session.id, label: '1', setup: 'none', trigger: null })).toThrow(
+      'Replay session already finished'
+    );
+  });
+
+  it('should start somewhere in the completed history and fit the session to it', async () => {
+    const longer = [...history(), ...history().map((c) => ({ ...c, timestamp: c.timestamp + 8 * 86_400 }))];
+    now = (longer[longer.length - 1].timestamp + 3600) * 1000; // last bar still forming
+
+    const session = await trainer(longer).start({ symbol: 'SPY', timeframe: '1D', bars: 50 });
+
+    expect(session.score.totalBars).toBe(10);
+    expect(session.candles[0].timestamp).toBe(FIRST_OPEN);
+  });
+
+  it('should refuse short histories, bad bar counts and stale sessions', async () => {
+    const replay = trainer(history().slice(0, 5));
+
+    await expect(replay.start({ symbol: 'SPY', timeframe: '1D' })).rejects.toThrow('Not enough 1D history for SPY');
+    await expect(replay.start({ symbol: 'SPY', timeframe: '1D', bars: 0 })).rejects.toThrow('Bars must be');
+    expect(() => replay.answer({ sessionId: 'nope', label: '1', setup: 'none', trigger: null })).toThrow(
+      'Replay session not found: nope'
+    );
+  });
+});
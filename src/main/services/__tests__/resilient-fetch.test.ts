@@ -0,0 +1,234 @@
+/**
+ * Unit tests for retrying fetch, Retry-After handling and the circuit breaker
+ * Requests go to a local HTTP stub on 127.0.0.1 — no network
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  CircuitBreaker,
+  ProviderThrottledError,
+  backoffDelay,
+  fetchWithRetry,
+  parseRetryAfter,
+} from '../resilient-fetch';
+import type { RetryPolicy } from '../resilient-fetch';
+import { YahooMarketDataProvider } from '../market-data';
+import { scanWatchlist } from '../screener';
+
+interface StubReply {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+  delayMs?: number;
+}
+
+const FAST: RetryPolicy = { retries: 3, baseDelayMs: 1, maxDelayMs: 4, timeoutMs: 200, maxRetryAfterMs: 5_000 };
+
+let server: http.Server;
+let baseUrl: string;
+let requests: string[];
+let reply: (n: number) => StubReply;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    requests.push(req.url ?? '');
+    const { status, headers = {}, body = '', delayMs = 0 } = reply(requests.length);
+    setTimeout(() => {
+      res.writeHead(status, headers);
+      res.end(body);
+    }, delayMs);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  requests = [];
+  reply = (): StubReply => ({ status: 200, body: 'ok' });
+});
+
+/** Daily chart JSON with a run of rising bars, enough for any style */
+function chartBody(): string {
+  const start = 1_700_000_000;
+  const timestamp = Array.from({ length: 30 }, (_, i) => start + i * 86_400);
+  const low = timestamp.map((_, i) => 100 + i);
+  const high = low.map((l) => l + 5);
+  return JSON.stringify({
+    chart: {
+      result: [{ timestamp, indicators: { quote: [{ open: low, high, low, close: high, volume: low }] } }],
+      error: null,
+    },
+  });
+}
+
+describe('parseRetryAfter', () => {
+  it('should accept delta seconds and HTTP dates', () => {
+    const now = Date.parse('2024-07-15T14:00:00Z');
+
+    expect(parseRetryAfter('7', now)).toBe(7000);
+    expect(parseRetryAfter('Mon, 15 Jul 2024 14:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter('soon', now)).toBeNull();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('should grow exponentially up to the cap with jitter in the upper half', () => {
+    const policy: RetryPolicy = { ...FAST, baseDelayMs: 500, maxDelayMs: 8000 };
+
+    expect(backoffDelay(0, policy, () => 0)).toBe(250);
+    expect(backoffDelay(2, policy, () => 1)).toBe(2000);
+    expect(backoffDelay(10, policy, () => 1)).toBe(8000);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  it('should retry 5xx responses and timeouts until one succeeds', async () => {
+    reply = (n): StubReply => (n === 1 ? { status: 503 } : n === 2 ? { status: 200, delayMs: 500 } : { status: 200, body: 'ok' });
+
+    const res = await fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST });
+
+    expect(await res.text()).toBe('ok');
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should return non-retryable responses as-is', async () => {
+    reply = (): StubReply => ({ status: 404 });
+
+    const res = await fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST });
+
+    expect(res.status).toBe(404);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should wait at least Retry-After before retrying a 429', async () => {
+    reply = (n): StubReply => (n === 1 ? { status: 429, headers: { 'Retry-After': '2' } } : { status: 200 });
+    const waits: number[] = [];
+
+    await fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST, sleep: async (ms) => void waits.push(ms) });
+
+    expect(waits).toEqual([2000]);
+  });
+
+  it('should not retry a request the caller aborted', async () => {
+    reply = (): StubReply => ({ status: 200, delayMs: 150 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      fetchWithRetry(`${baseUrl}/chart`, { signal: controller.signal }, { policy: { ...FAST, timeoutMs: 1000 } })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should give up with the last HTTP status once retries run out', async () => {
+    reply = (): StubReply => ({ status: 500 });
+
+    await expect(fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST })).rejects.toThrow('HTTP 500');
+    expect(requests).toHaveLength(4);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive 429s and fail fast without sending requests', async () => {
+    reply = (): StubReply => ({ status: 429 });
+    const breaker = new CircuitBreaker({ threshold: 2, cooldownMs: 60_000 });
+
+    await expect(fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST, breaker })).rejects.toBeInstanceOf(
+      ProviderThrottledError
+    );
+    await expect(fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST, breaker })).rejects.toBeInstanceOf(
+      ProviderThrottledError
+    );
+
+    expect(breaker.getState()).toBe('open');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should open straight away for a Retry-After past the retry limit', async () => {
+    reply = (): StubReply => ({ status: 429, headers: { 'Retry-After': '3600' } });
+    const breaker = new CircuitBreaker({ threshold: 5 });
+
+    const error = await fetchWithRetry(`${baseUrl}/chart`, {}, { policy: FAST, breaker }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ProviderThrottledError);
+    expect((error as ProviderThrottledError).retryAt).toBeGreaterThanOrEqual(Date.now() + 3_590_000);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should let one probe through after the cooldown and close on success', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ threshold: 1, cooldownMs: 1000, now: () => now });
+
+    breaker.recordThrottle(null);
+    expect(() => breaker.acquire()).toThrow(ProviderThrottledError);
+
+    now = 1000;
+    expect(breaker.getState()).toBe('half-open');
+    breaker.acquire();
+    expect(() => breaker.acquire()).toThrow(ProviderThrottledError);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should double the cooldown when the probe is throttled again', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ threshold: 1, cooldownMs: 1000, now: () => now });
+
+    breaker.recordThrottle(null);
+    now = 1000;
+    breaker.acquire();
+    breaker.recordThrottle(null);
+
+    expect(breaker.getRetryAt()).toBe(3000);
+  });
+});
+
+describe('scanWatchlist against a throttled provider', () => {
+  it('should stop and report the skipped symbols instead of per-symbol errors', async () => {
+    reply = (): StubReply => ({ status: 429 });
+    const provider = new YahooMarketDataProvider({
+      baseUrl,
+      breaker: new CircuitBreaker({ threshold: 2, cooldownMs: 60_000 }),
+      retry: { policy: FAST },
+    });
+
+    const options = { provider, timeframes: ['1D'], maxThrottlePauseMs: 0 };
+
+    const response = await scanWatchlist(['AAPL', 'MSFT', 'NVDA'], 'position-trade', options);
+    const sent = requests.length;
+    const again = await scanWatchlist(['AAPL', 'MSFT', 'NVDA'], 'position-trade', options);
+
+    expect(response.results).toEqual([]);
+    expect(response.throttled).toMatchObject({ skippedSymbols: ['AAPL', 'MSFT', 'NVDA'] });
+    expect(response.throttled?.message).toContain('Provider throttled');
+    // The open breaker holds back the next scan entirely
+    expect(again.throttled?.skippedSymbols).toHaveLength(3);
+    expect(requests).toHaveLength(sent);
+  });
+
+  it('should pause until the breaker closes and then finish the scan', async () => {
+    reply = (n): StubReply => (n <= 2 ? { status: 429 } : { status: 200, body: chartBody() });
+    const provider = new YahooMarketDataProvider({
+      baseUrl,
+      breaker: new CircuitBreaker({ threshold: 2, cooldownMs: 50 }),
+      retry: { policy: FAST },
+    });
+
+    const response = await scanWatchlist(['AAPL', 'MSFT'], 'position-trade', { provider, timeframes: ['1D'] });
+
+    expect(response.throttled).toBeUndefined();
+    expect(response.results.map((r) => [r.symbol, r.error])).toEqual([
+      ['AAPL', undefined],
+      ['MSFT', undefined],
+    ]);
+  });
+});
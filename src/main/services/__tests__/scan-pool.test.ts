@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the scan worker pool
+ * The worker side runs in-process over a MessageChannel, scanning replay fixtures
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MessageChannel } from 'worker_threads';
+import { ScanWorkerPool } from '../scan-pool';
+import type { ScanPoolWorker } from '../scan-pool';
+import { serveScanWorker } from '../scan-worker';
+import type { ScanWorkerPort } from '../scan-worker';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { CandleFixture, OhlcCandle } from '../market-data';
+import type { CandleStore } from '../candle-cache';
+import { scanWatchlist } from '../screener';
+import { candle } from './candle-fixtures';
+
+const DAY = 86_400;
+
+function risingCandles(count: number, step = DAY): OhlcCandle[] {
+  return Array.from({ length: count }, (_, i) =>
+    candle(105 + i, 100 + i, { timestamp: 1_700_000_000 + i * step, open: 100 + i, close: 105 + i })
+  );
+}
+
+const unusedStore: CandleStore = {
+  upsertCandles: vi.fn(),
+  getCandles: vi.fn(() => []),
+  getCandleSeries: vi.fn(() => null),
+  setCandleSeries: vi.fn(),
+};
+
+/** A pool worker backed by serveScanWorker on the other end of a MessageChannel */
+function channelWorker(): ScanPoolWorker {
+  const { port1, port2 } = new MessageChannel();
+  serveScanWorker(port2 as unknown as ScanWorkerPort);
+  return {
+    postMessage: (message) => port1.postMessage(message),
+    on: (event, listener) => (event === 'message' ? port1.on('message', listener) : undefined),
+    terminate: () => {
+      port1.close();
+      port2.close();
+    },
+  };
+}
+
+let dir: string;
+let fixturePath: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-pool-'));
+  fixturePath = path.join(dir, 'fixtures.json');
+  const fixtures: CandleFixture[] = ['AAPL', 'MSFT'].flatMap((symbol) => [
+    { symbol, interval: '1d', candles: risingCandles(30) },
+    { symbol, interval: '1wk', candles: risingCandles(30, 7 * DAY) },
+    { symbol, interval: '1mo', candles: risingCandles(30, 31 * DAY) },
+  ]);
+  fs.writeFileSync(fixturePath, JSON.stringify(fixtures));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('ScanWorkerPool', () => {
+  it('should produce the same results as an in-process scan', async () => {
+    const pool = new ScanWorkerPool({ store: unusedStore, size: 2, createWorker: channelWorker });
+    const symbols = ['AAPL', 'MSFT', 'TSLA'];
+    const now = (): number => 1_800_000_000_000;
+
+    const pooled = await scanWatchlist(symbols, 'position-trade', {
+      scanner: pool.scannerFor({ kind: 'replay', fixturePath }),
+      now,
+    });
+    const local = await scanWatchlist(symbols, 'position-trade', {
+      provider: ReplayMarketDataProvider.fromFile(fixturePath),
+      now,
+    });
+    pool.close();
+
+    expect(pooled.dataSource).toBe('replay');
+    expect(pooled.results).toEqual(local.results);
+    expect(pooled.results[0].alignment).toBe('full-ftfc');
+    expect(pooled.results[2].error).toContain('No recorded fixture');
+  });
+
+  it('should stop a scan when it is cancelled', async () => {
+    const pool = new ScanWorkerPool({ store: unusedStore, size: 1, createWorker: channelWorker });
+    const controller = new AbortController();
+
+    const response = await scanWatchlist(['AAPL', 'MSFT', 'A', 'B', 'C', 'D', 'E'], 'position-trade', {
+      scanner: pool.scannerFor({ kind: 'replay', fixturePath }),
+      signal: controller.signal,
+      onResult: () => controller.abort(),
+    });
+    pool.close();
+
+    expect(response.cancelled).toBe(true);
+    expect(response.results.length).toBeLessThan(7);
+  });
+
+  it('should report a crashed worker as an error row and start a new worker', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    let crash = true;
+    const createWorker = vi.fn((): ScanPoolWorker => {
+      if (!crash) return channelWorker();
+      crash = false;
+      const listeners = new Map<string, (value: unknown) => void>();
+      return {
+        postMessage: () => setTimeout(() => listeners.get('error')?.(new Error('out of memory'))),
+        on: (event, listener) => listeners.set(event, listener),
+        terminate: () => undefined,
+      };
+    });
+    const pool = new ScanWorkerPool({ store: unusedStore, size: 1, createWorker });
+    const scanner = pool.scannerFor({ kind: 'replay', fixturePath });
+
+    const first = await scanWatchlist(['AAPL'], 'position-trade', { scanner });
+    const second = await scanWatchlist(['AAPL'], 'position-trade', { scanner });
+    pool.close();
+
+    expect(first.results[0].error).toBe('Scan worker crashed: out of memory');
+    expect(second.results[0].error).toBeUndefined();
+    expect(createWorker).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for screener result export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { csvCell, defaultExportFileName, serializeScanResults } from '../screener-export';
+import type { TimeframeCheck } from '@shared/ipc-types';
+import { result, scan, tf } from './screener-fixtures';
+
+const insideBar: TimeframeCheck = { candle1: '2-down', candle2: '1', shape1: null, shape2: null, direction: 'bullish' };
+
+const response = scan(
+  [
+    result('AMD', { timeframes: [tf('1H', { check: insideBar }), tf('1D', { check: insideBar })] }),
+    result('NVDA', {
+      alignment: 'full-ftfc',
+      direction: 'bullish',
+      timeframes: [
+        tf('1H', { check: insideBar, live: '2-up' }),
+        tf('1D', {
+          check: insideBar,
+          patterns: [{ name: '2-1-2-reversal', bias: 'bullish', sequence: ['2-down', '1', '2-up'], barsAgo: 0, forming: false }],
+        }),
+      ],
+      levels: [
+        { timeframe: '1D', pattern: '2-1-2-reversal', bias: 'bullish', trigger: 104, stop: 95, target: 108, inForce: true, lastPrice: 105 },
+      ],
+    }),
+    result('TSLA', { error: 'HTTP 404, no data' }),
+  ],
+  { duration: 900, timeframeLabels: ['1H', '1D'] }
+);
+
+describe('serializeScanResults', () => {
+  it('should write a CSV row per symbol, setups first', () => {
+    const lines = serializeScanResults(response, 'csv').trim().split('\n');
+
+    expect(lines[0]).toBe('symbol,alignment,direction,1H,1D,continuity,patterns,trade_plans,error');
+    expect(lines[1]).toBe(
+      'NVDA,full-ftfc,bullish,2d 1 (2u),2d 1,-,1D 2-1-2-reversal bullish,' +
+        '"1D 2-1-2-reversal bullish: trigger 104.00, stop 95.00, target 108.00 (in force)",'
+    );
+    expect(lines.slice(2).map((l) => l.split(',')[0])).toEqual(['AMD', 'TSLA']);
+    expect(lines[3]).toBe('TSLA,none,-,-,-,-,,,"HTTP 404, no data"');
+  });
+
+  it('should write a Markdown report with a table and an errors section', () => {
+    const md = serializeScanResults(response, 'markdown');
+
+    expect(md).toContain('# Strat screener — Swing Trading (1H · 1D)');
+    expect(md).toContain('2024-07-15 10:05 ET · 3 symbols · 1 full FTFC');
+    expect(md).toContain('| Symbol | Setup | Direction | 1H | 1D | Trade plan |');
+    expect(md).toContain('| **NVDA** | Full FTFC | bullish | 2d 1 (2u) | 2d 1 |');
+    expect(md).toContain('- TSLA: HTTP 404, no data');
+    expect(md).not.toContain('| **TSLA**');
+  });
+
+  it('should write the full response as JSON', () => {
+    expect(JSON.parse(serializeScanResults(response, 'json'))).toEqual(response);
+  });
+});
+
+describe('defaultExportFileName', () => {
+  it('should name the file after the style and ET scan time', () => {
+    expect(defaultExportFileName(response, 'markdown')).toBe('screener-swing-trade-2024-07-15-1005.md');
+  });
+});
+
+describe('csvCell', () => {
+  it('should quote cells holding quotes, commas or line breaks', () => {
+    expect(csvCell('HTTP 404')).toBe('HTTP 404');
+    expect(csvCell('2u, 1')).toBe('"2u, 1"');
+    expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(csvCell('a\r\nb')).toBe('"a\r\nb"');
+    expect(csvCell('a\rb')).toBe('"a\rb"');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Screener result builders shared by the tests — a neutral row, timeframe
+ * or scan that each test overrides with just the fields it cares about.
+ */
+
+import type { ScreenerScanResponse, ScreenerSymbolResult, ScreenerTimeframeResult } from '@shared/ipc-types';
+
+export function tf(label: string, overrides: Partial<ScreenerTimeframeResult> = {}): ScreenerTimeframeResult {
+  return {
+    label,
+    check: { candle1: null, candle2: null, shape1: null, shape2: null, direction: null },
+    live: null,
+    liveShape: null,
+    liveClosesAt: null,
+    patterns: [],
+    broadening: null,
+    pmg: null,
+    ...overrides,
+  };
+}
+
+export function result(symbol: string, overrides: Partial<ScreenerSymbolResult> = {}): ScreenerSymbolResult {
+  return {
+    symbol,
+    direction: null,
+    timeframes: [],
+    alignment: 'none',
+    levels: [],
+    continuity: null,
+    redFlags: [],
+    ...overrides,
+  };
+}
+
+export function scan(results: ScreenerSymbolResult[], overrides: Partial<ScreenerScanResponse> = {}): ScreenerScanResponse {
+  return {
+    results,
+    scannedAt: '2024-07-15T14:05:00.000Z',
+    duration: 0,
+    tradingStyle: 'swing-trade',
+    timeframeLabels: ['1H', '4H', '1D'],
+    dataSource: 'yahoo',
+    ...overrides,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for screener scan history diffs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffScans, summarizeScan } from '../screener-history';
+import type { ScreenerSymbolResult, StratPattern } from '@shared/ipc-types';
+import { result, scan, tf } from './screener-fixtures';
+
+function withPattern(pattern: Partial<StratPattern>, label = '1D'): Pick<ScreenerSymbolResult, 'timeframes'> {
+  return {
+    timeframes: [
+      tf(label, {
+        check: { candle1: '1', candle2: '2-up', shape1: null, shape2: null, direction: 'bullish' },
+        patterns: [
+          { name: '2-1-2-reversal', bias: 'bullish', sequence: ['2-down', '1', '2-up'], barsAgo: 0, forming: false, ...pattern },
+        ],
+      }),
+    ],
+  };
+}
+
+describe('diffScans', () => {
+  it('should report new full FTFC names and lost alignment', () => {
+    const changes = diffScans(
+      scan([
+        result('AAPL', { alignment: 'partial', direction: 'bullish' }),
+        result('TSLA', { alignment: 'full-ftfc', direction: 'bearish' }),
+      ]),
+      scan([
+        result('AAPL', { alignment: 'full-ftfc', direction: 'bullish' }),
+        result('TSLA', { alignment: 'partial', direction: 'bearish' }),
+      ])
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ symbol: 'AAPL', kinds: ['new-full-ftfc'], alignmentBefore: 'partial', alignmentAfter: 'full-ftfc' }),
+      expect.objectContaining({ symbol: 'TSLA', kinds: ['lost-alignment'] }),
+    ]);
+  });
+
+  it('should report direction flips', () => {
+    const changes = diffScans(
+      scan([result('NVDA', { alignment: 'partial', direction: 'bullish' })]),
+      scan([result('NVDA', { alignment: 'partial', direction: 'bearish' })])
+    );
+
+    expect(changes[0].kinds).toEqual(['direction-flip']);
+  });
+
+  it('should report added and removed patterns but ignore a pattern aging by a bar', () => {
+    const before = scan([result('META', withPattern({ barsAgo: 0 }))]);
+
+    expect(diffScans(before, scan([result('META', withPattern({ barsAgo: 1 }))]))).toEqual([]);
+    expect(diffScans(before, scan([result('META', withPattern({ name: '2-2-reversal' }))]))).toEqual([
+      expect.objectContaining({
+        kinds: ['pattern-added', 'pattern-removed'],
+        patternsAdded: ['1D 2-2-reversal bullish'],
+        patternsRemoved: ['1D 2-1-2-reversal bullish'],
+      }),
+    ]);
+  });
+
+  it('should report symbols added to or removed from the watchlist', () => {
+    const changes = diffScans(scan([result('AMD')]), scan([result('SPY')]));
+
+    expect(changes.map((c) => [c.symbol, c.kinds])).toEqual([
+      ['SPY', ['added']],
+      ['AMD', ['removed']],
+    ]);
+  });
+
+  it('should not compare errored rows', () => {
+    const changes = diffScans(
+      scan([result('QQQ', { alignment: 'full-ftfc', direction: 'bullish' })]),
+      scan([result('QQQ', { error: 'timeout' })])
+    );
+
+    expect(changes).toEqual([]);
+  });
+});
+
+describe('summarizeScan', () => {
+  it('should count symbols and full FTFC names', () => {
+    const summary = summarizeScan('scan-1', scan([result('AAPL', { alignment: 'full-ftfc' }), result('AMD')]));
+
+    expect(summary).toEqual({
+      id: 'scan-1',
+      watchlistId: null,
+      tradingStyle: 'swing-trade',
+      timeframeLabels: ['1H', '4H', '1D'],
+      dataSource: 'yahoo',
+      scannedAt: '2024-07-15T14:05:00.000Z',
+      duration: 0,
+      symbolCount: 2,
+      fullFtfcCount: 1,
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for the background screener scheduler
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ScreenerScheduler, detectAlerts, nextScanTime } from '../screener-scheduler';
+import { zonedTimeToUtc } from '../market-session';
+import type { ScreenerScheduleSettings, ScreenerScheduleStore } from '../screener-scheduler';
+import type { StratTradeLevels } from '@shared/ipc-types';
+import { result, scan } from './screener-fixtures';
+
+/** ms for an ET wall-clock time */
+const et = (y: number, mo: number, d: number, h: number, mi = 0): number => zonedTimeToUtc(y, mo, d, h, mi);
+
+const level = (inForce: boolean): StratTradeLevels => ({
+  timeframe: '1D',
+  pattern: '2-1-2-reversal',
+  bias: 'bullish',
+  trigger: 104,
+  stop: 95,
+  target: 108,
+  inForce,
+  lastPrice: inForce ? 105 : 103,
+});
+
+describe('nextScanTime', () => {
+  it('should pick the next checkpoint in the same session', () => {
+    // Monday 10:20 ET
+    expect(nextScanTime('day-trade', et(2024, 7, 15, 10, 20))).toBe(et(2024, 7, 15, 10, 35));
+    expect(nextScanTime('swing-trade', et(2024, 7, 15, 10, 20))).toBe(et(2024, 7, 15, 11, 5));
+  });
+
+  it('should roll over to the next weekday after the close', () => {
+    // Friday 16:30 ET → Monday
+    expect(nextScanTime('day-trade', et(2024, 7, 19, 16, 30))).toBe(et(2024, 7, 22, 9, 35));
+    expect(nextScanTime('position-trade', et(2024, 7, 19, 16, 30))).toBe(et(2024, 7, 22, 16, 5));
+  });
+
+  it('should skip exchange holidays', () => {
+    // Wednesday before Thanksgiving, after the close → Friday
+    expect(nextScanTime('day-trade', et(2024, 11, 27, 16, 30))).toBe(et(2024, 11, 29, 9, 35));
+    expect(nextScanTime('position-trade', et(2024, 11, 27, 16, 30))).not.toBe(et(2024, 11, 28, 16, 5));
+  });
+
+  it('should scan through every session the list trades in', () => {
+    // Saturday noon: equities and futures are closed, crypto closes its day at midnight UTC
+    const saturday = et(2024, 7, 20, 12);
+    expect(nextScanTime('position-trade', saturday, ['us-equity', 'crypto'])).toBe(Date.parse('2024-07-21T00:05:00Z'));
+    // Sunday evening: ES=F reopens at 18:00 ET
+    expect(nextScanTime('day-trade', et(2024, 7, 21, 18), ['us-equity', 'cme-futures'])).toBe(et(2024, 7, 21, 18, 5));
+    expect(nextScanTime('position-trade', et(2024, 7, 22, 16, 30), ['us-equity', 'cme-futures'])).toBe(et(2024, 7, 22, 17, 5));
+  });
+
+  it('should scan the early close on half days', () => {
+    // Friday after Thanksgiving closes at 13:00
+    expect(nextScanTime('position-trade', et(2024, 11, 29, 9, 0))).toBe(et(2024, 11, 29, 13, 5));
+    expect(nextScanTime('swing-trade', et(2024, 11, 29, 12, 30))).toBe(et(2024, 11, 29, 13, 5));
+    expect(nextScanTime('day-trade', et(2024, 11, 29, 13, 10))).toBe(et(2024, 12, 2, 9, 35));
+  });
+});
+
+describe('detectAlerts', () => {
+  it('should alert when a symbol moves into full FTFC', () => {
+    const alerts = detectAlerts(
+      scan([result('AAPL', { alignment: 'partial', direction: 'bullish' })]),
+      scan([result('AAPL', { alignment: 'full-ftfc', direction: 'bullish' })])
+    );
+
+    expect(alerts).toEqual([expect.objectContaining({ kind: 'full-ftfc', symbol: 'AAPL', direction: 'bullish' })]);
+  });
+
+  it('should alert when the alignment direction flips', () => {
+    const alerts = detectAlerts(
+      scan([result('TSLA', { alignment: 'partial', direction: 'bullish' })]),
+      scan([result('TSLA', { alignment: 'partial', direction: 'bearish' })])
+    );
+
+    expect(alerts.map((a) => a.kind)).toEqual(['direction-flip']);
+  });
+
+  it('should alert once when a combo trigger is taken out', () => {
+    const before = scan([result('NVDA', { levels: [level(false)] })]);
+    const after = scan([result('NVDA', { levels: [level(true)] })]);
+
+    expect(detectAlerts(before, after)).toEqual([
+      expect.objectContaining({ kind: 'pattern-triggered', timeframe: '1D', pattern: '2-1-2-reversal' }),
+    ]);
+    expect(detectAlerts(after, after)).toEqual([]);
+  });
+
+  it('should ignore new symbols, errored rows and changed timeframe sets', () => {
+    const after = scan([result('META', { alignment: 'full-ftfc', direction: 'bullish' })]);
+
+    expect(detectAlerts(scan([]), after)).toEqual([]);
+    expect(detectAlerts(scan([result('META', { error: 'timeout' })]), after)).toEqual([]);
+    expect(detectAlerts({ ...scan([result('META')]), timeframeLabels: ['1D'] }, after)).toEqual([]);
+  });
+});
+
+describe('ScreenerScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stay idle until turned on, then scan at the next checkpoint and alert against the previous scan', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(et(2024, 7, 15, 10, 20));
+
+    const onScan = vi.fn();
+    const onAlerts = vi.fn();
+    const scanFn = vi.fn().mockResolvedValue(scan([result('AAPL', { alignment: 'full-ftfc', direction: 'bullish' })]));
+    const scheduler = new ScreenerScheduler({ scan: scanFn, onScan, onAlerts });
+
+    scheduler.observe(scan([result('AAPL', { alignment: 'partial', direction: 'bullish' })]));
+    scheduler.start();
+    expect(scheduler.getStatus()).toMatchObject({ enabled: false, nextRunAt: null });
+
+    scheduler.configure({ enabled: true });
+    expect(scheduler.getStatus().nextRunAt).toBe(new Date(et(2024, 7, 15, 11, 5)).toISOString());
+
+    await vi.advanceTimersByTimeAsync(45 * 60_000);
+
+    expect(scanFn).toHaveBeenCalledWith('swing-trade', 'default');
+    expect(onScan).toHaveBeenCalledTimes(2);
+    expect(onAlerts).toHaveBeenCalledWith([expect.objectContaining({ kind: 'full-ftfc', symbol: 'AAPL' })]);
+    expect(scheduler.getStatus().nextRunAt).toBe(new Date(et(2024, 7, 15, 12, 5)).toISOString());
+    scheduler.stop();
+  });
+
+  it('should keep a separate alert baseline per watchlist', () => {
+    const onAlerts = vi.fn();
+    const scheduler = new ScreenerScheduler({ scan: vi.fn(), onScan: vi.fn(), onAlerts });
+
+    scheduler.observe({ ...scan([result('AAPL', { alignment: 'partial' })]), watchlistId: 'mag7' });
+    scheduler.observe({ ...scan([result('AAPL', { alignment: 'full-ftfc' })]), watchlistId: 'earnings' });
+
+    expect(onAlerts).not.toHaveBeenCalled();
+    expect(scheduler.configure({ watchlistId: 'mag7', enabled: false }).lastScan?.watchlistId).toBe('mag7');
+  });
+
+  it('should not schedule anything while disabled', () => {
+    const scheduler = new ScreenerScheduler({ scan: vi.fn(), onScan: vi.fn(), onAlerts: vi.fn() });
+
+    const status = scheduler.configure({ tradingStyle: 'day-trade', enabled: false });
+
+    expect(status).toMatchObject({ tradingStyle: 'day-trade', enabled: false, nextRunAt: null });
+  });
+
+  it('should store its settings and resume from them on the next start', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(et(2024, 7, 15, 10, 20));
+
+    let stored: ScreenerScheduleSettings | null = null;
+    const store: ScreenerScheduleStore = {
+      getScreenerSchedule: () => stored,
+      saveScreenerSchedule: (settings) => {
+        stored = settings;
+      },
+    };
+    const options = { scan: vi.fn(), onScan: vi.fn(), onAlerts: vi.fn(), store };
+
+    const first = new ScreenerScheduler(options);
+    first.start();
+    first.configure({ tradingStyle: 'day-trade', watchlistId: 'mag7', enabled: true });
+    first.stop();
+    expect(stored).toEqual({ tradingStyle: 'day-trade', watchlistId: 'mag7', enabled: true });
+
+    const relaunched = new ScreenerScheduler(options);
+    relaunched.start();
+
+    expect(relaunched.getStatus()).toMatchObject({
+      tradingStyle: 'day-trade',
+      watchlistId: 'mag7',
+      enabled: true,
+      nextRunAt: new Date(et(2024, 7, 15, 10, 35)).toISOString(),
+    });
+    relaunched.stop();
+  });
+});
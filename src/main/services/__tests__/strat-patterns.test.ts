@@ -0,0 +1,172 @@
+/**
+ * Unit tests for Strat candle classification and combo detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyCandle, classifyCandles, classifyShape, computeTradeLevels, detectPatterns } from '../strat-patterns';
+import type { OhlcCandle } from '../market-data';
+import type { StratCandleType } from '@shared/ipc-types';
+
+/**
+ * Build a candle series whose classifications are exactly `types`.
+ * The first candle is a 100–110 reference bar.
+ */
+function series(types: StratCandleType[]): OhlcCandle[] {
+  const candles: OhlcCandle[] = [{ timestamp: 0, open: 105, high: 110, low: 100, close: 105, volume: 0 }];
+  for (const type of types) {
+    const prev = candles[candles.length - 1];
+    const [high, low] =
+      type === '2-up' ? [prev.high + 2, prev.low + 1]
+      : type === '2-down' ? [prev.high - 1, prev.low - 2]
+      : type === '3' ? [prev.high + 2, prev.low - 2]
+      : [prev.high - 1, prev.low + 1];
+    candles.push({ timestamp: prev.timestamp + 60, open: low, high, low, close: high, volume: 0 });
+  }
+  return candles;
+}
+
+describe('classifyCandle', () => {
+  const prev: OhlcCandle = { timestamp: 0, open: 5, high: 10, low: 0, close: 5, volume: 0 };
+  const bar = (low: number, high: number): OhlcCandle => ({ ...prev, low, high });
+
+  it('should classify each Strat scenario', () => {
+    expect(classifyCandle(bar(1, 11), prev)).toBe('2-up');
+    expect(classifyCandle(bar(-1, 9), prev)).toBe('2-down');
+    expect(classifyCandle(bar(-1, 11), prev)).toBe('3');
+    expect(classifyCandle(bar(1, 9), prev)).toBe('1');
+  });
+
+  it('should treat equal highs and lows as not taken out', () => {
+    expect(classifyCandle(bar(0, 10), prev)).toBe('1');
+    expect(classifyCandle(bar(0, 11), prev)).toBe('2-up');
+  });
+
+  it('should classify a whole series against each predecessor', () => {
+    expect(classifyCandles(series(['3', '1', '2-down']))).toEqual(['3', '1', '2-down']);
+  });
+});
+
+describe('classifyShape', () => {
+  const candle = (open: number, high: number, low: number, close: number): OhlcCandle => ({
+    timestamp: 0, open, high, low, close, volume: 0,
+  });
+
+  it('should call a long lower wick closing near the high a hammer, whatever the body colour', () => {
+    expect(classifyShape(candle(108, 110, 100, 109))).toBe('hammer');
+    expect(classifyShape(candle(109, 110, 100, 108))).toBe('hammer');
+  });
+
+  it('should call a long upper wick closing near the low a shooter', () => {
+    expect(classifyShape(candle(102, 110, 100, 101))).toBe('shooter');
+  });
+
+  it('should leave ordinary and flat candles unshaped', () => {
+    expect(classifyShape(candle(101, 110, 100, 109))).toBeNull(); // big body
+    expect(classifyShape(candle(104, 110, 100, 105))).toBeNull(); // close mid-range
+    expect(classifyShape(candle(100, 100, 100, 100))).toBeNull();
+  });
+
+  it('should apply custom thresholds', () => {
+    const shortWick = candle(106, 110, 100, 109); // lower wick 6, body 3
+
+    expect(classifyShape(shortWick)).toBe('hammer');
+    expect(classifyShape(shortWick, { wickToBody: 3, closeZone: 1 / 3 })).toBeNull();
+  });
+});
+
+describe('detectPatterns', () => {
+  it.each([
+    [['2-down', '1', '2-up'], '2-1-2-reversal', 'bullish'],
+    [['2-up', '1', '2-down'], '2-1-2-reversal', 'bearish'],
+    [['2-up', '1', '2-up'], '2-1-2-continuation', 'bullish'],
+    [['2-down', '1', '2-down'], '2-1-2-continuation', 'bearish'],
+    [['3', '1', '2-up'], '3-1-2', 'bullish'],
+    [['3', '2-up', '2-down'], '3-2-2', 'bearish'],
+    [['1', '2-down', '2-up'], 'rev-strat', 'bullish'],
+    [['2-up', '2-up', '2-down'], '2-2-reversal', 'bearish'],
+  ] as const)('should detect %j as %s (%s)', (types, name, bias) => {
+    const [latest] = detectPatterns(series([...types]));
+    expect(latest).toMatchObject({ name, bias, barsAgo: 0 });
+  });
+
+  it('should report only the sequence that forms the pattern', () => {
+    const [latest] = detectPatterns(series(['2-up', '2-up', '2-down']));
+    expect(latest.sequence).toEqual(['2-up', '2-down']);
+  });
+
+  it('should not report 2-2 continuations or patterns ending in an inside bar', () => {
+    expect(detectPatterns(series(['2-up', '2-up', '2-up']))).toEqual([]);
+    expect(detectPatterns(series(['2-up', '2-down', '1']))[0]).toMatchObject({ name: '2-2-reversal', barsAgo: 1 });
+  });
+
+  it('should flag only patterns ending on a forming candle', () => {
+    const candles = series(['1', '2-up', '2-down', '2-up']);
+
+    expect(detectPatterns(candles).every((p) => !p.forming)).toBe(true);
+    expect(detectPatterns(candles, true).map((p) => p.forming)).toEqual([true, false]);
+  });
+
+  it('should return nothing when there is not enough history', () => {
+    expect(detectPatterns(series(['2-up']))).toEqual([]);
+    expect(detectPatterns([])).toEqual([]);
+  });
+});
+
+describe('computeTradeLevels', () => {
+  const bar = (low: number, high: number, close = (low + high) / 2): OhlcCandle => ({
+    timestamp: 0,
+    open: close,
+    high,
+    low,
+    close,
+    volume: 0,
+  });
+
+  it('should use the inside bar for the trigger and the pattern extreme for the stop on a 2-1-2', () => {
+    // ref → 2-down (95–108) → 1 (97–104) → 2-up breaking 104
+    const candles = [bar(100, 110), bar(95, 108), bar(97, 104), bar(98, 106, 105)];
+    const [pattern] = detectPatterns(candles);
+
+    const levels = computeTradeLevels(candles, pattern, '1D');
+
+    expect(levels).toEqual({
+      timeframe: '1D',
+      pattern: '2-1-2-reversal',
+      bias: 'bullish',
+      trigger: 104,
+      stop: 95,
+      target: 108,
+      inForce: true,
+      lastPrice: 105,
+    });
+  });
+
+  it('should use the first 2-candle for trigger and stop on a 2-2 reversal', () => {
+    // ref → 2-up (101–111) → 2-up (102–112) → 2-down breaking 102, closing back above it
+    const candles = [bar(100, 110), bar(101, 111), bar(102, 112), bar(101, 111.5, 103)];
+    const [pattern] = detectPatterns(candles);
+
+    const levels = computeTradeLevels(candles, pattern, '4H');
+
+    expect(levels).toMatchObject({ pattern: '2-2-reversal', bias: 'bearish', trigger: 102, stop: 112, target: 101 });
+    expect(levels?.inForce).toBe(false);
+  });
+
+  it('should target the inside bar on a Rev Strat', () => {
+    // ref → 1 (101–109) → 2-down (99–108) → 2-up (100–112)
+    const candles = [bar(100, 110), bar(101, 109), bar(99, 108), bar(100, 112, 111)];
+    const [pattern] = detectPatterns(candles);
+
+    const levels = computeTradeLevels(candles, pattern, '1H');
+
+    expect(levels).toMatchObject({ pattern: 'rev-strat', trigger: 108, stop: 99, target: 109, inForce: true });
+  });
+
+  it('should drop a target that is not beyond the trigger', () => {
+    // ref → 2-up (101–112) → 2-down (100–112) → 2-up: prior high equals the trigger
+    const candles = [bar(100, 110), bar(101, 112), bar(100, 112), bar(101, 113)];
+    const [pattern] = detectPatterns(candles);
+
+    expect(computeTradeLevels(candles, pattern, '1D')?.target).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for broadening formation and Pivot Machine Gun detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectBroadening, detectPivotMachineGun, findSwingPivots, formatStructures } from '../strat-structures';
+import { ReplayMarketDataProvider } from '../market-data';
+import type { OhlcCandle } from '../market-data';
+import { scanWatchlist } from '../screener';
+import { candle } from './candle-fixtures';
+import { result, tf } from './screener-fixtures';
+
+/** Swing highs at 110 then 115, swing lows at 90 then 85 */
+const megaphone = (lastClose: number): OhlcCandle[] => [
+  candle(100, 95), candle(102, 97), candle(110, 104), candle(104, 98), candle(100, 94),
+  candle(96, 90), candle(99, 93), candle(103, 96), candle(115, 108), candle(109, 102),
+  candle(102, 95), candle(95, 85), candle(98, 89), candle(101, 92, { close: lastClose }),
+];
+
+/** A base candle followed by `count` 2-ups */
+const stairs = (count: number): OhlcCandle[] =>
+  Array.from({ length: count + 1 }, (_, i) => candle(100 + 2 * i, 90 + 2 * i));
+
+describe('findSwingPivots', () => {
+  it('should find highs and lows that stand out from two candles on each side', () => {
+    const { highs, lows } = findSwingPivots(megaphone(95));
+
+    expect(highs).toEqual([{ index: 2, price: 110 }, { index: 8, price: 115 }]);
+    expect(lows).toEqual([{ index: 5, price: 90 }, { index: 11, price: 85 }]);
+  });
+});
+
+describe('detectBroadening', () => {
+  it('should report expanding swings and where the last close sits', () => {
+    expect(detectBroadening(megaphone(95))).toEqual({ upper: 115, lower: 85, startBarsAgo: 11, position: 'middle' });
+    expect(detectBroadening(megaphone(112))?.position).toBe('top');
+    expect(detectBroadening(megaphone(87))?.position).toBe('bottom');
+  });
+
+  it('should ignore contracting swings', () => {
+    const contracting = megaphone(95);
+    contracting[8] = candle(108, 104);
+
+    expect(detectBroadening(contracting)).toBeNull();
+  });
+});
+
+describe('detectPivotMachineGun', () => {
+  it('should report five or more stacked 2-ups as a bearish exhaustion setup', () => {
+    expect(detectPivotMachineGun(stairs(5))).toEqual({
+      trend: 'up',
+      bias: 'bearish',
+      length: 5,
+      endBarsAgo: 0,
+      pivots: [92, 94, 96, 98, 100],
+      reversed: false,
+    });
+  });
+
+  it('should mark a run that ended with an opposite 2 as reversed', () => {
+    const pmg = detectPivotMachineGun([...stairs(6), candle(111, 99)]);
+
+    expect(pmg).toMatchObject({ trend: 'up', length: 6, endBarsAgo: 1, reversed: true });
+  });
+
+  it('should ignore short runs and runs that ended too long ago', () => {
+    const inside = candle(109, 101);
+
+    expect(detectPivotMachineGun(stairs(4))).toBeNull();
+    expect(detectPivotMachineGun([...stairs(5), inside, inside, inside])).toBeNull();
+  });
+
+  it('should detect lower highs the same way', () => {
+    const falling = Array.from({ length: 6 }, (_, i) => candle(100 - 2 * i, 90 - 2 * i));
+
+    expect(detectPivotMachineGun(falling)).toMatchObject({ trend: 'down', bias: 'bullish', pivots: [98, 96, 94, 92, 90] });
+  });
+});
+
+describe('formatStructures', () => {
+  it('should describe each timeframe with a formation', () => {
+    const row = result('AAPL', {
+      timeframes: [
+        tf('1H'),
+        tf('1D', { broadening: { upper: 195.4, lower: 182.1, startBarsAgo: 12, position: 'top' } }),
+        tf('1W', { pmg: detectPivotMachineGun(stairs(6)) }),
+      ],
+    });
+
+    expect(formatStructures(row)).toBe(
+      'AAPL 1D broadening formation at the top (182.10–195.40); 1W PMG 6× 2-up, bearish reversal setup (still running)'
+    );
+    expect(formatStructures({ ...row, timeframes: [row.timeframes[0]] })).toBeNull();
+  });
+});
+
+describe('scanWatchlist structures', () => {
+  it('should attach a PMG to each timeframe of a long rising series', async () => {
+    const DAY = 86_400;
+    const rising = (step: number): OhlcCandle[] =>
+      stairs(29).map((c, i) => ({ ...c, timestamp: 1_700_000_000 + i * step }));
+    const provider = new ReplayMarketDataProvider([
+      { symbol: 'AAPL', interval: '1d', candles: rising(DAY) },
+      { symbol: 'AAPL', interval: '1wk', candles: rising(7 * DAY) },
+      { symbol: 'AAPL', interval: '1mo', candles: rising(31 * DAY) },
+    ]);
+
+    const response = await scanWatchlist(['AAPL'], 'position-trade', { provider, now: () => 1_800_000_000_000 });
+
+    expect(response.results[0].timeframes.map((tf) => tf.pmg?.trend)).toEqual(['up', 'up', 'up']);
+    expect(response.results[0].timeframes.every((tf) => tf.broadening === null)).toBe(true);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for trading style definitions and the timeframe catalog
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_TRADING_STYLES,
+  getTimeframeSpec,
+  isTradingStyle,
+  normalizeTimeframes,
+  resolveTradingStyle,
+  resolveTradingStyles,
+} from '../trading-styles';
+import type { TradingStyleStore } from '../trading-styles';
+
+function storeWith(overrides: Array<{ id: string; timeframes: string[] }>): TradingStyleStore {
+  return { getTradingStyleOverrides: () => overrides.map((o) => ({ ...o, updatedAt: 1 })) };
+}
+
+describe('timeframe catalog', () => {
+  it('should map labels to screener sources and TradingView codes', () => {
+    expect(getTimeframeSpec('4H')).toMatchObject({ source: { kind: 'aggregate', interval: '4h' }, tradingView: '240' });
+    expect(getTimeframeSpec('1D')).toMatchObject({ source: { kind: 'direct', interval: '1d' }, tradingView: '1D' });
+  });
+
+  it('should reject unknown labels', () => {
+    expect(() => getTimeframeSpec('7m')).toThrow('Unknown timeframe: 7m');
+  });
+});
+
+describe('isTradingStyle', () => {
+  it('should only accept the built-in style ids, not object keys', () => {
+    expect(isTradingStyle('swing-trade')).toBe(true);
+    expect(['toString', 'constructor', 'scalp', null].some(isTradingStyle)).toBe(false);
+  });
+});
+
+describe('normalizeTimeframes', () => {
+  it('should dedupe and order lowest timeframe first', () => {
+    expect(normalizeTimeframes(['1W', '1H', '1D', '1H'])).toEqual(['1H', '1D', '1W']);
+  });
+
+  it('should reject empty or oversized sets', () => {
+    expect(() => normalizeTimeframes([])).toThrow('between 1 and 6');
+    expect(() => normalizeTimeframes(['5m', '15m', '1H', '2H', '4H', '1D', '1W'])).toThrow('between 1 and 6');
+  });
+});
+
+describe('resolveTradingStyles', () => {
+  it('should use built-in defaults when nothing is stored', () => {
+    const styles = resolveTradingStyles(storeWith([]));
+
+    expect(styles.map((s) => s.id)).toEqual(['day-trade', 'swing-trade', 'position-trade']);
+    expect(styles.map((s) => s.timeframes)).toEqual([['1H', '4H', '1D'], ['1H', '4H', '1D'], ['1D', '1W', '1M']]);
+    expect(styles[1]).toEqual({ ...DEFAULT_TRADING_STYLES['swing-trade'], id: 'swing-trade', updatedAt: null });
+  });
+
+  it('should apply stored timeframe sets of any length', () => {
+    const style = resolveTradingStyle(storeWith([{ id: 'position-trade', timeframes: ['1D', '1W', '1M', '3M', '1Y'] }]), 'position-trade');
+
+    expect(style.timeframes).toEqual(['1D', '1W', '1M', '3M', '1Y']);
+    expect(style.updatedAt).toBe(1);
+  });
+
+  it('should fall back to defaults when a stored set is no longer valid', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const style = resolveTradingStyle(storeWith([{ id: 'day-trade', timeframes: ['7m'] }]), 'day-trade');
+
+    expect(style.timeframes).toEqual(DEFAULT_TRADING_STYLES['day-trade'].timeframes);
+  });
+});
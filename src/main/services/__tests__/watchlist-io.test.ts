@@ -0,0 +1,154 @@
+/**
+ * Unit tests for watchlist import / export formats
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatFromPath,
+  fromTradingViewSymbol,
+  parseTradingViewWatchlist,
+  parseWatchlist,
+  parseWatchlistCsv,
+  parseWatchlistJson,
+  serializeWatchlist,
+  toTradingViewSymbol,
+} from '../watchlist-io';
+import type { WatchlistItem } from '@shared/ipc-types';
+
+const item = (symbol: string, tier: number, notes: string | null = null): WatchlistItem => ({
+  symbol,
+  assetClass: symbol.endsWith('=F') ? 'future' : 'equity',
+  tier,
+  position: 0,
+  notes,
+  addedAt: 0,
+});
+
+describe('TradingView symbols', () => {
+  it('should drop exchange prefixes and map share classes and futures to Yahoo', () => {
+    expect(fromTradingViewSymbol('NASDAQ:AAPL')).toBe('AAPL');
+    expect(fromTradingViewSymbol('NYSE:BRK.B')).toBe('BRK-B');
+    expect(fromTradingViewSymbol('CME_MINI:ES1!')).toBe('ES=F');
+  });
+
+  it('should map back for export', () => {
+    expect(toTradingViewSymbol('BRK-B')).toBe('BRK.B');
+    expect(toTradingViewSymbol('NQ=F')).toBe('NQ1!');
+    expect(toTradingViewSymbol('AAPL')).toBe('AAPL');
+  });
+});
+
+describe('parseTradingViewWatchlist', () => {
+  it('should map sections to tiers in order', () => {
+    const parsed = parseTradingViewWatchlist('###Mag 7,NASDAQ:AAPL,NASDAQ:NVDA,###Earnings,NYSE:DIS\n');
+
+    expect(parsed.symbols).toEqual([
+      { symbol: 'AAPL', tier: 1, notes: null },
+      { symbol: 'NVDA', tier: 1, notes: null },
+      { symbol: 'DIS', tier: 2, notes: null },
+    ]);
+  });
+
+  it('should use the default tier without sections and skip junk and duplicates', () => {
+    const parsed = parseTradingViewWatchlist('AMEX:SPY\nNASDAQ:QQQ,AMEX:SPY,NASDAQ:$$$');
+
+    expect(parsed.symbols.map((s) => [s.symbol, s.tier])).toEqual([['SPY', 2], ['QQQ', 2]]);
+    expect(parsed.skipped).toEqual(['NASDAQ:$$$']);
+  });
+});
+
+describe('parseWatchlistCsv', () => {
+  it('should read symbol, tier and quoted notes with a header', () => {
+    const parsed = parseWatchlistCsv('symbol,tier,notes\ntsla,1,"inside week, 2-1-2 watch"\nAMD,,\n');
+
+    expect(parsed.symbols).toEqual([
+      { symbol: 'TSLA', tier: 1, notes: 'inside week, 2-1-2 watch' },
+      { symbol: 'AMD', tier: 2, notes: null },
+    ]);
+  });
+
+  it('should read headerless rows and reject bad tiers', () => {
+    const parsed = parseWatchlistCsv('META\nMSFT,zero');
+
+    expect(parsed.symbols.map((s) => s.symbol)).toEqual(['META']);
+    expect(parsed.skipped).toEqual(['MSFT']);
+  });
+});
+
+describe('parseWatchlistJson', () => {
+  it('should read our export format including name and style', () => {
+    const parsed = parseWatchlistJson(
+      JSON.stringify({ name: 'Mag 7', defaultTradingStyle: 'swing-trade', items: [{ symbol: 'aapl', tier: 1, notes: 'ATH' }] })
+    );
+
+    expect(parsed).toEqual({
+      name: 'Mag 7',
+      defaultTradingStyle: 'swing-trade',
+      symbols: [{ symbol: 'AAPL', tier: 1, notes: 'ATH' }],
+      skipped: [],
+    });
+  });
+
+  it('should ignore unknown asset classes', () => {
+    const parsed = parseWatchlistJson('[{ "symbol": "eth-usd", "assetClass": "Crypto" }, { "symbol": "gld", "assetClass": "bond" }]');
+
+    expect(parsed.symbols).toEqual([
+      { symbol: 'ETH-USD', tier: 2, notes: null, assetClass: 'crypto' },
+      { symbol: 'GLD', tier: 2, notes: null },
+    ]);
+  });
+
+  it('should accept a bare array of symbols', () => {
+    expect(parseWatchlistJson('["spy", "qqq"]').symbols.map((s) => s.symbol)).toEqual(['SPY', 'QQQ']);
+  });
+
+  it('should reject other shapes', () => {
+    expect(() => parseWatchlistJson('{"symbols": []}')).toThrow('"items" array');
+  });
+});
+
+describe('serializeWatchlist', () => {
+  const list = { name: 'Mag 7', defaultTradingStyle: null };
+  const items = [item('AAPL', 1), item('BRK-B', 1, 'value, "defensive"'), item('ES=F', 3)];
+
+  it('should round-trip every format', () => {
+    for (const format of ['tradingview', 'csv', 'json'] as const) {
+      const parsed = parseWatchlist(serializeWatchlist(list, items, format), format);
+      expect(parsed.symbols.map((s) => [s.symbol, s.tier])).toEqual([['AAPL', 1], ['BRK-B', 1], ['ES=F', 3]]);
+    }
+  });
+
+  it('should write TradingView sections per tier', () => {
+    expect(serializeWatchlist(list, items, 'tradingview')).toBe('###Tier 1,AAPL,BRK.B,###Tier 3,ES1!\n');
+  });
+
+  it('should keep notes in CSV', () => {
+    expect(parseWatchlistCsv(serializeWatchlist(list, items, 'csv')).symbols[1].notes).toBe('value, "defensive"');
+  });
+
+  it('should round-trip CSV notes with line breaks', () => {
+    const multiline = [item('AAPL', 1, 'weekly 2-1-2\r\nwatch PWH'), item('NVDA', 2)];
+    const parsed = parseWatchlistCsv(serializeWatchlist(list, multiline, 'csv'));
+
+    expect(parsed.symbols).toEqual([
+      { symbol: 'AAPL', tier: 1, notes: 'weekly 2-1-2\r\nwatch PWH', assetClass: 'equity' },
+      { symbol: 'NVDA', tier: 2, notes: null, assetClass: 'equity' },
+    ]);
+    expect(parsed.skipped).toEqual([]);
+  });
+
+  it('should round-trip asset classes through CSV and JSON', () => {
+    for (const format of ['csv', 'json'] as const) {
+      const parsed = parseWatchlist(serializeWatchlist(list, items, format), format);
+      expect(parsed.symbols.map((s) => s.assetClass)).toEqual(['equity', 'equity', 'future']);
+    }
+  });
+});
+
+describe('formatFromPath', () => {
+  it('should pick the format by extension', () => {
+    expect(formatFromPath('/tmp/Mag 7.TXT')).toBe('tradingview');
+    expect(formatFromPath('list.csv')).toBe('csv');
+    expect(() => formatFromPath('list.xlsx')).toThrow('Unsupported watchlist file type: .xlsx');
+  });
+});
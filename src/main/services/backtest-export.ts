@@ -0,0 +1,144 @@
+/**
+ * Backtest export
+ *
+ * Writes a backtest as a Markdown report (summary plus the setup, timeframe
+ * and FTFC breakdowns), a CSV of every simulated trade for a spreadsheet, or
+ * the full JSON result.
+ */
+
+import type {
+  BacktestGroupStats,
+  BacktestResponse,
+  BacktestStats,
+  BacktestTrade,
+  ScreenerExportFormat,
+} from '@shared/ipc-types';
+import { getZonedParts } from './market-session';
+import { SCREENER_EXPORT_EXTENSIONS, csvCell } from './screener-export';
+import { DEFAULT_TRADING_STYLES } from './trading-styles';
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+
+/** '2024-07-15 10:05 ET' */
+function fmtTime(ms: number): string {
+  const p = getZonedParts(ms);
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)} ET`;
+}
+
+function fmtPercent(value: number | null): string {
+  return value === null ? '-' : `${(value * 100).toFixed(0)}%`;
+}
+
+function fmtR(value: number | null): string {
+  return value === null ? '-' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+}
+
+function fmtBars(value: number | null): string {
+  return value === null ? '-' : value.toFixed(1);
+}
+
+function fmtFtfc(ftfc: boolean | null): string {
+  return ftfc === null ? 'All' : ftfc ? 'FTFC' : 'No FTFC';
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formats
+// ─────────────────────────────────────────────────────────────────────────────
+
+function toCsv(result: BacktestResponse): string {
+  const header = [
+    'symbol', 'timeframe', 'pattern', 'bias', 'ftfc', 'entry_time', 'entry', 'stop', 'target',
+    'outcome', 'exit_time', 'exit', 'r', 'bars',
+  ];
+  const rows = result.trades.map((t: BacktestTrade) => [
+    t.symbol,
+    t.timeframe,
+    t.pattern,
+    t.bias,
+    t.ftfc ? 'yes' : 'no',
+    fmtTime(t.entryTime * 1000),
+    t.entry.toFixed(2),
+    t.stop.toFixed(2),
+    t.target.toFixed(2),
+    t.outcome,
+    fmtTime(t.exitTime * 1000),
+    t.exit.toFixed(2),
+    t.r.toFixed(2),
+    String(t.bars),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function statCells(stats: BacktestStats): string[] {
+  return [
+    String(stats.trades),
+    fmtPercent(stats.winRate),
+    fmtR(stats.avgR),
+    fmtBars(stats.avgBarsToTarget),
+    `${stats.wins} / ${stats.losses} / ${stats.expired}`,
+  ];
+}
+
+function mdTable(keyHeaders: string[], groups: BacktestGroupStats[], keyCells: (g: BacktestGroupStats) => string[]): string[] {
+  const header = [...keyHeaders, 'Trades', 'Win rate', 'Avg R', 'Bars to target', 'Won / stopped / expired'];
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...groups.map((g) => `| ${[...keyCells(g), ...statCells(g)].join(' | ')} |`),
+  ];
+}
+
+function toMarkdown(result: BacktestResponse): string {
+  const { summary } = result;
+  const style = DEFAULT_TRADING_STYLES[result.tradingStyle].label;
+
+  const lines = [
+    `# Strat backtest — ${style} (${result.timeframeLabels.join(' · ')})`,
+    '',
+    `${fmtTime(Date.parse(result.ranAt))} · ${result.symbols.length} symbols · ${summary.trades} trades · ` +
+      `${fmtPercent(summary.winRate)} win rate · ${fmtR(summary.avgR)} average`,
+    '',
+    '## By setup',
+    '',
+    ...mdTable(['Setup'], result.bySetup, (g) => [g.pattern ?? '-']),
+    '',
+    '## By timeframe',
+    '',
+    ...mdTable(['Timeframe'], result.byTimeframe, (g) => [g.timeframe ?? '-']),
+    '',
+    '## By FTFC at entry',
+    '',
+    ...mdTable(['FTFC'], result.byFtfc, (g) => [fmtFtfc(g.ftfc)]),
+    '',
+    '## Setup × timeframe × FTFC',
+    '',
+    ...mdTable(['Setup', 'Timeframe', 'FTFC'], result.breakdown, (g) => [g.pattern ?? '-', g.timeframe ?? '-', fmtFtfc(g.ftfc)]),
+  ];
+
+  if (result.errors.length > 0) {
+    lines.push('', '**Errors**', '', ...result.errors.map((e) => `- ${e.symbol}: ${e.error}`));
+  }
+  lines.push(
+    '',
+    `Entry at the trigger, exit at the guardrail stop, the magnitude target or after ${result.maxHoldBars} candles. ` +
+      `${result.skipped} setups had no target to trade; ${result.unresolved} were still open at the end of the data.`
+  );
+  return lines.join('\n') + '\n';
+}
+
+export function serializeBacktest(result: BacktestResponse, format: ScreenerExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(result);
+    case 'json':
+      return JSON.stringify(result, null, 2) + '\n';
+    case 'markdown':
+      return toMarkdown(result);
+  }
+}
+
+/** e.g. 'backtest-swing-trade-2024-07-15-1005.md' */
+export function defaultBacktestFileName(result: BacktestResponse, format: ScreenerExportFormat): string {
+  const stamp = fmtTime(Date.parse(result.ranAt)).replace(' ET', '').replace(/[ :]/g, (c) => (c === ' ' ? '-' : ''));
+  return `backtest-${result.tradingStyle}-${stamp}.${SCREENER_EXPORT_EXTENSIONS[format]}`;
+}
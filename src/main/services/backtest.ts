@@ -0,0 +1,349 @@
+/**
+ * Setup Backtester
+ *
+ * Replays the screener's combos over a symbol list's history. Every 2-1-2,
+ * 3-1-2, 2-2 / 3-2-2 reversal and Rev Strat that completed on a tested
+ * timeframe becomes a simulated trade using the same plan the screener
+ * shows (strat-patterns.ts computeTradeLevels):
+ *
+ *  entry   the trigger, or the trigger candle's open when it gapped through
+ *  stop    the guardrail stop
+ *  target  the magnitude target; setups without one aren't traded
+ *
+ * Trades are followed on their own timeframe for up to `maxHoldBars` candles
+ * after the trigger candle, then closed at market. The trigger candle can
+ * only reach the target (the stop sits beyond the candle it broke). When a
+ * later candle spans both stop and target the stop is assumed first, and a
+ * candle that opens beyond either exits at its open.
+ *
+ * FTFC at entry is the open-based definition from continuity.ts, read at the
+ * trigger candle: the entry price must be at or beyond the open of the candle
+ * then forming on this and every higher tested timeframe. At or beyond, since
+ * a gap entry fills at the trigger candle's open — and so at the open of any
+ * higher timeframe candle opening with it.
+ *
+ * Only completed candles are walked, so a live bar never produces a trade.
+ */
+
+import type {
+  BacktestGroupStats,
+  BacktestResponse,
+  BacktestStats,
+  BacktestTrade,
+  ScreenerTradingStyle,
+  StratPatternName,
+  StratTradeLevels,
+} from '@shared/ipc-types';
+import { sessionForSymbol } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
+import { AGGREGATE_SOURCE_INTERVAL, aggregateCandles } from './candle-aggregation';
+import type { CandleInterval, MarketDataProvider, OhlcCandle } from './market-data';
+import { candleCloseTime } from './market-session';
+import { ProviderThrottledError, sleep } from './resilient-fetch';
+import { classifyCandles, computeTradeLevels, matchPatternAt } from './strat-patterns';
+import { TIMEFRAME_CATALOG, getTimeframeSpec } from './trading-styles';
+import type { TimeframeSpec } from './trading-styles';
+
+export const DEFAULT_MAX_HOLD_BARS = 20;
+
+/** The longest history Yahoo serves for each interval */
+const BACKTEST_RANGES: Record<CandleInterval, string> = {
+  '5m': '60d',
+  '15m': '60d',
+  '1h': '729d',
+  '1d': '10y',
+  '1wk': '10y',
+  '1mo': '20y',
+};
+
+/** Report order for the by-setup breakdown */
+const PATTERN_ORDER: StratPatternName[] = [
+  '2-1-2-reversal', '2-1-2-continuation', '3-1-2', '2-2-reversal', '3-2-2', 'rev-strat',
+];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trade simulation
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The candle forming at `timestamp` (unix seconds): the last one opened at or before it */
+function candleAt(candles: OhlcCandle[], timestamp: number): OhlcCandle | null {
+  let lo = 0;
+  let hi = candles.length - 1;
+  let found: OhlcCandle | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (candles[mid].timestamp <= timestamp) {
+      found = candles[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
+
+type SimulatedTrade = Omit<BacktestTrade, 'symbol' | 'timeframe' | 'pattern' | 'ftfc'>;
+
+/**
+ * Follow the plan from the trigger candle at `index`. Null when there's no
+ * room to the target at entry, 'unresolved' when the candles run out first.
+ */
+export function simulateTrade(
+  candles: OhlcCandle[],
+  index: number,
+  levels: StratTradeLevels,
+  maxHoldBars: number = DEFAULT_MAX_HOLD_BARS
+): SimulatedTrade | 'unresolved' | null {
+  const { stop, target, bias } = levels;
+  if (target === null) return null;
+
+  const bullish = bias === 'bullish';
+  const beyond = (price: number, level: number): boolean => (bullish ? price >= level : price <= level);
+  const triggerBar = candles[index];
+  const entry = bullish ? Math.max(levels.trigger, triggerBar.open) : Math.min(levels.trigger, triggerBar.open);
+  if (beyond(entry, target) || (bullish ? entry <= stop : entry >= stop)) return null;
+
+  const risk = Math.abs(entry - stop);
+  const close = (bar: OhlcCandle, bars: number, exit: number, outcome: BacktestTrade['outcome']): SimulatedTrade => ({
+    bias,
+    entryTime: triggerBar.timestamp,
+    entry,
+    stop,
+    target,
+    outcome,
+    exitTime: bar.timestamp,
+    exit,
+    r: (bullish ? exit - entry : entry - exit) / risk,
+    bars,
+  });
+
+  if (beyond(bullish ? triggerBar.high : triggerBar.low, target)) return close(triggerBar, 0, target, 'target');
+
+  for (let bars = 1; bars <= maxHoldBars; bars++) {
+    const bar = candles[index + bars];
+    if (!bar) return 'unresolved';
+    const stopped = bullish ? bar.low <= stop : bar.high >= stop;
+    if (stopped) return close(bar, bars, bullish ? Math.min(stop, bar.open) : Math.max(stop, bar.open), 'stop');
+    if (beyond(bullish ? bar.high : bar.low, target)) {
+      return close(bar, bars, bullish ? Math.max(target, bar.open) : Math.min(target, bar.open), 'target');
+    }
+  }
+
+  const last = candles[index + maxHoldBars];
+  return close(last, maxHoldBars, last.close, 'expired');
+}
+
+export interface BacktestSeriesResult {
+  trades: BacktestTrade[];
+  skipped: number;
+  unresolved: number;
+}
+
+/**
+ * Every combo in one timeframe's completed candles, traded. `higher` holds
+ * the candles of each higher tested timeframe, for FTFC at entry.
+ */
+export function backtestSeries(
+  symbol: string,
+  timeframe: string,
+  candles: OhlcCandle[],
+  higher: OhlcCandle[][] = [],
+  maxHoldBars: number = DEFAULT_MAX_HOLD_BARS
+): BacktestSeriesResult {
+  const types = classifyCandles(candles); // types[i] describes candles[i + 1]
+  const result: BacktestSeriesResult = { trades: [], skipped: 0, unresolved: 0 };
+
+  for (let end = 0; end < types.length; end++) {
+    const match = matchPatternAt(types, end);
+    if (!match) continue;
+
+    const index = end + 1;
+    const pattern = { ...match, barsAgo: candles.length - 1 - index, forming: false };
+    const levels = computeTradeLevels(candles, pattern, timeframe);
+    const trade = levels && simulateTrade(candles, index, levels, maxHoldBars);
+    if (trade === 'unresolved') {
+      result.unresolved++;
+      continue;
+    }
+    if (!trade) {
+      result.skipped++;
+      continue;
+    }
+
+    const opens = [candles[index], ...higher.map((series) => candleAt(series, trade.entryTime))].map((c) => c?.open);
+    const ftfc = opens.every((open) => open !== undefined && (trade.bias === 'bullish' ? trade.entry >= open : trade.entry <= open));
+    result.trades.push({ symbol, timeframe, pattern: match.name, ftfc, ...trade });
+  }
+
+  return result;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Stats
+// ─────────────────────────────────────────────────────────────────────────────
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+export function summarizeTrades(trades: BacktestTrade[]): BacktestStats {
+  const winners = trades.filter((t) => t.outcome === 'target');
+  return {
+    trades: trades.length,
+    wins: winners.length,
+    losses: trades.filter((t) => t.outcome === 'stop').length,
+    expired: trades.filter((t) => t.outcome === 'expired').length,
+    winRate: trades.length > 0 ? winners.length / trades.length : null,
+    avgR: average(trades.map((t) => t.r)),
+    avgBarsToTarget: average(winners.map((t) => t.bars)),
+  };
+}
+
+type GroupKey = Pick<BacktestGroupStats, 'pattern' | 'timeframe' | 'ftfc'>;
+
+/** Stats for each key that has trades, in the order given */
+function groupStats(trades: BacktestTrade[], keys: GroupKey[]): BacktestGroupStats[] {
+  return keys.flatMap((key) => {
+    const matching = trades.filter(
+      (t) =>
+        (key.pattern === null || t.pattern === key.pattern) &&
+        (key.timeframe === null || t.timeframe === key.timeframe) &&
+        (key.ftfc === null || t.ftfc === key.ftfc)
+    );
+    return matching.length > 0 ? [{ ...key, ...summarizeTrades(matching) }] : [];
+  });
+}
+
+/** Summary plus the by-setup, by-timeframe, by-FTFC and combined breakdowns */
+export function breakDownTrades(
+  trades: BacktestTrade[],
+  timeframeLabels: string[]
+): Pick<BacktestResponse, 'summary' | 'bySetup' | 'byTimeframe' | 'byFtfc' | 'breakdown'> {
+  const any = { pattern: null, timeframe: null, ftfc: null };
+  return {
+    summary: summarizeTrades(trades),
+    bySetup: groupStats(trades, PATTERN_ORDER.map((pattern) => ({ ...any, pattern }))),
+    byTimeframe: groupStats(trades, timeframeLabels.map((timeframe) => ({ ...any, timeframe }))),
+    byFtfc: groupStats(trades, [true, false].map((ftfc) => ({ ...any, ftfc }))),
+    breakdown: groupStats(
+      trades,
+      PATTERN_ORDER.flatMap((pattern) =>
+        timeframeLabels.flatMap((timeframe) => [true, false].map((ftfc) => ({ pattern, timeframe, ftfc })))
+      )
+    ),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Running a backtest
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface BacktestOptions {
+  provider: MarketDataProvider;
+  tradingStyle: ScreenerTradingStyle;
+  timeframes: string[]; // catalog labels
+  maxHoldBars?: number;
+  now?: () => number;
+}
+
+/** Each timeframe's full history for one symbol, the live candle included */
+export async function fetchHistory(
+  symbol: string,
+  defs: TimeframeSpec[],
+  provider: MarketDataProvider,
+  session: MarketSession
+): Promise<OhlcCandle[][]> {
+  const fetches = new Map<CandleInterval, Promise<OhlcCandle[]>>();
+  const fetch = (interval: CandleInterval): Promise<OhlcCandle[]> => {
+    if (!fetches.has(interval)) {
+      fetches.set(interval, provider.fetchCandles({ symbol, interval, range: BACKTEST_RANGES[interval] }));
+    }
+    return fetches.get(interval)!;
+  };
+
+  return Promise.all(
+    defs.map(({ source }) =>
+      source.kind === 'direct'
+        ? fetch(source.interval)
+        : fetch(AGGREGATE_SOURCE_INTERVAL[source.interval]).then((c) => aggregateCandles(c, source.interval, session))
+    )
+  );
+}
+
+/** Backtest one symbol on every timeframe */
+async function backtestSymbol(
+  symbol: string,
+  defs: TimeframeSpec[],
+  provider: MarketDataProvider,
+  now: number,
+  maxHoldBars: number
+): Promise<BacktestSeriesResult> {
+  const session = sessionForSymbol(symbol);
+  const history = await fetchHistory(symbol, defs, provider, session);
+  const merged: BacktestSeriesResult = { trades: [], skipped: 0, unresolved: 0 };
+
+  defs.forEach((def, i) => {
+    const candles = history[i];
+    const last = candles[candles.length - 1];
+    const completed =
+      last && candleCloseTime(last.timestamp, def.source.interval, session) > now ? candles.slice(0, -1) : candles;
+    const result = backtestSeries(symbol, def.label, completed, history.slice(i + 1), maxHoldBars);
+    merged.trades.push(...result.trades);
+    merged.skipped += result.skipped;
+    merged.unresolved += result.unresolved;
+  });
+
+  return merged;
+}
+
+/**
+ * Backtest `symbols` one at a time, pausing between them like screener
+ * batches. A symbol that fails is reported and the rest carry on; once the
+ * provider starts rate-limiting the remaining symbols are reported instead.
+ */
+export async function runBacktest(symbols: string[], options: BacktestOptions): Promise<BacktestResponse> {
+  const { provider, tradingStyle } = options;
+  const maxHoldBars = options.maxHoldBars ?? DEFAULT_MAX_HOLD_BARS;
+  const now = options.now ?? Date.now;
+  const order = (label: string): number => TIMEFRAME_CATALOG.findIndex((tf) => tf.label === label);
+  const defs = options.timeframes.map(getTimeframeSpec).sort((a, b) => order(a.label) - order(b.label));
+
+  const trades: BacktestTrade[] = [];
+  const errors: BacktestResponse['errors'] = [];
+  let skipped = 0;
+  let unresolved = 0;
+
+  for (let i = 0; i < symbols.length; i++) {
+    const symbol = symbols[i];
+    if (i > 0 && provider.batchDelayMs > 0) await sleep(provider.batchDelayMs);
+    try {
+      const result = await backtestSymbol(symbol, defs, provider, now(), maxHoldBars);
+      trades.push(...result.trades);
+      skipped += result.skipped;
+      unresolved += result.unresolved;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ProviderThrottledError) {
+        errors.push(...symbols.slice(i).map((s) => ({ symbol: s, error: message })));
+        break;
+      }
+      errors.push({ symbol, error: message });
+    }
+  }
+
+  trades.sort((a, b) => a.entryTime - b.entryTime);
+  const timeframeLabels = defs.map((def) => def.label);
+
+  return {
+    tradingStyle,
+    timeframeLabels,
+    symbols,
+    dataSource: provider.source,
+    ranAt: new Date(now()).toISOString(),
+    maxHoldBars,
+    ...breakDownTrades(trades, timeframeLabels),
+    trades,
+    skipped,
+    unresolved,
+    errors,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Candle Aggregation
+ *
+ * Builds the timeframes Yahoo doesn't serve from finer bars, anchored to the
+ * exchange calendar rather than to bar counts:
+ *
+ *  2h / 4h / 12h   from 1h bars, buckets start at the session open — 9:30 ET
+ *                  for equities, 18:00 ET for futures, 17:00 ET for forex
+ *                  and midnight UTC for crypto
+ *  3mo / 1y        from 1mo bars, calendar quarters and years
+ *
+ * A missing source bar leaves its bucket short instead of shifting every
+ * later bucket. A leading bucket that began before the first source bar is
+ * dropped rather than reported with a partial range.
+ */
+
+import type { AggregateInterval, CandleInterval, OhlcCandle } from './market-data';
+import { getZonedParts, zonedTimeToUtc } from './market-session';
+import { sessionOpenMinute, sessionTimeZone } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
+
+/** Which provider interval each aggregate is built from */
+export const AGGREGATE_SOURCE_INTERVAL: Record<AggregateInterval, CandleInterval> = {
+  '2h':  '1h',
+  '4h':  '1h',
+  '12h': '1h',
+  '3mo': '1mo',
+  '1y':  '1mo',
+};
+
+const INTRADAY_BUCKET_MINUTES: Partial<Record<AggregateInterval, number>> = {
+  '2h':  120,
+  '4h':  240,
+  '12h': 720,
+};
+
+/** Open time (unix seconds) of the bucket a source bar belongs to */
+export function bucketStart(timestamp: number, interval: AggregateInterval, session: MarketSession = 'us-equity'): number {
+  const timeZone = sessionTimeZone(session);
+  const { year, month, day, hour, minute } = getZonedParts(timestamp * 1000, timeZone);
+
+  const minutes = INTRADAY_BUCKET_MINUTES[interval];
+  if (minutes !== undefined) {
+    // Sessions that open the evening before anchor there, so early-morning buckets can start "yesterday"
+    const open = sessionOpenMinute(session);
+    const start = open + Math.floor((hour * 60 + minute - open) / minutes) * minutes;
+    return zonedTimeToUtc(year, month, day, Math.floor(start / 60), ((start % 60) + 60) % 60, timeZone) / 1000;
+  }
+
+  const firstMonth = interval === '3mo' ? month - ((month - 1) % 3) : 1;
+  return zonedTimeToUtc(year, firstMonth, 1, 0, 0, timeZone) / 1000;
+}
+
+/** Whether a source bar is the first one of its bucket */
+function opensBucket(timestamp: number, interval: AggregateInterval, session: MarketSession): boolean {
+  const start = bucketStart(timestamp, interval, session);
+  if (INTRADAY_BUCKET_MINUTES[interval] !== undefined) return start === timestamp;
+
+  // Monthly bars aren't always stamped at midnight — compare calendar days
+  const timeZone = sessionTimeZone(session);
+  const a = getZonedParts(start * 1000, timeZone);
+  const b = getZonedParts(timestamp * 1000, timeZone);
+  return a.month === b.month && a.day === b.day;
+}
+
+/** Group source candles (oldest first) into calendar-anchored buckets */
+export function aggregateCandles(
+  source: OhlcCandle[],
+  interval: AggregateInterval,
+  session: MarketSession = 'us-equity'
+): OhlcCandle[] {
+  const buckets: OhlcCandle[] = [];
+
+  for (const candle of source) {
+    const start = bucketStart(candle.timestamp, interval, session);
+    const current = buckets[buckets.length - 1];
+
+    if (current && current.timestamp === start) {
+      current.high = Math.max(current.high, candle.high);
+      current.low = Math.min(current.low, candle.low);
+      current.close = candle.close;
+      current.volume += candle.volume;
+    } else {
+      buckets.push({ ...candle, timestamp: start });
+    }
+  }
+
+  if (buckets.length > 0 && !opensBucket(source[0].timestamp, interval, session)) {
+    buckets.shift();
+  }
+  return buckets;
+}
@@ -0,0 +1,88 @@
+/**
+ * Candle Cache
+ *
+ * MarketDataProvider decorator that persists bars in SQLite (see
+ * 004_candles.sql) and only asks the wrapped provider for bars newer than the
+ * latest cached one. When the upstream fetch fails, cached bars are served so
+ * the screener and coach keep working offline.
+ */
+
+import { rangeToSeconds } from './market-data';
+import type { CandleInterval, CandleRequest, MarketDataProvider, OhlcCandle } from './market-data';
+
+/**
+ * The subset of DatabaseService the cache needs — keeps this module testable
+ * without SQLite. Methods may be async so scan workers can reach the main
+ * thread's database over messages (see scan-worker.ts).
+ */
+export interface CandleStore {
+  upsertCandles(symbol: string, interval: string, candles: OhlcCandle[]): void | Promise<void>;
+  getCandles(symbol: string, interval: string, since?: number): OhlcCandle[] | Promise<OhlcCandle[]>;
+  getCandleSeries(symbol: string, interval: string): CandleSeries | null | Promise<CandleSeries | null>;
+  setCandleSeries(symbol: string, interval: string, coveredFrom: number): void | Promise<void>;
+}
+
+export interface CandleSeries {
+  coveredFrom: number;
+  latest: number | null;
+  lastFetchedAt: number;
+}
+
+/** Skip the network entirely when a series was refreshed more recently than this */
+const REFRESH_AFTER_MS: Record<CandleInterval, number> = {
+  '5m': 60_000,
+  '15m': 60_000,
+  '1h': 60_000,
+  '1d': 5 * 60_000,
+  '1wk': 15 * 60_000,
+  '1mo': 15 * 60_000,
+};
+
+export class CachedMarketDataProvider implements MarketDataProvider {
+  readonly source: MarketDataProvider['source'];
+  readonly batchDelayMs: number;
+
+  constructor(
+    private readonly inner: MarketDataProvider,
+    private readonly store: CandleStore,
+    private readonly now: () => number = Date.now
+  ) {
+    this.source = inner.source;
+    this.batchDelayMs = inner.batchDelayMs;
+  }
+
+  async fetchCandles(request: CandleRequest): Promise<OhlcCandle[]> {
+    const { symbol, interval, range, signal } = request;
+    const span = rangeToSeconds(range);
+    const wantedFrom = span === null ? 0 : Math.floor(this.now() / 1000) - span;
+
+    const series = await this.store.getCandleSeries(symbol, interval);
+    const latest = series?.latest ?? null;
+    const covered = series !== null && latest !== null && series.coveredFrom <= wantedFrom;
+
+    if (covered && this.now() - series.lastFetchedAt < REFRESH_AFTER_MS[interval]) {
+      return this.store.getCandles(symbol, interval, wantedFrom);
+    }
+
+    try {
+      if (covered) {
+        // Start at the latest cached bar — it may still have been forming last time
+        const fresh = await this.inner.fetchCandles({ ...request, since: latest });
+        await this.store.upsertCandles(symbol, interval, fresh);
+        await this.store.setCandleSeries(symbol, interval, series.coveredFrom);
+      } else {
+        const full = await this.inner.fetchCandles({ symbol, interval, range, signal });
+        await this.store.upsertCandles(symbol, interval, full);
+        // Older cached bars stay usable only if they join up with the new fetch
+        const joins = series !== null && latest !== null && latest >= wantedFrom;
+        await this.store.setCandleSeries(symbol, interval, joins ? Math.min(series.coveredFrom, wantedFrom) : wantedFrom);
+      }
+    } catch (error) {
+      // A cancelled scan should stop here, not fall back to cached bars
+      if (latest === null || signal?.aborted) throw error;
+      console.warn(`[CandleCache] Refresh failed for ${symbol} (${interval}), serving cached bars:`, error);
+    }
+
+    return this.store.getCandles(symbol, interval, wantedFrom);
+  }
+}
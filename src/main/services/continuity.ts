@@ -0,0 +1,66 @@
+/**
+ * Full Timeframe Continuity
+ *
+ * The guardrails define FTFC as price trading above (green) or below (red)
+ * the open of every timeframe's current candle. This module measures the last
+ * price against the monthly, weekly, daily, 60m and 15m opens.
+ */
+
+import type { ContinuityState, StratContinuity, StratDirection, TimeframeContinuity } from '@shared/ipc-types';
+import type { CandleInterval, OhlcCandle } from './market-data';
+
+export interface ContinuityTimeframe {
+  label: string;
+  interval: CandleInterval;
+  range: string;
+}
+
+/** Highest timeframe first. Ranges match the screener's style sources so fetches are shared. */
+export const CONTINUITY_TIMEFRAMES: ContinuityTimeframe[] = [
+  { label: 'M',  interval: '1mo', range: '5y'  },
+  { label: 'W',  interval: '1wk', range: '2y'  },
+  { label: 'D',  interval: '1d',  range: '30d' },
+  { label: '60', interval: '1h',  range: '15d' },
+  { label: '15', interval: '15m', range: '5d'  },
+];
+
+function stateOf(distance: number): ContinuityState {
+  if (distance > 0) return 'green';
+  if (distance < 0) return 'red';
+  return 'flat';
+}
+
+/**
+ * Compute continuity from each timeframe's candles (same order as `timeframes`).
+ * The current candle is the latest one; the last price is the close of the
+ * most recent bar across all timeframes. Returns null if any series is empty.
+ */
+export function computeContinuity(
+  candles: OhlcCandle[][],
+  timeframes: ContinuityTimeframe[] = CONTINUITY_TIMEFRAMES
+): StratContinuity | null {
+  const current = candles.map((series) => series[series.length - 1]);
+  if (current.length !== timeframes.length || current.some((c) => c === undefined)) return null;
+
+  const latest = current.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+  const lastPrice = latest.close;
+
+  const results: TimeframeContinuity[] = timeframes.map((tf, i) => {
+    const { open } = current[i];
+    const distance = lastPrice - open;
+    return {
+      timeframe: tf.label,
+      open,
+      distance,
+      distancePct: open === 0 ? 0 : (distance / open) * 100,
+      state: stateOf(distance),
+    };
+  });
+
+  const green = results.filter((r) => r.state === 'green').length;
+  const red = results.filter((r) => r.state === 'red').length;
+  const direction: StratDirection =
+    green === results.length ? 'bullish' : red === results.length ? 'bearish' : null;
+
+  return { lastPrice, timeframes: results, score: green - red, direction };
+}
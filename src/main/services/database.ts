@@ -10,6 +10,21 @@ import * as fs from 'fs';
 import * as crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import type { Trade, Conversation, Message } from '@shared/models';
+import { DEFAULT_WATCHLIST_ID } from '@shared/ipc-types';
+import type {
+  AssetClass,
+  ListScreenerScansRequest,
+  ReplayScore,
+  ScreenerScanResponse,
+  ScreenerScanSummary,
+  ScreenerSymbolResult,
+  ScreenerTradingStyle,
+  TradePerformance,
+  Watchlist,
+  WatchlistItem,
+} from '@shared/ipc-types';
+import { assetClassForSymbol, isAssetClass } from '@shared/market-calendar';
+import type { OhlcCandle } from './market-data';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -30,6 +45,7 @@ interface TradeRow {
   entry_timestamp: number;
   exit_timestamp: number | null;
   pnl: number | null;
+  simulated: number;
   created_at: number;
   updated_at: number;
 }
@@ -43,6 +59,39 @@ interface ConversationRow {
   created_at: number;
 }
 
+interface WatchlistRow {
+  id: string;
+  name: string;
+  default_trading_style: string | null;
+  symbol_count: number;
+  created_at: number;
+  updated_at: number;
+}
+
+interface ScreenerScanRow {
+  id: string;
+  trading_style: string;
+  watchlist_id: string | null;
+  timeframe_labels: string;
+  data_source: string;
+  scanned_at: number;
+  duration: number;
+}
+
+interface ReplaySessionRow {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  total_bars: number;
+  bars: number;
+  label_correct: number;
+  setup_correct: number;
+  trigger_correct: number;
+  trigger_total: number;
+  started_at: number;
+  updated_at: number;
+}
+
 interface MessageRow {
   id: string;
   conversation_id: string;
@@ -152,8 +201,8 @@ export class DatabaseService {
       INSERT INTO trades (
         id, ticker, direction, entry, exit, stop_loss, take_profit,
         quantity, notes, screenshot_path, strat_setup, timeframe,
-        entry_timestamp, exit_timestamp, pnl, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        entry_timestamp, exit_timestamp, pnl, simulated, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -172,11 +221,12 @@ export class DatabaseService {
       trade.entryTimestamp,
       trade.exitTimestamp ?? null,
       trade.pnl ?? null,
+      trade.simulated ? 1 : 0,
       now,
       now
     );
 
-    return { ...trade, id, createdAt: now, updatedAt: now } as Trade;
+    return { ...trade, simulated: trade.simulated ?? false, id, createdAt: now, updatedAt: now } as Trade;
   }
 
   getTrade(id: string): Trade | null {
@@ -188,15 +238,51 @@ export class DatabaseService {
     return this.mapTradeRow(row);
   }
 
-  listTrades(limit = 100, offset = 0): Trade[] {
-    const stmt = this.db.prepare(
-      'SELECT * FROM trades ORDER BY created_at DESC LIMIT ? OFFSET ?'
-    );
-    const rows = stmt.all(limit, offset) as TradeRow[];
+  /** Newest first. `simulated` limits the list to paper (true) or live (false) trades. */
+  listTrades(limit = 100, offset = 0, simulated?: boolean): Trade[] {
+    const rows = (
+      simulated === undefined
+        ? this.db.prepare('SELECT * FROM trades ORDER BY created_at DESC LIMIT ? OFFSET ?').all(limit, offset)
+        : this.db
+            .prepare('SELECT * FROM trades WHERE simulated = ? ORDER BY created_at DESC LIMIT ? OFFSET ?')
+            .all(simulated ? 1 : 0, limit, offset)
+    ) as TradeRow[];
 
     return rows.map((row) => this.mapTradeRow(row));
   }
 
+  /** Trades not closed yet, oldest first; paper (true) or live (false) */
+  listOpenTrades(simulated: boolean): Trade[] {
+    const rows = this.db
+      .prepare('SELECT * FROM trades WHERE simulated = ? AND exit IS NULL ORDER BY created_at ASC')
+      .all(simulated ? 1 : 0) as TradeRow[];
+
+    return rows.map((row) => this.mapTradeRow(row));
+  }
+
+  /** Closed-trade results for paper (simulated) or live trades, never mixed */
+  getTradePerformance(simulated: boolean): TradePerformance {
+    const row = this.db.prepare(`
+      SELECT
+        COUNT(*) AS trades,
+        COUNT(exit) AS closed,
+        SUM(CASE WHEN exit IS NOT NULL AND pnl > 0 THEN 1 ELSE 0 END) AS wins,
+        SUM(CASE WHEN exit IS NOT NULL AND pnl < 0 THEN 1 ELSE 0 END) AS losses,
+        COALESCE(SUM(CASE WHEN exit IS NOT NULL THEN pnl END), 0) AS total_pnl
+      FROM trades WHERE simulated = ?
+    `).get(simulated ? 1 : 0) as { trades: number; closed: number; wins: number | null; losses: number | null; total_pnl: number };
+
+    return {
+      simulated,
+      trades: row.trades,
+      open: row.trades - row.closed,
+      wins: row.wins ?? 0,
+      losses: row.losses ?? 0,
+      winRate: row.closed > 0 ? (row.wins ?? 0) / row.closed : null,
+      totalPnl: row.total_pnl,
+    };
+  }
+
   updateTrade(id: string, updates: Partial<Omit<Trade, 'id' | 'createdAt'>>): Trade {
     const now = Date.now();
 
@@ -378,44 +464,476 @@ export class DatabaseService {
 
   // ---- Watchlist Operations ----
 
-  getWatchlist(): string[] {
+  listWatchlists(): Watchlist[] {
     const rows = this.db
-      .prepare('SELECT symbol FROM watchlist ORDER BY tier ASC, symbol ASC')
-      .all() as Array<{ symbol: string }>;
-    return rows.map((r) => r.symbol);
+      .prepare(`
+        SELECT w.*, (SELECT COUNT(*) FROM watchlist_items i WHERE i.watchlist_id = w.id) AS symbol_count
+        FROM watchlists w
+        ORDER BY w.created_at ASC, w.name ASC
+      `)
+      .all() as WatchlistRow[];
+    return rows.map((row) => this.mapWatchlistRow(row));
+  }
+
+  getWatchlistById(id: string): Watchlist | null {
+    const row = this.db
+      .prepare(`
+        SELECT w.*, (SELECT COUNT(*) FROM watchlist_items i WHERE i.watchlist_id = w.id) AS symbol_count
+        FROM watchlists w
+        WHERE w.id = ?
+      `)
+      .get(id) as WatchlistRow | undefined;
+    return row ? this.mapWatchlistRow(row) : null;
+  }
+
+  createWatchlist(name: string, defaultTradingStyle: ScreenerTradingStyle | null = null): Watchlist {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+    this.db
+      .prepare(`
+        INSERT INTO watchlists (id, name, default_trading_style, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `)
+      .run(id, this.validWatchlistName(name), defaultTradingStyle, now, now);
+    return this.getWatchlistById(id)!;
+  }
+
+  updateWatchlist(
+    id: string,
+    updates: { name?: string; defaultTradingStyle?: ScreenerTradingStyle | null }
+  ): Watchlist {
+    const existing = this.getWatchlistById(id);
+    if (!existing) {
+      throw new Error(`Watchlist not found: ${id}`);
+    }
+
+    const name = updates.name !== undefined ? this.validWatchlistName(updates.name, id) : existing.name;
+    const style = updates.defaultTradingStyle !== undefined ? updates.defaultTradingStyle : existing.defaultTradingStyle;
+    this.db
+      .prepare('UPDATE watchlists SET name = ?, default_trading_style = ?, updated_at = ? WHERE id = ?')
+      .run(name, style, Date.now(), id);
+    return this.getWatchlistById(id)!;
   }
 
-  addToWatchlist(symbol: string): void {
+  deleteWatchlist(id: string): void {
+    if (id === DEFAULT_WATCHLIST_ID) {
+      throw new Error('The default watchlist cannot be deleted');
+    }
+    const result = this.db.prepare('DELETE FROM watchlists WHERE id = ?').run(id);
+    if (result.changes === 0) {
+      throw new Error(`Watchlist not found: ${id}`);
+    }
+  }
+
+  /**
+   * Symbols of a list in scan order: tier first, then manual position
+   */
+  getWatchlist(watchlistId = DEFAULT_WATCHLIST_ID): string[] {
+    return this.getWatchlistItems(watchlistId).map((item) => item.symbol);
+  }
+
+  getWatchlistItems(watchlistId = DEFAULT_WATCHLIST_ID): WatchlistItem[] {
+    const rows = this.db
+      .prepare(`
+        SELECT symbol, asset_class, tier, position, notes, added_at FROM watchlist_items
+        WHERE watchlist_id = ?
+        ORDER BY tier ASC, position ASC
+      `)
+      .all(watchlistId) as Array<{
+        symbol: string;
+        asset_class: string;
+        tier: number;
+        position: number;
+        notes: string | null;
+        added_at: number;
+      }>;
+    return rows.map((r) => ({
+      symbol: r.symbol,
+      assetClass: isAssetClass(r.asset_class) ? r.asset_class : assetClassForSymbol(r.symbol),
+      tier: r.tier,
+      position: r.position,
+      notes: r.notes,
+      addedAt: r.added_at,
+    }));
+  }
+
+  /**
+   * Append a symbol to the end of a list. Symbols already on the list are left
+   * as they are. Without an asset class, one is guessed from the ticker.
+   */
+  addToWatchlist(
+    symbol: string,
+    watchlistId = DEFAULT_WATCHLIST_ID,
+    options: { assetClass?: AssetClass; tier?: number; notes?: string | null } = {}
+  ): void {
     const upper = symbol.trim().toUpperCase();
     this.db
-      .prepare('INSERT OR IGNORE INTO watchlist (symbol, tier, added_at) VALUES (?, 2, ?)')
-      .run(upper, Date.now());
+      .prepare(`
+        INSERT OR IGNORE INTO watchlist_items (watchlist_id, symbol, asset_class, tier, position, notes, added_at)
+        VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(position) + 1, 0) FROM watchlist_items WHERE watchlist_id = ?), ?, ?)
+      `)
+      .run(
+        watchlistId,
+        upper,
+        options.assetClass ?? assetClassForSymbol(upper),
+        options.tier ?? 2,
+        watchlistId,
+        options.notes ?? null,
+        Date.now()
+      );
+    this.touchWatchlist(watchlistId);
+  }
+
+  updateWatchlistItem(
+    watchlistId: string,
+    symbol: string,
+    updates: { assetClass?: AssetClass; tier?: number; notes?: string | null }
+  ): void {
+    const fields: string[] = [];
+    const values: (string | number | null)[] = [];
+    if (updates.assetClass !== undefined) {
+      fields.push('asset_class = ?');
+      values.push(updates.assetClass);
+    }
+    if (updates.tier !== undefined) {
+      fields.push('tier = ?');
+      values.push(updates.tier);
+    }
+    if (updates.notes !== undefined) {
+      fields.push('notes = ?');
+      values.push(updates.notes);
+    }
+    if (fields.length === 0) return;
+
+    const result = this.db
+      .prepare(`UPDATE watchlist_items SET ${fields.join(', ')} WHERE watchlist_id = ? AND symbol = ?`)
+      .run(...values, watchlistId, symbol.trim().toUpperCase());
+    if (result.changes === 0) {
+      throw new Error(`${symbol} is not on watchlist ${watchlistId}`);
+    }
+    this.touchWatchlist(watchlistId);
   }
 
-  removeFromWatchlist(symbol: string): void {
+  removeFromWatchlist(symbol: string, watchlistId = DEFAULT_WATCHLIST_ID): void {
     this.db
-      .prepare('DELETE FROM watchlist WHERE symbol = ?')
-      .run(symbol.trim().toUpperCase());
+      .prepare('DELETE FROM watchlist_items WHERE watchlist_id = ? AND symbol = ?')
+      .run(watchlistId, symbol.trim().toUpperCase());
+    this.touchWatchlist(watchlistId);
   }
 
-  seedWatchlistIfEmpty(defaults: Array<{ symbol: string; tier: number }>): void {
+  /**
+   * Set the manual order of a list. Symbols not named keep their relative
+   * order after the named ones.
+   */
+  reorderWatchlist(watchlistId: string, symbols: string[]): void {
+    const named = symbols.map((s) => s.trim().toUpperCase());
+    const current = this.db
+      .prepare('SELECT symbol FROM watchlist_items WHERE watchlist_id = ? ORDER BY position ASC')
+      .all(watchlistId) as Array<{ symbol: string }>;
+    const onList = new Set(current.map((r) => r.symbol));
+    const order = [
+      ...named.filter((s) => onList.has(s)),
+      ...current.map((r) => r.symbol).filter((s) => !named.includes(s)),
+    ];
+
+    const update = this.db.prepare('UPDATE watchlist_items SET position = ? WHERE watchlist_id = ? AND symbol = ?');
+    const reorder = this.db.transaction(() => {
+      order.forEach((symbol, i) => update.run(i, watchlistId, symbol));
+    });
+    reorder();
+    this.touchWatchlist(watchlistId);
+  }
+
+  seedWatchlistIfEmpty(defaults: Array<{ symbol: string; tier: number }>, watchlistId = DEFAULT_WATCHLIST_ID): void {
     const count = (
-      this.db.prepare('SELECT COUNT(*) as n FROM watchlist').get() as { n: number }
+      this.db.prepare('SELECT COUNT(*) as n FROM watchlist_items WHERE watchlist_id = ?').get(watchlistId) as { n: number }
     ).n;
     if (count > 0) return;
 
     const insert = this.db.prepare(
-      'INSERT OR IGNORE INTO watchlist (symbol, tier, added_at) VALUES (?, ?, ?)'
+      'INSERT OR IGNORE INTO watchlist_items (watchlist_id, symbol, asset_class, tier, position, added_at) VALUES (?, ?, ?, ?, ?, ?)'
     );
     const now = Date.now();
     const seed = this.db.transaction(() => {
-      for (const { symbol, tier } of defaults) {
-        insert.run(symbol.toUpperCase(), tier, now);
-      }
+      defaults.forEach(({ symbol, tier }, i) => {
+        const upper = symbol.toUpperCase();
+        insert.run(watchlistId, upper, assetClassForSymbol(upper), tier, i, now);
+      });
     });
     seed();
   }
 
+  // ---- Trading Style Operations ----
+
+  getTradingStyleOverrides(): Array<{ id: string; timeframes: string[]; updatedAt: number }> {
+    const rows = this.db
+      .prepare('SELECT id, timeframes, updated_at FROM trading_styles')
+      .all() as Array<{ id: string; timeframes: string; updated_at: number }>;
+    return rows.map((r) => ({
+      id: r.id,
+      timeframes: JSON.parse(r.timeframes) as string[],
+      updatedAt: r.updated_at,
+    }));
+  }
+
+  saveTradingStyle(id: string, timeframes: string[]): void {
+    this.db
+      .prepare(`
+        INSERT INTO trading_styles (id, timeframes, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          timeframes = excluded.timeframes,
+          updated_at = excluded.updated_at
+      `)
+      .run(id, JSON.stringify(timeframes), Date.now());
+  }
+
+  deleteTradingStyle(id: string): void {
+    this.db.prepare('DELETE FROM trading_styles WHERE id = ?').run(id);
+  }
+
+  // ---- Screener Schedule ----
+
+  getScreenerSchedule(): { tradingStyle: ScreenerTradingStyle; watchlistId: string; enabled: boolean } | null {
+    const row = this.db
+      .prepare('SELECT trading_style, watchlist_id, enabled FROM screener_schedule WHERE id = 1')
+      .get() as { trading_style: string; watchlist_id: string; enabled: number } | undefined;
+    if (!row) return null;
+
+    return {
+      tradingStyle: row.trading_style as ScreenerTradingStyle,
+      watchlistId: row.watchlist_id,
+      enabled: row.enabled === 1,
+    };
+  }
+
+  saveScreenerSchedule(schedule: { tradingStyle: ScreenerTradingStyle; watchlistId: string; enabled: boolean }): void {
+    this.db
+      .prepare(`
+        INSERT INTO screener_schedule (id, trading_style, watchlist_id, enabled, updated_at) VALUES (1, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          trading_style = excluded.trading_style,
+          watchlist_id = excluded.watchlist_id,
+          enabled = excluded.enabled,
+          updated_at = excluded.updated_at
+      `)
+      .run(schedule.tradingStyle, schedule.watchlistId, schedule.enabled ? 1 : 0, Date.now());
+  }
+
+  // ---- Screener Scan History ----
+
+  /**
+   * Store a scan and its per-symbol results. Returns the new scan id.
+   */
+  saveScreenerScan(response: ScreenerScanResponse): string {
+    const id = crypto.randomUUID();
+    const insertScan = this.db.prepare(`
+      INSERT INTO screener_scans (id, trading_style, watchlist_id, timeframe_labels, data_source, scanned_at, duration)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertResult = this.db.prepare(`
+      INSERT INTO screener_scan_results (scan_id, symbol, position, alignment, direction, result)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    const save = this.db.transaction(() => {
+      insertScan.run(
+        id,
+        response.tradingStyle,
+        response.watchlistId ?? null,
+        JSON.stringify(response.timeframeLabels),
+        response.dataSource,
+        Date.parse(response.scannedAt),
+        response.duration
+      );
+      response.results.forEach((r, i) => {
+        insertResult.run(id, r.symbol, i, r.alignment, r.direction, JSON.stringify(r));
+      });
+    });
+    save();
+
+    return id;
+  }
+
+  /**
+   * List stored scans, newest first
+   */
+  listScreenerScans(request: ListScreenerScansRequest = {}): ScreenerScanSummary[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (request.tradingStyle) {
+      conditions.push('s.trading_style = ?');
+      params.push(request.tradingStyle);
+    }
+    if (request.watchlistId) {
+      conditions.push('s.watchlist_id = ?');
+      params.push(request.watchlistId);
+    }
+    if (request.since) {
+      conditions.push('s.scanned_at >= ?');
+      params.push(Date.parse(request.since));
+    }
+    if (request.until) {
+      conditions.push('s.scanned_at <= ?');
+      params.push(Date.parse(request.until));
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`
+        SELECT s.*,
+          (SELECT COUNT(*) FROM screener_scan_results r WHERE r.scan_id = s.id) AS symbol_count,
+          (SELECT COUNT(*) FROM screener_scan_results r WHERE r.scan_id = s.id AND r.alignment = 'full-ftfc') AS full_ftfc_count
+        FROM screener_scans s
+        ${where}
+        ORDER BY s.scanned_at DESC
+        LIMIT ?
+      `)
+      .all(...params, request.limit ?? 50) as Array<ScreenerScanRow & { symbol_count: number; full_ftfc_count: number }>;
+
+    return rows.map((row) => ({
+      id: row.id,
+      watchlistId: row.watchlist_id,
+      ...this.mapScreenerScanRow(row),
+      symbolCount: row.symbol_count,
+      fullFtfcCount: row.full_ftfc_count,
+    }));
+  }
+
+  getScreenerScan(id: string): ScreenerScanResponse | null {
+    const row = this.db.prepare('SELECT * FROM screener_scans WHERE id = ?').get(id) as ScreenerScanRow | undefined;
+    if (!row) return null;
+
+    const results = this.db
+      .prepare('SELECT result FROM screener_scan_results WHERE scan_id = ? ORDER BY position ASC')
+      .all(id) as Array<{ result: string }>;
+
+    return {
+      ...this.mapScreenerScanRow(row),
+      scanId: row.id,
+      ...(row.watchlist_id !== null && { watchlistId: row.watchlist_id }),
+      results: results.map((r) => this.mapScreenerResult(r.result)),
+    };
+  }
+
+  /**
+   * Delete scans taken before `before` (unix ms). Returns the number removed.
+   */
+  deleteScreenerScansBefore(before: number): number {
+    return this.db.prepare('DELETE FROM screener_scans WHERE scanned_at < ?').run(before).changes;
+  }
+
+  // ---- Replay Training ----
+
+  /**
+   * Store a training session's running score, replacing the previous one
+   */
+  saveReplayScore(score: ReplayScore): void {
+    this.db
+      .prepare(`
+        INSERT INTO replay_sessions (
+          id, symbol, timeframe, total_bars, bars, label_correct, setup_correct,
+          trigger_correct, trigger_total, started_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET
+          bars = excluded.bars,
+          label_correct = excluded.label_correct,
+          setup_correct = excluded.setup_correct,
+          trigger_correct = excluded.trigger_correct,
+          trigger_total = excluded.trigger_total,
+          updated_at = excluded.updated_at
+      `)
+      .run(
+        score.id,
+        score.symbol,
+        score.timeframe,
+        score.totalBars,
+        score.bars,
+        score.labelCorrect,
+        score.setupCorrect,
+        score.triggerCorrect,
+        score.triggerTotal,
+        score.startedAt,
+        score.updatedAt
+      );
+  }
+
+  /**
+   * List training scores, newest session first
+   */
+  listReplayScores(limit = 50): ReplayScore[] {
+    const rows = this.db
+      .prepare('SELECT * FROM replay_sessions ORDER BY started_at DESC LIMIT ?')
+      .all(limit) as ReplaySessionRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      symbol: row.symbol,
+      timeframe: row.timeframe,
+      totalBars: row.total_bars,
+      bars: row.bars,
+      labelCorrect: row.label_correct,
+      setupCorrect: row.setup_correct,
+      triggerCorrect: row.trigger_correct,
+      triggerTotal: row.trigger_total,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  // ---- Candle Cache Operations ----
+
+  upsertCandles(symbol: string, interval: string, candles: OhlcCandle[]): void {
+    const upper = symbol.trim().toUpperCase();
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO candles (symbol, interval, timestamp, open, high, low, close, volume)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const upsert = this.db.transaction(() => {
+      for (const c of candles) {
+        insert.run(upper, interval, c.timestamp, c.open, c.high, c.low, c.close, c.volume);
+      }
+    });
+    upsert();
+  }
+
+  getCandles(symbol: string, interval: string, since = 0): OhlcCandle[] {
+    return this.db
+      .prepare(`
+        SELECT timestamp, open, high, low, close, volume FROM candles
+        WHERE symbol = ? AND interval = ? AND timestamp >= ?
+        ORDER BY timestamp ASC
+      `)
+      .all(symbol.trim().toUpperCase(), interval, since) as OhlcCandle[];
+  }
+
+  getCandleSeries(
+    symbol: string,
+    interval: string
+  ): { coveredFrom: number; latest: number | null; lastFetchedAt: number } | null {
+    const upper = symbol.trim().toUpperCase();
+    const row = this.db
+      .prepare('SELECT covered_from, last_fetched_at FROM candle_series WHERE symbol = ? AND interval = ?')
+      .get(upper, interval) as { covered_from: number; last_fetched_at: number } | undefined;
+    if (!row) return null;
+
+    const latest = this.db
+      .prepare('SELECT MAX(timestamp) as ts FROM candles WHERE symbol = ? AND interval = ?')
+      .get(upper, interval) as { ts: number | null };
+
+    return { coveredFrom: row.covered_from, latest: latest.ts, lastFetchedAt: row.last_fetched_at };
+  }
+
+  setCandleSeries(symbol: string, interval: string, coveredFrom: number): void {
+    this.db
+      .prepare(`
+        INSERT INTO candle_series (symbol, interval, covered_from, last_fetched_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (symbol, interval) DO UPDATE SET
+          covered_from = excluded.covered_from,
+          last_fetched_at = excluded.last_fetched_at
+      `)
+      .run(symbol.trim().toUpperCase(), interval, coveredFrom, Date.now());
+  }
+
   // ---- Screenshot Operations ----
 
   createScreenshot(data: {
@@ -565,6 +1083,7 @@ export class DatabaseService {
       entryTimestamp: row.entry_timestamp,
       exitTimestamp: row.exit_timestamp ?? undefined,
       pnl: row.pnl ?? undefined,
+      simulated: row.simulated === 1,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -594,6 +1113,61 @@ export class DatabaseService {
     };
   }
 
+  private mapWatchlistRow(row: WatchlistRow): Watchlist {
+    return {
+      id: row.id,
+      name: row.name,
+      defaultTradingStyle: row.default_trading_style as ScreenerTradingStyle | null,
+      symbolCount: row.symbol_count,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private validWatchlistName(name: string, exceptId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Watchlist name is required');
+    }
+    const clash = this.db
+      .prepare('SELECT id FROM watchlists WHERE name = ? AND id != ?')
+      .get(trimmed, exceptId ?? '') as { id: string } | undefined;
+    if (clash) {
+      throw new Error(`A watchlist named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private touchWatchlist(id: string): void {
+    this.db.prepare('UPDATE watchlists SET updated_at = ? WHERE id = ?').run(Date.now(), id);
+  }
+
+  private mapScreenerScanRow(row: ScreenerScanRow): Omit<ScreenerScanResponse, 'results' | 'scanId' | 'watchlistId'> {
+    return {
+      tradingStyle: row.trading_style as ScreenerScanResponse['tradingStyle'],
+      timeframeLabels: JSON.parse(row.timeframe_labels) as string[],
+      dataSource: row.data_source as ScreenerScanResponse['dataSource'],
+      scannedAt: new Date(row.scanned_at).toISOString(),
+      duration: row.duration
+    };
+  }
+
+  /** Results stored before red flags, candle shapes and multi-candle structures existed lack them */
+  private mapScreenerResult(json: string): ScreenerSymbolResult {
+    const result = JSON.parse(json) as ScreenerSymbolResult;
+    return {
+      ...result,
+      timeframes: result.timeframes.map((tf) => ({
+        ...tf,
+        check: { ...tf.check, shape1: tf.check.shape1 ?? null, shape2: tf.check.shape2 ?? null },
+        liveShape: tf.liveShape ?? null,
+        broadening: tf.broadening ?? null,
+        pmg: tf.pmg ?? null,
+      })),
+      redFlags: result.redFlags ?? [],
+    };
+  }
+
   private camelToSnake(str: string): string {
     return str.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
   }
@@ -0,0 +1,124 @@
+/**
+ * Key Levels
+ *
+ * Prior-period highs and lows for a symbol — the magnitude targets the coach
+ * trades toward:
+ *
+ *  PDH / PDL   previous day high / low
+ *  PWH / PWL   previous week high / low
+ *  PMH / PML   previous month high / low
+ *  PYH / PYL   previous year high / low (aggregated from monthly bars)
+ *  HOD / LOD   high / low of the current session
+ *
+ * "Previous" means the last completed bar of that timeframe, so a forming
+ * bar (per market-session.ts) never counts. Outside market hours there is no
+ * forming daily bar: HOD/LOD are absent and PDH/PDL already describe the
+ * session that just ended — the levels for the next one. Sessions follow the
+ * symbol's market (shared/market-calendar.ts), so ES=F days end at 17:00 ET
+ * and BTC-USD days at midnight UTC. Callers pass the session of a watchlist
+ * entry's asset class; without one it is guessed from the ticker.
+ */
+
+import type { KeyLevel, KeyLevelId, SymbolKeyLevels } from '@shared/ipc-types';
+import { aggregateCandles } from './candle-aggregation';
+import type { AggregateInterval, CandleInterval, MarketDataProvider, OhlcCandle } from './market-data';
+import { candleCloseTime } from './market-session';
+import { sessionForSymbol } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
+
+export const KEY_LEVEL_LABELS: Record<KeyLevelId, string> = {
+  PDH: 'Previous day high',
+  PDL: 'Previous day low',
+  PWH: 'Previous week high',
+  PWL: 'Previous week low',
+  PMH: 'Previous month high',
+  PML: 'Previous month low',
+  PYH: 'Previous year high',
+  PYL: 'Previous year low',
+  HOD: 'High of day',
+  LOD: 'Low of day',
+};
+
+/** Enough history for the previous bar of each timeframe, plus the forming one */
+const DAILY_RANGE = '1mo';
+const WEEKLY_RANGE = '3mo';
+const MONTHLY_RANGE = '2y';
+
+export interface KeyLevelCandles {
+  daily: OhlcCandle[];
+  weekly: OhlcCandle[];
+  monthly: OhlcCandle[];
+}
+
+/** The last completed bar and the forming one, if any */
+function splitForming(
+  candles: OhlcCandle[],
+  interval: CandleInterval | AggregateInterval,
+  now: number,
+  session: MarketSession
+): { previous: OhlcCandle | null; forming: OhlcCandle | null } {
+  const last = candles.at(-1);
+  if (!last) return { previous: null, forming: null };
+  if (candleCloseTime(last.timestamp, interval, session) > now) {
+    return { previous: candles.at(-2) ?? null, forming: last };
+  }
+  return { previous: last, forming: null };
+}
+
+function highLow(levels: KeyLevel[], bar: OhlcCandle | null, high: KeyLevelId, low: KeyLevelId): void {
+  if (!bar) return;
+  levels.push({ id: high, label: KEY_LEVEL_LABELS[high], price: bar.high });
+  levels.push({ id: low, label: KEY_LEVEL_LABELS[low], price: bar.low });
+}
+
+/** Key levels from already-fetched candles, each series oldest first */
+export function computeKeyLevels(
+  symbol: string,
+  candles: KeyLevelCandles,
+  now: number = Date.now(),
+  session: MarketSession = sessionForSymbol(symbol)
+): SymbolKeyLevels {
+  const day = splitForming(candles.daily, '1d', now, session);
+  const week = splitForming(candles.weekly, '1wk', now, session);
+  const month = splitForming(candles.monthly, '1mo', now, session);
+  const year = splitForming(aggregateCandles(candles.monthly, '1y', session), '1y', now, session);
+
+  const levels: KeyLevel[] = [];
+  highLow(levels, day.forming, 'HOD', 'LOD');
+  highLow(levels, day.previous, 'PDH', 'PDL');
+  highLow(levels, week.previous, 'PWH', 'PWL');
+  highLow(levels, month.previous, 'PMH', 'PML');
+  highLow(levels, year.previous, 'PYH', 'PYL');
+
+  return {
+    symbol,
+    lastPrice: candles.daily.at(-1)?.close ?? null,
+    levels,
+    asOf: new Date(now).toISOString(),
+  };
+}
+
+/** Fetch daily, weekly and monthly bars for `symbol` and compute its key levels */
+export async function getKeyLevels(
+  symbol: string,
+  provider: MarketDataProvider,
+  now: number = Date.now(),
+  session: MarketSession = sessionForSymbol(symbol)
+): Promise<SymbolKeyLevels> {
+  const fetch = (interval: CandleInterval, range: string): Promise<OhlcCandle[]> =>
+    provider.fetchCandles({ symbol, interval, range });
+
+  const [daily, weekly, monthly] = await Promise.all([
+    fetch('1d', DAILY_RANGE),
+    fetch('1wk', WEEKLY_RANGE),
+    fetch('1mo', MONTHLY_RANGE),
+  ]);
+  return computeKeyLevels(symbol, { daily, weekly, monthly }, now, session);
+}
+
+/** One line of chat context, e.g. "AAPL (last 189.50): HOD 190.10, LOD 187.95, PDH 191.20, …" */
+export function formatKeyLevels(keyLevels: SymbolKeyLevels): string {
+  const last = keyLevels.lastPrice !== null ? ` (last ${keyLevels.lastPrice.toFixed(2)})` : '';
+  const levels = keyLevels.levels.map((l) => `${l.id} ${l.price.toFixed(2)}`).join(', ');
+  return `${keyLevels.symbol}${last}: ${levels || 'no levels available'}`;
+}
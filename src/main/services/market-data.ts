@@ -0,0 +1,388 @@
+/**
+ * Market Data Providers
+ *
+ * Abstracts where the screener gets its OHLC candles from. Three providers:
+ *
+ *  yahoo:  live Yahoo Finance chart API (default)
+ *  file:   local CSV/JSON files, one file per symbol + interval
+ *  replay: in-memory fixtures recorded from a previous run
+ *
+ * Yahoo requests are retried and rate-limited through resilient-fetch.ts.
+ *
+ * Candle timestamps are unix seconds (the Yahoo convention) throughout.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MarketDataSource } from '@shared/ipc-types';
+import { CircuitBreaker, HttpStatusError, fetchWithRetry } from './resilient-fetch';
+import type { ResilientFetchOptions } from './resilient-fetch';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CandleInterval = '5m' | '15m' | '1h' | '1d' | '1wk' | '1mo';
+
+/** Timeframes no provider serves directly — built from finer bars in candle-aggregation.ts */
+export type AggregateInterval = '2h' | '4h' | '12h' | '3mo' | '1y';
+
+export interface OhlcCandle {
+  timestamp: number; // unix seconds, bar open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface CandleRequest {
+  symbol: string;
+  interval: CandleInterval;
+  range: string; // Yahoo-style lookback, e.g. '15d', '2y'
+  since?: number; // unix seconds — when set, only bars at or after this time are needed
+  signal?: AbortSignal; // cancels a network fetch; local providers ignore it
+}
+
+export interface MarketDataProvider {
+  readonly source: MarketDataSource['kind'];
+  /** Pause between screener batches; only live network providers need one */
+  readonly batchDelayMs: number;
+  fetchCandles(request: CandleRequest): Promise<OhlcCandle[]>;
+}
+
+/** A recorded provider response, replayed by ReplayMarketDataProvider */
+export interface CandleFixture {
+  symbol: string;
+  interval: CandleInterval;
+  candles: OhlcCandle[];
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RANGE_UNIT_SECONDS: Record<string, number> = {
+  d: 86_400,
+  wk: 7 * 86_400,
+  mo: 31 * 86_400,
+  y: 366 * 86_400,
+};
+
+/** Convert a Yahoo range string ('15d', '3mo', '2y') to seconds. Returns null for 'max'. */
+export function rangeToSeconds(range: string): number | null {
+  if (range === 'max') return null;
+  const match = /^(\d+)(d|wk|mo|y)$/.exec(range);
+  if (!match) {
+    throw new Error(`Unsupported range: ${range}`);
+  }
+  return Number(match[1]) * RANGE_UNIT_SECONDS[match[2]];
+}
+
+/** Keep only candles within `range` of the most recent candle (and at/after `since`) */
+function sliceToRange(candles: OhlcCandle[], range: string, since?: number): OhlcCandle[] {
+  const span = rangeToSeconds(range);
+  if (candles.length === 0) return candles;
+  const cutoff = Math.max(span === null ? 0 : candles[candles.length - 1].timestamp - span, since ?? 0);
+  return candles.filter((c) => c.timestamp >= cutoff);
+}
+
+function fixtureKey(symbol: string, interval: CandleInterval): string {
+  return `${symbol.toUpperCase()}:${interval}`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Yahoo Finance
+// ─────────────────────────────────────────────────────────────────────────────
+
+const YAHOO_BASE = 'https://query1.finance.yahoo.com/v8/finance/chart';
+export const YAHOO_BATCH_DELAY_MS = 600;
+
+/** Shared by every Yahoo provider so a throttled scan also holds back the next one */
+const yahooBreaker = new CircuitBreaker();
+
+interface YahooQuote {
+  open: (number | null)[];
+  high: (number | null)[];
+  low: (number | null)[];
+  close: (number | null)[];
+  volume: (number | null)[];
+}
+
+interface YahooChartResponse {
+  chart: {
+    result: Array<{
+      timestamp: number[];
+      indicators: { quote: YahooQuote[] };
+    }> | null;
+    error: { code: string; description: string } | null;
+  };
+}
+
+export interface YahooProviderOptions {
+  /** Chart API root — tests point this at a local stub */
+  baseUrl?: string;
+  breaker?: CircuitBreaker;
+  retry?: ResilientFetchOptions;
+}
+
+export class YahooMarketDataProvider implements MarketDataProvider {
+  readonly source = 'yahoo' as const;
+  readonly batchDelayMs = YAHOO_BATCH_DELAY_MS;
+
+  constructor(private readonly options: YahooProviderOptions = {}) {}
+
+  async fetchCandles({ symbol, interval, range, since, signal }: CandleRequest): Promise<OhlcCandle[]> {
+    // An explicit start time replaces the range so incremental refreshes stay small
+    const window =
+      since !== undefined
+        ? `period1=${since}&period2=${Math.ceil(Date.now() / 1000)}`
+        : `range=${range}`;
+    const base = this.options.baseUrl ?? YAHOO_BASE;
+    const url = `${base}/${encodeURIComponent(symbol)}?interval=${interval}&${window}`;
+
+    let res: Response;
+    try {
+      res = await fetchWithRetry(
+        url,
+        {
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
+            Accept: 'application/json',
+          },
+          signal,
+        },
+        { ...this.options.retry, breaker: this.options.breaker ?? yahooBreaker }
+      );
+    } catch (error) {
+      if (error instanceof HttpStatusError) {
+        throw new Error(`Yahoo Finance HTTP ${error.status} for ${symbol} (${interval})`, { cause: error });
+      }
+      throw error;
+    }
+
+    if (!res.ok) {
+      throw new Error(`Yahoo Finance HTTP ${res.status} for ${symbol} (${interval})`);
+    }
+
+    const data = (await res.json()) as YahooChartResponse;
+
+    if (!data.chart.result || data.chart.result.length === 0) {
+      throw new Error(`No chart data returned for ${symbol} (${interval})`);
+    }
+
+    const result = data.chart.result[0];
+    const timestamps = result.timestamp;
+    const quote = result.indicators.quote[0];
+
+    const candles: OhlcCandle[] = [];
+    for (let i = 0; i < timestamps.length; i++) {
+      const open = quote.open[i];
+      const high = quote.high[i];
+      const low = quote.low[i];
+      const close = quote.close[i];
+      const volume = quote.volume[i];
+
+      if (open == null || high == null || low == null || close == null) continue;
+
+      candles.push({
+        timestamp: timestamps[i],
+        open,
+        high,
+        low,
+        close,
+        volume: volume ?? 0,
+      });
+    }
+
+    return candles;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Local files
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads candles from `<directory>/<SYMBOL>.<interval>.json` or `.csv`.
+ *
+ * JSON files hold an array of OhlcCandle objects. CSV files need a header row
+ * with timestamp, open, high, low, close and (optionally) volume columns.
+ * Timestamps may be unix seconds, unix milliseconds or ISO dates.
+ * The range is measured back from the newest candle in the file, so data
+ * saved on Friday still scans the same way on Sunday.
+ */
+export class FileMarketDataProvider implements MarketDataProvider {
+  readonly source = 'file' as const;
+  readonly batchDelayMs = 0;
+
+  constructor(private readonly directory: string) {}
+
+  async fetchCandles({ symbol, interval, range, since }: CandleRequest): Promise<OhlcCandle[]> {
+    const base = path.join(this.directory, `${symbol.toUpperCase()}.${interval}`);
+
+    let candles: OhlcCandle[];
+    if (fs.existsSync(`${base}.json`)) {
+      candles = parseCandleJson(fs.readFileSync(`${base}.json`, 'utf-8'));
+    } else if (fs.existsSync(`${base}.csv`)) {
+      candles = parseCandleCsv(fs.readFileSync(`${base}.csv`, 'utf-8'));
+    } else {
+      throw new Error(`No local data for ${symbol} (${interval}) in ${this.directory}`);
+    }
+
+    candles.sort((a, b) => a.timestamp - b.timestamp);
+    return sliceToRange(candles, range, since);
+  }
+}
+
+function parseTimestamp(raw: string | number): number {
+  if (typeof raw === 'number' || /^\d+(\.\d+)?$/.test(raw)) {
+    const n = Number(raw);
+    // Anything past year ~2286 in seconds is really milliseconds
+    return n > 1e10 ? Math.floor(n / 1000) : n;
+  }
+  const ms = Date.parse(raw);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid timestamp: ${raw}`);
+  }
+  return Math.floor(ms / 1000);
+}
+
+export function parseCandleJson(text: string): OhlcCandle[] {
+  const rows = JSON.parse(text) as Array<Omit<OhlcCandle, 'timestamp'> & { timestamp: string | number }>;
+  if (!Array.isArray(rows)) {
+    throw new Error('Candle JSON must be an array');
+  }
+  return rows.map((row) => ({
+    timestamp: parseTimestamp(row.timestamp),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    volume: Number(row.volume ?? 0),
+  }));
+}
+
+export function parseCandleCsv(text: string): OhlcCandle[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(',').map((h) => h.trim().toLowerCase());
+  const col = (name: string): number => {
+    const idx = header.findIndex((h) => h === name || (name === 'timestamp' && (h === 'date' || h === 'time')));
+    if (idx === -1 && name !== 'volume') {
+      throw new Error(`Candle CSV is missing a "${name}" column`);
+    }
+    return idx;
+  };
+  const [iTs, iOpen, iHigh, iLow, iClose, iVol] = ['timestamp', 'open', 'high', 'low', 'close', 'volume'].map(col);
+
+  return lines.slice(1).map((line) => {
+    const cells = line.split(',').map((c) => c.trim());
+    return {
+      timestamp: parseTimestamp(cells[iTs]),
+      open: Number(cells[iOpen]),
+      high: Number(cells[iHigh]),
+      low: Number(cells[iLow]),
+      close: Number(cells[iClose]),
+      volume: iVol === -1 ? 0 : Number(cells[iVol] || 0),
+    };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Replay fixtures
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Serves candles from recorded fixtures. An optional `asOf` cursor (unix
+ * seconds) hides every candle that opened after it, so a scan can be replayed
+ * as it would have looked at that moment.
+ */
+export class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly source = 'replay' as const;
+  readonly batchDelayMs = 0;
+
+  private fixtures = new Map<string, OhlcCandle[]>();
+  private asOf: number | null = null;
+
+  constructor(fixtures: CandleFixture[]) {
+    for (const fixture of fixtures) {
+      const candles = [...fixture.candles].sort((a, b) => a.timestamp - b.timestamp);
+      this.fixtures.set(fixtureKey(fixture.symbol, fixture.interval), candles);
+    }
+  }
+
+  /** Load fixtures written by RecordingMarketDataProvider.saveFixtures() */
+  static fromFile(filePath: string): ReplayMarketDataProvider {
+    const fixtures = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CandleFixture[];
+    return new ReplayMarketDataProvider(fixtures);
+  }
+
+  setAsOf(timestamp: number | null): void {
+    this.asOf = timestamp;
+  }
+
+  async fetchCandles({ symbol, interval, range, since }: CandleRequest): Promise<OhlcCandle[]> {
+    const candles = this.fixtures.get(fixtureKey(symbol, interval));
+    if (!candles) {
+      throw new Error(`No recorded fixture for ${symbol} (${interval})`);
+    }
+    const visible = this.asOf === null ? candles : candles.filter((c) => c.timestamp <= this.asOf!);
+    return sliceToRange(visible, range, since);
+  }
+}
+
+/**
+ * Wraps another provider and keeps every response, so a live scan can be
+ * saved and replayed later with ReplayMarketDataProvider.
+ */
+export class RecordingMarketDataProvider implements MarketDataProvider {
+  readonly source: MarketDataSource['kind'];
+  readonly batchDelayMs: number;
+
+  private recorded = new Map<string, CandleFixture>();
+
+  constructor(private readonly inner: MarketDataProvider) {
+    this.source = inner.source;
+    this.batchDelayMs = inner.batchDelayMs;
+  }
+
+  async fetchCandles(request: CandleRequest): Promise<OhlcCandle[]> {
+    const candles = await this.inner.fetchCandles(request);
+    const key = fixtureKey(request.symbol, request.interval);
+    const existing = this.recorded.get(key);
+    // Keep the longest response when the same interval is fetched with different ranges
+    if (!existing || existing.candles.length < candles.length) {
+      this.recorded.set(key, { symbol: request.symbol.toUpperCase(), interval: request.interval, candles });
+    }
+    return candles;
+  }
+
+  getFixtures(): CandleFixture[] {
+    return [...this.recorded.values()];
+  }
+
+  saveFixtures(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(this.getFixtures()), 'utf-8');
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function createMarketDataProvider(source: MarketDataSource = { kind: 'yahoo' }): MarketDataProvider {
+  switch (source.kind) {
+    case 'yahoo':
+      return new YahooMarketDataProvider();
+    case 'file':
+      return new FileMarketDataProvider(source.directory);
+    case 'replay': {
+      const provider = ReplayMarketDataProvider.fromFile(source.fixturePath);
+      provider.setAsOf(source.asOf ?? null);
+      return provider;
+    }
+  }
+}
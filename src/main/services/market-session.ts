@@ -0,0 +1,65 @@
+/**
+ * Market Session
+ *
+ * Session math for the screener: when does a candle that opened at a given
+ * time close? Trading days, holidays and half days come from the shared
+ * market calendar, per session — US equities trade 9:30–16:00 ET, futures,
+ * forex and crypto their own hours. The calendar also owns the time zone
+ * conversion.
+ */
+
+import type { AggregateInterval, CandleInterval } from './market-data';
+import { getZonedParts, lastTradingDayOnOrBefore, sessionAt, sessionTimeZone, sessionWeekEnd } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
+
+export { MARKET_TIME_ZONE, getZonedParts, zonedTimeToUtc } from '@shared/market-calendar';
+export type { ZonedParts } from '@shared/market-calendar';
+
+const INTRADAY_MINUTES: Partial<Record<CandleInterval | AggregateInterval, number>> = {
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+  '2h': 120,
+  '4h': 240,
+  '12h': 720,
+};
+
+/** Close of the last session of a month (month may run past 12) */
+function monthCloseOn(session: MarketSession, year: number, month: number): number {
+  const last = new Date(Date.UTC(year, month, 0));
+  return lastTradingDayOnOrBefore(session, last.getUTCFullYear(), last.getUTCMonth() + 1, last.getUTCDate()).close;
+}
+
+/**
+ * When a candle that opened at `openSec` (unix seconds) closes, in ms.
+ * Intraday bars close after their interval but never past their session's
+ * close; daily bars close with their session (16:00 ET for equities, or 13:00
+ * on half days), weekly bars on the week's last trading day, and monthly,
+ * quarterly and yearly bars on the last trading day of their final month.
+ */
+export function candleCloseTime(
+  openSec: number,
+  interval: CandleInterval | AggregateInterval,
+  session: MarketSession = 'us-equity'
+): number {
+  const openMs = openSec * 1000;
+  const { year, month, day, weekday } = getZonedParts(openMs, sessionTimeZone(session));
+
+  const minutes = INTRADAY_MINUTES[interval];
+  if (minutes !== undefined) {
+    return Math.min(openMs + minutes * 60_000, sessionAt(session, openMs).close);
+  }
+
+  if (interval === '1d') {
+    return sessionAt(session, openMs).close;
+  }
+
+  if (interval === '1wk') {
+    const weekEnd = day + ((sessionWeekEnd(session) - weekday + 7) % 7);
+    return lastTradingDayOnOrBefore(session, year, month, weekEnd).close;
+  }
+
+  if (interval === '3mo') return monthCloseOn(session, year, month + 2);
+  if (interval === '1y') return monthCloseOn(session, year, 12);
+  return monthCloseOn(session, year, month);
+}
@@ -0,0 +1,285 @@
+/**
+ * Paper Broker
+ *
+ * A simulated broker for practising Strat triggers without money on the
+ * line. Orders fill against the same candles the screener reads (any
+ * MarketDataProvider — live Yahoo, local files or a replay cursor):
+ *
+ *  market  fills at the last close when placed
+ *  stop    fills once a candle trades through the trigger, at the trigger or
+ *          the candle's open if it gapped past it
+ *  limit   fills once a candle trades at the limit, at the limit or the
+ *          candle's open if that's better
+ *
+ * Only candles that opened after an order was placed can fill it. A filled
+ * order becomes a journal entry flagged `simulated`, so paper results never
+ * mix with live performance. Positions with a stop loss or take profit
+ * (a bracket) close by themselves from the candle after the fill onward: a
+ * candle that reaches both is assumed to hit the stop first, as in the
+ * backtester. Anything else is closed at the last price on request.
+ *
+ * Working orders last for the app session. Open positions live in the
+ * journal and are picked up again on the next launch.
+ */
+
+import * as crypto from 'crypto';
+import type {
+  ConfigurePaperBrokerRequest,
+  MarketDataSource,
+  PaperBrokerState,
+  PaperFillInterval,
+  PaperOrder,
+  PlacePaperOrderRequest,
+} from '@shared/ipc-types';
+import type { Trade } from '@shared/models';
+import type { MarketDataProvider, OhlcCandle } from './market-data';
+
+/** Enough recent candles to cover orders placed earlier in the session */
+const FILL_RANGES: Record<PaperFillInterval, string> = {
+  '5m': '5d',
+  '15m': '5d',
+  '1h': '15d',
+  '1d': '30d',
+};
+
+/** The subset of DatabaseService the broker journals through — keeps it testable without SQLite */
+export interface PaperJournal {
+  createTrade(trade: Omit<Trade, 'id' | 'createdAt' | 'updatedAt'>): Trade;
+  updateTrade(id: string, updates: Partial<Omit<Trade, 'id' | 'createdAt'>>): Trade;
+  listOpenTrades(simulated: boolean): Trade[];
+}
+
+export interface PaperBrokerOptions {
+  journal: PaperJournal;
+  /** Candles for fills, e.g. the screener's cached provider */
+  providerFor: (source: MarketDataSource) => MarketDataProvider;
+  now?: () => number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fill rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Where a working order fills in `candle`, or null if it doesn't */
+export function fillPrice(order: PaperOrder, candle: OhlcCandle): number | null {
+  const long = order.direction === 'long';
+  const price = order.price!;
+  if (order.type === 'stop') {
+    if (long) return candle.high >= price ? Math.max(price, candle.open) : null;
+    return candle.low <= price ? Math.min(price, candle.open) : null;
+  }
+  if (order.type === 'limit') {
+    if (long) return candle.low <= price ? Math.min(price, candle.open) : null;
+    return candle.high >= price ? Math.max(price, candle.open) : null;
+  }
+  return candle.close;
+}
+
+/** Where a bracketed position exits in `candle`, or null if it stays open */
+export function exitPrice(position: Trade, candle: OhlcCandle): number | null {
+  const long = position.direction === 'long';
+  const { stopLoss, takeProfit } = position;
+  if (stopLoss !== undefined && (long ? candle.low <= stopLoss : candle.high >= stopLoss)) {
+    return long ? Math.min(stopLoss, candle.open) : Math.max(stopLoss, candle.open);
+  }
+  if (takeProfit !== undefined && (long ? candle.high >= takeProfit : candle.low <= takeProfit)) {
+    return long ? Math.max(takeProfit, candle.open) : Math.min(takeProfit, candle.open);
+  }
+  return null;
+}
+
+function validateOrder(request: PlacePaperOrderRequest, reference: number): void {
+  if (!request.symbol.trim()) throw new Error('A symbol is required');
+  if (!(request.quantity > 0)) throw new Error('Quantity must be positive');
+  if (request.type !== 'market' && !(Number(request.price) > 0)) {
+    throw new Error(`A ${request.type} order needs a price`);
+  }
+
+  // The bracket has to sit on either side of where the order fills
+  const long = request.direction === 'long';
+  if (request.stopLoss !== undefined && (long ? request.stopLoss >= reference : request.stopLoss <= reference)) {
+    throw new Error(`Stop loss ${request.stopLoss} must be ${long ? 'below' : 'above'} the entry`);
+  }
+  if (request.takeProfit !== undefined && (long ? request.takeProfit <= reference : request.takeProfit >= reference)) {
+    throw new Error(`Take profit ${request.takeProfit} must be ${long ? 'above' : 'below'} the entry`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Broker
+// ─────────────────────────────────────────────────────────────────────────────
+
+export class PaperBroker {
+  /** This session's orders, oldest first */
+  private readonly orders = new Map<string, PaperOrder>();
+  /** Open paper trades by journal id */
+  private readonly positions = new Map<string, Trade>();
+  private readonly lastPrices = new Map<string, number>();
+  private dataSource: MarketDataSource = { kind: 'yahoo' };
+  private fillInterval: PaperFillInterval = '5m';
+  private provider: MarketDataProvider | null = null;
+  /** The sync in progress; overlapping sync() calls share it */
+  private syncing: Promise<PaperBrokerState> | null = null;
+
+  constructor(private readonly options: PaperBrokerOptions) {
+    for (const trade of options.journal.listOpenTrades(true)) {
+      this.positions.set(trade.id, trade);
+    }
+  }
+
+  configure(request: ConfigurePaperBrokerRequest): PaperBrokerState {
+    if (request.dataSource !== undefined) {
+      this.dataSource = request.dataSource;
+      this.provider = null;
+    }
+    if (request.fillInterval !== undefined) this.fillInterval = request.fillInterval;
+    return this.getState();
+  }
+
+  getState(): PaperBrokerState {
+    return {
+      orders: [...this.orders.values()].reverse(),
+      positions: [...this.positions.values()],
+      lastPrices: Object.fromEntries(this.lastPrices),
+      dataSource: this.dataSource,
+      fillInterval: this.fillInterval,
+      asOf: this.now(),
+    };
+  }
+
+  /** Place an order. Market orders fill straight away; the rest wait for sync(). */
+  async placeOrder(request: PlacePaperOrderRequest): Promise<PaperOrder> {
+    const symbol = request.symbol.trim().toUpperCase();
+    const placedAt = this.now();
+    const last = request.type === 'market' ? (await this.fetchCandles(symbol)).at(-1) : undefined;
+    if (request.type === 'market' && !last) throw new Error(`No price for ${symbol}`);
+
+    validateOrder(request, request.type === 'market' ? last!.close : request.price!);
+    const order: PaperOrder = { ...request, symbol, id: crypto.randomUUID(), status: 'working', placedAt, tradeId: null };
+    this.orders.set(order.id, order);
+
+    if (last) this.fill(order, last.close, placedAt);
+    return order;
+  }
+
+  cancelOrder(id: string): PaperOrder {
+    const order = this.orders.get(id);
+    if (!order) throw new Error(`Order not found: ${id}`);
+    if (order.status !== 'working') throw new Error(`Order already ${order.status}`);
+    order.status = 'cancelled';
+    return order;
+  }
+
+  /** Close an open position at the last price */
+  async closePosition(tradeId: string): Promise<Trade> {
+    const position = this.positions.get(tradeId);
+    if (!position) throw new Error(`No open paper position: ${tradeId}`);
+    const last = (await this.fetchCandles(position.ticker)).at(-1);
+    if (!last) throw new Error(`No price for ${position.ticker}`);
+    // A sync may have closed it on a bracket while the price was being fetched
+    const closed = this.close(position, last.close, this.now());
+    if (!closed) throw new Error(`Paper position already closed: ${tradeId}`);
+    return closed;
+  }
+
+  /**
+   * Fetch fresh candles for every symbol with a working order or open
+   * position, then fill orders and close bracketed positions they reached.
+   * Symbols whose candles can't be fetched are left for the next sync. A
+   * call made while a sync is running gets that sync's result rather than
+   * starting another, so no order fills twice.
+   */
+  sync(): Promise<PaperBrokerState> {
+    this.syncing ??= this.runSync().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<PaperBrokerState> {
+    const working = [...this.orders.values()].filter((o) => o.status === 'working');
+    const symbols = new Set([...working.map((o) => o.symbol), ...[...this.positions.values()].map((p) => p.ticker)]);
+
+    for (const symbol of symbols) {
+      let candles: OhlcCandle[];
+      try {
+        candles = await this.fetchCandles(symbol);
+      } catch (error) {
+        console.warn(`[PaperBroker] No candles for ${symbol}:`, error);
+        continue;
+      }
+
+      // Cancelled, or filled as a market order, while the candles were fetched
+      for (const order of working.filter((o) => o.symbol === symbol && o.status === 'working')) {
+        for (const candle of candles) {
+          if (candle.timestamp * 1000 < order.placedAt) continue;
+          const price = fillPrice(order, candle);
+          if (price !== null) {
+            this.fill(order, price, candle.timestamp * 1000);
+            break;
+          }
+        }
+      }
+
+      for (const position of [...this.positions.values()].filter((p) => p.ticker === symbol)) {
+        const candle = candles.find((c) => c.timestamp * 1000 > position.entryTimestamp && exitPrice(position, c) !== null);
+        if (candle) this.close(position, exitPrice(position, candle)!, candle.timestamp * 1000);
+      }
+    }
+
+    return this.getState();
+  }
+
+  private fill(order: PaperOrder, price: number, at: number): void {
+    if (order.status !== 'working') return;
+    const trade = this.options.journal.createTrade({
+      ticker: order.symbol,
+      direction: order.direction,
+      entry: price,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      quantity: order.quantity,
+      notes: order.notes,
+      stratSetup: order.stratSetup ?? 'custom',
+      timeframe: order.timeframe,
+      entryTimestamp: at,
+      simulated: true,
+    });
+    order.status = 'filled';
+    order.tradeId = trade.id;
+    this.positions.set(trade.id, trade);
+  }
+
+  /** Null when the position was already closed */
+  private close(position: Trade, exit: number, at: number): Trade | null {
+    if (!this.positions.has(position.id)) return null;
+    const sign = position.direction === 'long' ? 1 : -1;
+    const closed = this.options.journal.updateTrade(position.id, {
+      exit,
+      exitTimestamp: at,
+      pnl: (exit - position.entry) * position.quantity * sign,
+    });
+    this.positions.delete(position.id);
+    return closed;
+  }
+
+  /** Candles up to the broker's clock, oldest first; records the last price */
+  private async fetchCandles(symbol: string): Promise<OhlcCandle[]> {
+    this.provider ??= this.options.providerFor(this.dataSource);
+    const now = this.now();
+    const candles = (
+      await this.provider.fetchCandles({ symbol, interval: this.fillInterval, range: FILL_RANGES[this.fillInterval] })
+    ).filter((c) => c.timestamp * 1000 <= now);
+    const last = candles.at(-1);
+    if (last) this.lastPrices.set(symbol, last.close);
+    return candles;
+  }
+
+  /** Wall clock, or the replay cursor when filling against replayed candles */
+  private now(): number {
+    if (this.options.now) return this.options.now();
+    return this.dataSource.kind === 'replay' && this.dataSource.asOf !== undefined
+      ? this.dataSource.asOf * 1000
+      : Date.now();
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Red Flags
+ *
+ * The guardrails' "do not trade" list, checked against a screener row:
+ *
+ *  2-2-continuation  The row's direction rests on 2-2 continuations (2u 2u /
+ *                    2d 2d) with no actionable pattern the same way. Momentum,
+ *                    but no entry trigger.
+ *  mother-bar        Two or more candles in a row, the forming one included,
+ *                    inside an earlier candle's range. Price discovery is
+ *                    starting over; wait for the break.
+ *  tightening-range  The highest scanned timeframe is forming an inside bar,
+ *                    so it's stuck and unlikely to move.
+ *  late-week-inside  The last two days of the week (Thursday and Friday, or
+ *                    Saturday and Sunday for crypto) and the weekly candle is
+ *                    still inside the previous week — not enough time left
+ *                    to break out.
+ *  against-ftfc      A pattern points against full timeframe continuity.
+ *
+ * Flags only describe the data; the panel decides whether to dim or hide.
+ */
+
+import type {
+  ScreenerRedFlag,
+  ScreenerTimeframeResult,
+  StratContinuity,
+  StratDirection,
+  StratTradeLevels,
+} from '@shared/ipc-types';
+import type { OhlcCandle } from './market-data';
+import { candleCloseTime, getZonedParts } from './market-session';
+import { sessionTimeZone, sessionWeekEnd } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
+import { classifyCandle } from './strat-patterns';
+
+/** How far back a mother bar may sit behind the latest candle */
+const MOTHER_BAR_LOOKBACK = 8;
+
+/** The smallest number of candles inside a mother bar */
+const MOTHER_BAR_MIN_INSIDE = 2;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface RedFlagInput {
+  /** The row's style timeframes, lowest first, each with its candles (forming one included) */
+  timeframes: { result: ScreenerTimeframeResult; candles: OhlcCandle[] }[];
+  direction: StratDirection;
+  levels: StratTradeLevels[];
+  continuity: StratContinuity | null;
+  /** Weekly candles for the late-week check; null when they couldn't be fetched */
+  weekly: OhlcCandle[] | null;
+  now: number; // ms
+  /** The symbol's market session — decides when its week ends */
+  session: MarketSession;
+}
+
+/**
+ * Index of the mother bar the latest candles are still inside, or -1. The
+ * most recent qualifying bar wins, so a tighter range is reported first.
+ */
+export function findMotherBar(candles: OhlcCandle[]): number {
+  const n = candles.length;
+  const oldest = Math.max(0, n - 1 - MOTHER_BAR_LOOKBACK);
+  for (let m = n - 1 - MOTHER_BAR_MIN_INSIDE; m >= oldest; m--) {
+    const mother = candles[m];
+    const inside = candles.slice(m + 1).every((c) => c.high <= mother.high && c.low >= mother.low);
+    if (inside) return m;
+  }
+  return -1;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function continuationFlag(input: RedFlagInput): ScreenerRedFlag | null {
+  const { direction } = input;
+  if (direction === null) return null;
+  if (input.levels.some((l) => l.bias === direction)) return null;
+
+  const labels = input.timeframes.filter((tf) => tf.result.check.direction === direction).map((tf) => tf.result.label);
+  return {
+    reason: '2-2-continuation',
+    timeframes: labels,
+    message: `${capitalize(direction)} 2-2 continuation on ${labels.join(', ')} — momentum, not an entry trigger`,
+  };
+}
+
+function motherBarFlag(input: RedFlagInput): ScreenerRedFlag | null {
+  const labels = input.timeframes.filter((tf) => findMotherBar(tf.candles) >= 0).map((tf) => tf.result.label);
+  if (labels.length === 0) return null;
+  return {
+    reason: 'mother-bar',
+    timeframes: labels,
+    message: `Inside a mother bar on ${labels.join(', ')} — wait for a break of its range`,
+  };
+}
+
+function tighteningRangeFlag(input: RedFlagInput): ScreenerRedFlag | null {
+  const highest = input.timeframes.at(-1)?.result;
+  if (highest?.live !== '1') return null;
+  return {
+    reason: 'tightening-range',
+    timeframes: [highest.label],
+    message: `${highest.label} is forming an inside bar — stuck in a tightening range`,
+  };
+}
+
+function lateWeekFlag(input: RedFlagInput): ScreenerRedFlag | null {
+  const { weekly, now, session } = input;
+  if (!weekly || weekly.length < 2) return null;
+
+  const { weekday } = getZonedParts(now, sessionTimeZone(session));
+  const daysLeft = (sessionWeekEnd(session) - weekday + 7) % 7;
+  if (daysLeft > 1) return null;
+
+  const [previous, current] = weekly.slice(-2);
+  if (candleCloseTime(current.timestamp, '1wk', session) <= now) return null;
+  if (classifyCandle(current, previous) !== '1') return null;
+
+  return {
+    reason: 'late-week-inside',
+    timeframes: ['W'],
+    message: `Still inside the previous week on ${WEEKDAY_NAMES[weekday]} — little time left to break out`,
+  };
+}
+
+function againstFtfcFlag(input: RedFlagInput): ScreenerRedFlag | null {
+  const ftfc = input.continuity?.direction ?? null;
+  if (ftfc === null) return null;
+
+  const against = input.levels.filter((l) => l.bias !== ftfc);
+  if (against.length === 0) return null;
+  return {
+    reason: 'against-ftfc',
+    timeframes: [...new Set(against.map((l) => l.timeframe))],
+    message: `${against.map((l) => `${l.timeframe} ${l.pattern} ${l.bias}`).join(', ')} against ${ftfc} FTFC`,
+  };
+}
+
+/** Every red flag that applies to the row, in the order listed above */
+export function detectRedFlags(input: RedFlagInput): ScreenerRedFlag[] {
+  return [
+    continuationFlag(input),
+    motherBarFlag(input),
+    tighteningRangeFlag(input),
+    lateWeekFlag(input),
+    againstFtfcFlag(input),
+  ].filter((flag): flag is ScreenerRedFlag => flag !== null);
+}
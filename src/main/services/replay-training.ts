@@ -0,0 +1,207 @@
+/**
+ * Replay Training
+ *
+ * Bar-by-bar practice at reading candles the Strat way. A session takes a
+ * random stretch of a symbol's completed history, shows a few bars of
+ * context and then reveals one bar at a time. For each bar the trainee calls:
+ *
+ *  label    1 / 2-up / 2-down / 3 against the bar before (classifyCandle)
+ *  setup    the combo the bar completes, or none (matchPatternAt)
+ *  trigger  the level that combo triggered through (computeTradeLevels),
+ *           picked from the highs and lows of the two bars before it
+ *
+ * Every right call scores; the trigger only counts on bars that completed a
+ * combo. The session's score is saved after each bar, so one left half way
+ * still shows up in the history. Upcoming bars stay in the main process.
+ */
+
+import * as crypto from 'crypto';
+import type {
+  MarketDataSource,
+  ReplayAnswerRequest,
+  ReplayBarResult,
+  ReplayCall,
+  ReplayScore,
+  ReplaySession,
+  ReplaySetupCall,
+  StartReplayRequest,
+  StratCandleType,
+} from '@shared/ipc-types';
+import { sessionForSymbol } from '@shared/market-calendar';
+import { fetchHistory } from './backtest';
+import type { MarketDataProvider, OhlcCandle } from './market-data';
+import { candleCloseTime } from './market-session';
+import { classifyCandles, computeTradeLevels, matchPatternAt } from './strat-patterns';
+import { getTimeframeSpec } from './trading-styles';
+
+export const DEFAULT_REPLAY_BARS = 20;
+export const MAX_REPLAY_BARS = 100;
+
+/** Bars shown before the first call — enough for a three-bar combo to complete on it */
+const CONTEXT_BARS = 5;
+
+/** Where the trainer saves scores — DatabaseService in the app */
+export interface ReplayScoreStore {
+  saveReplayScore(score: ReplayScore): void;
+}
+
+export interface ReplayTrainerOptions {
+  store: ReplayScoreStore;
+  providerFor: (source?: MarketDataSource) => MarketDataProvider;
+  now?: () => number;
+  /** Picks where in the history a session starts; [0, 1) */
+  random?: () => number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scoring
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** What the bar at `index` actually was: its label, the combo it completes and that combo's trigger */
+export function readReplayBar(
+  candles: OhlcCandle[],
+  index: number,
+  timeframe: string
+): { label: StratCandleType; setup: ReplaySetupCall; bias: 'bullish' | 'bearish' | null; trigger: number | null } {
+  const window = candles.slice(Math.max(0, index - 3), index + 1);
+  const types = classifyCandles(window);
+  const label = types[types.length - 1];
+  const match = matchPatternAt(types, types.length - 1);
+  if (!match) return { label, setup: 'none', bias: null, trigger: null };
+
+  const levels = computeTradeLevels(window, { ...match, barsAgo: 0, forming: false }, timeframe);
+  return { label, setup: match.name, bias: match.bias, trigger: levels?.trigger ?? null };
+}
+
+/** The trigger prices offered for the bar at `index`: the two prior bars' highs and lows, highest first */
+export function triggerChoices(candles: OhlcCandle[], index: number): number[] {
+  const prior = candles.slice(Math.max(0, index - 2), index);
+  return [...new Set(prior.flatMap((c) => [c.high, c.low]))].sort((a, b) => b - a);
+}
+
+export function scoreReplayBar(
+  candles: OhlcCandle[],
+  index: number,
+  call: ReplayCall,
+  timeframe: string
+): Omit<ReplayBarResult, 'bar'> {
+  const actual = readReplayBar(candles, index, timeframe);
+  return {
+    timestamp: candles[index].timestamp,
+    call,
+    ...actual,
+    labelCorrect: call.label === actual.label,
+    setupCorrect: call.setup === actual.setup,
+    triggerCorrect: actual.trigger === null ? null : call.trigger === actual.trigger,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trainer
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ActiveSession {
+  candles: OhlcCandle[]; // context bars, then the bars to call
+  cursor: number; // index of the bar to call
+  results: ReplayBarResult[];
+  score: ReplayScore;
+}
+
+/** Runs one training session at a time; starting another replaces it */
+export class ReplayTrainer {
+  private active: ActiveSession | null = null;
+
+  constructor(private readonly options: ReplayTrainerOptions) {}
+
+  async start(request: StartReplayRequest): Promise<ReplaySession> {
+    const symbol = request.symbol.trim().toUpperCase();
+    if (!symbol) throw new Error('A symbol is required');
+    const bars = request.bars ?? DEFAULT_REPLAY_BARS;
+    if (!Number.isInteger(bars) || bars < 1 || bars > MAX_REPLAY_BARS) {
+      throw new Error(`Bars must be a whole number between 1 and ${MAX_REPLAY_BARS}`);
+    }
+
+    const spec = getTimeframeSpec(request.timeframe);
+    const session = sessionForSymbol(symbol);
+    const [history] = await fetchHistory(symbol, [spec], this.options.providerFor(request.dataSource), session);
+    const now = this.now();
+    const last = history[history.length - 1];
+    const completed =
+      last && candleCloseTime(last.timestamp, spec.source.interval, session) > now ? history.slice(0, -1) : history;
+    if (completed.length <= CONTEXT_BARS) {
+      throw new Error(`Not enough ${spec.label} history for ${symbol}`);
+    }
+
+    const count = Math.min(bars, completed.length - CONTEXT_BARS);
+    const random = this.options.random ?? Math.random;
+    const start = Math.floor(random() * (completed.length - CONTEXT_BARS - count + 1));
+
+    this.active = {
+      candles: completed.slice(start, start + CONTEXT_BARS + count),
+      cursor: CONTEXT_BARS,
+      results: [],
+      score: {
+        id: crypto.randomUUID(),
+        symbol,
+        timeframe: spec.label,
+        totalBars: count,
+        bars: 0,
+        labelCorrect: 0,
+        setupCorrect: 0,
+        triggerCorrect: 0,
+        triggerTotal: 0,
+        startedAt: now,
+        updatedAt: now,
+      },
+    };
+    return this.view(this.active);
+  }
+
+  /** Score the call for the current bar, save the running score and reveal the next bar */
+  answer(request: ReplayAnswerRequest): ReplaySession {
+    const active = this.active;
+    if (!active || active.score.id !== request.sessionId) {
+      throw new Error(`Replay session not found: ${request.sessionId}`);
+    }
+    if (active.cursor >= active.candles.length) throw new Error('Replay session already finished');
+
+    const call: ReplayCall = { label: request.label, setup: request.setup, trigger: request.trigger };
+    const result: ReplayBarResult = {
+      bar: active.results.length + 1,
+      ...scoreReplayBar(active.candles, active.cursor, call, active.score.timeframe),
+    };
+    active.results.push(result);
+    active.cursor++;
+
+    const score = active.score;
+    score.bars++;
+    if (result.labelCorrect) score.labelCorrect++;
+    if (result.setupCorrect) score.setupCorrect++;
+    if (result.triggerCorrect !== null) score.triggerTotal++;
+    if (result.triggerCorrect) score.triggerCorrect++;
+    score.updatedAt = this.now();
+    this.options.store.saveReplayScore({ ...score });
+
+    return this.view(active);
+  }
+
+  private view(active: ActiveSession): ReplaySession {
+    const done = active.cursor >= active.candles.length;
+    return {
+      id: active.score.id,
+      symbol: active.score.symbol,
+      timeframe: active.score.timeframe,
+      candles: active.candles
+        .slice(0, active.cursor + 1)
+        .map(({ timestamp, open, high, low, close }) => ({ timestamp, open, high, low, close })),
+      triggerChoices: done ? [] : triggerChoices(active.candles, active.cursor),
+      results: [...active.results],
+      score: { ...active.score },
+      done,
+    };
+  }
+
+  private now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Resilient fetch
+ *
+ * HTTP layer for market data providers. Each request gets a timeout and is
+ * retried with jittered exponential backoff on timeouts, network errors,
+ * 429 and 5xx responses. A `Retry-After` header (seconds or HTTP date) sets
+ * the minimum wait before the next attempt.
+ *
+ * A CircuitBreaker shared by every request to one provider counts
+ * consecutive 429s. Once it trips, requests fail fast with
+ * ProviderThrottledError until the cooldown (or the server's Retry-After, if
+ * longer) has passed. The next request is then let through as a probe:
+ * success closes the breaker, another 429 reopens it with a doubled cooldown.
+ *
+ * An `AbortSignal` passed in the request init cancels the current attempt and
+ * any backoff wait; aborted requests are never retried.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Errors
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** A non-2xx response that was still failing after every retry */
+export class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    readonly url: string
+  ) {
+    super(`HTTP ${status}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/** The provider is rate-limiting us — no request was sent */
+export class ProviderThrottledError extends Error {
+  constructor(readonly retryAt: number) {
+    super(`Provider throttled until ${new Date(retryAt).toISOString()}`);
+    this.name = 'ProviderThrottledError';
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Retry policy
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RetryPolicy {
+  /** Attempts after the first one */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt timeout */
+  timeoutMs: number;
+  /** Retry-After waits longer than this trip the breaker instead of blocking the request */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  timeoutMs: 10_000,
+  maxRetryAfterMs: 30_000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Wait before retry number `attempt` (0-based): half the exponential step
+ * plus a random share of the other half, so parallel requests spread out.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const step = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(step / 2 + random() * (step / 2));
+}
+
+/** `Retry-After` as a wait in ms — null when absent or unparseable */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | null {
+  if (header === null || header.trim() === '') return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Circuit breaker
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive 429s that trip the breaker */
+  threshold?: number;
+  cooldownMs?: number;
+  /** Cap for the cooldown after repeated failed probes */
+  maxCooldownMs?: number;
+  now?: () => number;
+}
+
+export class CircuitBreaker {
+  private readonly threshold: number;
+  private readonly baseCooldownMs: number;
+  private readonly maxCooldownMs: number;
+  private readonly now: () => number;
+
+  private throttles = 0;
+  private cooldownMs: number;
+  private openUntil: number | null = null;
+  private probing = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.threshold = options.threshold ?? 3;
+    this.baseCooldownMs = options.cooldownMs ?? 30_000;
+    this.maxCooldownMs = options.maxCooldownMs ?? 5 * 60_000;
+    this.now = options.now ?? Date.now;
+    this.cooldownMs = this.baseCooldownMs;
+  }
+
+  getState(): CircuitState {
+    if (this.openUntil === null) return 'closed';
+    return this.now() < this.openUntil ? 'open' : 'half-open';
+  }
+
+  /** When requests will be let through again (ms), null while closed */
+  getRetryAt(): number | null {
+    return this.openUntil;
+  }
+
+  /**
+   * Throws ProviderThrottledError unless a request may be sent. While
+   * half-open only one probe is in flight at a time.
+   */
+  acquire(): void {
+    const state = this.getState();
+    if (state === 'closed') return;
+    if (state === 'open' || this.probing) {
+      throw new ProviderThrottledError(Math.max(this.openUntil!, this.now()));
+    }
+    this.probing = true;
+  }
+
+  /** Any response that isn't a 429 — the provider is answering normally */
+  recordSuccess(): void {
+    this.throttles = 0;
+    this.cooldownMs = this.baseCooldownMs;
+    this.openUntil = null;
+    this.probing = false;
+  }
+
+  /** A request gave up without a verdict (timeout, network error) — lets the next probe through */
+  release(): void {
+    this.probing = false;
+  }
+
+  recordThrottle(retryAfterMs: number | null): void {
+    const failedProbe = this.probing;
+    this.probing = false;
+    this.throttles++;
+
+    if (failedProbe) {
+      this.cooldownMs = Math.min(this.maxCooldownMs, this.cooldownMs * 2);
+    } else if (this.throttles < this.threshold && (retryAfterMs === null || retryAfterMs <= this.cooldownMs)) {
+      return;
+    }
+    this.trip(retryAfterMs);
+  }
+
+  /** Open the breaker for the cooldown, or the server's Retry-After if longer */
+  trip(retryAfterMs: number | null = null): void {
+    this.openUntil = this.now() + Math.max(this.cooldownMs, retryAfterMs ?? 0);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Fetch
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ResilientFetchOptions {
+  policy?: RetryPolicy;
+  breaker?: CircuitBreaker;
+  /** Injectable for tests */
+  sleep?: (ms: number, signal?: AbortSignal | null) => Promise<void>;
+  random?: () => number;
+}
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+/** Resolves after `ms`, or rejects with the signal's reason as soon as it aborts */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function fetchWithTimeout(url: string, init: FetchInit, timeoutMs: number): Promise<Response> {
+  const caller = init.signal;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = (): void => controller.abort();
+  caller?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    caller?.throwIfAborted();
+    if (controller.signal.aborted) throw new Error(`Request timed out after ${timeoutMs}ms`, { cause: error });
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+    caller?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Fetch with retries. Resolves with the first response that isn't retryable
+ * (2xx, or a 4xx other than 429 — the caller decides what a 404 means).
+ * Rejects with the last error once retries run out, or with
+ * ProviderThrottledError as soon as the breaker is open.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: FetchInit = {},
+  options: ResilientFetchOptions = {}
+): Promise<Response> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const wait = options.sleep ?? sleep;
+  const { breaker } = options;
+  const { signal } = init;
+  let lastError: Error = new Error(`No attempts made for ${url}`);
+
+  for (let attempt = 0; attempt <= policy.retries; attempt++) {
+    signal?.throwIfAborted();
+    breaker?.acquire();
+
+    let res: Response;
+    try {
+      res = await fetchWithTimeout(url, init, policy.timeoutMs);
+    } catch (error) {
+      breaker?.release();
+      if (signal?.aborted) throw error;
+      lastError = error instanceof Error ? error : new Error(String(error));
+      if (attempt < policy.retries) await wait(backoffDelay(attempt, policy, options.random), signal);
+      continue;
+    }
+
+    if (!RETRYABLE_STATUSES.has(res.status)) {
+      breaker?.recordSuccess();
+      return res;
+    }
+
+    // Free the connection before waiting
+    await res.body?.cancel().catch(() => undefined);
+    const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+    lastError = new HttpStatusError(res.status, url);
+
+    if (res.status === 429) breaker?.recordThrottle(retryAfterMs);
+    else breaker?.recordSuccess();
+
+    if (retryAfterMs !== null && retryAfterMs > policy.maxRetryAfterMs) {
+      if (res.status !== 429 || !breaker) throw lastError;
+      breaker.trip(retryAfterMs);
+      throw new ProviderThrottledError(breaker.getRetryAt()!);
+    }
+
+    if (attempt < policy.retries) {
+      await wait(Math.max(backoffDelay(attempt, policy, options.random), retryAfterMs ?? 0), signal);
+    }
+  }
+
+  // The last 429 may have tripped the breaker — report it as throttling, not as one failed request
+  if (breaker?.getState() === 'open') throw new ProviderThrottledError(breaker.getRetryAt()!);
+  throw lastError;
+}
@@ -0,0 +1,172 @@
+/**
+ * Scan Worker Pool
+ *
+ * Runs symbol scans on worker threads (scan-worker.ts) so large sweeps, like
+ * the S&P 500, don't stall window management, IPC and the TradingView view
+ * on the Electron main thread. scanWatchlist still batches, pauses for
+ * throttling and cancels; the pool only decides where each symbol runs.
+ *
+ * The pool answers the workers' candle-cache calls from the main thread's
+ * database and relays throttling from one worker to the rest. Workers start
+ * on first use, up to `size`, and each task goes to the least busy one. A
+ * crashed worker is dropped: its running tasks fail and the next task starts
+ * a replacement.
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { Worker } from 'worker_threads';
+import type { MarketDataSource, ScreenerSymbolResult } from '@shared/ipc-types';
+import type { CandleStore } from './candle-cache';
+import { YAHOO_BATCH_DELAY_MS } from './market-data';
+import { ProviderThrottledError } from './resilient-fetch';
+import type { SymbolScanner } from './screener';
+import type { ScanTask, ScanWorkerMessage, ScanWorkerRequest } from './scan-worker';
+
+/** A Worker, or a MessagePort wrapper in tests */
+export interface ScanPoolWorker {
+  postMessage(message: ScanWorkerRequest): void;
+  on(event: 'message' | 'error' | 'exit', listener: (value: unknown) => void): unknown;
+  terminate(): unknown;
+}
+
+export interface ScanPoolOptions {
+  /** Answers the workers' candle-cache calls — the main process's DatabaseService */
+  store: CandleStore;
+  /** Defaults to one worker per spare core, at most four */
+  size?: number;
+  createWorker?: () => ScanPoolWorker;
+}
+
+interface PendingTask {
+  resolve: (result: ScreenerSymbolResult) => void;
+  reject: (error: Error) => void;
+  done: () => void;
+}
+
+interface Slot {
+  worker: ScanPoolWorker;
+  tasks: Map<number, PendingTask>;
+}
+
+/** Bundled next to the main process entry, see vite.config.ts */
+function createThreadWorker(): ScanPoolWorker {
+  const dir = path.dirname(fileURLToPath(import.meta.url));
+  const worker = new Worker(path.join(dir, 'scan-worker.js'));
+  // An idle pool shouldn't keep the app from quitting
+  worker.unref();
+  return worker;
+}
+
+export class ScanWorkerPool {
+  private readonly size: number;
+  private readonly createWorker: () => ScanPoolWorker;
+  private readonly slots: Slot[] = [];
+  private nextTaskId = 1;
+
+  constructor(private readonly options: ScanPoolOptions) {
+    this.size = options.size ?? Math.max(1, Math.min(4, os.cpus().length - 1));
+    this.createWorker = options.createWorker ?? createThreadWorker;
+  }
+
+  /** A scanner for scanWatchlist that runs each symbol on the pool */
+  scannerFor(source: MarketDataSource): SymbolScanner {
+    return {
+      source: source.kind,
+      batchDelayMs: source.kind === 'yahoo' ? YAHOO_BATCH_DELAY_MS : 0,
+      scanSymbol: (symbol, timeframes, now, session, signal) => this.run({ symbol, timeframes, source, now, session }, signal),
+    };
+  }
+
+  /** Stop every worker; tasks still running fail */
+  close(): void {
+    for (const slot of this.slots.splice(0)) {
+      this.fail(slot, new Error('Scan pool closed'));
+      void slot.worker.terminate();
+    }
+  }
+
+  private run(task: ScanTask, signal?: AbortSignal): Promise<ScreenerSymbolResult> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const slot = this.pickSlot();
+    const taskId = this.nextTaskId++;
+
+    return new Promise<ScreenerSymbolResult>((resolve, reject) => {
+      const onAbort = (): void => slot.worker.postMessage({ type: 'cancel', taskId });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      slot.tasks.set(taskId, { resolve, reject, done: () => signal?.removeEventListener('abort', onAbort) });
+      slot.worker.postMessage({ type: 'scan', taskId, ...task });
+    });
+  }
+
+  /** The least busy worker, starting another while every running one has work */
+  private pickSlot(): Slot {
+    const idle = this.slots.find((s) => s.tasks.size === 0);
+    if (idle) return idle;
+    if (this.slots.length < this.size) return this.spawn();
+    return this.slots.reduce((a, b) => (b.tasks.size < a.tasks.size ? b : a));
+  }
+
+  private spawn(): Slot {
+    const slot: Slot = { worker: this.createWorker(), tasks: new Map() };
+    slot.worker.on('message', (message) => void this.handleMessage(slot, message as ScanWorkerMessage));
+    slot.worker.on('error', (error) => this.drop(slot, error instanceof Error ? error : new Error(String(error))));
+    slot.worker.on('exit', (code) => this.drop(slot, new Error(`Scan worker exited with code ${String(code)}`)));
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private async handleMessage(slot: Slot, message: ScanWorkerMessage): Promise<void> {
+    switch (message.type) {
+      case 'result':
+        this.settle(slot, message.taskId)?.resolve(message.result);
+        break;
+      case 'failed': {
+        const task = this.settle(slot, message.taskId);
+        if (message.throttledUntil === undefined) {
+          task?.reject(new Error(message.error));
+          break;
+        }
+        // Hold back the other workers too — they share the same rate limit
+        for (const other of this.slots) {
+          if (other !== slot) other.worker.postMessage({ type: 'throttled', retryAt: message.throttledUntil });
+        }
+        task?.reject(new ProviderThrottledError(message.throttledUntil));
+        break;
+      }
+      case 'store': {
+        const { callId, method, args } = message;
+        try {
+          const fn = this.options.store[method] as (...params: unknown[]) => unknown;
+          const value = await fn.apply(this.options.store, args);
+          slot.worker.postMessage({ type: 'store-reply', callId, value });
+        } catch (error) {
+          slot.worker.postMessage({ type: 'store-reply', callId, error: error instanceof Error ? error.message : String(error) });
+        }
+        break;
+      }
+    }
+  }
+
+  private settle(slot: Slot, taskId: number): PendingTask | undefined {
+    const task = slot.tasks.get(taskId);
+    slot.tasks.delete(taskId);
+    task?.done();
+    return task;
+  }
+
+  private fail(slot: Slot, error: Error): void {
+    for (const taskId of [...slot.tasks.keys()]) this.settle(slot, taskId)?.reject(error);
+  }
+
+  private drop(slot: Slot, error: Error): void {
+    const index = this.slots.indexOf(slot);
+    if (index < 0) return;
+    this.slots.splice(index, 1);
+    console.error('[ScanPool] Worker failed:', error);
+    this.fail(slot, new Error(`Scan worker crashed: ${error.message}`));
+    void slot.worker.terminate();
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Scan Worker
+ *
+ * Worker-thread side of the scan pool (scan-pool.ts). Each task scans one
+ * symbol with scanSymbol, so fetching, Yahoo JSON parsing, candle
+ * aggregation and pattern detection all happen off the Electron main thread.
+ *
+ * The candle cache lives in the main process's SQLite database: live Yahoo
+ * scans reach it through `store` calls that the pool answers. Each worker has
+ * its own circuit breaker; when one worker gets throttled the pool tells the
+ * others so they stop sending requests too.
+ *
+ * Messages, pool → worker:
+ *
+ *  scan         { taskId, symbol, timeframes, source, now, session }
+ *  cancel       { taskId }
+ *  throttled    { retryAt }                another worker hit the rate limit
+ *  store-reply  { callId, value | error }
+ *
+ * Messages, worker → pool:
+ *
+ *  result       { taskId, result }
+ *  failed       { taskId, error, throttledUntil? }
+ *  store        { callId, method, args }
+ */
+
+import { parentPort } from 'worker_threads';
+import type { MarketDataSource, ScreenerSymbolResult } from '@shared/ipc-types';
+import type { MarketSession } from '@shared/market-calendar';
+import { CachedMarketDataProvider } from './candle-cache';
+import type { CandleStore } from './candle-cache';
+import { YahooMarketDataProvider, createMarketDataProvider } from './market-data';
+import type { MarketDataProvider } from './market-data';
+import { CircuitBreaker, ProviderThrottledError } from './resilient-fetch';
+import { scanSymbol } from './screener';
+import { getTimeframeSpec } from './trading-styles';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Protocol
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type CandleStoreMethod = keyof CandleStore;
+
+export interface ScanTask {
+  symbol: string;
+  timeframes: string[]; // labels, lowest first
+  source: MarketDataSource;
+  now: number; // ms — which candles count as forming
+  session: MarketSession;
+}
+
+export type ScanWorkerRequest =
+  | ({ type: 'scan'; taskId: number } & ScanTask)
+  | { type: 'cancel'; taskId: number }
+  | { type: 'throttled'; retryAt: number }
+  | { type: 'store-reply'; callId: number; value?: unknown; error?: string };
+
+export type ScanWorkerMessage =
+  | { type: 'result'; taskId: number; result: ScreenerSymbolResult }
+  | { type: 'failed'; taskId: number; error: string; throttledUntil?: number }
+  | { type: 'store'; callId: number; method: CandleStoreMethod; args: unknown[] };
+
+/** `parentPort` in a real worker, one end of a MessageChannel in tests */
+export interface ScanWorkerPort {
+  postMessage(message: ScanWorkerMessage): void;
+  on(event: 'message', listener: (message: ScanWorkerRequest) => void): unknown;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Worker
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function serveScanWorker(port: ScanWorkerPort): void {
+  const tasks = new Map<number, AbortController>();
+  const calls = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  const breaker = new CircuitBreaker();
+  let nextCallId = 1;
+  // Scans run one source at a time, so only the latest provider is kept
+  let current: { key: string; provider: MarketDataProvider } | null = null;
+
+  const call = <T>(method: CandleStoreMethod, args: unknown[]): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const callId = nextCallId++;
+      calls.set(callId, { resolve: resolve as (value: unknown) => void, reject });
+      port.postMessage({ type: 'store', callId, method, args });
+    });
+
+  const store: CandleStore = {
+    upsertCandles: (...args) => call('upsertCandles', args),
+    getCandles: (...args) => call('getCandles', args),
+    getCandleSeries: (...args) => call('getCandleSeries', args),
+    setCandleSeries: (...args) => call('setCandleSeries', args),
+  };
+
+  const providerFor = (source: MarketDataSource): MarketDataProvider => {
+    const key = JSON.stringify(source);
+    if (current?.key !== key) {
+      const provider =
+        source.kind === 'yahoo'
+          ? new CachedMarketDataProvider(new YahooMarketDataProvider({ breaker }), store)
+          : createMarketDataProvider(source);
+      current = { key, provider };
+    }
+    return current.provider;
+  };
+
+  const runScan = async (taskId: number, task: ScanTask): Promise<void> => {
+    const controller = new AbortController();
+    tasks.set(taskId, controller);
+    try {
+      const defs = task.timeframes.map(getTimeframeSpec);
+      const result = await scanSymbol(task.symbol, defs, providerFor(task.source), task.now, controller.signal, task.session);
+      port.postMessage({ type: 'result', taskId, result });
+    } catch (error) {
+      port.postMessage({
+        type: 'failed',
+        taskId,
+        error: error instanceof Error ? error.message : String(error),
+        throttledUntil: error instanceof ProviderThrottledError ? error.retryAt : undefined,
+      });
+    } finally {
+      tasks.delete(taskId);
+    }
+  };
+
+  port.on('message', (message) => {
+    switch (message.type) {
+      case 'scan': {
+        const { type: _type, taskId, ...task } = message;
+        void runScan(taskId, task);
+        break;
+      }
+      case 'cancel':
+        tasks.get(message.taskId)?.abort();
+        break;
+      case 'throttled':
+        breaker.trip(message.retryAt - Date.now());
+        break;
+      case 'store-reply': {
+        const pending = calls.get(message.callId);
+        calls.delete(message.callId);
+        if (message.error !== undefined) pending?.reject(new Error(message.error));
+        else pending?.resolve(message.value);
+        break;
+      }
+    }
+  });
+}
+
+// Started as a worker thread by the pool; importing the module elsewhere does nothing
+if (parentPort) serveScanWorker(parentPort);
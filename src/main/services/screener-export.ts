@@ -0,0 +1,174 @@
+/**
+ * Screener export
+ *
+ * Writes a scan's results table as CSV, JSON or a Markdown report that can be
+ * pasted into a trading journal or Discord. Rows are ordered setups first
+ * (full FTFC → partial → none), keeping watchlist order within each group.
+ *
+ * Candle types use the usual text notation — 1, 2u, 2d, 3 — with a forming
+ * candle in parentheses, e.g. "2d 1 (2u)".
+ */
+
+import type {
+  ScreenerExportFormat,
+  ScreenerScanResponse,
+  ScreenerSymbolResult,
+  ScreenerTimeframeResult,
+  StratAlignment,
+  StratCandleType,
+  StratDirection,
+  StratTradeLevels,
+} from '@shared/ipc-types';
+import { DEFAULT_TRADING_STYLES } from './trading-styles';
+import { getZonedParts } from './market-session';
+
+export const SCREENER_EXPORT_EXTENSIONS: Record<ScreenerExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  markdown: 'md',
+};
+
+const ALIGNMENT_ORDER: Record<StratAlignment, number> = { 'full-ftfc': 0, partial: 1, none: 2 };
+
+const ALIGNMENT_LABELS: Record<StratAlignment, string> = {
+  'full-ftfc': 'Full FTFC',
+  partial: 'Partial',
+  none: 'None',
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cell formatting
+// ─────────────────────────────────────────────────────────────────────────────
+
+function fmtCandleType(type: StratCandleType | null): string {
+  if (type === null) return '-';
+  if (type === '2-up') return '2u';
+  if (type === '2-down') return '2d';
+  return type;
+}
+
+function fmtTimeframe(tf: ScreenerTimeframeResult | undefined): string {
+  if (!tf || tf.check.candle1 === null || tf.check.candle2 === null) return '-';
+  const closed = `${fmtCandleType(tf.check.candle1)} ${fmtCandleType(tf.check.candle2)}`;
+  return tf.live ? `${closed} (${fmtCandleType(tf.live)})` : closed;
+}
+
+function fmtDirection(direction: StratDirection): string {
+  return direction ?? '-';
+}
+
+function fmtPatterns(result: ScreenerSymbolResult): string[] {
+  return result.timeframes.flatMap((tf) =>
+    tf.patterns.map((p) => `${tf.label} ${p.name} ${p.bias}${p.barsAgo > 0 ? ` (${p.barsAgo} bar ago)` : ''}${p.forming ? ' (forming)' : ''}`)
+  );
+}
+
+function fmtLevels(level: StratTradeLevels): string {
+  const target = level.target === null ? '-' : level.target.toFixed(2);
+  return `${level.timeframe} ${level.pattern} ${level.bias}: trigger ${level.trigger.toFixed(2)}, stop ${level.stop.toFixed(2)}, target ${target}${level.inForce ? ' (in force)' : ''}`;
+}
+
+function fmtContinuity(result: ScreenerSymbolResult): string {
+  const c = result.continuity;
+  if (!c) return '-';
+  return c.timeframes.map((tf) => `${tf.timeframe}${tf.state === 'green' ? '+' : tf.state === 'red' ? '-' : '='}`).join(' ');
+}
+
+/** '2024-07-15 10:05 ET' */
+function fmtScanTime(iso: string): string {
+  const p = getZonedParts(Date.parse(iso));
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)} ET`;
+}
+
+function orderedResults(response: ScreenerScanResponse): ScreenerSymbolResult[] {
+  return response.results
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => ALIGNMENT_ORDER[a.r.alignment] - ALIGNMENT_ORDER[b.r.alignment] || a.i - b.i)
+    .map(({ r }) => r);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formats
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Quote a CSV cell when it holds a quote, comma or line break */
+export function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsv(response: ScreenerScanResponse): string {
+  const header = [
+    'symbol', 'alignment', 'direction', ...response.timeframeLabels, 'continuity', 'patterns', 'trade_plans', 'error',
+  ];
+  const rows = orderedResults(response).map((r) => [
+    r.symbol,
+    r.alignment,
+    fmtDirection(r.direction),
+    ...response.timeframeLabels.map((label) => fmtTimeframe(r.timeframes.find((tf) => tf.label === label))),
+    fmtContinuity(r),
+    fmtPatterns(r).join('; '),
+    r.levels.map(fmtLevels).join('; '),
+    r.error ?? '',
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function mdCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+function toMarkdown(response: ScreenerScanResponse): string {
+  const results = orderedResults(response);
+  const fullFtfc = results.filter((r) => r.alignment === 'full-ftfc').length;
+  const style = DEFAULT_TRADING_STYLES[response.tradingStyle].label;
+
+  const header = ['Symbol', 'Setup', 'Direction', ...response.timeframeLabels, 'Trade plan'];
+  const table = [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...results
+      .filter((r) => !r.error)
+      .map((r) => {
+        const cells = [
+          `**${r.symbol}**`,
+          ALIGNMENT_LABELS[r.alignment],
+          fmtDirection(r.direction),
+          ...response.timeframeLabels.map((label) => fmtTimeframe(r.timeframes.find((tf) => tf.label === label))),
+          r.levels.map(fmtLevels).join('<br>') || '-',
+        ];
+        return `| ${cells.map(mdCell).join(' | ')} |`;
+      }),
+  ];
+
+  const errors = results.filter((r) => r.error);
+  const lines = [
+    `# Strat screener — ${style} (${response.timeframeLabels.join(' · ')})`,
+    '',
+    `${fmtScanTime(response.scannedAt)} · ${results.length} symbols · ${fullFtfc} full FTFC`,
+    '',
+    ...table,
+  ];
+  if (errors.length > 0) {
+    lines.push('', '**Errors**', '', ...errors.map((r) => `- ${r.symbol}: ${r.error}`));
+  }
+  lines.push('', 'Candles: previous and last closed bar per timeframe, forming bar in parentheses.');
+  return lines.join('\n') + '\n';
+}
+
+export function serializeScanResults(response: ScreenerScanResponse, format: ScreenerExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(response);
+    case 'json':
+      return JSON.stringify(response, null, 2) + '\n';
+    case 'markdown':
+      return toMarkdown(response);
+  }
+}
+
+/** e.g. 'screener-swing-trade-2024-07-15-1005.md' */
+export function defaultExportFileName(response: ScreenerScanResponse, format: ScreenerExportFormat): string {
+  const stamp = fmtScanTime(response.scannedAt).replace(' ET', '').replace(/[ :]/g, (c) => (c === ' ' ? '-' : ''));
+  return `screener-${response.tradingStyle}-${stamp}.${SCREENER_EXPORT_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Screener History
+ *
+ * Live scans are stored in SQLite (see 006_screener_scans.sql) so a setup can
+ * be followed through the session and checked afterwards against the trades
+ * that were taken. This module compares two stored scans symbol by symbol.
+ *
+ * Patterns are matched by timeframe, name and bias, not barsAgo, so a combo
+ * that simply ages by one bar between scans doesn't show up as a change.
+ */
+
+import type {
+  ScreenerScanResponse,
+  ScreenerScanSummary,
+  ScreenerSymbolChange,
+  ScreenerSymbolResult,
+  StratAlignment,
+} from '@shared/ipc-types';
+
+/** Old scans are pruned when a new one is stored */
+export const SCAN_HISTORY_RETENTION_DAYS = 90;
+
+const ALIGNMENT_RANK: Record<StratAlignment, number> = { none: 0, partial: 1, 'full-ftfc': 2 };
+
+export function summarizeScan(id: string, response: ScreenerScanResponse): ScreenerScanSummary {
+  return {
+    id,
+    watchlistId: response.watchlistId ?? null,
+    tradingStyle: response.tradingStyle,
+    timeframeLabels: response.timeframeLabels,
+    dataSource: response.dataSource,
+    scannedAt: response.scannedAt,
+    duration: response.duration,
+    symbolCount: response.results.length,
+    fullFtfcCount: response.results.filter((r) => r.alignment === 'full-ftfc').length,
+  };
+}
+
+function patternKeys(result: ScreenerSymbolResult): Set<string> {
+  return new Set(
+    result.timeframes.flatMap((tf) => tf.patterns.map((p) => `${tf.label} ${p.name} ${p.bias}`))
+  );
+}
+
+/**
+ * Per-symbol changes from `from` to `to`, in the order symbols appear in `to`
+ * followed by symbols that dropped out. Errored rows only report
+ * added/removed — their alignment and patterns aren't meaningful.
+ */
+export function diffScans(from: ScreenerScanResponse, to: ScreenerScanResponse): ScreenerSymbolChange[] {
+  const before = new Map(from.results.map((r) => [r.symbol, r]));
+  const after = new Set(to.results.map((r) => r.symbol));
+  const changes: ScreenerSymbolChange[] = [];
+
+  for (const curr of to.results) {
+    const prev = before.get(curr.symbol);
+    const change: ScreenerSymbolChange = {
+      symbol: curr.symbol,
+      kinds: [],
+      alignmentBefore: prev?.alignment ?? null,
+      alignmentAfter: curr.alignment,
+      directionBefore: prev?.direction ?? null,
+      directionAfter: curr.direction,
+      patternsAdded: [],
+      patternsRemoved: [],
+    };
+
+    if (!prev) {
+      change.kinds.push('added');
+    } else if (!prev.error && !curr.error) {
+      if (curr.alignment === 'full-ftfc' && prev.alignment !== 'full-ftfc') {
+        change.kinds.push('new-full-ftfc');
+      } else if (ALIGNMENT_RANK[curr.alignment] < ALIGNMENT_RANK[prev.alignment]) {
+        change.kinds.push('lost-alignment');
+      }
+
+      if (prev.direction !== null && curr.direction !== null && prev.direction !== curr.direction) {
+        change.kinds.push('direction-flip');
+      }
+
+      const wasSeen = patternKeys(prev);
+      const isSeen = patternKeys(curr);
+      change.patternsAdded = [...isSeen].filter((key) => !wasSeen.has(key));
+      change.patternsRemoved = [...wasSeen].filter((key) => !isSeen.has(key));
+      if (change.patternsAdded.length > 0) change.kinds.push('pattern-added');
+      if (change.patternsRemoved.length > 0) change.kinds.push('pattern-removed');
+    }
+
+    if (change.kinds.length > 0) changes.push(change);
+  }
+
+  for (const prev of from.results) {
+    if (after.has(prev.symbol)) continue;
+    changes.push({
+      symbol: prev.symbol,
+      kinds: ['removed'],
+      alignmentBefore: prev.alignment,
+      alignmentAfter: null,
+      directionBefore: prev.direction,
+      directionAfter: null,
+      patternsAdded: [],
+      patternsRemoved: [],
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,260 @@
+/**
+ * Screener Scheduler
+ *
+ * Runs watchlist scans from the main process on a market-aware cadence so
+ * setups are caught even when the screener panel isn't mounted. Each scan is
+ * compared with the previous one for the same style and list and raises alerts when:
+ *
+ *  full-ftfc          a symbol moves into full timeframe alignment
+ *  pattern-triggered  a combo's trigger is taken out (newly in force)
+ *  direction-flip     a symbol's alignment direction reverses
+ *
+ * Checkpoints sit five minutes after candle closes, counted back from each
+ * session's close. For US equities (ET, NYSE trading days):
+ *
+ *  day-trade       every 30 min, 9:35 → 16:05
+ *  swing-trade     hourly at :05, 10:05 → 16:05
+ *  position-trade  16:05 (daily close)
+ *
+ * Holidays are skipped and on half days every style's last checkpoint is
+ * 13:05, after the early close (see the shared market calendar). A list
+ * holding futures, forex or crypto also scans through those sessions, e.g.
+ * a day-trade list with ES=F every 30 min from 18:05 ET to 17:05 ET.
+ *
+ * The scheduler is off until the user turns it on from the screener panel,
+ * so a fresh install makes no background requests and raises no alerts. Its
+ * settings are stored and restored at launch, so once on it resumes without
+ * the panel.
+ */
+
+import type {
+  ScreenerAlert,
+  ScreenerScanResponse,
+  ScreenerScheduleStatus,
+  ScreenerTradingStyle,
+  ConfigureScreenerScheduleRequest,
+} from '@shared/ipc-types';
+import { DEFAULT_WATCHLIST_ID } from '@shared/ipc-types';
+import { tradingDaysFrom } from '@shared/market-calendar';
+import type { MarketSession, TradingDay } from '@shared/market-calendar';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cadence
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MINUTE_MS = 60_000;
+
+/** How long after a candle close its checkpoint runs */
+const CLOSE_DELAY_MIN = 5;
+
+/** Minutes between checkpoints; null scans the close only */
+const CADENCES: Record<ScreenerTradingStyle, number | null> = {
+  'day-trade':      30,
+  'swing-trade':    60,
+  'position-trade': null,
+};
+
+/** Checkpoints (ms) in one session, oldest first, ending just after its close */
+function checkpoints(style: ScreenerTradingStyle, session: TradingDay): number[] {
+  const offset = CLOSE_DELAY_MIN * MINUTE_MS;
+  const every = CADENCES[style];
+  if (every === null) return [session.close + offset];
+
+  const times: number[] = [];
+  for (let at = session.close + offset; at >= session.open + offset; at -= every * MINUTE_MS) {
+    times.unshift(at);
+  }
+  return times;
+}
+
+/** The next checkpoint strictly after `now` (ms) in any of `sessions` */
+export function nextScanTime(
+  style: ScreenerTradingStyle,
+  now: number,
+  sessions: MarketSession[] = ['us-equity']
+): number {
+  const next = sessions.map((session) => {
+    for (const day of tradingDaysFrom(session, now)) {
+      const at = checkpoints(style, day).find((t) => t > now);
+      if (at !== undefined) return at;
+    }
+    return Infinity;
+  });
+
+  const soonest = Math.min(...next);
+  if (!Number.isFinite(soonest)) throw new Error(`No scan checkpoint found for ${style}`);
+  return soonest;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Alert detection
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Alerts for everything that changed between two scans of the same style.
+ * Scans over different timeframe sets aren't comparable and raise nothing.
+ */
+export function detectAlerts(previous: ScreenerScanResponse, next: ScreenerScanResponse): ScreenerAlert[] {
+  if (previous.timeframeLabels.join() !== next.timeframeLabels.join()) return [];
+
+  const before = new Map(previous.results.map((r) => [r.symbol, r]));
+  const alerts: ScreenerAlert[] = [];
+  const base = { tradingStyle: next.tradingStyle, at: next.scannedAt };
+
+  for (const curr of next.results) {
+    const prev = before.get(curr.symbol);
+    if (!prev || curr.error || prev.error) continue;
+
+    if (curr.alignment === 'full-ftfc' && prev.alignment !== 'full-ftfc') {
+      alerts.push({
+        ...base,
+        kind: 'full-ftfc',
+        symbol: curr.symbol,
+        direction: curr.direction,
+        message: `${curr.symbol} moved into full timeframe continuity${curr.direction ? ` (${curr.direction})` : ''}`,
+      });
+    }
+
+    if (prev.direction !== null && curr.direction !== null && prev.direction !== curr.direction) {
+      alerts.push({
+        ...base,
+        kind: 'direction-flip',
+        symbol: curr.symbol,
+        direction: curr.direction,
+        message: `${curr.symbol} flipped from ${prev.direction} to ${curr.direction}`,
+      });
+    }
+
+    const wasInForce = new Set(prev.levels.filter((l) => l.inForce).map((l) => `${l.timeframe}:${l.pattern}:${l.bias}`));
+    for (const level of curr.levels) {
+      if (!level.inForce || wasInForce.has(`${level.timeframe}:${level.pattern}:${level.bias}`)) continue;
+      alerts.push({
+        ...base,
+        kind: 'pattern-triggered',
+        symbol: curr.symbol,
+        direction: level.bias,
+        timeframe: level.timeframe,
+        pattern: level.pattern,
+        message: `${curr.symbol} ${level.timeframe} ${level.pattern} triggered ${level.bias} at ${level.trigger}`,
+      });
+    }
+  }
+
+  return alerts;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Scheduler
+// ─────────────────────────────────────────────────────────────────────────────
+
+const scanKey = (style: ScreenerTradingStyle, watchlistId: string): string => `${style}:${watchlistId}`;
+
+/** The settings that outlive a launch — everything in the status but its run state */
+export type ScreenerScheduleSettings = Omit<ScreenerScheduleStatus, 'nextRunAt' | 'lastScan'>;
+
+/** The subset of DatabaseService the scheduler needs — keeps it testable without SQLite */
+export interface ScreenerScheduleStore {
+  getScreenerSchedule(): ScreenerScheduleSettings | null;
+  saveScreenerSchedule(settings: ScreenerScheduleSettings): void;
+}
+
+export interface ScreenerSchedulerOptions {
+  /** Run a live scan of a watchlist for a style */
+  scan: (style: ScreenerTradingStyle, watchlistId: string) => Promise<ScreenerScanResponse>;
+  /** Called after every observed scan, scheduled or manual */
+  onScan: (response: ScreenerScanResponse) => void;
+  /** Called when a scan raised at least one alert */
+  onAlerts: (alerts: ScreenerAlert[]) => void;
+  /** Market sessions the list's symbols trade in — defaults to US equities only */
+  sessions?: (watchlistId: string) => MarketSession[];
+  /** Where settings are kept between launches; without one they last the session */
+  store?: ScreenerScheduleStore;
+  now?: () => number;
+}
+
+export class ScreenerScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private tradingStyle: ScreenerTradingStyle = 'swing-trade';
+  private watchlistId = DEFAULT_WATCHLIST_ID;
+  private enabled = false;
+  private nextRunAt: number | null = null;
+  /** Keyed by style and watchlist — scans of different lists aren't compared */
+  private readonly lastScans = new Map<string, ScreenerScanResponse>();
+
+  constructor(private readonly options: ScreenerSchedulerOptions) {}
+
+  /** Restore the stored settings and, if scheduled scans are on, arm the next one */
+  start(): void {
+    const saved = this.options.store?.getScreenerSchedule();
+    if (saved && Object.hasOwn(CADENCES, saved.tradingStyle)) {
+      this.tradingStyle = saved.tradingStyle;
+      this.watchlistId = saved.watchlistId;
+      this.enabled = saved.enabled;
+    }
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.nextRunAt = null;
+  }
+
+  configure(request: ConfigureScreenerScheduleRequest): ScreenerScheduleStatus {
+    if (request.tradingStyle !== undefined) this.tradingStyle = request.tradingStyle;
+    if (request.watchlistId !== undefined) this.watchlistId = request.watchlistId;
+    if (request.enabled !== undefined) this.enabled = request.enabled;
+    this.options.store?.saveScreenerSchedule({
+      tradingStyle: this.tradingStyle,
+      watchlistId: this.watchlistId,
+      enabled: this.enabled,
+    });
+    this.scheduleNext();
+    return this.getStatus();
+  }
+
+  getStatus(): ScreenerScheduleStatus {
+    return {
+      tradingStyle: this.tradingStyle,
+      watchlistId: this.watchlistId,
+      enabled: this.enabled,
+      nextRunAt: this.nextRunAt === null ? null : new Date(this.nextRunAt).toISOString(),
+      lastScan: this.lastScans.get(scanKey(this.tradingStyle, this.watchlistId)) ?? null,
+    };
+  }
+
+  /**
+   * Record a live scan result and raise alerts against the previous scan of
+   * the same style and list. Manual scans go through here too so the baseline stays current.
+   */
+  observe(response: ScreenerScanResponse): ScreenerAlert[] {
+    const key = scanKey(response.tradingStyle, response.watchlistId ?? DEFAULT_WATCHLIST_ID);
+    const previous = this.lastScans.get(key);
+    this.lastScans.set(key, response);
+
+    const alerts = previous ? detectAlerts(previous, response) : [];
+    this.options.onScan(response);
+    if (alerts.length > 0) this.options.onAlerts(alerts);
+    return alerts;
+  }
+
+  private scheduleNext(): void {
+    this.stop();
+    if (!this.enabled) return;
+
+    const now = (this.options.now ?? Date.now)();
+    const sessions = this.options.sessions?.(this.watchlistId) ?? ['us-equity'];
+    this.nextRunAt = nextScanTime(this.tradingStyle, now, sessions.length > 0 ? sessions : ['us-equity']);
+    this.timer = setTimeout(() => void this.run(), this.nextRunAt - now);
+  }
+
+  private async run(): Promise<void> {
+    try {
+      this.observe(await this.options.scan(this.tradingStyle, this.watchlistId));
+    } catch (error) {
+      console.error('[ScreenerScheduler] Scheduled scan failed:', error);
+    } finally {
+      this.scheduleNext();
+    }
+  }
+}
@@ -1,214 +1,96 @@
 /**
  * Stock Screener Service
  *
- * Scans a watchlist for Full Timeframe Continuity (FTFC) signals using
- * Yahoo Finance as the data source. Supports three trading styles, each
- * with its own set of three timeframes:
+ * Scans a watchlist for Full Timeframe Continuity (FTFC) signals. Candles
+ * come from a MarketDataProvider (Yahoo Finance by default, see
+ * market-data.ts). Each trading style scans its own timeframe set, defined
+ * in trading-styles.ts and editable by the user. Timeframes Yahoo doesn't
+ * serve (2H, 4H, 12H, 3M, 1Y) are built in candle-aggregation.ts.
  *
- *  day-trade:      1H / 4H / 1D   (4H aggregated from 1H)
- *  swing-trade:    1H / 4H / 1D   (4H aggregated from 1H)
- *  position-trade: 1D / 1W / 1M
+ * Only completed candles feed the per-timeframe 2-2 alignment check. The
+ * still-forming candle (per market-session.ts) is classified separately so
+ * labels don't flip mid-bar. Open-based continuity across M/W/D/60/15 is
+ * computed independently of the style, see continuity.ts. Guardrail red flags
+ * (2-2 continuations, mother bars, …) are attached to each row by red-flags.ts.
+ * Broadening formations and Pivot Machine Guns look further back than the
+ * combos, over each timeframe's full completed history (strat-structures.ts).
+ *
+ * When the provider starts rate-limiting (see resilient-fetch.ts) the scan
+ * waits for its circuit breaker to reopen, up to a limit, then stops and
+ * reports the symbols it couldn't reach instead of one error per symbol.
+ *
+ * Each symbol's result is reported through `onResult` as soon as it's ready,
+ * and an `AbortSignal` stops the scan between (and inside) fetches — the
+ * response then holds whatever finished, flagged `cancelled`.
+ *
+ * Each symbol follows its market session (shared/market-calendar.ts): its
+ * watchlist asset class decides whether 4H buckets anchor at the equity
+ * open or at the futures, forex or crypto day start, and when the forming
+ * candle closes. Continuity reads the latest candle of each series as served,
+ * so it needs no session of its own.
+ *
+ * Symbols are scanned on this thread by default. Large scans pass a
+ * SymbolScanner from scan-pool.ts so fetching, parsing and the Strat
+ * computation run on worker threads; batching, throttle pauses and
+ * cancellation stay here either way.
  */
 
 import type {
-  StratCandleType,
+  AssetClass,
+  MarketDataSource,
   StratDirection,
   StratAlignment,
   TimeframeCheck,
   ScreenerTimeframeResult,
   ScreenerSymbolResult,
   ScreenerScanResponse,
+  ScreenerThrottle,
   ScreenerTradingStyle,
+  StratTradeLevels,
 } from '@shared/ipc-types';
+import { createMarketDataProvider } from './market-data';
+import type { MarketDataProvider, OhlcCandle } from './market-data';
+import { AGGREGATE_SOURCE_INTERVAL, aggregateCandles } from './candle-aggregation';
+import { CONTINUITY_TIMEFRAMES, computeContinuity } from './continuity';
+import { candleCloseTime } from './market-session';
+import { assetClassForSymbol, sessionForAssetClass, sessionForSymbol } from '@shared/market-calendar';
+import type { MarketSession } from '@shared/market-calendar';
+import { detectRedFlags } from './red-flags';
+import { ProviderThrottledError, sleep } from './resilient-fetch';
+import { classifyCandle, classifyShape, computeTradeLevels, detectPatterns } from './strat-patterns';
+import { detectBroadening, detectPivotMachineGun } from './strat-structures';
+import { DEFAULT_TRADING_STYLES, getTimeframeSpec } from './trading-styles';
+import type { AggregateSource, DirectSource, TimeframeSpec } from './trading-styles';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Constants
 // ─────────────────────────────────────────────────────────────────────────────
 
-const YAHOO_BASE = 'https://query1.finance.yahoo.com/v8/finance/chart';
-
 const WATCHLIST_TIER1 = ['AAPL', 'AMZN', 'GOOGL', 'META', 'MSFT', 'NVDA', 'TSLA', 'SPY', 'QQQ'];
 const WATCHLIST_TIER2 = ['BABA', 'COIN', 'HOOD', 'NFLX', 'ROKU', 'SHOP', 'SNOW', 'UBER'];
 
 export const DEFAULT_SYMBOLS = [...WATCHLIST_TIER1, ...WATCHLIST_TIER2];
 
 const BATCH_SIZE = 5;
-const BATCH_DELAY_MS = 600;
-const FETCH_TIMEOUT_MS = 10_000;
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Internal types
-// ─────────────────────────────────────────────────────────────────────────────
-
-type YahooInterval = '5m' | '15m' | '1h' | '1d' | '1wk' | '1mo';
-
-interface DirectSource {
-  kind: 'direct';
-  interval: YahooInterval;
-  range: string;
-}
-
-interface AggregateSource {
-  kind: 'aggregate';
-  sourceInterval: YahooInterval;
-  sourceRange: string;
-  factor: number;
-}
-
-interface TimeframeDef {
-  label: string;
-  source: DirectSource | AggregateSource;
-}
-
-interface OhlcCandle {
-  timestamp: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}
-
-interface YahooQuote {
-  open: (number | null)[];
-  high: (number | null)[];
-  low: (number | null)[];
-  close: (number | null)[];
-  volume: (number | null)[];
-}
-
-interface YahooChartResponse {
-  chart: {
-    result: Array<{
-      timestamp: number[];
-      indicators: { quote: YahooQuote[] };
-    }> | null;
-    error: { code: string; description: string } | null;
-  };
-}
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Trading style → timeframe configs
-// ─────────────────────────────────────────────────────────────────────────────
-
-const STYLE_TIMEFRAMES: Record<ScreenerTradingStyle, TimeframeDef[]> = {
-  'day-trade': [
-    { label: '1H', source: { kind: 'direct',    interval: '1h', range: '15d' } },
-    { label: '4H', source: { kind: 'aggregate', sourceInterval: '1h', sourceRange: '15d', factor: 4 } },
-    { label: '1D', source: { kind: 'direct',    interval: '1d', range: '30d' } },
-  ],
-  'swing-trade': [
-    { label: '1H', source: { kind: 'direct',    interval: '1h',  range: '15d' } },
-    { label: '4H', source: { kind: 'aggregate', sourceInterval: '1h', sourceRange: '15d', factor: 4 } },
-    { label: '1D', source: { kind: 'direct',    interval: '1d',  range: '30d' } },
-  ],
-  'position-trade': [
-    { label: '1D', source: { kind: 'direct', interval: '1d',  range: '30d' } },
-    { label: '1W', source: { kind: 'direct', interval: '1wk', range: '2y'  } },
-    { label: '1M', source: { kind: 'direct', interval: '1mo', range: '5y'  } },
-  ],
-};
-
-// ─────────────────────────────────────────────────────────────────────────────
-// Yahoo Finance fetch
-// ─────────────────────────────────────────────────────────────────────────────
-
-async function fetchYahoo(
-  symbol: string,
-  interval: YahooInterval,
-  range: string
-): Promise<OhlcCandle[]> {
-  const url = `${YAHOO_BASE}/${encodeURIComponent(symbol)}?interval=${interval}&range=${range}`;
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-  try {
-    const res = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-        Accept: 'application/json',
-      },
-      signal: controller.signal,
-    });
-
-    if (!res.ok) {
-      throw new Error(`Yahoo Finance HTTP ${res.status} for ${symbol} (${interval})`);
-    }
-
-    const data = (await res.json()) as YahooChartResponse;
-
-    if (!data.chart.result || data.chart.result.length === 0) {
-      throw new Error(`No chart data returned for ${symbol} (${interval})`);
-    }
-
-    const result = data.chart.result[0];
-    const timestamps = result.timestamp;
-    const quote = result.indicators.quote[0];
-
-    const candles: OhlcCandle[] = [];
-    for (let i = 0; i < timestamps.length; i++) {
-      const open = quote.open[i];
-      const high = quote.high[i];
-      const low = quote.low[i];
-      const close = quote.close[i];
-      const volume = quote.volume[i];
-
-      if (open == null || high == null || low == null || close == null) continue;
-
-      candles.push({
-        timestamp: timestamps[i],
-        open,
-        high,
-        low,
-        close,
-        volume: volume ?? 0,
-      });
-    }
-
-    return candles;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Candle aggregation (groups source candles by `factor`)
-// ─────────────────────────────────────────────────────────────────────────────
-
-function aggregateCandles(source: OhlcCandle[], factor: number): OhlcCandle[] {
-  const groups: OhlcCandle[] = [];
-  for (let i = 0; i + factor - 1 < source.length; i += factor) {
-    const group = source.slice(i, i + factor);
-    groups.push({
-      timestamp: group[0].timestamp,
-      open: group[0].open,
-      high: Math.max(...group.map((c) => c.high)),
-      low: Math.min(...group.map((c) => c.low)),
-      close: group[group.length - 1].close,
-      volume: group.reduce((sum, c) => sum + c.volume, 0),
-    });
-  }
-  return groups;
-}
+/** Longest a scan waits out a throttled provider before giving up on the rest */
+const MAX_THROTTLE_PAUSE_MS = 60_000;
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Candle classification — The Strat rules
+// Timeframe check — last 2 completed candles
 // ─────────────────────────────────────────────────────────────────────────────
 
-function classifyCandle(curr: OhlcCandle, prev: OhlcCandle): StratCandleType {
-  if (curr.high > prev.high && curr.low >= prev.low) return '2-up';
-  if (curr.low < prev.low && curr.high <= prev.high) return '2-down';
-  if (curr.high > prev.high && curr.low < prev.low) return '3';
-  return '1'; // Inside bar
+/** When the latest candle of a timeframe closes, in ms */
+function latestCloseTime(def: TimeframeSpec, candles: OhlcCandle[], session: MarketSession): number | null {
+  const last = candles[candles.length - 1];
+  if (!last) return null;
+  return candleCloseTime(last.timestamp, def.source.interval, session);
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Timeframe check — last 2 completed candles
-// ─────────────────────────────────────────────────────────────────────────────
-
+/** `candles` must already exclude the forming candle */
 function checkTimeframe(candles: OhlcCandle[]): TimeframeCheck {
   if (candles.length < 3) {
-    return { candle1: null, candle2: null, direction: null };
+    return { candle1: null, candle2: null, shape1: null, shape2: null, direction: null };
   }
 
   const n = candles.length;
@@ -219,7 +101,13 @@ function checkTimeframe(candles: OhlcCandle[]): TimeframeCheck {
   if (type1 === '2-up' && type2 === '2-up') direction = 'bullish';
   else if (type1 === '2-down' && type2 === '2-down') direction = 'bearish';
 
-  return { candle1: type1, candle2: type2, direction };
+  return {
+    candle1: type1,
+    candle2: type2,
+    shape1: classifyShape(candles[n - 2]),
+    shape2: classifyShape(candles[n - 1]),
+    direction,
+  };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -238,8 +126,9 @@ function calcAlignment(checks: TimeframeCheck[]): { alignment: StratAlignment; d
         ? 'bearish'
         : null;
 
+  // Styles can have any number of timeframes: full means every one agrees
   const alignment: StratAlignment =
-    max === 3 ? 'full-ftfc' : max === 2 ? 'partial' : 'none';
+    max < 2 ? 'none' : max === checks.length ? 'full-ftfc' : 'partial';
 
   return { alignment, direction };
 }
@@ -248,9 +137,38 @@ function calcAlignment(checks: TimeframeCheck[]): { alignment: StratAlignment; d
 // Per-symbol scan (with fetch deduplication within the call)
 // ─────────────────────────────────────────────────────────────────────────────
 
-async function scanSymbol(
+function buildTimeframeResult(
+  def: TimeframeSpec,
+  candles: OhlcCandle[],
+  now: number,
+  session: MarketSession
+): ScreenerTimeframeResult {
+  const closesAt = latestCloseTime(def, candles, session);
+  const liveClosesAt = closesAt !== null && closesAt > now ? new Date(closesAt).toISOString() : null;
+  const forming = liveClosesAt !== null;
+  const completed = forming ? candles.slice(0, -1) : candles;
+  const n = candles.length;
+
+  return {
+    label: def.label,
+    check: checkTimeframe(completed),
+    live: forming && n >= 2 ? classifyCandle(candles[n - 1], candles[n - 2]) : null,
+    liveShape: forming && n >= 1 ? classifyShape(candles[n - 1]) : null,
+    liveClosesAt,
+    patterns: detectPatterns(candles, forming),
+    broadening: detectBroadening(completed),
+    pmg: detectPivotMachineGun(completed),
+  };
+}
+
+/** Scan one symbol — exported for the scan worker, which runs it off the main thread */
+export async function scanSymbol(
   symbol: string,
-  defs: TimeframeDef[]
+  defs: TimeframeSpec[],
+  provider: MarketDataProvider,
+  now: number,
+  signal?: AbortSignal,
+  session: MarketSession = sessionForSymbol(symbol)
 ): Promise<ScreenerSymbolResult> {
   // Cache promises so duplicate sources (e.g. 1H shared between '1H' and '4H') fetch once
   const fetchCache = new Map<string, Promise<OhlcCandle[]>>();
@@ -259,77 +177,212 @@ async function scanSymbol(
     if (source.kind === 'direct') {
       const key = `${source.interval}:${source.range}`;
       if (!fetchCache.has(key)) {
-        fetchCache.set(key, fetchYahoo(symbol, source.interval, source.range));
+        fetchCache.set(key, provider.fetchCandles({ symbol, interval: source.interval, range: source.range, signal }));
       }
       return fetchCache.get(key)!;
     }
 
-    // Aggregate: get source candles then group
-    const srcKey = `${source.sourceInterval}:${source.sourceRange}`;
+    // Aggregate: get source candles then bucket them on the symbol's session calendar
+    const sourceInterval = AGGREGATE_SOURCE_INTERVAL[source.interval];
+    const srcKey = `${sourceInterval}:${source.sourceRange}`;
     if (!fetchCache.has(srcKey)) {
-      fetchCache.set(srcKey, fetchYahoo(symbol, source.sourceInterval, source.sourceRange));
+      fetchCache.set(srcKey, provider.fetchCandles({ symbol, interval: sourceInterval, range: source.sourceRange, signal }));
     }
-    const aggKey = `agg:${srcKey}:${source.factor}`;
+    const aggKey = `agg:${srcKey}:${source.interval}`;
     if (!fetchCache.has(aggKey)) {
       fetchCache.set(
         aggKey,
-        fetchCache.get(srcKey)!.then((candles) => aggregateCandles(candles, source.factor))
+        fetchCache.get(srcKey)!.then((candles) => aggregateCandles(candles, source.interval, session))
       );
     }
     return fetchCache.get(aggKey)!;
   };
 
+  // Continuity is a bonus column — a missing 15m series shouldn't fail the whole row
+  const continuity = Promise.all(
+    CONTINUITY_TIMEFRAMES.map((tf) => getCandles({ kind: 'direct', interval: tf.interval, range: tf.range }))
+  )
+    .then((series) => computeContinuity(series))
+    .catch(() => null);
+
+  // Same fetch as the continuity 'W' series; only the late-week red flag needs it
+  const weeklyTimeframe = CONTINUITY_TIMEFRAMES.find((tf) => tf.interval === '1wk')!;
+  const weekly = getCandles({ kind: 'direct', interval: '1wk', range: weeklyTimeframe.range }).catch(() => null);
+
   try {
     // Kick off all fetches in parallel (deduped by cache)
     const allCandles = await Promise.all(defs.map((def) => getCandles(def.source)));
 
-    const timeframes: ScreenerTimeframeResult[] = defs.map((def, i) => ({
-      label: def.label,
-      check: checkTimeframe(allCandles[i]),
-    }));
+    const timeframes = defs.map((def, i) => buildTimeframeResult(def, allCandles[i], now, session));
 
     const { alignment, direction } = calcAlignment(timeframes.map((t) => t.check));
 
-    return { symbol, direction, timeframes, alignment };
+    const levels = timeframes.flatMap((tf, i) =>
+      tf.patterns
+        .map((p) => computeTradeLevels(allCandles[i], p, tf.label))
+        .filter((l): l is StratTradeLevels => l !== null)
+    );
+
+    const redFlags = detectRedFlags({
+      timeframes: timeframes.map((result, i) => ({ result, candles: allCandles[i] })),
+      direction,
+      levels,
+      continuity: await continuity,
+      weekly: await weekly,
+      now,
+      session,
+    });
+
+    return { symbol, direction, timeframes, alignment, levels, continuity: await continuity, redFlags };
   } catch (error) {
-    const emptyCheck = (): TimeframeCheck => ({ candle1: null, candle2: null, direction: null });
-    return {
-      symbol,
-      direction: null,
-      timeframes: defs.map((def) => ({ label: def.label, check: emptyCheck() })),
-      alignment: 'none',
-      error: error instanceof Error ? error.message : String(error),
-    };
+    // Throttling and cancellation aren't this symbol's fault — let the scan loop pause or stop
+    if (error instanceof ProviderThrottledError || signal?.aborted) throw error;
+
+    return { ...failedResult(symbol, defs.map((def) => def.label), error), continuity: await continuity };
   }
 }
 
+/** An empty row carrying the error that stopped the symbol's scan */
+function failedResult(symbol: string, labels: string[], error: unknown): ScreenerSymbolResult {
+  const emptyCheck = (): TimeframeCheck => ({ candle1: null, candle2: null, shape1: null, shape2: null, direction: null });
+  return {
+    symbol,
+    direction: null,
+    timeframes: labels.map((label) => ({
+      label,
+      check: emptyCheck(),
+      live: null,
+      liveShape: null,
+      liveClosesAt: null,
+      patterns: [],
+      broadening: null,
+      pmg: null,
+    })),
+    alignment: 'none',
+    levels: [],
+    continuity: null,
+    redFlags: [],
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Public API
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Scans single symbols somewhere other than this thread, e.g. a worker pool */
+export interface SymbolScanner {
+  readonly source: MarketDataSource['kind'];
+  readonly batchDelayMs: number;
+  scanSymbol(
+    symbol: string,
+    timeframes: string[],
+    now: number,
+    session: MarketSession,
+    signal?: AbortSignal
+  ): Promise<ScreenerSymbolResult>;
+}
+
+function localScanner(provider: MarketDataProvider, defs: TimeframeSpec[]): SymbolScanner {
+  return {
+    source: provider.source,
+    batchDelayMs: provider.batchDelayMs,
+    scanSymbol: (symbol, _timeframes, now, session, signal) => scanSymbol(symbol, defs, provider, now, signal, session),
+  };
+}
+
+export interface ScanOptions {
+  /** Where candles come from — defaults to live Yahoo Finance */
+  provider?: MarketDataProvider;
+  /** Run each symbol through this instead of scanning on this thread — `provider` is then unused */
+  scanner?: SymbolScanner;
+  /** Clock used to decide which candles are still forming (ms) — replay scans pass their cursor */
+  now?: () => number;
+  /** Asset class of each symbol, from its watchlist entry — others are guessed from the ticker */
+  assetClasses?: Record<string, AssetClass>;
+  /** Timeframe labels to scan — defaults to the style's built-in set */
+  timeframes?: string[];
+  /** Total time the scan may wait for a throttled provider — defaults to a minute */
+  maxThrottlePauseMs?: number;
+  /** Stops the scan; symbols still in flight are dropped */
+  signal?: AbortSignal;
+  /** Called as each symbol finishes, in completion order */
+  onResult?: (result: ScreenerSymbolResult, completed: number, total: number) => void;
+}
+
 export async function scanWatchlist(
   symbols: string[] = DEFAULT_SYMBOLS,
-  tradingStyle: ScreenerTradingStyle = 'swing-trade'
+  tradingStyle: ScreenerTradingStyle = 'swing-trade',
+  options: ScanOptions = {}
 ): Promise<ScreenerScanResponse> {
   const startTime = Date.now();
-  const defs = STYLE_TIMEFRAMES[tradingStyle];
-  const results: ScreenerSymbolResult[] = [];
-
-  for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
-    const batch = symbols.slice(i, i + BATCH_SIZE);
-    const batchResults = await Promise.all(batch.map((sym) => scanSymbol(sym, defs)));
-    results.push(...batchResults);
+  const defs = (options.timeframes ?? DEFAULT_TRADING_STYLES[tradingStyle].timeframes).map(getTimeframeSpec);
+  const scanner = options.scanner ?? localScanner(options.provider ?? createMarketDataProvider(), defs);
+  const labels = defs.map((d) => d.label);
+  const now = (options.now ?? Date.now)();
+  const maxPause = options.maxThrottlePauseMs ?? MAX_THROTTLE_PAUSE_MS;
+  const { signal, onResult } = options;
+
+  // Indexes into `symbols` — throttled symbols go back on the front of the queue
+  const queue = symbols.map((_, i) => i);
+  const results = new Map<number, ScreenerSymbolResult>();
+  let paused = 0;
+  let throttled: ScreenerThrottle | undefined;
+
+  while (queue.length > 0 && !signal?.aborted) {
+    const batch = queue.splice(0, BATCH_SIZE);
+    const settled = await Promise.allSettled(
+      batch.map(async (i) => {
+        const symbol = symbols[i];
+        const session = sessionForAssetClass(options.assetClasses?.[symbol] ?? assetClassForSymbol(symbol));
+        const result = await scanner.scanSymbol(symbol, labels, now, session, signal);
+        results.set(i, result);
+        onResult?.(result, results.size, symbols.length);
+      })
+    );
+    if (signal?.aborted) break;
+
+    const retry: number[] = [];
+    let retryAt = 0;
+    settled.forEach((outcome, j) => {
+      if (outcome.status === 'fulfilled') return;
+      if (outcome.reason instanceof ProviderThrottledError) {
+        retry.push(batch[j]);
+        retryAt = Math.max(retryAt, outcome.reason.retryAt);
+      } else {
+        // scanSymbol reports its own errors; this is a scanner failure, e.g. a crashed worker
+        const result = failedResult(symbols[batch[j]], labels, outcome.reason);
+        results.set(batch[j], result);
+        onResult?.(result, results.size, symbols.length);
+      }
+    });
 
-    if (i + BATCH_SIZE < symbols.length) {
-      await new Promise<void>((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    if (retry.length > 0) {
+      const wait = Math.max(0, retryAt - Date.now());
+      queue.unshift(...retry);
+      if (paused + wait > maxPause) {
+        throttled = {
+          message: `Provider throttled — ${queue.length} of ${symbols.length} symbols not scanned`,
+          retryAt: new Date(retryAt).toISOString(),
+          skippedSymbols: queue.map((i) => symbols[i]),
+        };
+        break;
+      }
+      paused += wait;
+      await sleep(wait, signal).catch(() => undefined);
+    } else if (queue.length > 0 && scanner.batchDelayMs > 0) {
+      await sleep(scanner.batchDelayMs, signal).catch(() => undefined);
     }
   }
 
   return {
-    results,
+    results: [...results.entries()].sort(([a], [b]) => a - b).map(([, result]) => result),
     scannedAt: new Date().toISOString(),
     duration: Date.now() - startTime,
     tradingStyle,
-    timeframeLabels: defs.map((d) => d.label),
+    timeframeLabels: labels,
+    dataSource: scanner.source,
+    ...(throttled ? { throttled } : {}),
+    ...(signal?.aborted ? { cancelled: true } : {}),
   };
 }
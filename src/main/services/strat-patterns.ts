@@ -0,0 +1,194 @@
+/**
+ * Strat Pattern Detection
+ *
+ * Candle classification (1 / 2-up / 2-down / 3) and the actionable combos
+ * from coaching/THE-STRAT-GUARDRAILS.md:
+ *
+ *  2-1-2 reversal / continuation   2 → 1 → 2
+ *  2-2 reversal                    2 → opposite 2
+ *  3-1-2                           3 → 1 → 2
+ *  3-2-2                           3 → 2 → opposite 2
+ *  Rev Strat                       1 → 2 → opposite 2
+ *
+ * A pattern's bias is the direction of its final 2-candle.
+ *
+ * Candle shape (hammer / shooter) is a separate layer from the scenario
+ * type, so a "2-down hammer" is a 2-down with a hammer shape.
+ */
+
+import type {
+  CandleShape,
+  StratCandleType,
+  StratPattern,
+  StratPatternName,
+  StratTradeLevels,
+} from '@shared/ipc-types';
+import type { OhlcCandle } from './market-data';
+
+/** How many of the most recent candles a pattern may end on and still be reported */
+const PATTERN_LOOKBACK = 2;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Candle classification — The Strat rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function classifyCandle(curr: OhlcCandle, prev: OhlcCandle): StratCandleType {
+  if (curr.high > prev.high && curr.low >= prev.low) return '2-up';
+  if (curr.low < prev.low && curr.high <= prev.high) return '2-down';
+  if (curr.high > prev.high && curr.low < prev.low) return '3';
+  return '1'; // Inside bar
+}
+
+/** Classify every candle against its predecessor. Result[i] describes candles[i + 1]. */
+export function classifyCandles(candles: OhlcCandle[]): StratCandleType[] {
+  const types: StratCandleType[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    types.push(classifyCandle(candles[i], candles[i - 1]));
+  }
+  return types;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Candle shape — hammer / shooter
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface ShapeThresholds {
+  /** The long wick must be at least this many times the body */
+  wickToBody: number;
+  /** Share of the range, from the top for a hammer or the bottom for a shooter, the close must fall in */
+  closeZone: number;
+}
+
+export const DEFAULT_SHAPE_THRESHOLDS: ShapeThresholds = {
+  wickToBody: 2,
+  closeZone: 1 / 3,
+};
+
+/**
+ * Hammer: long lower wick, closing near the high. Shooter: long upper wick,
+ * closing near the low. Null for anything else, including a flat candle.
+ */
+export function classifyShape(
+  candle: OhlcCandle,
+  thresholds: ShapeThresholds = DEFAULT_SHAPE_THRESHOLDS
+): CandleShape | null {
+  const range = candle.high - candle.low;
+  if (range <= 0) return null;
+
+  const body = Math.abs(candle.close - candle.open);
+  const lowerWick = Math.min(candle.open, candle.close) - candle.low;
+  const upperWick = candle.high - Math.max(candle.open, candle.close);
+  const closeAt = (candle.close - candle.low) / range; // 0 = low, 1 = high
+
+  if (lowerWick >= thresholds.wickToBody * body && closeAt >= 1 - thresholds.closeZone) return 'hammer';
+  if (upperWick >= thresholds.wickToBody * body && closeAt <= thresholds.closeZone) return 'shooter';
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Combo matching
+// ─────────────────────────────────────────────────────────────────────────────
+
+function isTwo(type: StratCandleType): type is '2-up' | '2-down' {
+  return type === '2-up' || type === '2-down';
+}
+
+/**
+ * Match the combo that ends on types[end]. When several names fit (a Rev Strat
+ * also contains a 2-2 reversal) the most specific one wins.
+ */
+export function matchPatternAt(
+  types: StratCandleType[],
+  end: number
+): Omit<StratPattern, 'barsAgo' | 'forming'> | null {
+  const last = types[end];
+  const mid = types[end - 1];
+  const first = types[end - 2];
+  if (last === undefined || mid === undefined || !isTwo(last)) return null;
+
+  const bias = last === '2-up' ? 'bullish' : 'bearish';
+  const make = (name: StratPatternName, sequence: StratCandleType[]): Omit<StratPattern, 'barsAgo' | 'forming'> => ({
+    name,
+    bias,
+    sequence,
+  });
+
+  if (mid === '1' && first !== undefined) {
+    if (isTwo(first)) return make(first === last ? '2-1-2-continuation' : '2-1-2-reversal', [first, mid, last]);
+    if (first === '3') return make('3-1-2', [first, mid, last]);
+    return null;
+  }
+
+  if (isTwo(mid) && mid !== last) {
+    if (first === '3') return make('3-2-2', [first, mid, last]);
+    if (first === '1') return make('rev-strat', [first, mid, last]);
+    return make('2-2-reversal', [mid, last]);
+  }
+
+  return null;
+}
+
+/**
+ * Detect actionable combos ending on the latest candle or the one before it.
+ * Newest first; barsAgo is 0 when the pattern ends on the latest candle.
+ * Pass `lastIsLive` when the latest candle is still forming so patterns
+ * ending on it are flagged as provisional.
+ */
+export function detectPatterns(candles: OhlcCandle[], lastIsLive = false): StratPattern[] {
+  const types = classifyCandles(candles);
+  const patterns: StratPattern[] = [];
+
+  for (let barsAgo = 0; barsAgo < PATTERN_LOOKBACK; barsAgo++) {
+    const match = matchPatternAt(types, types.length - 1 - barsAgo);
+    if (match) patterns.push({ ...match, barsAgo, forming: lastIsLive && barsAgo === 0 });
+  }
+
+  return patterns;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trade levels — trigger / stop / first target
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Derive the trade plan for a pattern detected in `candles`.
+ *
+ *  X-1-2 combos:  trigger = inside bar high/low, stop = extreme of the candle
+ *                 before the inside bar (the pattern extreme)
+ *  2-2 / 3-2-2 / Rev Strat: trigger and stop = the first 2-candle's high/low
+ *
+ * The first target is the opposite extreme of the candle before the trigger
+ * candle: the prior 2/3 for X-1-2, the candle before a 2-2, the 3 of a 3-2-2
+ * and the inside bar of a Rev Strat.
+ */
+export function computeTradeLevels(
+  candles: OhlcCandle[],
+  pattern: StratPattern,
+  timeframe: string
+): StratTradeLevels | null {
+  const end = candles.length - 1 - pattern.barsAgo;
+  const triggerBar = candles[end - 1];
+  const priorBar = candles[end - 2];
+  const last = candles[candles.length - 1];
+  if (!triggerBar || !priorBar || !last) return null;
+
+  const bullish = pattern.bias === 'bullish';
+  const insideCombo = pattern.sequence[pattern.sequence.length - 2] === '1';
+  const stopBar = insideCombo ? priorBar : triggerBar;
+
+  const trigger = bullish ? triggerBar.high : triggerBar.low;
+  const stop = bullish ? stopBar.low : stopBar.high;
+  const rawTarget = bullish ? priorBar.high : priorBar.low;
+  const target = (bullish ? rawTarget > trigger : rawTarget < trigger) ? rawTarget : null;
+
+  return {
+    timeframe,
+    pattern: pattern.name,
+    bias: pattern.bias,
+    trigger,
+    stop,
+    target,
+    inForce: bullish ? last.close > trigger : last.close < trigger,
+    lastPrice: last.close,
+  };
+}
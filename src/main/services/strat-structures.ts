@@ -0,0 +1,170 @@
+/**
+ * Strat Structures
+ *
+ * Multi-candle formations from coaching/THE-STRAT-GUARDRAILS.md that the
+ * 3-candle combos in strat-patterns.ts can't see:
+ *
+ *  Broadening formation   The last two swing highs expand upward and the
+ *                         last two swing lows expand downward. Its edges are
+ *                         exhaustion zones; where the close sits says which.
+ *  Pivot Machine Gun      5+ consecutive 2s in one direction, each stacking
+ *                         a pivot. Signals exhaustion — the trade is the 2-2
+ *                         reversal against the run, targeting back through
+ *                         the stacked pivots.
+ *
+ * Both read completed candles only, so a formation can't appear and vanish
+ * within a forming bar.
+ */
+
+import type {
+  BroadeningFormation,
+  BroadeningPosition,
+  PivotMachineGun,
+  ScreenerSymbolResult,
+} from '@shared/ipc-types';
+import type { OhlcCandle } from './market-data';
+import { classifyCandles } from './strat-patterns';
+
+/** Completed candles searched for swing pivots */
+const BROADENING_LOOKBACK = 30;
+
+/** A swing pivot must be the extreme of this many candles on each side */
+const PIVOT_STRENGTH = 2;
+
+/** Share of the formation's range at each edge that counts as top / bottom */
+const EDGE_ZONE = 0.2;
+
+/** Consecutive 2s that make a PMG */
+const PMG_MIN_LENGTH = 5;
+
+/** How many candles ago a PMG may have ended and still be reported */
+const PMG_MAX_BARS_AGO = 2;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Broadening formation
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface SwingPivot {
+  index: number;
+  price: number;
+}
+
+/** Swing highs and lows, oldest first */
+export function findSwingPivots(
+  candles: OhlcCandle[],
+  strength: number = PIVOT_STRENGTH
+): { highs: SwingPivot[]; lows: SwingPivot[] } {
+  const highs: SwingPivot[] = [];
+  const lows: SwingPivot[] = [];
+
+  for (let i = strength; i < candles.length - strength; i++) {
+    const before = candles.slice(i - strength, i);
+    const after = candles.slice(i + 1, i + 1 + strength);
+    const { high, low } = candles[i];
+    // Strictly beyond the candles before, at least level with the ones after, so a double top counts once
+    if (before.every((c) => high > c.high) && after.every((c) => high >= c.high)) highs.push({ index: i, price: high });
+    if (before.every((c) => low < c.low) && after.every((c) => low <= c.low)) lows.push({ index: i, price: low });
+  }
+
+  return { highs, lows };
+}
+
+function positionIn(close: number, upper: number, lower: number): BroadeningPosition {
+  if (close > upper) return 'above';
+  if (close < lower) return 'below';
+  const share = (close - lower) / (upper - lower);
+  if (share >= 1 - EDGE_ZONE) return 'top';
+  if (share <= EDGE_ZONE) return 'bottom';
+  return 'middle';
+}
+
+/** The broadening formation in the recent `candles` (completed only), if any */
+export function detectBroadening(candles: OhlcCandle[]): BroadeningFormation | null {
+  const window = candles.slice(-BROADENING_LOOKBACK);
+  const { highs, lows } = findSwingPivots(window);
+  if (highs.length < 2 || lows.length < 2) return null;
+
+  const [h1, h2] = highs.slice(-2);
+  const [l1, l2] = lows.slice(-2);
+  if (h2.price <= h1.price || l2.price >= l1.price) return null;
+
+  const last = window[window.length - 1];
+  return {
+    upper: h2.price,
+    lower: l2.price,
+    startBarsAgo: window.length - 1 - Math.min(h1.index, l1.index),
+    position: positionIn(last.close, h2.price, l2.price),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Pivot Machine Gun
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The most recent run of PMG_MIN_LENGTH+ same-direction 2s in `candles`
+ * (completed only) that ended at most PMG_MAX_BARS_AGO candles ago.
+ */
+export function detectPivotMachineGun(candles: OhlcCandle[]): PivotMachineGun | null {
+  const types = classifyCandles(candles); // types[i] describes candles[i + 1]
+  const last = types.length - 1;
+
+  for (let end = last; end >= Math.max(0, last - PMG_MAX_BARS_AGO); end--) {
+    const type = types[end];
+    if (type !== '2-up' && type !== '2-down') continue;
+    if (end < last && types[end + 1] === type) continue; // not the end of its run
+
+    let start = end;
+    while (start > 0 && types[start - 1] === type) start--;
+    const length = end - start + 1;
+    if (length < PMG_MIN_LENGTH) continue;
+
+    const up = type === '2-up';
+    const run = candles.slice(start + 1, end + 2);
+    const next = types[end + 1];
+    return {
+      trend: up ? 'up' : 'down',
+      bias: up ? 'bearish' : 'bullish',
+      length,
+      endBarsAgo: last - end,
+      pivots: run.map((c) => (up ? c.low : c.high)),
+      reversed: next === (up ? '2-down' : '2-up'),
+    };
+  }
+
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Coach context
+// ─────────────────────────────────────────────────────────────────────────────
+
+const POSITION_TEXT: Record<BroadeningPosition, string> = {
+  above: 'broken out above',
+  top: 'at the top',
+  middle: 'mid-range',
+  bottom: 'at the bottom',
+  below: 'broken down below',
+};
+
+/**
+ * One line describing a scanned symbol's formations, e.g.
+ * "AAPL 1D broadening formation at the top (182.10–195.40); 1W PMG 6× 2-up, bearish reversal setup".
+ * Null when no timeframe has one.
+ */
+export function formatStructures(result: ScreenerSymbolResult): string | null {
+  const parts = result.timeframes.flatMap((tf) => {
+    const found: string[] = [];
+    if (tf.broadening) {
+      const { upper, lower, position } = tf.broadening;
+      found.push(`${tf.label} broadening formation ${POSITION_TEXT[position]} (${lower.toFixed(2)}–${upper.toFixed(2)})`);
+    }
+    if (tf.pmg) {
+      const { length, trend, bias, reversed, endBarsAgo } = tf.pmg;
+      const state = reversed ? 'reversal triggered' : endBarsAgo === 0 ? 'still running' : 'ended';
+      found.push(`${tf.label} PMG ${length}× 2-${trend}, ${bias} reversal setup (${state})`);
+    }
+    return found;
+  });
+  return parts.length > 0 ? `${result.symbol} ${parts.join('; ')}` : null;
+}
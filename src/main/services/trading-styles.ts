@@ -0,0 +1,123 @@
+/**
+ * Trading Styles
+ *
+ * One definition of which timeframes each trading style looks at, shared by
+ * the screener and chart auto-capture. Users can edit a style's timeframe set
+ * (stored in SQLite, see 005_trading_styles.sql); unedited styles fall back
+ * to the built-in defaults below.
+ *
+ * Timeframes are referred to by catalog label ('1H', '4H', '1D' …). The
+ * catalog maps each label to where the screener gets its candles and to the
+ * TradingView interval code used for chart capture.
+ */
+
+import type { ScreenerTradingStyle, TradingStyleDefinition } from '@shared/ipc-types';
+import type { AggregateInterval, CandleInterval } from './market-data';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timeframe catalog
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DirectSource {
+  kind: 'direct';
+  interval: CandleInterval;
+  range: string;
+}
+
+export interface AggregateSource {
+  kind: 'aggregate';
+  interval: AggregateInterval;
+  sourceRange: string; // lookback for the source bars, see AGGREGATE_SOURCE_INTERVAL
+}
+
+export interface TimeframeSpec {
+  label: string;
+  source: DirectSource | AggregateSource;
+  tradingView: string; // TradingView interval code: numbers = minutes, D/W/M = day/week/month
+}
+
+/** Lowest timeframe first. Ranges are shared where possible so fetches dedupe. */
+export const TIMEFRAME_CATALOG: TimeframeSpec[] = [
+  { label: '5m',  source: { kind: 'direct',    interval: '5m',  range: '5d'        }, tradingView: '5'   },
+  { label: '15m', source: { kind: 'direct',    interval: '15m', range: '5d'        }, tradingView: '15'  },
+  { label: '1H',  source: { kind: 'direct',    interval: '1h',  range: '15d'       }, tradingView: '60'  },
+  { label: '2H',  source: { kind: 'aggregate', interval: '2h',  sourceRange: '15d' }, tradingView: '120' },
+  { label: '4H',  source: { kind: 'aggregate', interval: '4h',  sourceRange: '15d' }, tradingView: '240' },
+  { label: '12H', source: { kind: 'aggregate', interval: '12h', sourceRange: '15d' }, tradingView: '720' },
+  { label: '1D',  source: { kind: 'direct',    interval: '1d',  range: '30d'       }, tradingView: '1D'  },
+  { label: '1W',  source: { kind: 'direct',    interval: '1wk', range: '2y'        }, tradingView: '1W'  },
+  { label: '1M',  source: { kind: 'direct',    interval: '1mo', range: '5y'        }, tradingView: '1M'  },
+  { label: '3M',  source: { kind: 'aggregate', interval: '3mo', sourceRange: '5y'  }, tradingView: '3M'  },
+  { label: '1Y',  source: { kind: 'aggregate', interval: '1y',  sourceRange: '10y' }, tradingView: '12M' },
+];
+
+const MAX_TIMEFRAMES = 6;
+
+export function getTimeframeSpec(label: string): TimeframeSpec {
+  const spec = TIMEFRAME_CATALOG.find((tf) => tf.label === label);
+  if (!spec) {
+    throw new Error(`Unknown timeframe: ${label}`);
+  }
+  return spec;
+}
+
+/**
+ * Validate a user-supplied timeframe set: known labels, no duplicates,
+ * 1–6 entries. Returns the set ordered lowest timeframe first.
+ */
+export function normalizeTimeframes(labels: string[]): string[] {
+  const unique = [...new Set(labels)];
+  unique.forEach(getTimeframeSpec);
+  if (unique.length === 0 || unique.length > MAX_TIMEFRAMES) {
+    throw new Error(`A trading style needs between 1 and ${MAX_TIMEFRAMES} timeframes`);
+  }
+  const order = (label: string): number => TIMEFRAME_CATALOG.findIndex((tf) => tf.label === label);
+  return unique.sort((a, b) => order(a) - order(b));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Style definitions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** The screener's original three-timeframe sets; users add more per style */
+export const DEFAULT_TRADING_STYLES: Record<ScreenerTradingStyle, { label: string; timeframes: string[] }> = {
+  'day-trade':      { label: 'Day Trading',      timeframes: ['1H', '4H', '1D'] },
+  'swing-trade':    { label: 'Swing Trading',    timeframes: ['1H', '4H', '1D'] },
+  'position-trade': { label: 'Position Trading', timeframes: ['1D', '1W', '1M'] },
+};
+
+export function isTradingStyle(value: unknown): value is ScreenerTradingStyle {
+  return typeof value === 'string' && Object.hasOwn(DEFAULT_TRADING_STYLES, value);
+}
+
+/** The subset of DatabaseService trading styles need — keeps this module testable without SQLite */
+export interface TradingStyleStore {
+  getTradingStyleOverrides(): Array<{ id: string; timeframes: string[]; updatedAt: number }>;
+}
+
+/** Every style, with the user's stored timeframes where they have edited one */
+export function resolveTradingStyles(store: TradingStyleStore): TradingStyleDefinition[] {
+  const overrides = new Map(store.getTradingStyleOverrides().map((o) => [o.id, o]));
+
+  return (Object.keys(DEFAULT_TRADING_STYLES) as ScreenerTradingStyle[]).map((id) => {
+    const override = overrides.get(id);
+    let timeframes = DEFAULT_TRADING_STYLES[id].timeframes;
+    if (override) {
+      try {
+        timeframes = normalizeTimeframes(override.timeframes);
+      } catch (error) {
+        console.warn(`[TradingStyles] Ignoring stored timeframes for ${id}:`, error);
+      }
+    }
+    return {
+      id,
+      label: DEFAULT_TRADING_STYLES[id].label,
+      timeframes,
+      updatedAt: override?.updatedAt ?? null,
+    };
+  });
+}
+
+export function resolveTradingStyle(store: TradingStyleStore, id: ScreenerTradingStyle): TradingStyleDefinition {
+  return resolveTradingStyles(store).find((s) => s.id === id)!;
+}
@@ -0,0 +1,269 @@
+/**
+ * Watchlist import / export
+ *
+ * Formats, picked by file extension:
+ *
+ *  tradingview  .txt   TradingView's watchlist export — comma/newline separated
+ *                      `EXCHANGE:SYMBOL` entries with `###Section` headers
+ *  csv          .csv   symbol[,tier[,notes[,asset_class]]] rows, optional header row
+ *  json         .json  { name, defaultTradingStyle, items: [{ symbol, tier, notes, assetClass }] },
+ *                      or a bare array of symbols / items
+ *
+ * TradingView sections map to tiers: the first `###` section is tier 1, the
+ * next tier 2 and so on ('###Tier N' sections, as written on export, keep N).
+ * Symbols before the first section (or in a file without sections) get
+ * tier 2, the default for added symbols.
+ *
+ * Symbols are converted between TradingView and Yahoo conventions where
+ * they differ: share classes (BRK.B ↔ BRK-B) and continuous futures
+ * (ES1! ↔ ES=F). Exchange prefixes are dropped on import and not written on
+ * export — TradingView resolves bare tickers itself.
+ *
+ * Entries without a (valid) asset class get one guessed from the ticker when
+ * they're added to a list.
+ */
+
+import * as path from 'path';
+import type { AssetClass, ScreenerTradingStyle, WatchlistFileFormat, WatchlistItem } from '@shared/ipc-types';
+import { isAssetClass } from '@shared/market-calendar';
+import { csvCell } from './screener-export';
+import { isTradingStyle } from './trading-styles';
+
+export interface ImportedSymbol {
+  symbol: string;
+  tier: number;
+  notes: string | null;
+  assetClass?: AssetClass; // only when the file names one
+}
+
+export interface ParsedWatchlist {
+  name: string | null; // only JSON files carry a list name
+  defaultTradingStyle: ScreenerTradingStyle | null;
+  symbols: ImportedSymbol[];
+  skipped: string[]; // entries that aren't valid tickers
+}
+
+const DEFAULT_TIER = 2;
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.\-=^]{0,14}$/;
+
+export const WATCHLIST_FILE_EXTENSIONS: Record<WatchlistFileFormat, string> = {
+  tradingview: 'txt',
+  csv: 'csv',
+  json: 'json',
+};
+
+export function formatFromPath(filePath: string): WatchlistFileFormat {
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  const format = (Object.keys(WATCHLIST_FILE_EXTENSIONS) as WatchlistFileFormat[]).find(
+    (f) => WATCHLIST_FILE_EXTENSIONS[f] === ext
+  );
+  if (!format) {
+    throw new Error(`Unsupported watchlist file type: .${ext}`);
+  }
+  return format;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Symbol conventions
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** 'NASDAQ:AAPL' → 'AAPL', 'NYSE:BRK.B' → 'BRK-B', 'CME_MINI:ES1!' → 'ES=F' */
+export function fromTradingViewSymbol(entry: string): string {
+  const ticker = entry.trim().toUpperCase().split(':').pop() ?? '';
+  const future = /^([A-Z0-9]+?)1!$/.exec(ticker);
+  if (future) return `${future[1]}=F`;
+  return ticker.replace(/\.(?=[A-Z]$)/, '-');
+}
+
+/** 'BRK-B' → 'BRK.B', 'ES=F' → 'ES1!' */
+export function toTradingViewSymbol(symbol: string): string {
+  if (symbol.endsWith('=F')) return `${symbol.slice(0, -2)}1!`;
+  return symbol.replace(/-(?=[A-Z]$)/, '.');
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Collects entries, keeping the first occurrence of each symbol */
+class SymbolCollector {
+  readonly symbols: ImportedSymbol[] = [];
+  readonly skipped: string[] = [];
+  private readonly seen = new Set<string>();
+
+  add(raw: string, symbol: string, tier: number, notes: string | null, assetClass?: unknown): void {
+    if (!SYMBOL_PATTERN.test(symbol) || !Number.isInteger(tier) || tier < 1) {
+      this.skipped.push(raw);
+      return;
+    }
+    if (this.seen.has(symbol)) return;
+    this.seen.add(symbol);
+    const named = typeof assetClass === 'string' ? assetClass.trim().toLowerCase() : undefined;
+    this.symbols.push({ symbol, tier, notes, ...(isAssetClass(named) ? { assetClass: named } : {}) });
+  }
+}
+
+export function parseTradingViewWatchlist(text: string): ParsedWatchlist {
+  const collector = new SymbolCollector();
+  let tier = DEFAULT_TIER;
+  let sections = 0;
+
+  for (const entry of text.split(/[,\r\n]+/).map((e) => e.trim()).filter(Boolean)) {
+    if (entry.startsWith('###')) {
+      // Our own exports name sections 'Tier N'; keep N so tiers round-trip exactly
+      const named = /^###\s*tier\s*(\d+)$/i.exec(entry);
+      sections++;
+      tier = named ? Number(named[1]) : sections;
+      continue;
+    }
+    collector.add(entry, fromTradingViewSymbol(entry), tier, null);
+  }
+
+  return { name: null, defaultTradingStyle: null, symbols: collector.symbols, skipped: collector.skipped };
+}
+
+/**
+ * Split CSV text into rows of cells, honouring double-quoted cells ("a, b",
+ * "" escapes and line breaks inside quotes). Blank lines are dropped.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = (): void => {
+    row.push(cell.trim());
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n') {
+      endRow();
+    } else if (ch !== '\r') {
+      cell += ch;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+export function parseWatchlistCsv(text: string): ParsedWatchlist {
+  const rows = parseCsvRows(text);
+  const collector = new SymbolCollector();
+
+  let [iSymbol, iTier, iNotes, iAsset] = [0, 1, 2, 3];
+  if (rows.length > 0 && rows[0].some((h) => h.toLowerCase() === 'symbol')) {
+    const header = rows.shift()!.map((h) => h.toLowerCase());
+    [iSymbol, iTier, iNotes, iAsset] = ['symbol', 'tier', 'notes', 'asset_class'].map((name) => header.indexOf(name));
+  }
+
+  for (const cells of rows) {
+    const raw = cells[iSymbol] ?? '';
+    const tier = iTier >= 0 && cells[iTier] ? Number(cells[iTier]) : DEFAULT_TIER;
+    const notes = iNotes >= 0 && cells[iNotes] ? cells[iNotes] : null;
+    collector.add(raw, raw.toUpperCase(), tier, notes, iAsset >= 0 ? cells[iAsset] : undefined);
+  }
+
+  return { name: null, defaultTradingStyle: null, symbols: collector.symbols, skipped: collector.skipped };
+}
+
+type JsonEntry = string | { symbol?: unknown; tier?: unknown; notes?: unknown; assetClass?: unknown };
+
+export function parseWatchlistJson(text: string): ParsedWatchlist {
+  const data = JSON.parse(text) as JsonEntry[] | { name?: unknown; defaultTradingStyle?: unknown; items?: unknown };
+  const entries = Array.isArray(data) ? data : data.items;
+  if (!Array.isArray(entries)) {
+    throw new Error('Watchlist JSON must be an array or an object with an "items" array');
+  }
+
+  const collector = new SymbolCollector();
+  for (const entry of entries as JsonEntry[]) {
+    if (typeof entry === 'string') {
+      collector.add(entry, entry.trim().toUpperCase(), DEFAULT_TIER, null);
+    } else {
+      const raw = String(entry.symbol ?? '');
+      const tier = entry.tier === undefined || entry.tier === null ? DEFAULT_TIER : Number(entry.tier);
+      const notes = typeof entry.notes === 'string' && entry.notes.trim() ? entry.notes.trim() : null;
+      collector.add(raw, raw.trim().toUpperCase(), tier, notes, entry.assetClass);
+    }
+  }
+
+  const name = Array.isArray(data) ? undefined : data.name;
+  const style = Array.isArray(data) ? undefined : data.defaultTradingStyle;
+  return {
+    name: typeof name === 'string' && name.trim() ? name.trim() : null,
+    defaultTradingStyle: isTradingStyle(style) ? style : null,
+    symbols: collector.symbols,
+    skipped: collector.skipped,
+  };
+}
+
+export function parseWatchlist(text: string, format: WatchlistFileFormat): ParsedWatchlist {
+  switch (format) {
+    case 'tradingview':
+      return parseTradingViewWatchlist(text);
+    case 'csv':
+      return parseWatchlistCsv(text);
+    case 'json':
+      return parseWatchlistJson(text);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Serialization
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Serialize a list's items (already in tier/position order). TradingView
+ * output gets one `###Tier N` section per tier so it round-trips.
+ */
+export function serializeWatchlist(
+  list: { name: string; defaultTradingStyle: ScreenerTradingStyle | null },
+  items: WatchlistItem[],
+  format: WatchlistFileFormat
+): string {
+  switch (format) {
+    case 'tradingview': {
+      const tiers = [...new Set(items.map((item) => item.tier))].sort((a, b) => a - b);
+      return tiers
+        .map((tier) => [
+          `###Tier ${tier}`,
+          ...items.filter((item) => item.tier === tier).map((item) => toTradingViewSymbol(item.symbol)),
+        ].join(','))
+        .join(',') + '\n';
+    }
+    case 'csv':
+      return [
+        'symbol,tier,notes,asset_class',
+        ...items.map((item) => [item.symbol, String(item.tier), csvCell(item.notes ?? ''), item.assetClass].join(',')),
+      ].join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(
+        {
+          name: list.name,
+          defaultTradingStyle: list.defaultTradingStyle,
+          items: items.map(({ symbol, tier, notes, assetClass }) => ({ symbol, tier, notes, assetClass })),
+        },
+        null,
+        2
+      ) + '\n';
+  }
+}
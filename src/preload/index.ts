@@ -20,8 +20,47 @@ import type {
   SetSplitRatioRequest,
   MultiTimeframeAnalyzeRequest,
   ScreenerScanRequest,
+  ScreenerScanResponse,
+  ScreenerScanProgress,
+  ScreenerAlert,
+  ScreenerScheduleStatus,
+  ConfigureScreenerScheduleRequest,
+  ScreenerScanSummary,
+  ListScreenerScansRequest,
+  DiffScreenerScansRequest,
+  ScreenerScanDiff,
+  ExportScreenerResultsRequest,
+  BacktestRequest,
+  BacktestResponse,
+  ExportBacktestRequest,
+  TradePerformance,
+  PlacePaperOrderRequest,
+  PaperOrder,
+  PaperBrokerState,
+  ConfigurePaperBrokerRequest,
+  StartReplayRequest,
+  ReplayAnswerRequest,
+  ReplaySession,
+  ReplayScore,
+  SymbolKeyLevels,
+  Watchlist,
+  WatchlistItem,
+  CreateWatchlistRequest,
+  UpdateWatchlistRequest,
+  AddWatchlistItemRequest,
+  UpdateWatchlistItemRequest,
+  RemoveWatchlistItemRequest,
+  ReorderWatchlistRequest,
+  ImportWatchlistRequest,
+  ImportWatchlistResult,
+  ExportWatchlistRequest,
+  ExportFileResult,
+  ScreenerTradingStyle,
+  SaveTradingStyleRequest,
+  TradingStylesResponse,
 } from '@shared/ipc-types';
 import { IPC_CHANNELS } from '@shared/ipc-types';
+import type { Trade } from '@shared/models';
 
 /**
  * Type-safe IPC API implementation
@@ -91,6 +130,10 @@ const electronAPI: ElectronAPI = {
     return ipcRenderer.invoke(IPC_CHANNELS.DB_DELETE_TRADE, id);
   },
 
+  getTradePerformance: (simulated: boolean): Promise<TradePerformance> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.DB_TRADE_PERFORMANCE, simulated);
+  },
+
   // ============================================================
   // Conversations API
   // ============================================================
@@ -212,19 +255,183 @@ const electronAPI: ElectronAPI = {
     return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_SCAN, request);
   },
 
+  cancelScreenerScan: (requestId: string): Promise<boolean> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_SCAN_CANCEL, requestId);
+  },
+
+  onScreenerScanProgress: (callback: (progress: ScreenerScanProgress) => void): (() => void) => {
+    const listener = (_event: unknown, progress: ScreenerScanProgress): void => {
+      callback(progress);
+    };
+    ipcRenderer.on(IPC_CHANNELS.SCREENER_SCAN_PROGRESS, listener);
+
+    return (): void => {
+      ipcRenderer.removeListener(IPC_CHANNELS.SCREENER_SCAN_PROGRESS, listener);
+    };
+  },
+
+  configureScreenerSchedule: (request: ConfigureScreenerScheduleRequest): Promise<ScreenerScheduleStatus> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_SCHEDULE_CONFIGURE, request);
+  },
+
+  getScreenerScheduleStatus: (): Promise<ScreenerScheduleStatus> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_SCHEDULE_STATUS);
+  },
+
+  onScreenerUpdated: (callback: (response: ScreenerScanResponse) => void): (() => void) => {
+    const listener = (_event: unknown, response: ScreenerScanResponse): void => {
+      callback(response);
+    };
+    ipcRenderer.on(IPC_CHANNELS.SCREENER_UPDATED, listener);
+
+    return (): void => {
+      ipcRenderer.removeListener(IPC_CHANNELS.SCREENER_UPDATED, listener);
+    };
+  },
+
+  onScreenerAlert: (callback: (alerts: ScreenerAlert[]) => void): (() => void) => {
+    const listener = (_event: unknown, alerts: ScreenerAlert[]): void => {
+      callback(alerts);
+    };
+    ipcRenderer.on(IPC_CHANNELS.SCREENER_ALERT, listener);
+
+    return (): void => {
+      ipcRenderer.removeListener(IPC_CHANNELS.SCREENER_ALERT, listener);
+    };
+  },
+
+  listScreenerScans: (request?: ListScreenerScansRequest): Promise<ScreenerScanSummary[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_HISTORY_LIST, request);
+  },
+
+  getScreenerScan: (id: string): Promise<ScreenerScanResponse | null> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_HISTORY_GET, id);
+  },
+
+  diffScreenerScans: (request: DiffScreenerScansRequest): Promise<ScreenerScanDiff> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_HISTORY_DIFF, request);
+  },
+
+  exportScreenerResults: (request: ExportScreenerResultsRequest): Promise<ExportFileResult> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.SCREENER_EXPORT, request);
+  },
+
+  // ============================================================
+  // Backtest API
+  // ============================================================
+  runBacktest: (request?: BacktestRequest): Promise<BacktestResponse> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.BACKTEST_RUN, request);
+  },
+
+  exportBacktest: (request: ExportBacktestRequest): Promise<ExportFileResult> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.BACKTEST_EXPORT, request);
+  },
+
+  // ============================================================
+  // Paper Trading API
+  // ============================================================
+  placePaperOrder: (request: PlacePaperOrderRequest): Promise<PaperOrder> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.PAPER_PLACE_ORDER, request);
+  },
+
+  cancelPaperOrder: (id: string): Promise<PaperOrder> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.PAPER_CANCEL_ORDER, id);
+  },
+
+  closePaperPosition: (tradeId: string): Promise<Trade> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.PAPER_CLOSE_POSITION, tradeId);
+  },
+
+  syncPaperBroker: (): Promise<PaperBrokerState> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.PAPER_SYNC);
+  },
+
+  configurePaperBroker: (request: ConfigurePaperBrokerRequest): Promise<PaperBrokerState> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.PAPER_CONFIGURE, request);
+  },
+
+  // ============================================================
+  // Replay Training API
+  // ============================================================
+  startReplayTraining: (request: StartReplayRequest): Promise<ReplaySession> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.REPLAY_START, request);
+  },
+
+  answerReplayBar: (request: ReplayAnswerRequest): Promise<ReplaySession> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.REPLAY_ANSWER, request);
+  },
+
+  listReplayScores: (limit?: number): Promise<ReplayScore[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.REPLAY_SCORES, limit);
+  },
+
+  // ============================================================
+  // Key Levels API
+  // ============================================================
+  getKeyLevels: (symbol: string): Promise<SymbolKeyLevels> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.KEY_LEVELS_GET, symbol);
+  },
+
+  // ============================================================
+  // Trading Styles API
+  // ============================================================
+  listTradingStyles: (): Promise<TradingStylesResponse> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.TRADING_STYLES_LIST);
+  },
+
+  saveTradingStyle: (request: SaveTradingStyleRequest): Promise<TradingStylesResponse> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.TRADING_STYLES_SAVE, request);
+  },
+
+  resetTradingStyle: (id: ScreenerTradingStyle): Promise<TradingStylesResponse> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.TRADING_STYLES_RESET, id);
+  },
+
   // ============================================================
   // Watchlist API
   // ============================================================
-  getWatchlist: (): Promise<string[]> => {
-    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_GET);
+  listWatchlists: (): Promise<Watchlist[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLISTS_LIST);
+  },
+
+  createWatchlist: (request: CreateWatchlistRequest): Promise<Watchlist> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLISTS_CREATE, request);
+  },
+
+  updateWatchlist: (request: UpdateWatchlistRequest): Promise<Watchlist> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLISTS_UPDATE, request);
+  },
+
+  deleteWatchlist: (id: string): Promise<Watchlist[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLISTS_DELETE, id);
+  },
+
+  getWatchlist: (watchlistId: string): Promise<WatchlistItem[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_GET, watchlistId);
+  },
+
+  addToWatchlist: (request: AddWatchlistItemRequest): Promise<WatchlistItem[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_ADD, request);
+  },
+
+  updateWatchlistItem: (request: UpdateWatchlistItemRequest): Promise<WatchlistItem[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_UPDATE_ITEM, request);
+  },
+
+  removeFromWatchlist: (request: RemoveWatchlistItemRequest): Promise<WatchlistItem[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_REMOVE, request);
+  },
+
+  reorderWatchlist: (request: ReorderWatchlistRequest): Promise<WatchlistItem[]> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_REORDER, request);
   },
 
-  addToWatchlist: (symbol: string): Promise<string[]> => {
-    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_ADD, symbol);
+  importWatchlist: (request?: ImportWatchlistRequest): Promise<ImportWatchlistResult> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_IMPORT, request);
   },
 
-  removeFromWatchlist: (symbol: string): Promise<string[]> => {
-    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_REMOVE, symbol);
+  exportWatchlist: (request: ExportWatchlistRequest): Promise<ExportFileResult> => {
+    return ipcRenderer.invoke(IPC_CHANNELS.WATCHLIST_EXPORT, request);
   },
 };
 
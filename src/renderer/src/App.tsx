@@ -9,11 +9,14 @@ import { TitleBar } from './components/TitleBar';
 import { StratRuntimeProvider } from './components/StratRuntimeProvider';
 import { GrokThread } from './components/GrokThread';
 import { ScreenerPanel } from './components/ScreenerPanel';
+import { BacktestPanel } from './components/BacktestPanel';
+import { PaperTradingPanel } from './components/PaperTradingPanel';
+import { ReplayTrainingPanel } from './components/ReplayTrainingPanel';
 import { AuthGate } from './components/AuthGate';
 import { useTheme } from './hooks/use-theme';
 import './App.css';
 
-type AppTab = 'coach' | 'screener';
+type AppTab = 'coach' | 'screener' | 'backtest' | 'paper' | 'replay';
 
 function ChatIcon(): React.ReactElement {
   return (
@@ -36,6 +39,36 @@ function ScreenerIcon(): React.ReactElement {
   );
 }
 
+function BacktestIcon(): React.ReactElement {
+  return (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="3 17 9 11 13 15 21 7" />
+      <polyline points="14 7 21 7 21 14" />
+    </svg>
+  );
+}
+
+function PaperIcon(): React.ReactElement {
+  return (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <rect x="3" y="4" width="18" height="16" rx="2" />
+      <line x1="7" y1="15" x2="7" y2="11" />
+      <line x1="12" y1="15" x2="12" y2="8" />
+      <line x1="17" y1="15" x2="17" y2="12" />
+    </svg>
+  );
+}
+
+function ReplayIcon(): React.ReactElement {
+  return (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <line x1="6" y1="4" x2="6" y2="20" />
+      <rect x="4" y="8" width="4" height="8" />
+      <polygon points="13 7 20 12 13 17 13 7" />
+    </svg>
+  );
+}
+
 function App(): React.ReactElement {
   useTheme();
 
@@ -46,7 +79,7 @@ function App(): React.ReactElement {
       <div className="flex h-screen flex-col bg-white dark:bg-[#141414] font-display">
         <TitleBar />
 
-        {/* Tab Bar — 50/50 full width */}
+        {/* Tab Bar — equal widths, full width */}
         <div className="flex border-b border-neutral-200 dark:border-[#2a2a2a]">
           <button
             onClick={() => setActiveTab('coach')}
@@ -70,6 +103,39 @@ function App(): React.ReactElement {
             <ScreenerIcon />
             Screener
           </button>
+          <button
+            onClick={() => setActiveTab('backtest')}
+            className={`flex flex-1 items-center justify-center gap-1.5 py-2 text-xs font-medium border-b-2 transition-colors ${
+              activeTab === 'backtest'
+                ? 'border-neutral-900 dark:border-white text-neutral-900 dark:text-white'
+                : 'border-transparent text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300'
+            }`}
+          >
+            <BacktestIcon />
+            Backtest
+          </button>
+          <button
+            onClick={() => setActiveTab('paper')}
+            className={`flex flex-1 items-center justify-center gap-1.5 py-2 text-xs font-medium border-b-2 transition-colors ${
+              activeTab === 'paper'
+                ? 'border-neutral-900 dark:border-white text-neutral-900 dark:text-white'
+                : 'border-transparent text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300'
+            }`}
+          >
+            <PaperIcon />
+            Paper
+          </button>
+          <button
+            onClick={() => setActiveTab('replay')}
+            className={`flex flex-1 items-center justify-center gap-1.5 py-2 text-xs font-medium border-b-2 transition-colors ${
+              activeTab === 'replay'
+                ? 'border-neutral-900 dark:border-white text-neutral-900 dark:text-white'
+                : 'border-transparent text-neutral-500 hover:text-neutral-700 dark:hover:text-neutral-300'
+            }`}
+          >
+            <ReplayIcon />
+            Replay
+          </button>
         </div>
 
         {/* Main Content — both panels always mounted to preserve state */}
@@ -84,6 +150,21 @@ function App(): React.ReactElement {
               <ScreenerPanel />
             </div>
           </div>
+          <div className={`flex flex-1 overflow-hidden ${activeTab === 'backtest' ? '' : 'hidden'}`}>
+            <div className="flex-1 overflow-hidden">
+              <BacktestPanel />
+            </div>
+          </div>
+          <div className={`flex flex-1 overflow-hidden ${activeTab === 'paper' ? '' : 'hidden'}`}>
+            <div className="flex-1 overflow-hidden">
+              <PaperTradingPanel />
+            </div>
+          </div>
+          <div className={`flex flex-1 overflow-hidden ${activeTab === 'replay' ? '' : 'hidden'}`}>
+            <div className="flex-1 overflow-hidden">
+              <ReplayTrainingPanel />
+            </div>
+          </div>
         </div>
       </div>
     </AuthGate>
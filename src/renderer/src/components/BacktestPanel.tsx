@@ -0,0 +1,339 @@
+/**
+ * BacktestPanel — historical setup backtester UI
+ *
+ * Runs the main-process backtester (backtest.ts) over a saved watchlist with
+ * a trading style's timeframes and shows how each setup has played out: win
+ * rate, average R and bars to target, broken down by setup, timeframe and
+ * whether FTFC was aligned at entry. Results export as a Markdown report,
+ * a CSV of every trade or JSON.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type React from 'react';
+import type {
+  BacktestGroupStats,
+  BacktestResponse,
+  BacktestStats,
+  ScreenerExportFormat,
+  ScreenerTradingStyle,
+  StratPatternName,
+  TradingStyleDefinition,
+  Watchlist,
+} from '../../../shared/ipc-types';
+import { DEFAULT_WATCHLIST_ID } from '../../../shared/ipc-types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Formatting helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const PATTERN_LABELS: Record<StratPatternName, string> = {
+  '2-1-2-reversal':     '2-1-2 Rev',
+  '2-1-2-continuation': '2-1-2 Cont',
+  '2-2-reversal':       '2-2 Rev',
+  '3-1-2':              '3-1-2',
+  '3-2-2':              '3-2-2',
+  'rev-strat':          'Rev Strat',
+};
+
+type BreakdownView = 'setup' | 'timeframe' | 'ftfc' | 'all';
+
+const VIEW_LABELS: Record<BreakdownView, string> = {
+  setup:     'By setup',
+  timeframe: 'By timeframe',
+  ftfc:      'By FTFC',
+  all:       'All combinations',
+};
+
+function fmtPercent(value: number | null): string {
+  return value === null ? '—' : `${(value * 100).toFixed(0)}%`;
+}
+
+function fmtR(value: number | null): string {
+  return value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}R`;
+}
+
+function fmtBars(value: number | null): string {
+  return value === null ? '—' : value.toFixed(1);
+}
+
+function fmtFtfc(ftfc: boolean | null): string {
+  return ftfc === null ? 'All' : ftfc ? 'FTFC' : 'No FTFC';
+}
+
+function rClass(value: number | null): string {
+  if (value === null || value === 0) return 'text-neutral-500';
+  return value > 0 ? 'text-emerald-400' : 'text-red-400';
+}
+
+function groupsFor(result: BacktestResponse, view: BreakdownView): BacktestGroupStats[] {
+  switch (view) {
+    case 'setup':
+      return result.bySetup;
+    case 'timeframe':
+      return result.byTimeframe;
+    case 'ftfc':
+      return result.byFtfc;
+    case 'all':
+      return result.breakdown;
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sub-components
+// ─────────────────────────────────────────────────────────────────────────────
+
+function StatCard({ label, value, className = '' }: { label: string; value: string; className?: string }): React.ReactElement {
+  return (
+    <div className="flex flex-col gap-0.5 rounded-lg bg-neutral-500/5 px-3 py-2">
+      <span className="text-[10px] uppercase tracking-wide text-neutral-500">{label}</span>
+      <span className={`font-mono text-sm font-semibold ${className || 'text-neutral-900 dark:text-white'}`}>{value}</span>
+    </div>
+  );
+}
+
+function Summary({ stats }: { stats: BacktestStats }): React.ReactElement {
+  return (
+    <div className="grid grid-cols-4 gap-2 px-4 py-3">
+      <StatCard label="Trades" value={String(stats.trades)} />
+      <StatCard label="Win rate" value={fmtPercent(stats.winRate)} />
+      <StatCard label="Avg R" value={fmtR(stats.avgR)} className={rClass(stats.avgR)} />
+      <StatCard label="Bars to target" value={fmtBars(stats.avgBarsToTarget)} />
+    </div>
+  );
+}
+
+function BreakdownTable({ groups, view }: { groups: BacktestGroupStats[]; view: BreakdownView }): React.ReactElement {
+  const showSetup = view === 'setup' || view === 'all';
+  const showTimeframe = view === 'timeframe' || view === 'all';
+  const showFtfc = view === 'ftfc' || view === 'all';
+
+  return (
+    <table className="w-full text-xs">
+      <thead className="sticky top-0 z-10">
+        <tr className="border-b border-neutral-200 dark:border-[#2a2a2a] bg-white dark:bg-[#141414] text-neutral-500 text-left">
+          {showSetup && <th className="px-4 py-2 font-medium">Setup</th>}
+          {showTimeframe && <th className="px-3 py-2 font-medium">Timeframe</th>}
+          {showFtfc && <th className="px-3 py-2 font-medium">FTFC</th>}
+          <th className="px-3 py-2 font-medium text-right">Trades</th>
+          <th className="px-3 py-2 font-medium text-right">Win rate</th>
+          <th className="px-3 py-2 font-medium text-right">Avg R</th>
+          <th className="px-3 py-2 font-medium text-right">Bars to target</th>
+          <th className="px-3 py-2 font-medium text-right" title="Reached target / stopped out / closed after the hold limit">W / L / E</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.length === 0 ? (
+          <tr>
+            <td colSpan={8} className="px-4 py-8 text-center text-neutral-500">No setups triggered</td>
+          </tr>
+        ) : (
+          groups.map((g) => (
+            <tr key={`${g.pattern}:${g.timeframe}:${g.ftfc}`} className="border-b border-neutral-100 dark:border-[#1f1f1f]">
+              {showSetup && (
+                <td className="px-4 py-2 font-mono font-semibold text-neutral-900 dark:text-white whitespace-nowrap">
+                  {g.pattern ? PATTERN_LABELS[g.pattern] : 'All'}
+                </td>
+              )}
+              {showTimeframe && <td className="px-3 py-2 font-mono">{g.timeframe ?? 'All'}</td>}
+              {showFtfc && (
+                <td className={`px-3 py-2 ${g.ftfc ? 'text-emerald-400' : 'text-neutral-500'}`}>{fmtFtfc(g.ftfc)}</td>
+              )}
+              <td className="px-3 py-2 text-right font-mono tabular-nums">{g.trades}</td>
+              <td className="px-3 py-2 text-right font-mono tabular-nums">{fmtPercent(g.winRate)}</td>
+              <td className={`px-3 py-2 text-right font-mono tabular-nums ${rClass(g.avgR)}`}>{fmtR(g.avgR)}</td>
+              <td className="px-3 py-2 text-right font-mono tabular-nums">{fmtBars(g.avgBarsToTarget)}</td>
+              <td className="px-3 py-2 text-right font-mono tabular-nums text-neutral-500">
+                {g.wins} / {g.losses} / {g.expired}
+              </td>
+            </tr>
+          ))
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function BacktestPanel(): React.ReactElement {
+  const [lists, setLists] = useState<Watchlist[]>([]);
+  const [listId, setListId] = useState(DEFAULT_WATCHLIST_ID);
+  const [styles, setStyles] = useState<TradingStyleDefinition[]>([]);
+  const [tradingStyle, setTradingStyle] = useState<ScreenerTradingStyle>('swing-trade');
+  const [maxHoldBars, setMaxHoldBars] = useState(20);
+  const [result, setResult] = useState<BacktestResponse | null>(null);
+  const [view, setView] = useState<BreakdownView>('setup');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    void window.electronAPI.listWatchlists().then(setLists);
+    void window.electronAPI.listTradingStyles().then((response) => setStyles(response.styles));
+  }, []);
+
+  const runBacktest = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setResult(await window.electronAPI.runBacktest({ watchlistId: listId, tradingStyle, maxHoldBars }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backtest failed');
+    } finally {
+      setLoading(false);
+    }
+  }, [listId, tradingStyle, maxHoldBars]);
+
+  const handleExport = useCallback(async (format: ScreenerExportFormat): Promise<void> => {
+    if (!result) return;
+    try {
+      const exported = await window.electronAPI.exportBacktest({ result, format });
+      if (exported.filePath) setNotice(`Exported to ${exported.filePath}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  }, [result]);
+
+  const activeStyle = styles.find((s) => s.id === tradingStyle) ?? null;
+  const selectClass = 'rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200';
+
+  return (
+    <div className="flex h-full flex-col bg-white dark:bg-[#141414] text-sm">
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-1 border-b border-neutral-200 dark:border-[#2a2a2a] px-3 py-2">
+        <select
+          value={listId}
+          onChange={(e) => setListId(e.target.value)}
+          title="Watchlist"
+          className="mr-1 max-w-[9rem] rounded-md bg-transparent px-1 py-1 text-xs font-medium text-neutral-700 dark:text-neutral-300 outline-none"
+        >
+          {lists.map((l) => (
+            <option key={l.id} value={l.id}>{l.name} ({l.symbolCount})</option>
+          ))}
+        </select>
+
+        <select
+          value={tradingStyle}
+          onChange={(e) => setTradingStyle(e.target.value as ScreenerTradingStyle)}
+          title={activeStyle ? activeStyle.timeframes.join(' · ') : 'Trading style'}
+          className={selectClass}
+        >
+          {styles.map((s) => (
+            <option key={s.id} value={s.id}>{s.label}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-1 text-xs text-neutral-500" title="Close a trade at market after this many candles">
+          Hold
+          <input
+            type="number"
+            min={1}
+            max={500}
+            value={maxHoldBars}
+            onChange={(e) => setMaxHoldBars(Math.max(1, Math.round(Number(e.target.value)) || 1))}
+            className="w-12 rounded-md bg-transparent px-1 py-1 font-mono text-xs outline-none"
+          />
+          bars
+        </label>
+
+        <div className="flex-1" />
+
+        {result && (
+          <select
+            value=""
+            onChange={(e) => { if (e.target.value) void handleExport(e.target.value as ScreenerExportFormat); }}
+            title="Export backtest"
+            className={selectClass}
+          >
+            <option value="">Export…</option>
+            <option value="markdown">Markdown report</option>
+            <option value="csv">CSV (trades)</option>
+            <option value="json">JSON</option>
+          </select>
+        )}
+
+        <button
+          onClick={() => void runBacktest()}
+          disabled={loading}
+          className="rounded-md bg-neutral-900 dark:bg-white px-3 py-1 text-xs font-medium text-white dark:text-neutral-900 disabled:opacity-40 transition-opacity"
+        >
+          {loading ? 'Running…' : 'Run backtest'}
+        </button>
+      </div>
+
+      {notice && (
+        <div className="mx-4 mt-3 flex items-start gap-2 rounded-lg bg-neutral-500/10 px-3 py-2 text-xs text-neutral-500">
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} title="Dismiss" className="hover:text-neutral-800 dark:hover:text-neutral-200">×</button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mx-4 mt-3 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400">{error}</div>
+      )}
+
+      {result && result.errors.length > 0 && !loading && (
+        <div
+          title={result.errors.map((e) => `${e.symbol}: ${e.error}`).join('\n')}
+          className="mx-4 mt-3 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-400"
+        >
+          {result.errors.length} of {result.symbols.length} symbols couldn't be backtested
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {!result && !loading && !error && (
+          <div className="flex h-full flex-col items-center justify-center gap-2 px-8 text-center text-xs text-neutral-500">
+            <p>Replay every 2-1-2, 3-1-2, 2-2 and Rev Strat trigger on this list's history.</p>
+            <p>Entry at the trigger, exit at the guardrail stop or the magnitude target.</p>
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex h-full flex-col items-center justify-center gap-3 text-neutral-500">
+            <svg className="h-6 w-6 animate-spin" viewBox="0 0 24 24" fill="none">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+            </svg>
+            <p className="text-sm">Backtesting {activeStyle ? activeStyle.timeframes.join(' · ') : ''}…</p>
+          </div>
+        )}
+
+        {result && !loading && (
+          <>
+            <Summary stats={result.summary} />
+
+            <div className="flex items-center gap-1 px-3 pb-2">
+              {(Object.keys(VIEW_LABELS) as BreakdownView[]).map((v) => (
+                <button
+                  key={v}
+                  onClick={() => setView(v)}
+                  className={`rounded-md px-2.5 py-1 text-xs font-medium transition-colors ${
+                    view === v
+                      ? 'bg-neutral-900 dark:bg-white text-white dark:text-neutral-900'
+                      : 'text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+                  }`}
+                >
+                  {VIEW_LABELS[v]}
+                </button>
+              ))}
+              <div className="flex-1" />
+              <span
+                title="Setups with no magnitude target left at entry / trades still open when the data ran out"
+                className="text-[10px] text-neutral-400"
+              >
+                {result.skipped} without target · {result.unresolved} open
+              </span>
+            </div>
+
+            <BreakdownTable groups={groupsFor(result, view)} view={view} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
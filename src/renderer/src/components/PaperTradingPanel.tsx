@@ -0,0 +1,320 @@
+/**
+ * PaperTradingPanel — simulated broker UI
+ *
+ * Order ticket, working orders and open positions for the main-process
+ * paper broker (paper-broker.ts). Fills happen against live candles, so the
+ * panel syncs the broker every minute; filled trades land in the journal
+ * flagged as paper and are summarised apart from live ones.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type React from 'react';
+import type {
+  PaperBrokerState,
+  PaperFillInterval,
+  PaperOrder,
+  PaperOrderType,
+  PlacePaperOrderRequest,
+  TradePerformance,
+} from '../../../shared/ipc-types';
+import type { Trade } from '../../../shared/models';
+
+const SYNC_INTERVAL_MS = 60_000;
+
+const ORDER_TYPE_LABELS: Record<PaperOrderType, string> = {
+  stop:   'Stop (trigger)',
+  limit:  'Limit',
+  market: 'Market',
+};
+
+const SETUPS = ['2-1-2-reversal', '2-1-2-continuation', '3-1-2', '2-2-reversal', '3-2-2', 'rev-strat', 'custom'];
+
+const TIMEFRAMES = ['5m', '15m', '1H', '4H', '1D', '1W'];
+
+const FILL_INTERVALS: PaperFillInterval[] = ['5m', '15m', '1h', '1d'];
+
+function fmtPrice(value: number | undefined): string {
+  return value === undefined ? '—' : value.toFixed(2);
+}
+
+function fmtPnl(value: number): string {
+  return `${value >= 0 ? '+' : '−'}$${Math.abs(value).toFixed(2)}`;
+}
+
+function pnlClass(value: number): string {
+  if (value === 0) return 'text-neutral-500';
+  return value > 0 ? 'text-emerald-400' : 'text-red-400';
+}
+
+function fmtPerformance(label: string, p: TradePerformance | null): string {
+  if (!p) return `${label}: —`;
+  const winRate = p.winRate === null ? '—' : `${(p.winRate * 100).toFixed(0)}%`;
+  return `${label}: ${p.trades} trades · ${winRate} win · ${fmtPnl(p.totalPnl)}`;
+}
+
+/** Parse an optional price field; empty = not set */
+function optionalNumber(text: string): number | undefined {
+  return text.trim() === '' ? undefined : Number(text);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sub-components
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface OrderTicketProps {
+  onPlace: (request: PlacePaperOrderRequest) => Promise<void>;
+}
+
+function OrderTicket({ onPlace }: OrderTicketProps): React.ReactElement {
+  const [symbol, setSymbol] = useState('');
+  const [direction, setDirection] = useState<'long' | 'short'>('long');
+  const [type, setType] = useState<PaperOrderType>('stop');
+  const [price, setPrice] = useState('');
+  const [quantity, setQuantity] = useState('100');
+  const [stopLoss, setStopLoss] = useState('');
+  const [takeProfit, setTakeProfit] = useState('');
+  const [timeframe, setTimeframe] = useState('1H');
+  const [setup, setSetup] = useState('2-1-2-reversal');
+  const [busy, setBusy] = useState(false);
+
+  const inputClass = 'rounded-md border border-neutral-200 dark:border-[#2a2a2a] bg-transparent px-2 py-1.5 text-xs font-mono outline-none focus:border-neutral-400';
+  const selectClass = 'rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200';
+
+  const handlePlace = async (): Promise<void> => {
+    setBusy(true);
+    try {
+      await onPlace({
+        symbol,
+        direction,
+        type,
+        price: type === 'market' ? undefined : Number(price),
+        quantity: Number(quantity),
+        stopLoss: optionalNumber(stopLoss),
+        takeProfit: optionalNumber(takeProfit),
+        timeframe,
+        stratSetup: setup,
+      });
+      setPrice('');
+      setStopLoss('');
+      setTakeProfit('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-neutral-200 dark:border-[#2a2a2a] px-4 py-3">
+      <input
+        value={symbol}
+        onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+        placeholder="Symbol"
+        className={`w-20 ${inputClass}`}
+      />
+      <select value={direction} onChange={(e) => setDirection(e.target.value as 'long' | 'short')} className={selectClass}>
+        <option value="long">Long</option>
+        <option value="short">Short</option>
+      </select>
+      <select value={type} onChange={(e) => setType(e.target.value as PaperOrderType)} className={selectClass}>
+        {(Object.keys(ORDER_TYPE_LABELS) as PaperOrderType[]).map((t) => (
+          <option key={t} value={t}>{ORDER_TYPE_LABELS[t]}</option>
+        ))}
+      </select>
+      {type !== 'market' && (
+        <input value={price} onChange={(e) => setPrice(e.target.value)} placeholder={type === 'stop' ? 'Trigger' : 'Limit'} className={`w-20 ${inputClass}`} />
+      )}
+      <input value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder="Qty" title="Quantity" className={`w-16 ${inputClass}`} />
+      <input value={stopLoss} onChange={(e) => setStopLoss(e.target.value)} placeholder="Stop" title="Stop loss (optional)" className={`w-20 ${inputClass}`} />
+      <input value={takeProfit} onChange={(e) => setTakeProfit(e.target.value)} placeholder="Target" title="Take profit (optional)" className={`w-20 ${inputClass}`} />
+      <select value={timeframe} onChange={(e) => setTimeframe(e.target.value)} title="Setup timeframe" className={selectClass}>
+        {TIMEFRAMES.map((tf) => <option key={tf} value={tf}>{tf}</option>)}
+      </select>
+      <select value={setup} onChange={(e) => setSetup(e.target.value)} title="Setup" className={selectClass}>
+        {SETUPS.map((s) => <option key={s} value={s}>{s}</option>)}
+      </select>
+      <button
+        onClick={() => void handlePlace()}
+        disabled={busy || !symbol.trim() || (type !== 'market' && !price.trim())}
+        className="rounded-md bg-neutral-900 dark:bg-white px-3 py-1.5 text-xs font-medium text-white dark:text-neutral-900 disabled:opacity-40 transition-opacity"
+      >
+        Place order
+      </button>
+    </div>
+  );
+}
+
+function PositionRow({ position, last, onClose }: { position: Trade; last: number | undefined; onClose: () => void }): React.ReactElement {
+  const sign = position.direction === 'long' ? 1 : -1;
+  const pnl = last === undefined ? null : (last - position.entry) * position.quantity * sign;
+  return (
+    <tr className="border-b border-neutral-100 dark:border-[#1f1f1f]">
+      <td className="px-4 py-2 font-mono font-semibold text-neutral-900 dark:text-white">{position.ticker}</td>
+      <td className={`px-3 py-2 ${position.direction === 'long' ? 'text-emerald-400' : 'text-red-400'}`}>
+        {position.direction === 'long' ? 'Long' : 'Short'} {position.quantity}
+      </td>
+      <td className="px-3 py-2 text-neutral-500">{position.timeframe} {position.stratSetup}</td>
+      <td className="px-3 py-2 text-right font-mono tabular-nums">{fmtPrice(position.entry)}</td>
+      <td className="px-3 py-2 text-right font-mono tabular-nums">{fmtPrice(position.stopLoss)}</td>
+      <td className="px-3 py-2 text-right font-mono tabular-nums">{fmtPrice(position.takeProfit)}</td>
+      <td className="px-3 py-2 text-right font-mono tabular-nums">{fmtPrice(last)}</td>
+      <td className={`px-3 py-2 text-right font-mono tabular-nums ${pnl === null ? 'text-neutral-500' : pnlClass(pnl)}`}>
+        {pnl === null ? '—' : fmtPnl(pnl)}
+      </td>
+      <td className="px-3 py-2 text-right">
+        <button onClick={onClose} title="Close at the last price" className="text-xs text-neutral-500 hover:text-red-400 transition-colors">
+          Close
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+function OrderRow({ order, onCancel }: { order: PaperOrder; onCancel: () => void }): React.ReactElement {
+  const bracket = [order.stopLoss !== undefined && `stop ${fmtPrice(order.stopLoss)}`, order.takeProfit !== undefined && `target ${fmtPrice(order.takeProfit)}`]
+    .filter(Boolean)
+    .join(', ');
+  return (
+    <tr className={`border-b border-neutral-100 dark:border-[#1f1f1f] ${order.status === 'working' ? '' : 'opacity-50'}`}>
+      <td className="px-4 py-2 text-neutral-500">{new Date(order.placedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</td>
+      <td className="px-3 py-2 font-mono font-semibold text-neutral-900 dark:text-white">{order.symbol}</td>
+      <td className="px-3 py-2">
+        {order.direction === 'long' ? 'Buy' : 'Sell'} {order.quantity} {ORDER_TYPE_LABELS[order.type].toLowerCase()}
+        {order.type !== 'market' && ` @ ${fmtPrice(order.price)}`}
+      </td>
+      <td className="px-3 py-2 text-neutral-500">{bracket || '—'}</td>
+      <td className="px-3 py-2 capitalize text-neutral-500">{order.status}</td>
+      <td className="px-3 py-2 text-right">
+        {order.status === 'working' && (
+          <button onClick={onCancel} className="text-xs text-neutral-500 hover:text-red-400 transition-colors">Cancel</button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function PaperTradingPanel(): React.ReactElement {
+  const [state, setState] = useState<PaperBrokerState | null>(null);
+  const [paper, setPaper] = useState<TradePerformance | null>(null);
+  const [live, setLive] = useState<TradePerformance | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+
+  const refreshPerformance = useCallback((): void => {
+    void window.electronAPI.getTradePerformance(true).then(setPaper);
+    void window.electronAPI.getTradePerformance(false).then(setLive);
+  }, []);
+
+  const sync = useCallback((): Promise<void> => {
+    return window.electronAPI.syncPaperBroker()
+      .then((next) => {
+        setState(next);
+        refreshPerformance();
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : 'Sync failed'));
+  }, [refreshPerformance]);
+
+  useEffect(() => {
+    void sync();
+    const timer = setInterval(() => void sync(), SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [sync]);
+
+  const handleSync = useCallback((): void => {
+    setSyncing(true);
+    void sync().finally(() => setSyncing(false));
+  }, [sync]);
+
+  const run = useCallback(async (action: () => Promise<unknown>): Promise<void> => {
+    setError(null);
+    try {
+      await action();
+      await sync();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Order failed');
+    }
+  }, [sync]);
+
+  const handleFillInterval = useCallback(async (fillInterval: PaperFillInterval): Promise<void> => {
+    setError(null);
+    try {
+      setState(await window.electronAPI.configurePaperBroker({ fillInterval }));
+      await sync();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not change the fill interval');
+    }
+  }, [sync]);
+
+  const positions = state?.positions ?? [];
+  const orders = state?.orders ?? [];
+
+  return (
+    <div className="flex h-full flex-col bg-white dark:bg-[#141414] text-sm">
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-3 border-b border-neutral-200 dark:border-[#2a2a2a] px-3 py-2 text-xs">
+        <span className="font-medium text-neutral-700 dark:text-neutral-300">Paper trading</span>
+        <span className="text-neutral-500">{fmtPerformance('Paper', paper)}</span>
+        <span className="text-neutral-400">{fmtPerformance('Live', live)}</span>
+        <div className="flex-1" />
+        <select
+          value={state?.fillInterval ?? '5m'}
+          onChange={(e) => void handleFillInterval(e.target.value as PaperFillInterval)}
+          title="Candles orders are filled against"
+          className="rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200"
+        >
+          {FILL_INTERVALS.map((i) => <option key={i} value={i}>Fills: {i}</option>)}
+        </select>
+        <button
+          onClick={handleSync}
+          disabled={syncing}
+          title={state ? `Filled up to ${new Date(state.asOf).toLocaleTimeString()}` : 'Check fills'}
+          className="rounded-md px-2 py-1 text-xs text-neutral-500 transition-colors hover:text-neutral-800 dark:hover:text-neutral-200 disabled:opacity-40"
+        >
+          {syncing ? 'Syncing…' : 'Sync'}
+        </button>
+      </div>
+
+      <OrderTicket onPlace={(request) => run(() => window.electronAPI.placePaperOrder(request))} />
+
+      {error && (
+        <div className="mx-4 mt-3 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        <h3 className="px-4 pt-3 pb-1 text-[10px] font-medium uppercase tracking-wide text-neutral-500">Open positions</h3>
+        <table className="w-full text-xs">
+          <tbody>
+            {positions.length === 0 ? (
+              <tr><td className="px-4 py-3 text-neutral-500">No open paper positions</td></tr>
+            ) : (
+              positions.map((p) => (
+                <PositionRow
+                  key={p.id}
+                  position={p}
+                  last={state?.lastPrices[p.ticker]}
+                  onClose={() => void run(() => window.electronAPI.closePaperPosition(p.id))}
+                />
+              ))
+            )}
+          </tbody>
+        </table>
+
+        <h3 className="px-4 pt-4 pb-1 text-[10px] font-medium uppercase tracking-wide text-neutral-500">Orders this session</h3>
+        <table className="w-full text-xs">
+          <tbody>
+            {orders.length === 0 ? (
+              <tr><td className="px-4 py-3 text-neutral-500">No orders yet — a stop order at a Strat trigger fills once price trades through it</td></tr>
+            ) : (
+              orders.map((o) => (
+                <OrderRow key={o.id} order={o} onCancel={() => void run(() => window.electronAPI.cancelPaperOrder(o.id))} />
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+/**
+ * ReplayTrainingPanel — bar-by-bar candle reading practice
+ *
+ * Drives the main-process replay trainer (replay-training.ts): historical
+ * candles are revealed one at a time and, for each new bar, the trainee
+ * labels it, names the combo it completes and picks that combo's trigger.
+ * Feedback for the last call sits under the chart; past session scores are
+ * listed below.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type React from 'react';
+import type {
+  ReplayBarResult,
+  ReplayCandle,
+  ReplayScore,
+  ReplaySession,
+  ReplaySetupCall,
+  StratCandleType,
+} from '../../../shared/ipc-types';
+
+const LABELS: StratCandleType[] = ['1', '2-up', '2-down', '3'];
+
+const SETUP_LABELS: Record<ReplaySetupCall, string> = {
+  'none':               'No setup',
+  '2-1-2-reversal':     '2-1-2 reversal',
+  '2-1-2-continuation': '2-1-2 continuation',
+  '3-1-2':              '3-1-2',
+  '2-2-reversal':       '2-2 reversal',
+  '3-2-2':              '3-2-2',
+  'rev-strat':          'Rev Strat',
+};
+
+const TIMEFRAMES = ['15m', '1H', '4H', '1D', '1W'];
+
+const SESSION_LENGTHS = [10, 20, 50];
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = 12;
+
+function fmtPrice(value: number | null): string {
+  return value === null ? '—' : value.toFixed(2);
+}
+
+function fmtRatio(correct: number, total: number): string {
+  return total === 0 ? '—' : `${correct}/${total} (${Math.round((correct / total) * 100)}%)`;
+}
+
+function fmtScore(score: ReplayScore): string {
+  return `Labels ${fmtRatio(score.labelCorrect, score.bars)} · Setups ${fmtRatio(score.setupCorrect, score.bars)} · Triggers ${fmtRatio(score.triggerCorrect, score.triggerTotal)}`;
+}
+
+function mark(correct: boolean | null): React.ReactElement | null {
+  if (correct === null) return null;
+  return correct ? <span className="text-emerald-400">✓</span> : <span className="text-red-400">✗</span>;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sub-components
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface ReplayChartProps {
+  candles: ReplayCandle[];
+  slots: number; // bars the finished session will show, so the chart doesn't rescale
+  labels: Array<StratCandleType | null>; // revealed labels by candle index
+  current: number | null; // index of the bar being called
+  trigger: number | null;
+}
+
+function ReplayChart({ candles, slots, labels, current, trigger }: ReplayChartProps): React.ReactElement {
+  const high = Math.max(...candles.map((c) => c.high));
+  const low = Math.min(...candles.map((c) => c.low));
+  const span = high - low || 1;
+  const y = (price: number): number =>
+    CHART_PADDING + ((high - price) / span) * (CHART_HEIGHT - 2 * CHART_PADDING - 14);
+  const slot = CHART_WIDTH / Math.max(slots, candles.length);
+  const body = Math.max(2, slot * 0.6);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="h-60 w-full">
+      {trigger !== null && (
+        <line x1={0} x2={CHART_WIDTH} y1={y(trigger)} y2={y(trigger)} strokeDasharray="4 4" className="stroke-amber-400" />
+      )}
+      {candles.map((c, i) => {
+        const x = i * slot + slot / 2;
+        const up = c.close >= c.open;
+        const top = y(Math.max(c.open, c.close));
+        return (
+          <g key={c.timestamp} opacity={current === null || i === current ? 1 : 0.75}>
+            <line x1={x} x2={x} y1={y(c.high)} y2={y(c.low)} className={up ? 'stroke-emerald-400' : 'stroke-red-400'} />
+            <rect
+              x={x - body / 2}
+              y={top}
+              width={body}
+              height={Math.max(1, y(Math.min(c.open, c.close)) - top)}
+              className={`${up ? 'fill-emerald-400' : 'fill-red-400'} ${i === current ? 'stroke-neutral-900 dark:stroke-white' : ''}`}
+            />
+            <text x={x} y={CHART_HEIGHT - 2} textAnchor="middle" className="fill-neutral-500 text-[9px]">
+              {i === current ? '?' : labels[i] ?? ''}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function ResultLine({ result }: { result: ReplayBarResult }): React.ReactElement {
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs">
+      <span className="text-neutral-500">Bar {result.bar}</span>
+      <span>
+        {mark(result.labelCorrect)} {result.label}
+        {!result.labelCorrect && <span className="text-neutral-500"> (you said {result.call.label})</span>}
+      </span>
+      <span>
+        {mark(result.setupCorrect)} {SETUP_LABELS[result.setup]}
+        {result.bias && <span className="text-neutral-500"> {result.bias}</span>}
+        {!result.setupCorrect && <span className="text-neutral-500"> (you said {SETUP_LABELS[result.call.setup]})</span>}
+      </span>
+      {result.triggerCorrect !== null && (
+        <span>
+          {mark(result.triggerCorrect)} trigger {fmtPrice(result.trigger)}
+          {!result.triggerCorrect && <span className="text-neutral-500"> (you picked {fmtPrice(result.call.trigger)})</span>}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Main component
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function ReplayTrainingPanel(): React.ReactElement {
+  const [symbol, setSymbol] = useState('SPY');
+  const [timeframe, setTimeframe] = useState('1D');
+  const [bars, setBars] = useState(20);
+  const [session, setSession] = useState<ReplaySession | null>(null);
+  const [label, setLabel] = useState<StratCandleType | null>(null);
+  const [setup, setSetup] = useState<ReplaySetupCall>('none');
+  const [trigger, setTrigger] = useState<number | null>(null);
+  const [scores, setScores] = useState<ReplayScore[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshScores = useCallback((): void => {
+    void window.electronAPI.listReplayScores(10).then(setScores);
+  }, []);
+
+  useEffect(() => {
+    refreshScores();
+  }, [refreshScores]);
+
+  const run = useCallback(async (action: () => Promise<ReplaySession>): Promise<void> => {
+    setBusy(true);
+    setError(null);
+    try {
+      setSession(await action());
+      setLabel(null);
+      setSetup('none');
+      setTrigger(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Replay failed');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleStart = (): void => {
+    void run(() => window.electronAPI.startReplayTraining({ symbol, timeframe, bars }));
+  };
+
+  const handleCall = (): void => {
+    if (!session || !label) return;
+    void run(() =>
+      window.electronAPI.answerReplayBar({
+        sessionId: session.id,
+        label,
+        setup,
+        trigger: setup === 'none' ? null : trigger,
+      })
+    ).then(refreshScores);
+  };
+
+  const handleSetup = (next: ReplaySetupCall): void => {
+    setSetup(next);
+    if (next === 'none') setTrigger(null);
+  };
+
+  // Results line up with the bars after the context ones
+  const context = session ? session.candles.length - session.results.length - (session.done ? 0 : 1) : 0;
+  const labels = session
+    ? session.candles.map((_, i) => session.results[i - context]?.label ?? null)
+    : [];
+  const current = session && !session.done ? session.candles.length - 1 : null;
+  const lastResult = session?.results[session.results.length - 1];
+
+  const selectClass = 'rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200';
+  const choiceClass = (selected: boolean): string =>
+    `rounded-md border px-2.5 py-1 text-xs font-mono transition-colors disabled:opacity-40 ${
+      selected
+        ? 'border-neutral-900 dark:border-white text-neutral-900 dark:text-white'
+        : 'border-neutral-200 dark:border-[#2a2a2a] text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+    }`;
+
+  return (
+    <div className="flex h-full flex-col bg-white dark:bg-[#141414] text-sm">
+
+      {/* Toolbar */}
+      <div className="flex items-center gap-3 border-b border-neutral-200 dark:border-[#2a2a2a] px-3 py-2 text-xs">
+        <span className="font-medium text-neutral-700 dark:text-neutral-300">Replay training</span>
+        <input
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+          placeholder="Symbol"
+          className="w-20 rounded-md border border-neutral-200 dark:border-[#2a2a2a] bg-transparent px-2 py-1 text-xs font-mono outline-none focus:border-neutral-400"
+        />
+        <select value={timeframe} onChange={(e) => setTimeframe(e.target.value)} className={selectClass}>
+          {TIMEFRAMES.map((tf) => <option key={tf} value={tf}>{tf}</option>)}
+        </select>
+        <select value={bars} onChange={(e) => setBars(Number(e.target.value))} className={selectClass}>
+          {SESSION_LENGTHS.map((n) => <option key={n} value={n}>{n} bars</option>)}
+        </select>
+        <button
+          onClick={handleStart}
+          disabled={busy || !symbol.trim()}
+          className="rounded-md bg-neutral-900 dark:bg-white px-3 py-1 text-xs font-medium text-white dark:text-neutral-900 disabled:opacity-40 transition-opacity"
+        >
+          {session ? 'New session' : 'Start'}
+        </button>
+        <div className="flex-1" />
+        {session && (
+          <span className="text-neutral-500">
+            {session.symbol} {session.timeframe} · bar {Math.min(session.score.bars + 1, session.score.totalBars)}/{session.score.totalBars}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-4 mt-3 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400">{error}</div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {session ? (
+          <div className="border-b border-neutral-200 dark:border-[#2a2a2a] px-4 py-3">
+            <ReplayChart
+              candles={session.candles}
+              slots={context + session.score.totalBars}
+              labels={labels}
+              current={current}
+              trigger={trigger}
+            />
+
+            {!session.done && (
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <span className="text-xs text-neutral-500">This bar is a</span>
+                {LABELS.map((l) => (
+                  <button key={l} onClick={() => setLabel(l)} disabled={busy} className={choiceClass(label === l)}>{l}</button>
+                ))}
+                <select value={setup} onChange={(e) => handleSetup(e.target.value as ReplaySetupCall)} title="Setup it completes" className={selectClass}>
+                  {(Object.keys(SETUP_LABELS) as ReplaySetupCall[]).map((s) => (
+                    <option key={s} value={s}>{SETUP_LABELS[s]}</option>
+                  ))}
+                </select>
+                {setup !== 'none' && (
+                  <>
+                    <span className="text-xs text-neutral-500">triggered through</span>
+                    {session.triggerChoices.map((price) => (
+                      <button key={price} onClick={() => setTrigger(price)} disabled={busy} className={choiceClass(trigger === price)}>
+                        {fmtPrice(price)}
+                      </button>
+                    ))}
+                  </>
+                )}
+                <button
+                  onClick={handleCall}
+                  disabled={busy || !label || (setup !== 'none' && trigger === null)}
+                  className="rounded-md bg-neutral-900 dark:bg-white px-3 py-1 text-xs font-medium text-white dark:text-neutral-900 disabled:opacity-40 transition-opacity"
+                >
+                  Call bar
+                </button>
+              </div>
+            )}
+
+            {lastResult && (
+              <div className="mt-3">
+                <ResultLine result={lastResult} />
+              </div>
+            )}
+            <div className={`mt-2 text-xs ${session.done ? 'font-medium text-neutral-800 dark:text-neutral-200' : 'text-neutral-500'}`}>
+              {session.done ? 'Session complete — ' : ''}{fmtScore(session.score)}
+            </div>
+          </div>
+        ) : (
+          <div className="px-4 py-6 text-xs text-neutral-500">
+            Start a session to call historical candles one bar at a time: label each bar 1, 2-up, 2-down or 3,
+            name the combo it completes and pick the trigger it broke.
+          </div>
+        )}
+
+        <h3 className="px-4 pt-4 pb-1 text-[10px] font-medium uppercase tracking-wide text-neutral-500">Recent sessions</h3>
+        <table className="w-full text-xs">
+          <tbody>
+            {scores.length === 0 ? (
+              <tr><td className="px-4 py-3 text-neutral-500">No sessions yet</td></tr>
+            ) : (
+              scores.map((s) => (
+                <tr key={s.id} className="border-b border-neutral-100 dark:border-[#1f1f1f]">
+                  <td className="px-4 py-2 text-neutral-500">{new Date(s.startedAt).toLocaleDateString()}</td>
+                  <td className="px-3 py-2 font-mono font-semibold text-neutral-900 dark:text-white">{s.symbol}</td>
+                  <td className="px-3 py-2 text-neutral-500">{s.timeframe}</td>
+                  <td className="px-3 py-2 text-neutral-500">{s.bars}/{s.totalBars} bars</td>
+                  <td className="px-3 py-2">{fmtScore(s)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
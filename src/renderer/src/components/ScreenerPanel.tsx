@@ -1,13 +1,31 @@
 /**
  * ScreenerPanel — Stock Screener UI
  *
- * Displays FTFC (Full Timeframe Continuity) scan results for a user-managed
- * watchlist stored in SQLite. Timeframes adapt to the active trading style.
+ * Displays FTFC (Full Timeframe Continuity) scan results for the selected
+ * named watchlist stored in SQLite. Timeframes adapt to the active trading
+ * style — the list's own default style when it has one.
  *
- * Auto-refresh schedule:
- *   Day Trade     → :05 and :35 past each hour, market hours only
- *   Swing Trade   → :05 past each hour, market hours only
- *   Position Trade → :05 at 4 PM ET (daily candle close + buffer)
+ * Auto-refresh runs in the main process (screener-scheduler.ts) so scans and
+ * alerts continue while this panel isn't mounted. It is off until switched on
+ * here; the scheduler stores the setting itself and resumes at launch. The
+ * panel tells it which style and list to follow and renders the results it
+ * pushes.
+ *
+ * Live scans are kept in scan history; the panel highlights what changed
+ * since the previous scan (or any earlier one picked from the history).
+ *
+ * Manual scans stream rows in as each symbol finishes and can be cancelled;
+ * switching trading style or list abandons a scan that's still running.
+ *
+ * Clicking a row opens a drawer with that symbol's key levels (PDH/PDL,
+ * PWH/PWL, … — see key-levels.ts).
+ *
+ * Each watchlist entry has an asset class (stock, ETF, future, crypto, forex);
+ * the session indicator and the scheduler follow every market the list
+ * trades in (see shared/market-calendar.ts).
+ *
+ * Rows carrying guardrail red flags (2-2 continuations, mother bars, …) are
+ * badged and can be dimmed or hidden.
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
@@ -20,7 +38,32 @@ import type {
   StratAlignment,
   TimeframeCheck,
   ScreenerTradingStyle,
+  ScreenerTimeframeResult,
+  StratPattern,
+  StratPatternName,
+  StratTradeLevels,
+  StratContinuity,
+  TradingStyleDefinition,
+  TradingStylesResponse,
+  ScreenerAlert,
+  ScreenerScanSummary,
+  ScreenerScanDiff,
+  ScreenerSymbolChange,
+  Watchlist,
+  WatchlistItem,
+  WatchlistFileFormat,
+  ScreenerExportFormat,
+  SymbolKeyLevels,
+  ScreenerRedFlag,
+  ScreenerRedFlagReason,
+  BroadeningPosition,
+  CandleShape,
+  ScreenerScheduleStatus,
+  AssetClass,
 } from '../../../shared/ipc-types';
+import { DEFAULT_WATCHLIST_ID } from '../../../shared/ipc-types';
+import { ASSET_CLASSES, getMarketStatus, sessionForAssetClass } from '../../../shared/market-calendar';
+import type { MarketSession, MarketStatus } from '../../../shared/market-calendar';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Trading style helper
@@ -32,56 +75,111 @@ function getStoredStyle(): ScreenerTradingStyle {
   return 'swing-trade';
 }
 
-// ─────────────────────────────────────────────────────────────────────────────
-// Auto-refresh schedule helpers
-// ─────────────────────────────────────────────────────────────────────────────
-
-function getETComponents(): { day: number; hour: number; minute: number } {
-  const etDate = new Date(new Date().toLocaleString('en-US', { timeZone: 'America/New_York' }));
-  return { day: etDate.getDay(), hour: etDate.getHours(), minute: etDate.getMinutes() };
-}
+const WATCHLIST_KEY = 'strat-watchlist';
 
-function msUntilNextCheckpoint(): number {
-  const { minute } = getETComponents();
-  const msIntoMinute = Date.now() % 60_000;
-  const TARGETS = [5, 35];
-  const next = TARGETS.find((t) => t > minute) ?? TARGETS[0] + 60;
-  return (next - minute) * 60_000 - msIntoMinute;
+/** Rows received so far from a manual scan that's still running */
+interface StreamedScan {
+  requestId: string;
+  timeframeLabels: string[];
+  results: ScreenerSymbolResult[];
+  completed: number;
+  total: number;
 }
 
-function shouldAutoScan(style: ScreenerTradingStyle): boolean {
-  const { day, hour, minute } = getETComponents();
-  if (day === 0 || day === 6) return false;
-  const minOfDay = hour * 60 + minute;
-  const OPEN  = 9 * 60 + 30;
-  const CLOSE = 16 * 60;
-  const inMarket = minOfDay >= OPEN && minOfDay < CLOSE;
-  if (style === 'day-trade')      return inMarket;
-  if (style === 'swing-trade')    return inMarket && minute === 5;
-  if (style === 'position-trade') return hour === 16 && minute === 5;
-  return false;
+function getStoredWatchlistId(): string {
+  return localStorage.getItem(WATCHLIST_KEY) ?? DEFAULT_WATCHLIST_ID;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Formatting helpers
 // ─────────────────────────────────────────────────────────────────────────────
 
-function fmtCandleType(type: StratCandleType | null): string {
+const SHAPE_MARKS: Record<CandleShape, string> = { hammer: 'H', shooter: 'S' };
+
+/** Scenario type plus a hammer (H) / shooter (S) mark, e.g. '2↓H' */
+function fmtCandleType(type: StratCandleType | null, shape: CandleShape | null = null): string {
+  const mark = shape ? SHAPE_MARKS[shape] : '';
   if (type === null) return '—';
-  if (type === '2-up') return '2↑';
-  if (type === '2-down') return '2↓';
-  return type;
+  if (type === '2-up') return `2↑${mark}`;
+  if (type === '2-down') return `2↓${mark}`;
+  return `${type}${mark}`;
 }
 
 function fmtTimeframeCell(check: TimeframeCheck): string {
   if (check.candle1 === null || check.candle2 === null) return '—';
-  return `${fmtCandleType(check.candle1)} ${fmtCandleType(check.candle2)}`;
+  return `${fmtCandleType(check.candle1, check.shape1)} ${fmtCandleType(check.candle2, check.shape2)}`;
+}
+
+/** Tooltip naming the hammers and shooters in a timeframe cell */
+function shapeTitle(timeframe: ScreenerTimeframeResult): string | undefined {
+  const { check, live, liveShape } = timeframe;
+  const named = [
+    check.shape1 && `${check.candle1} ${check.shape1}`,
+    check.shape2 && `${check.candle2} ${check.shape2} (last closed)`,
+    liveShape && `${live} ${liveShape} (forming)`,
+  ].filter(Boolean);
+  return named.length > 0 ? named.join(', ') : undefined;
 }
 
+const PATTERN_LABELS: Record<StratPatternName, string> = {
+  '2-1-2-reversal':     '2-1-2 Rev',
+  '2-1-2-continuation': '2-1-2 Cont',
+  '2-2-reversal':       '2-2 Rev',
+  '3-1-2':              '3-1-2',
+  '3-2-2':              '3-2-2',
+  'rev-strat':          'Rev Strat',
+};
+
+const BROADENING_POSITION_LABELS: Record<BroadeningPosition, string> = {
+  above:  'breakout ↑',
+  top:    'top',
+  middle: 'mid',
+  bottom: 'bottom',
+  below:  'breakdown ↓',
+};
+
+const RED_FLAG_LABELS: Record<ScreenerRedFlagReason, string> = {
+  '2-2-continuation': '2-2 Cont',
+  'mother-bar':       'Mother bar',
+  'tightening-range': 'Tightening',
+  'late-week-inside': 'Late week',
+  'against-ftfc':     'vs FTFC',
+};
+
+function fmtPattern(pattern: StratPattern): string {
+  return `${PATTERN_LABELS[pattern.name]} ${pattern.bias === 'bullish' ? '↑' : '↓'}`;
+}
+
+function fmtPrice(value: number): string {
+  return value.toFixed(2);
+}
+
+const MAX_ALERTS = 5;
+
 function fmtTime(isoString: string): string {
   return new Date(isoString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 }
 
+const SESSION_LABELS: Record<MarketSession, string> = {
+  'us-equity':   'US equities',
+  'cme-futures': 'CME futures',
+  forex:         'Forex',
+  crypto:        'Crypto',
+};
+
+/** e.g. "US equities closed (Thanksgiving Day) — opens Fri 09:30" */
+function fmtMarketStatus(status: MarketStatus): string {
+  const note = status.note ? ` (${status.note})` : '';
+  const at = new Date(status.nextChange).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  const market = SESSION_LABELS[status.session];
+  return status.open ? `${market} open${note} — closes ${at}` : `${market} closed${note} — opens ${at}`;
+}
+
+/** Scan history entries span days, so include the date */
+function fmtScanTime(isoString: string): string {
+  return new Date(isoString).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Sub-components
 // ─────────────────────────────────────────────────────────────────────────────
@@ -111,21 +209,225 @@ function DirectionCell({ direction }: { direction: StratDirection }): React.Reac
   return <span className="text-neutral-500">—</span>;
 }
 
-function TimeframeCell({ check }: { check: TimeframeCheck }): React.ReactElement {
+/** What changed for a symbol since the baseline scan */
+function ChangeBadges({ change }: { change: ScreenerSymbolChange }): React.ReactElement {
+  const patterns = [
+    ...change.patternsAdded.map((p) => `+ ${p}`),
+    ...change.patternsRemoved.map((p) => `− ${p}`),
+  ];
+  return (
+    <span className="ml-1.5 inline-flex gap-1 align-middle font-sans">
+      {change.kinds.includes('new-full-ftfc') && (
+        <span className="rounded bg-emerald-500/15 px-1 text-[9px] font-medium text-emerald-400">NEW</span>
+      )}
+      {change.kinds.includes('lost-alignment') && (
+        <span title={`Was ${change.alignmentBefore}`} className="rounded bg-amber-500/15 px-1 text-[9px] font-medium text-amber-400">LOST</span>
+      )}
+      {change.kinds.includes('direction-flip') && (
+        <span title={`Was ${change.directionBefore}`} className="rounded bg-red-500/15 px-1 text-[9px] font-medium text-red-400">FLIP</span>
+      )}
+      {change.kinds.includes('added') && (
+        <span className="rounded bg-neutral-500/15 px-1 text-[9px] font-medium text-neutral-400">ADDED</span>
+      )}
+      {patterns.length > 0 && (
+        <span title={patterns.join('\n')} className="cursor-help rounded bg-sky-500/15 px-1 text-[9px] font-medium text-sky-400">
+          {patterns.length} pattern{patterns.length === 1 ? '' : 's'}
+        </span>
+      )}
+    </span>
+  );
+}
+
+function TimeframeCell({ timeframe }: { timeframe: ScreenerTimeframeResult }): React.ReactElement {
+  const { check, live, liveShape, liveClosesAt, patterns, broadening, pmg } = timeframe;
   return (
-    <span className={check.direction === 'bullish' ? 'text-emerald-400' : check.direction === 'bearish' ? 'text-red-400' : 'text-neutral-400'}>
-      {fmtTimeframeCell(check)}
+    <span className="inline-flex flex-col items-center gap-0.5">
+      <span title={shapeTitle(timeframe)} className={check.direction === 'bullish' ? 'text-emerald-400' : check.direction === 'bearish' ? 'text-red-400' : 'text-neutral-400'}>
+        {fmtTimeframeCell(check)}
+        {live && (
+          <span
+            title={liveClosesAt ? `Forming candle — closes ${fmtTime(liveClosesAt)}` : 'Forming candle'}
+            className="ml-1 italic text-neutral-500"
+          >
+            ({fmtCandleType(live, liveShape)})
+          </span>
+        )}
+      </span>
+      {patterns.map((p) => (
+        <span
+          key={`${p.name}-${p.barsAgo}`}
+          title={`${p.sequence.join(' → ')}${p.barsAgo > 0 ? ` (${p.barsAgo} bar ago)` : ''}${p.forming ? ' — candle still forming' : ''}`}
+          className={`rounded px-1 text-[10px] font-sans font-medium ${
+            p.bias === 'bullish' ? 'bg-emerald-500/15 text-emerald-400' : 'bg-red-500/15 text-red-400'
+          } ${p.barsAgo > 0 ? 'opacity-60' : ''} ${p.forming ? 'border border-dashed border-current' : ''}`}
+        >
+          {fmtPattern(p)}
+        </span>
+      ))}
+      {broadening && (
+        <span
+          title={`Broadening formation ${fmtPrice(broadening.lower)}–${fmtPrice(broadening.upper)}, started ${broadening.startBarsAgo} bars ago`}
+          className="rounded bg-violet-500/15 px-1 text-[10px] font-sans font-medium text-violet-400"
+        >
+          BF {BROADENING_POSITION_LABELS[broadening.position]}
+        </span>
+      )}
+      {pmg && (
+        <span
+          title={`${pmg.length} consecutive 2-${pmg.trend} candles — ${pmg.bias} exhaustion reversal setup${
+            pmg.reversed ? ', reversal triggered' : ''}${pmg.endBarsAgo > 0 ? ` (ended ${pmg.endBarsAgo} bar${pmg.endBarsAgo > 1 ? 's' : ''} ago)` : ''}`}
+          className={`rounded px-1 text-[10px] font-sans font-medium ${
+            pmg.bias === 'bullish' ? 'bg-emerald-500/15 text-emerald-400' : 'bg-red-500/15 text-red-400'
+          } ${pmg.reversed ? '' : 'border border-dashed border-current'}`}
+        >
+          PMG {pmg.length}{pmg.trend === 'up' ? '↑' : '↓'}
+        </span>
+      )}
     </span>
   );
 }
 
+function ContinuityCell({ continuity }: { continuity: StratContinuity | null }): React.ReactElement {
+  if (!continuity) return <span className="text-neutral-500">—</span>;
+  const scoreColor =
+    continuity.direction === 'bullish' ? 'text-emerald-400'
+    : continuity.direction === 'bearish' ? 'text-red-400'
+    : 'text-neutral-400';
+  return (
+    <span className="inline-flex items-center gap-1 whitespace-nowrap">
+      <span className={`w-6 text-right font-semibold ${scoreColor}`}>
+        {continuity.score > 0 ? `+${continuity.score}` : continuity.score}
+      </span>
+      {continuity.timeframes.map((tf) => (
+        <span
+          key={tf.timeframe}
+          title={`${tf.timeframe} open ${fmtPrice(tf.open)} · ${tf.distance >= 0 ? '+' : ''}${fmtPrice(tf.distance)} (${tf.distancePct.toFixed(2)}%)`}
+          className={`rounded px-1 text-[10px] ${
+            tf.state === 'green' ? 'bg-emerald-500/15 text-emerald-400'
+            : tf.state === 'red' ? 'bg-red-500/15 text-red-400'
+            : 'bg-neutral-500/15 text-neutral-400'
+          }`}
+        >
+          {tf.timeframe}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function RedFlagBadge({ flags }: { flags: ScreenerRedFlag[] }): React.ReactElement | null {
+  if (flags.length === 0) return null;
+  return (
+    <span
+      title={flags.map((f) => f.message).join('\n')}
+      className="ml-1.5 cursor-help rounded bg-red-500/15 px-1 py-px text-[9px] font-medium text-red-400"
+    >
+      ⚑ {flags.length === 1 ? RED_FLAG_LABELS[flags[0].reason] : `${flags.length} flags`}
+    </span>
+  );
+}
+
+function LevelsCell({ levels }: { levels: StratTradeLevels[] }): React.ReactElement {
+  if (levels.length === 0) return <span className="text-neutral-500">—</span>;
+  return (
+    <span className="flex flex-col gap-0.5">
+      {levels.map((l) => (
+        <span key={`${l.timeframe}-${l.pattern}`} className="whitespace-nowrap">
+          <span className={l.bias === 'bullish' ? 'text-emerald-400' : 'text-red-400'}>
+            {l.timeframe} {PATTERN_LABELS[l.pattern]} {l.bias === 'bullish' ? '↑' : '↓'}
+          </span>
+          <span className="ml-1.5 text-neutral-500">
+            T {fmtPrice(l.trigger)} · S {fmtPrice(l.stop)} · PT {l.target === null ? '—' : fmtPrice(l.target)}
+          </span>
+          {l.inForce && (
+            <span title={`Last ${fmtPrice(l.lastPrice)}`} className="ml-1.5 text-amber-400">● in force</span>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+/** Key levels for one symbol, highest first, with the last price slotted in between */
+function KeyLevelsDrawer({ symbol, onClose }: { symbol: string; onClose: () => void }): React.ReactElement {
+  const [data, setData]   = useState<SymbolKeyLevels | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Mounted with key={symbol}, so state starts fresh for each symbol
+  useEffect(() => {
+    let current = true;
+    window.electronAPI.getKeyLevels(symbol).then(
+      (levels) => { if (current) setData(levels); },
+      (err: unknown) => { if (current) setError(err instanceof Error ? err.message : 'Could not load key levels'); }
+    );
+    return () => { current = false; };
+  }, [symbol]);
+
+  const last = data?.lastPrice ?? null;
+  const levels = [...(data?.levels ?? [])].sort((a, b) => b.price - a.price);
+  const lastIndex = last === null ? -1 : levels.findIndex((l) => l.price < last);
+  const lastRow = last !== null && (
+    <div className="contents text-amber-400">
+      <span>Last</span>
+      <span />
+      <span className="text-right">{fmtPrice(last)}</span>
+      <span />
+    </div>
+  );
+
+  return (
+    <div className="border-t border-neutral-200 dark:border-[#2a2a2a] bg-neutral-50 dark:bg-[#111] px-4 py-3 text-xs">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-mono font-semibold text-neutral-900 dark:text-white">
+          {symbol} <span className="font-sans font-normal text-neutral-500">key levels</span>
+        </span>
+        <button onClick={onClose} title="Close" className="text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200">×</button>
+      </div>
+      {error && <p className="text-red-400">{error}</p>}
+      {!data && !error && <p className="text-neutral-500">Loading…</p>}
+      {data && levels.length === 0 && <p className="text-neutral-500">No candle data for {symbol}</p>}
+      {data && levels.length > 0 && (
+        <div className="grid grid-cols-[3rem_1fr_auto_auto] gap-x-3 gap-y-1 font-mono">
+          {levels.map((level, i) => (
+            <div key={level.id} className="contents">
+              {i === lastIndex && lastRow}
+              <span className={level.id.endsWith('H') ? 'text-emerald-400' : 'text-red-400'}>{level.id}</span>
+              <span className="font-sans text-neutral-500">{level.label}</span>
+              <span className="text-right text-neutral-900 dark:text-white">{fmtPrice(level.price)}</span>
+              <span className="text-right text-neutral-500">
+                {last === null ? '' : `${level.price >= last ? '+' : ''}${((level.price / last - 1) * 100).toFixed(1)}%`}
+              </span>
+            </div>
+          ))}
+          {lastIndex === -1 && lastRow}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Sorting & filtering
 // ─────────────────────────────────────────────────────────────────────────────
 
 const ALIGNMENT_ORDER: Record<StratAlignment, number> = { 'full-ftfc': 0, partial: 1, none: 2 };
 
-function sortResults(results: ScreenerSymbolResult[]): ScreenerSymbolResult[] {
+type SortKey = 'alignment' | 'continuity';
+
+/** Continuity score, strongest green first; ties broken by total distance from the opens */
+function continuityRank(c: StratContinuity | null): [number, number] {
+  if (!c) return [-Infinity, 0];
+  return [c.score, c.timeframes.reduce((sum, tf) => sum + tf.distancePct, 0)];
+}
+
+function sortResults(results: ScreenerSymbolResult[], sortBy: SortKey): ScreenerSymbolResult[] {
+  if (sortBy === 'continuity') {
+    return [...results].sort((a, b) => {
+      const [scoreA, distA] = continuityRank(a.continuity);
+      const [scoreB, distB] = continuityRank(b.continuity);
+      return scoreB - scoreA || distB - distA;
+    });
+  }
   return [...results].sort((a, b) => {
     const d = ALIGNMENT_ORDER[a.alignment] - ALIGNMENT_ORDER[b.alignment];
     if (d !== 0) return d;
@@ -134,11 +436,21 @@ function sortResults(results: ScreenerSymbolResult[]): ScreenerSymbolResult[] {
   });
 }
 
-type FilterTab = 'all' | 'bullish' | 'bearish' | 'full-ftfc';
+type FilterTab = 'all' | 'bullish' | 'bearish' | 'full-ftfc' | 'changed';
+
+/** How rows with red flags are shown */
+type RedFlagMode = 'show' | 'dim' | 'hide';
+
+const NEXT_RED_FLAG_MODE: Record<RedFlagMode, RedFlagMode> = { show: 'dim', dim: 'hide', hide: 'show' };
 
-function applyFilter(results: ScreenerSymbolResult[], tab: FilterTab): ScreenerSymbolResult[] {
+function applyFilter(
+  results: ScreenerSymbolResult[],
+  tab: FilterTab,
+  changes: Map<string, ScreenerSymbolChange>
+): ScreenerSymbolResult[] {
   if (tab === 'all') return results;
   if (tab === 'full-ftfc') return results.filter((r) => r.alignment === 'full-ftfc');
+  if (tab === 'changed') return results.filter((r) => changes.has(r.symbol));
   return results.filter((r) => r.direction === tab);
 }
 
@@ -146,15 +458,51 @@ function applyFilter(results: ScreenerSymbolResult[], tab: FilterTab): ScreenerS
 // Watchlist editor sub-component
 // ─────────────────────────────────────────────────────────────────────────────
 
+const TIERS = [1, 2, 3];
+
+const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  equity: 'Stock',
+  etf:    'ETF',
+  future: 'Future',
+  crypto: 'Crypto',
+  forex:  'Forex',
+};
+
+const STYLE_OPTIONS: Array<{ id: ScreenerTradingStyle; label: string }> = [
+  { id: 'day-trade',      label: 'Day' },
+  { id: 'swing-trade',    label: 'Swing' },
+  { id: 'position-trade', label: 'Position' },
+];
+
+interface WatchlistItemUpdates {
+  assetClass?: AssetClass;
+  tier?: number;
+  notes?: string | null;
+}
+
 interface WatchlistEditorProps {
-  symbols: string[];
-  onAdd: (symbol: string) => Promise<void>;
+  list: Watchlist;
+  items: WatchlistItem[];
+  onAdd: (symbol: string, tier: number, assetClass?: AssetClass) => Promise<void>;
   onRemove: (symbol: string) => Promise<void>;
+  onUpdateItem: (symbol: string, updates: WatchlistItemUpdates) => Promise<void>;
+  onMove: (symbol: string, offset: -1 | 1) => Promise<void>;
+  onUpdateList: (updates: { name?: string; defaultTradingStyle?: ScreenerTradingStyle | null }) => Promise<void>;
+  onDeleteList: () => Promise<void>;
+  onCreateList: (name: string) => Promise<void>;
+  onImport: (intoCurrent: boolean) => Promise<void>;
+  onExport: (format: WatchlistFileFormat) => Promise<void>;
   onClose: () => void;
 }
 
-function WatchlistEditor({ symbols, onAdd, onRemove, onClose }: WatchlistEditorProps): React.ReactElement {
+/** Remount with `key={list.id}` — name and notes inputs are seeded from props */
+function WatchlistEditor({
+  list, items, onAdd, onRemove, onUpdateItem, onMove, onUpdateList, onDeleteList, onCreateList, onImport, onExport, onClose,
+}: WatchlistEditorProps): React.ReactElement {
   const [input, setInput] = useState('');
+  const [tier, setTier] = useState(2);
+  const [assetClass, setAssetClass] = useState<AssetClass | ''>(''); // '' = guess from the ticker
+  const [newList, setNewList] = useState('');
   const [busy, setBusy] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -164,20 +512,83 @@ function WatchlistEditor({ symbols, onAdd, onRemove, onClose }: WatchlistEditorP
 
   const handleAdd = async (): Promise<void> => {
     const sym = input.trim().toUpperCase();
-    if (!sym || symbols.includes(sym)) { setInput(''); return; }
+    if (!sym || items.some((item) => item.symbol === sym)) { setInput(''); return; }
     setBusy(true);
-    await onAdd(sym);
+    await onAdd(sym, tier, assetClass || undefined);
     setInput('');
     setBusy(false);
   };
 
+  const handleCreate = async (): Promise<void> => {
+    const name = newList.trim();
+    if (!name) return;
+    setBusy(true);
+    try {
+      await onCreateList(name);
+      setNewList('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
   const handleKey = (e: React.KeyboardEvent): void => {
     if (e.key === 'Enter') void handleAdd();
     if (e.key === 'Escape') onClose();
   };
 
+  const inputClass =
+    'rounded-md border border-neutral-200 dark:border-[#2a2a2a] bg-white dark:bg-[#1a1a1a] px-2.5 py-1.5 text-xs text-neutral-900 dark:text-white placeholder-neutral-400 outline-none focus:ring-1 focus:ring-neutral-400 dark:focus:ring-neutral-600';
+  const selectClass = 'rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none';
+  const tiers = [...new Set(items.map((item) => item.tier))];
+
   return (
     <div className="flex flex-col gap-3 border-b border-neutral-200 dark:border-[#2a2a2a] px-4 py-3">
+      {/* List settings */}
+      <div className="flex items-center gap-2">
+        <input
+          defaultValue={list.name}
+          onBlur={(e) => { if (e.target.value.trim() !== list.name) void onUpdateList({ name: e.target.value }); }}
+          title="List name"
+          className={`flex-1 font-medium ${inputClass}`}
+        />
+        <select
+          value={list.defaultTradingStyle ?? ''}
+          onChange={(e) => void onUpdateList({ defaultTradingStyle: (e.target.value || null) as ScreenerTradingStyle | null })}
+          title="Trading style used when this list is selected"
+          className={selectClass}
+        >
+          <option value="">Any style</option>
+          {STYLE_OPTIONS.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+        </select>
+        <button
+          onClick={() => void onImport(true)}
+          title="Import a TradingView .txt, CSV or JSON file into this list"
+          className="text-xs text-neutral-400 hover:text-neutral-800 dark:hover:text-neutral-200 transition-colors"
+        >
+          Import
+        </button>
+        <select
+          value=""
+          onChange={(e) => { if (e.target.value) void onExport(e.target.value as WatchlistFileFormat); }}
+          title="Export this list"
+          className={selectClass}
+        >
+          <option value="">Export…</option>
+          <option value="tradingview">TradingView (.txt)</option>
+          <option value="csv">CSV</option>
+          <option value="json">JSON</option>
+        </select>
+        {list.id !== DEFAULT_WATCHLIST_ID && (
+          <button
+            onClick={() => void onDeleteList()}
+            title={`Delete ${list.name}`}
+            className="text-xs text-neutral-400 hover:text-red-400 transition-colors"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
       {/* Add input */}
       <div className="flex items-center gap-2">
         <input
@@ -187,8 +598,20 @@ function WatchlistEditor({ symbols, onAdd, onRemove, onClose }: WatchlistEditorP
           onKeyDown={handleKey}
           placeholder="Add ticker…"
           maxLength={10}
-          className="flex-1 rounded-md border border-neutral-200 dark:border-[#2a2a2a] bg-white dark:bg-[#1a1a1a] px-2.5 py-1.5 text-xs font-mono text-neutral-900 dark:text-white placeholder-neutral-400 outline-none focus:ring-1 focus:ring-neutral-400 dark:focus:ring-neutral-600"
+          className={`flex-1 font-mono ${inputClass}`}
         />
+        <select value={tier} onChange={(e) => setTier(Number(e.target.value))} title="Tier" className={selectClass}>
+          {TIERS.map((t) => <option key={t} value={t}>Tier {t}</option>)}
+        </select>
+        <select
+          value={assetClass}
+          onChange={(e) => setAssetClass(e.target.value as AssetClass | '')}
+          title="Asset class — decides which market session the symbol follows"
+          className={selectClass}
+        >
+          <option value="">Auto</option>
+          {ASSET_CLASSES.map((a) => <option key={a} value={a}>{ASSET_CLASS_LABELS[a]}</option>)}
+        </select>
         <button
           onClick={() => void handleAdd()}
           disabled={busy || !input.trim()}
@@ -198,24 +621,167 @@ function WatchlistEditor({ symbols, onAdd, onRemove, onClose }: WatchlistEditorP
         </button>
       </div>
 
-      {/* Chip list */}
+      {/* Symbols grouped by tier, in manual order */}
+      <div className="flex max-h-64 flex-col gap-2 overflow-auto">
+        {tiers.map((t) => (
+          <div key={t} className="flex flex-col gap-1">
+            <span className="text-[10px] font-medium uppercase tracking-wide text-neutral-400">Tier {t}</span>
+            {items.filter((item) => item.tier === t).map((item, i, group) => (
+              <div key={item.symbol} className="flex items-center gap-2 text-xs">
+                <span className="w-14 font-mono text-neutral-700 dark:text-neutral-300">{item.symbol}</span>
+                <button
+                  onClick={() => void onMove(item.symbol, -1)}
+                  disabled={i === 0}
+                  title="Move up"
+                  className="text-neutral-400 hover:text-neutral-800 dark:hover:text-neutral-200 disabled:opacity-20 transition-colors"
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => void onMove(item.symbol, 1)}
+                  disabled={i === group.length - 1}
+                  title="Move down"
+                  className="text-neutral-400 hover:text-neutral-800 dark:hover:text-neutral-200 disabled:opacity-20 transition-colors"
+                >
+                  ↓
+                </button>
+                <select
+                  value={item.tier}
+                  onChange={(e) => void onUpdateItem(item.symbol, { tier: Number(e.target.value) })}
+                  title="Tier"
+                  className={selectClass}
+                >
+                  {[...new Set([...TIERS, item.tier])].map((n) => <option key={n} value={n}>T{n}</option>)}
+                </select>
+                <select
+                  value={item.assetClass}
+                  onChange={(e) => void onUpdateItem(item.symbol, { assetClass: e.target.value as AssetClass })}
+                  title="Asset class"
+                  className={selectClass}
+                >
+                  {ASSET_CLASSES.map((a) => <option key={a} value={a}>{ASSET_CLASS_LABELS[a]}</option>)}
+                </select>
+                <input
+                  defaultValue={item.notes ?? ''}
+                  onBlur={(e) => {
+                    const notes = e.target.value.trim() || null;
+                    if (notes !== item.notes) void onUpdateItem(item.symbol, { notes });
+                  }}
+                  placeholder="Notes"
+                  className="flex-1 bg-transparent text-neutral-500 placeholder-neutral-400 outline-none"
+                />
+                <button
+                  onClick={() => void onRemove(item.symbol)}
+                  title={`Remove ${item.symbol}`}
+                  className="text-neutral-400 hover:text-red-400 transition-colors leading-none"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {/* New list */}
+      <div className="flex items-center gap-2 border-t border-neutral-100 dark:border-[#1f1f1f] pt-3">
+        <input
+          value={newList}
+          onChange={(e) => setNewList(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') void handleCreate(); }}
+          placeholder="New list name…"
+          className={`flex-1 ${inputClass}`}
+        />
+        <button
+          onClick={() => void handleCreate()}
+          disabled={busy || !newList.trim()}
+          className="rounded-md px-3 py-1.5 text-xs font-medium text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200 disabled:opacity-40 transition-colors"
+        >
+          Create list
+        </button>
+        <button
+          onClick={() => void onImport(false)}
+          title="Create a new list from a TradingView .txt, CSV or JSON file"
+          className="rounded-md px-3 py-1.5 text-xs font-medium text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200 transition-colors"
+        >
+          Import as new list
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timeframe editor sub-component
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface TimeframeEditorProps {
+  style: TradingStyleDefinition;
+  availableTimeframes: string[];
+  onSave: (timeframes: string[]) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+function TimeframeEditor({ style, availableTimeframes, onSave, onReset }: TimeframeEditorProps): React.ReactElement {
+  const [selected, setSelected] = useState<string[]>(style.timeframes);
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (label: string): void => {
+    setSelected((prev) => prev.includes(label) ? prev.filter((l) => l !== label) : [...prev, label]);
+  };
+
+  const run = async (action: () => Promise<void>): Promise<void> => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const dirty = selected.length !== style.timeframes.length || selected.some((l) => !style.timeframes.includes(l));
+
+  return (
+    <div className="flex flex-col gap-3 border-b border-neutral-200 dark:border-[#2a2a2a] px-4 py-3">
+      <div className="flex items-center gap-2 text-xs text-neutral-500">
+        <span className="font-medium text-neutral-700 dark:text-neutral-300">{style.label}</span>
+        <span>timeframes — used by the screener and chart capture</span>
+      </div>
+
       <div className="flex flex-wrap gap-1.5">
-        {symbols.map((sym) => (
-          <span
-            key={sym}
-            className="inline-flex items-center gap-1 rounded-full border border-neutral-200 dark:border-[#2a2a2a] px-2 py-0.5 text-xs font-mono text-neutral-700 dark:text-neutral-300"
+        {availableTimeframes.map((label) => (
+          <button
+            key={label}
+            onClick={() => toggle(label)}
+            className={`rounded-full border px-2 py-0.5 text-xs font-mono transition-colors ${
+              selected.includes(label)
+                ? 'border-neutral-900 dark:border-white bg-neutral-900 dark:bg-white text-white dark:text-neutral-900'
+                : 'border-neutral-200 dark:border-[#2a2a2a] text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+            }`}
           >
-            {sym}
-            <button
-              onClick={() => void onRemove(sym)}
-              title={`Remove ${sym}`}
-              className="ml-0.5 text-neutral-400 hover:text-red-400 transition-colors leading-none"
-            >
-              ×
-            </button>
-          </span>
+            {label}
+          </button>
         ))}
       </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => void run(() => onSave(selected))}
+          disabled={busy || !dirty || selected.length === 0}
+          className="rounded-md bg-neutral-900 dark:bg-white px-3 py-1.5 text-xs font-medium text-white dark:text-neutral-900 disabled:opacity-40 hover:opacity-80 transition-opacity"
+        >
+          Save
+        </button>
+        {style.updatedAt !== null && (
+          <button
+            onClick={() => void run(onReset)}
+            disabled={busy}
+            className="rounded-md px-3 py-1.5 text-xs text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200 disabled:opacity-40 transition-colors"
+          >
+            Reset to default
+          </button>
+        )}
+      </div>
     </div>
   );
 }
@@ -225,73 +791,336 @@ function WatchlistEditor({ symbols, onAdd, onRemove, onClose }: WatchlistEditorP
 // ─────────────────────────────────────────────────────────────────────────────
 
 export function ScreenerPanel(): React.ReactElement {
-  const [watchlist, setWatchlist]   = useState<string[]>([]);
+  const [lists, setLists]           = useState<Watchlist[]>([]);
+  const [listId, setListId]         = useState<string>(getStoredWatchlistId);
+  const [items, setItems]           = useState<WatchlistItem[]>([]);
   const [scanData, setScanData]     = useState<ScreenerScanResponse | null>(null);
   const [loading, setLoading]       = useState(false);
   const [error, setError]           = useState<string | null>(null);
+  const [notice, setNotice]         = useState<string | null>(null);
   const [filter, setFilter]         = useState<FilterTab>('full-ftfc');
   const [showEditor, setShowEditor] = useState(false);
+  const [sortBy, setSortBy]         = useState<SortKey>('alignment');
+  const [styles, setStyles]         = useState<TradingStylesResponse | null>(null);
+  const [showStyles, setShowStyles] = useState(false);
+  const [alerts, setAlerts]         = useState<ScreenerAlert[]>([]);
+  const [nextRunAt, setNextRunAt]   = useState<string | null>(null);
+  const [scheduled, setScheduled]   = useState(false);
+  const [markets, setMarkets]       = useState<MarketStatus[]>([]); // the list's sessions as of the last schedule update
+  const [history, setHistory]       = useState<ScreenerScanSummary[]>([]);
+  const [compareId, setCompareId]   = useState<string | null>(null); // null = the scan before the one shown
+  const [diff, setDiff]             = useState<ScreenerScanDiff | null>(null);
+  const [streamed, setStreamed]     = useState<StreamedScan | null>(null);
+  const [detailSymbol, setDetailSymbol] = useState<string | null>(null); // row whose key levels are shown
+  const [redFlagMode, setRedFlagMode] = useState<RedFlagMode>('dim');
+  const activeScan = useRef<string | null>(null);    // request id of the running manual scan
+  const abandonedScan = useRef<string | null>(null); // its results are no longer wanted
+
+  // Sessions the list trades in, as a string so callbacks only change when the set does
+  const listSessions = [...new Set(items.map((item) => sessionForAssetClass(item.assetClass)))].sort().join(',');
 
-  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const followSchedule = useCallback((status: ScreenerScheduleStatus): void => {
+    setScheduled(status.enabled);
+    setNextRunAt(status.nextRunAt);
+    const now = Date.now();
+    const sessions = (listSessions || 'us-equity').split(',') as MarketSession[];
+    setMarkets(sessions.map((session) => getMarketStatus(session, now)));
+  }, [listSessions]);
 
-  // Load watchlist from DB on mount
+  const activeList = lists.find((l) => l.id === listId) ?? null;
+  // A list's own default style wins over the panel's stored style
+  const tradingStyle = activeList?.defaultTradingStyle ?? getStoredStyle();
+
+  // Load watchlists and trading style definitions from DB on mount
   useEffect(() => {
-    void window.electronAPI.getWatchlist().then(setWatchlist);
+    void window.electronAPI.listTradingStyles().then(setStyles);
+    void window.electronAPI.listWatchlists().then((loaded) => {
+      setLists(loaded);
+      // The stored list may have been deleted since
+      if (!loaded.some((l) => l.id === getStoredWatchlistId())) setListId(DEFAULT_WATCHLIST_ID);
+    });
   }, []);
 
-  const handleAdd = useCallback(async (symbol: string): Promise<void> => {
-    const updated = await window.electronAPI.addToWatchlist(symbol);
-    setWatchlist(updated);
+  useEffect(() => {
+    void window.electronAPI.getWatchlist(listId).then(setItems);
+  }, [listId]);
+
+  const selectList = useCallback((id: string): void => {
+    localStorage.setItem(WATCHLIST_KEY, id);
+    setListId(id);
+    setCompareId(null);
+    setScanData(null);
+    setDetailSymbol(null);
   }, []);
 
-  const handleRemove = useCallback(async (symbol: string): Promise<void> => {
-    const updated = await window.electronAPI.removeFromWatchlist(symbol);
-    setWatchlist(updated);
+  /** Apply an item mutation and refresh symbol counts in the list switcher */
+  const updateItems = useCallback(async (next: Promise<WatchlistItem[]>): Promise<void> => {
+    setItems(await next);
+    setLists(await window.electronAPI.listWatchlists());
   }, []);
 
-  const runScan = useCallback(async (symbols?: string[]): Promise<void> => {
-    const style = getStoredStyle();
+  const handleAdd = useCallback(async (symbol: string, tier: number, assetClass?: AssetClass): Promise<void> => {
+    await updateItems(window.electronAPI.addToWatchlist({ watchlistId: listId, symbol, tier, assetClass }));
+  }, [listId, updateItems]);
+
+  const handleRemove = useCallback(async (symbol: string): Promise<void> => {
+    await updateItems(window.electronAPI.removeFromWatchlist({ watchlistId: listId, symbol }));
+  }, [listId, updateItems]);
+
+  const handleUpdateItem = useCallback(
+    async (symbol: string, updates: WatchlistItemUpdates): Promise<void> => {
+      await updateItems(window.electronAPI.updateWatchlistItem({ watchlistId: listId, symbol, ...updates }));
+    },
+    [listId, updateItems]
+  );
+
+  /** Swap a symbol with its neighbour in the same tier */
+  const handleMove = useCallback(async (symbol: string, offset: -1 | 1): Promise<void> => {
+    const order = items.map((item) => item.symbol);
+    const from = order.indexOf(symbol);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= items.length || items[to].tier !== items[from].tier) return;
+    [order[from], order[to]] = [order[to], order[from]];
+    await updateItems(window.electronAPI.reorderWatchlist({ watchlistId: listId, symbols: order }));
+  }, [items, listId, updateItems]);
+
+  const handleUpdateList = useCallback(
+    async (updates: { name?: string; defaultTradingStyle?: ScreenerTradingStyle | null }): Promise<void> => {
+      try {
+        await window.electronAPI.updateWatchlist({ id: listId, ...updates });
+        setLists(await window.electronAPI.listWatchlists());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not update watchlist');
+      }
+    },
+    [listId]
+  );
+
+  const handleCreateList = useCallback(async (name: string): Promise<void> => {
+    try {
+      const created = await window.electronAPI.createWatchlist({ name });
+      setLists(await window.electronAPI.listWatchlists());
+      selectList(created.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create watchlist');
+    }
+  }, [selectList]);
+
+  const handleImport = useCallback(async (intoCurrent: boolean): Promise<void> => {
+    try {
+      const result = await window.electronAPI.importWatchlist(intoCurrent ? { watchlistId: listId } : {});
+      if (result.canceled || !result.watchlist) return;
+
+      setLists(await window.electronAPI.listWatchlists());
+      if (result.watchlist.id === listId) {
+        setItems(await window.electronAPI.getWatchlist(listId));
+      } else {
+        selectList(result.watchlist.id);
+      }
+      setNotice([
+        `Imported ${result.added.length} symbol${result.added.length === 1 ? '' : 's'} into ${result.watchlist.name}`,
+        result.alreadyListed.length > 0 && `${result.alreadyListed.length} already listed`,
+        result.skipped.length > 0 && `skipped ${result.skipped.join(', ')}`,
+      ].filter(Boolean).join(' · '));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  }, [listId, selectList]);
+
+  const handleExport = useCallback(async (format: WatchlistFileFormat): Promise<void> => {
+    try {
+      const result = await window.electronAPI.exportWatchlist({ watchlistId: listId, format });
+      if (result.filePath) setNotice(`Exported to ${result.filePath}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  }, [listId]);
+
+  /** Exports the whole scan, not just the rows the current filter shows */
+  const handleExportResults = useCallback(async (format: ScreenerExportFormat): Promise<void> => {
+    if (!scanData) return;
+    try {
+      const result = await window.electronAPI.exportScreenerResults({ scan: scanData, format });
+      if (result.filePath) setNotice(`Exported to ${result.filePath}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  }, [scanData]);
+
+  const handleDeleteList = useCallback(async (): Promise<void> => {
+    setLists(await window.electronAPI.deleteWatchlist(listId));
+    selectList(DEFAULT_WATCHLIST_ID);
+  }, [listId, selectList]);
+
+  const runScan = useCallback(async (): Promise<void> => {
+    const requestId = `scan-${Date.now()}`;
+    activeScan.current = requestId;
     setLoading(true);
     setError(null);
+    setStreamed({ requestId, timeframeLabels: [], results: [], completed: 0, total: items.length });
     try {
-      // Always fetch latest watchlist unless called with an explicit override
-      const list = symbols ?? await window.electronAPI.getWatchlist();
-      const result = await window.electronAPI.screenerScan({ tradingStyle: style, symbols: list });
+      // Keep the background scheduler on the style and list the user is scanning
+      void window.electronAPI.configureScreenerSchedule({ tradingStyle, watchlistId: listId })
+        .then(followSchedule);
+      const result = await window.electronAPI.screenerScan({ tradingStyle, watchlistId: listId, requestId });
+      if (abandonedScan.current === requestId) return;
       setScanData(result);
-      setFilter('full-ftfc');
+      if (result.cancelled) {
+        setNotice(`Scan cancelled after ${result.results.length} symbol${result.results.length === 1 ? '' : 's'}`);
+      } else {
+        setFilter('full-ftfc');
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Scan failed');
+      if (abandonedScan.current !== requestId) setError(err instanceof Error ? err.message : 'Scan failed');
     } finally {
-      setLoading(false);
+      // A newer scan may have started meanwhile — leave its state alone
+      if (activeScan.current === requestId) {
+        activeScan.current = null;
+        setLoading(false);
+        setStreamed(null);
+      }
     }
+  }, [tradingStyle, listId, items.length, followSchedule]);
+
+  const cancelScan = useCallback((): void => {
+    if (activeScan.current) void window.electronAPI.cancelScreenerScan(activeScan.current);
+  }, []);
+
+  // Fill the table in as a manual scan's symbols finish
+  useEffect(() => {
+    return window.electronAPI.onScreenerScanProgress((progress) => {
+      setStreamed((prev) =>
+        prev?.requestId === progress.requestId
+          ? {
+              ...prev,
+              timeframeLabels: progress.timeframeLabels,
+              results: [...prev.results, progress.result],
+              completed: progress.completed,
+              total: progress.total,
+            }
+          : prev
+      );
+    });
   }, []);
 
-  // Auto-refresh scheduler
+  // Switching style or list abandons a scan that's still running
   useEffect(() => {
-    function scheduleNext(): void {
-      const delay = msUntilNextCheckpoint();
-      timerRef.current = setTimeout(() => {
-        if (shouldAutoScan(getStoredStyle())) void runScan();
-        scheduleNext();
-      }, delay);
+    return () => {
+      const requestId = activeScan.current;
+      if (requestId === null) return;
+      abandonedScan.current = requestId;
+      void window.electronAPI.cancelScreenerScan(requestId);
+    };
+  }, [tradingStyle, listId]);
+
+  const toggleSchedule = useCallback(async (): Promise<void> => {
+    followSchedule(await window.electronAPI.configureScreenerSchedule({ enabled: !scheduled }));
+  }, [scheduled, followSchedule]);
+
+  const handleSaveStyle = useCallback(async (timeframes: string[]): Promise<void> => {
+    try {
+      setStyles(await window.electronAPI.saveTradingStyle({ id: tradingStyle, timeframes }));
+      void runScan();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save timeframes');
     }
-    scheduleNext();
-    return () => { if (timerRef.current !== null) clearTimeout(timerRef.current); };
-  }, [runScan]);
+  }, [tradingStyle, runScan]);
+
+  const handleResetStyle = useCallback(async (): Promise<void> => {
+    setStyles(await window.electronAPI.resetTradingStyle(tradingStyle));
+    void runScan();
+  }, [tradingStyle, runScan]);
+
+  // Follow the background scheduler: pick up its last scan for this style and
+  // list, and every scan it pushes
+  useEffect(() => {
+    void window.electronAPI.configureScreenerSchedule({ tradingStyle, watchlistId: listId }).then((status) => {
+      followSchedule(status);
+      if (status.lastScan) setScanData(status.lastScan);
+    });
+
+    const offUpdated = window.electronAPI.onScreenerUpdated((response) => {
+      if (response.tradingStyle !== tradingStyle || (response.watchlistId ?? DEFAULT_WATCHLIST_ID) !== listId) return;
+      setScanData(response);
+      void window.electronAPI.getScreenerScheduleStatus().then(followSchedule);
+    });
+    const offAlert = window.electronAPI.onScreenerAlert((incoming) => {
+      setAlerts((prev) => [...incoming, ...prev].slice(0, MAX_ALERTS));
+    });
 
-  const displayResults = scanData ? sortResults(applyFilter(scanData.results, filter)) : [];
-  const tfLabels = scanData?.timeframeLabels ?? [];
+    return () => {
+      offUpdated();
+      offAlert();
+    };
+  }, [tradingStyle, listId, followSchedule]);
+
+  // Scan history for this style, and what changed since the baseline scan
+  const scanId = scanData?.scanId;
+  useEffect(() => {
+    if (!scanId) return;
+    let cancelled = false;
+
+    void (async () => {
+      const list = await window.electronAPI.listScreenerScans({ tradingStyle, watchlistId: listId });
+      const current = list.find((h) => h.id === scanId);
+      const baseline = compareId !== null
+        ? list.find((h) => h.id === compareId && h.id !== scanId)
+        : list.find((h) => current !== undefined && h.scannedAt < current.scannedAt);
+      const result = baseline
+        ? await window.electronAPI.diffScreenerScans({ fromId: baseline.id, toId: scanId })
+        : null;
+      if (cancelled) return;
+      setHistory(list);
+      setDiff(result);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scanId, compareId, tradingStyle, listId]);
+
+  const viewScan = useCallback(async (id: string): Promise<void> => {
+    const stored = await window.electronAPI.getScreenerScan(id);
+    if (stored) setScanData(stored);
+  }, []);
+
+  // Unsaved (replay/file) scans have no history to compare against; a running scan isn't compared yet
+  const activeDiff = !streamed && diff && scanId !== undefined && diff.to.id === scanId ? diff : null;
+  const changes = new Map((activeDiff?.changes ?? []).map((c) => [c.symbol, c]));
+  const changedNames = (kind: ScreenerSymbolChange['kinds'][number]): string[] =>
+    (activeDiff?.changes ?? []).filter((c) => c.kinds.includes(kind)).map((c) => c.symbol);
+
+  const rows = streamed ? streamed.results : (scanData?.results ?? []);
+  const visibleRows = redFlagMode === 'hide' ? rows.filter((r) => r.redFlags.length === 0) : rows;
+  const displayResults = sortResults(applyFilter(visibleRows, filter, changes), sortBy);
+  const tfLabels = streamed ? streamed.timeframeLabels : (scanData?.timeframeLabels ?? []);
+  const showTable = streamed ? streamed.results.length > 0 : scanData !== null && !loading;
+  const activeStyle = styles?.styles.find((st) => st.id === tradingStyle) ?? null;
+  const notesBySymbol = new Map(items.filter((item) => item.notes).map((item) => [item.symbol, item.notes!]));
 
   return (
     <div className="flex h-full flex-col bg-white dark:bg-[#141414] text-sm">
 
       {/* Toolbar */}
       <div className="flex items-center gap-1 border-b border-neutral-200 dark:border-[#2a2a2a] px-3 py-2">
+        {/* Watchlist switcher */}
+        <select
+          value={listId}
+          onChange={(e) => selectList(e.target.value)}
+          title="Watchlist"
+          className="mr-1 max-w-[9rem] rounded-md bg-transparent px-1 py-1 text-xs font-medium text-neutral-700 dark:text-neutral-300 outline-none"
+        >
+          {lists.map((l) => (
+            <option key={l.id} value={l.id}>{l.name} ({l.symbolCount})</option>
+          ))}
+        </select>
+
         {(
           [
             { id: 'full-ftfc', label: 'Full FTFC' },
             { id: 'bullish',   label: 'Bullish' },
             { id: 'bearish',   label: 'Bearish' },
+            { id: 'changed',   label: `Changed${activeDiff ? ` (${activeDiff.changes.length})` : ''}` },
           ] as const
         ).map((tab) => (
           <button
@@ -309,17 +1138,111 @@ export function ScreenerPanel(): React.ReactElement {
 
         <div className="flex-1" />
 
+        {/* Sort order */}
+        <button
+          onClick={() => setSortBy((prev) => prev === 'alignment' ? 'continuity' : 'alignment')}
+          title="Toggle sort order"
+          className="rounded-md px-2 py-1 text-xs text-neutral-500 transition-colors hover:text-neutral-800 dark:hover:text-neutral-200"
+        >
+          Sort: {sortBy === 'alignment' ? 'Setup' : 'Continuity'}
+        </button>
+
+        {/* Red flag rows: show, dim or hide */}
+        <button
+          onClick={() => setRedFlagMode((prev) => NEXT_RED_FLAG_MODE[prev])}
+          title="Rows the guardrails say not to trade"
+          className="rounded-md px-2 py-1 text-xs text-neutral-500 transition-colors hover:text-neutral-800 dark:hover:text-neutral-200"
+        >
+          Red flags: {redFlagMode === 'show' ? 'Show' : redFlagMode === 'dim' ? 'Dim' : 'Hide'}
+        </button>
+
+        {/* Export results */}
+        {scanData && (
+          <select
+            value=""
+            onChange={(e) => { if (e.target.value) void handleExportResults(e.target.value as ScreenerExportFormat); }}
+            title="Export results"
+            className="rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200"
+          >
+            <option value="">Export…</option>
+            <option value="markdown">Markdown report</option>
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        )}
+
+        {/* Background scans on/off */}
+        <button
+          onClick={() => void toggleSchedule()}
+          title={scheduled ? 'Stop scheduled background scans and alerts' : 'Scan this list in the background at each candle close and alert on changes'}
+          className={`rounded-md px-2 py-1 text-xs transition-colors ${
+            scheduled ? 'text-emerald-500' : 'text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+          }`}
+        >
+          {scheduled ? 'Auto-scan on' : 'Auto-scan off'}
+        </button>
+
         {/* Last scan time + auto pulse */}
         {scanData && (
-          <span className="flex items-center gap-1.5 text-xs text-neutral-400">
+          <span
+            title={[
+              ...markets.map(fmtMarketStatus),
+              nextRunAt ? `Next scheduled scan ${fmtScanTime(nextRunAt)}` : 'Scheduled scans paused',
+            ].filter(Boolean).join('\n')}
+            className="flex items-center gap-1.5 text-xs text-neutral-400"
+          >
             <span className="relative flex h-1.5 w-1.5">
-              <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-400 opacity-75" />
-              <span className="relative inline-flex h-1.5 w-1.5 rounded-full bg-emerald-500" />
+              {(markets.length === 0 || markets.some((m) => m.open)) && (
+                <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-emerald-400 opacity-75" />
+              )}
+              <span className={`relative inline-flex h-1.5 w-1.5 rounded-full ${markets.length > 0 && !markets.some((m) => m.open) ? 'bg-neutral-400' : 'bg-emerald-500'}`} />
             </span>
             {fmtTime(scanData.scannedAt)}
           </span>
         )}
 
+        {/* Scan history + comparison baseline */}
+        {history.length > 1 && scanId && (
+          <>
+            <select
+              value={scanId}
+              onChange={(e) => void viewScan(e.target.value)}
+              title="Scan history"
+              className="rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200"
+            >
+              {history.map((h) => (
+                <option key={h.id} value={h.id}>
+                  {fmtScanTime(h.scannedAt)} · {h.fullFtfcCount} FTFC
+                </option>
+              ))}
+            </select>
+            <select
+              value={compareId ?? ''}
+              onChange={(e) => setCompareId(e.target.value || null)}
+              title="Compare against"
+              className="rounded-md bg-transparent px-1 py-1 text-xs text-neutral-500 outline-none hover:text-neutral-800 dark:hover:text-neutral-200"
+            >
+              <option value="">vs previous</option>
+              {history.filter((h) => h.id !== scanId).map((h) => (
+                <option key={h.id} value={h.id}>vs {fmtScanTime(h.scannedAt)}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {/* Timeframe set toggle */}
+        <button
+          onClick={() => setShowStyles((v) => !v)}
+          title="Edit timeframes for this trading style"
+          className={`rounded-md px-2 py-1 text-xs font-mono transition-colors ${
+            showStyles
+              ? 'text-neutral-900 dark:text-white'
+              : 'text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200'
+          }`}
+        >
+          {activeStyle ? activeStyle.timeframes.join(' · ') : 'TF'}
+        </button>
+
         {/* Watchlist edit toggle */}
         <button
           onClick={() => setShowEditor((v) => !v)}
@@ -341,6 +1264,22 @@ export function ScreenerPanel(): React.ReactElement {
           </svg>
         </button>
 
+        {/* Progress + cancel while a manual scan runs */}
+        {streamed && (
+          <>
+            <span className="text-xs tabular-nums text-neutral-400">
+              {streamed.completed}/{streamed.total}
+            </span>
+            <button
+              onClick={cancelScan}
+              title="Stop this scan"
+              className="rounded-md px-2 py-1 text-xs text-neutral-500 transition-colors hover:text-red-400"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+
         {/* Refresh */}
         <button
           onClick={() => void runScan()}
@@ -353,15 +1292,96 @@ export function ScreenerPanel(): React.ReactElement {
       </div>
 
       {/* Watchlist editor (collapsible) */}
-      {showEditor && (
+      {showEditor && activeList && (
         <WatchlistEditor
-          symbols={watchlist}
+          key={activeList.id}
+          list={activeList}
+          items={items}
           onAdd={handleAdd}
           onRemove={handleRemove}
+          onUpdateItem={handleUpdateItem}
+          onMove={handleMove}
+          onUpdateList={handleUpdateList}
+          onDeleteList={handleDeleteList}
+          onCreateList={handleCreateList}
+          onImport={handleImport}
+          onExport={handleExport}
           onClose={() => setShowEditor(false)}
         />
       )}
 
+      {/* Scheduler alerts */}
+      {alerts.length > 0 && (
+        <div className="flex flex-col gap-1 border-b border-neutral-200 dark:border-[#2a2a2a] px-4 py-2">
+          {alerts.map((alert, i) => (
+            <div key={`${alert.at}-${alert.symbol}-${alert.kind}-${i}`} className="flex items-center gap-2 text-xs">
+              <span className={alert.direction === 'bullish' ? 'text-emerald-400' : alert.direction === 'bearish' ? 'text-red-400' : 'text-amber-400'}>●</span>
+              <span className="flex-1 text-neutral-700 dark:text-neutral-300">{alert.message}</span>
+              <span className="text-neutral-400">{fmtTime(alert.at)}</span>
+            </div>
+          ))}
+          <button
+            onClick={() => setAlerts([])}
+            className="self-end text-[10px] text-neutral-500 hover:text-neutral-800 dark:hover:text-neutral-200 transition-colors"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Timeframe editor (collapsible) */}
+      {showStyles && styles && activeStyle && (
+        <TimeframeEditor
+          key={`${activeStyle.id}:${activeStyle.timeframes.join()}`}
+          style={activeStyle}
+          availableTimeframes={styles.availableTimeframes}
+          onSave={handleSaveStyle}
+          onReset={handleResetStyle}
+        />
+      )}
+
+      {/* Changes since the baseline scan */}
+      {activeDiff && activeDiff.changes.length > 0 && !loading && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-b border-neutral-200 dark:border-[#2a2a2a] px-4 py-2 text-xs text-neutral-500">
+          <span>Since {fmtScanTime(activeDiff.from.scannedAt)}:</span>
+          {changedNames('new-full-ftfc').length > 0 && (
+            <span className="text-emerald-400">New full FTFC: {changedNames('new-full-ftfc').join(', ')}</span>
+          )}
+          {changedNames('lost-alignment').length > 0 && (
+            <span className="text-amber-400">Lost alignment: {changedNames('lost-alignment').join(', ')}</span>
+          )}
+          {changedNames('direction-flip').length > 0 && (
+            <span className="text-red-400">Flipped: {changedNames('direction-flip').join(', ')}</span>
+          )}
+          {activeDiff.changes.some((c) => c.patternsAdded.length + c.patternsRemoved.length > 0) && (
+            <span className="text-sky-400">
+              Pattern changes: {activeDiff.changes.filter((c) => c.patternsAdded.length + c.patternsRemoved.length > 0).length}
+            </span>
+          )}
+          {activeDiff.from.timeframeLabels.join() !== activeDiff.to.timeframeLabels.join() && (
+            <span title={`Baseline used ${activeDiff.from.timeframeLabels.join(' · ')}`}>⚠ different timeframes</span>
+          )}
+        </div>
+      )}
+
+      {/* Import / export result */}
+      {notice && (
+        <div className="mx-4 mt-3 flex items-start gap-2 rounded-lg bg-neutral-500/10 px-3 py-2 text-xs text-neutral-500">
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} title="Dismiss" className="hover:text-neutral-800 dark:hover:text-neutral-200">×</button>
+        </div>
+      )}
+
+      {/* Provider rate limit — the scan stopped early */}
+      {scanData?.throttled && !loading && (
+        <div
+          title={`Not scanned: ${scanData.throttled.skippedSymbols.join(', ')}`}
+          className="mx-4 mt-3 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-400"
+        >
+          {scanData.throttled.message}. Try again after {fmtTime(scanData.throttled.retryAt)}.
+        </div>
+      )}
+
       {/* Error */}
       {error && (
         <div className="mx-4 mt-3 rounded-lg bg-red-500/10 px-3 py-2 text-xs text-red-400">
@@ -388,17 +1408,17 @@ export function ScreenerPanel(): React.ReactElement {
           </div>
         )}
 
-        {loading && (
+        {loading && !showTable && (
           <div className="flex h-full flex-col items-center justify-center gap-3 text-neutral-500">
             <svg className="h-6 w-6 animate-spin" viewBox="0 0 24 24" fill="none">
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
             </svg>
-            <p className="text-sm">Scanning {watchlist.length} symbols…</p>
+            <p className="text-sm">Scanning {items.length} symbols…</p>
           </div>
         )}
 
-        {scanData && !loading && (
+        {showTable && (
           <table className="w-full text-xs">
             <thead className="sticky top-0 z-10">
               <tr className="border-b border-neutral-200 dark:border-[#2a2a2a] bg-white dark:bg-[#141414] text-neutral-500 text-left">
@@ -407,36 +1427,59 @@ export function ScreenerPanel(): React.ReactElement {
                 {tfLabels.map((label) => (
                   <th key={label} className="px-3 py-2 font-medium text-center">{label}</th>
                 ))}
+                <th className="px-3 py-2 font-medium">Continuity</th>
+                <th className="px-3 py-2 font-medium">Trade Plan</th>
               </tr>
             </thead>
             <tbody>
               {displayResults.length === 0 ? (
                 <tr>
-                  <td colSpan={2 + tfLabels.length} className="px-4 py-8 text-center text-neutral-500">
+                  <td colSpan={4 + tfLabels.length} className="px-4 py-8 text-center text-neutral-500">
                     No symbols match this filter
                   </td>
                 </tr>
               ) : (
-                displayResults.map((row) => (
-                  <tr key={row.symbol}
-                    className="border-b border-neutral-100 dark:border-[#1f1f1f] hover:bg-neutral-50 dark:hover:bg-[#1a1a1a] transition-colors">
-                    <td className="px-4 py-2.5 font-mono font-semibold text-neutral-900 dark:text-white">
-                      {row.symbol}
-                      {row.error && <span title={row.error} className="ml-1 cursor-help text-red-400">⚠</span>}
-                    </td>
-                    <td className="px-3 py-2.5"><DirectionCell direction={row.direction} /></td>
-                    {row.timeframes.map((tf) => (
-                      <td key={tf.label} className="px-3 py-2.5 text-center font-mono whitespace-nowrap">
-                        <TimeframeCell check={tf.check} />
+                displayResults.map((row) => {
+                  const change = changes.get(row.symbol);
+                  const highlight = change?.kinds.includes('new-full-ftfc')
+                    ? 'bg-emerald-500/5'
+                    : change?.kinds.includes('lost-alignment')
+                      ? 'bg-amber-500/5'
+                      : '';
+                  return (
+                    <tr key={row.symbol}
+                      onClick={() => setDetailSymbol((prev) => prev === row.symbol ? null : row.symbol)}
+                      className={`cursor-pointer border-b border-neutral-100 dark:border-[#1f1f1f] hover:bg-neutral-50 dark:hover:bg-[#1a1a1a] transition-colors ${
+                        detailSymbol === row.symbol ? 'bg-neutral-100 dark:bg-[#1f1f1f]' : highlight} ${
+                        redFlagMode === 'dim' && row.redFlags.length > 0 ? 'opacity-50' : ''}`}>
+                      <td className="px-4 py-2.5 font-mono font-semibold text-neutral-900 dark:text-white whitespace-nowrap">
+                        {notesBySymbol.has(row.symbol)
+                          ? <span title={notesBySymbol.get(row.symbol)} className="cursor-help underline decoration-dotted decoration-neutral-500">{row.symbol}</span>
+                          : row.symbol}
+                        {row.error && <span title={row.error} className="ml-1 cursor-help text-red-400">⚠</span>}
+                        {change && <ChangeBadges change={change} />}
+                        <RedFlagBadge flags={row.redFlags} />
                       </td>
-                    ))}
-                  </tr>
-                ))
+                      <td className="px-3 py-2.5"><DirectionCell direction={row.direction} /></td>
+                      {row.timeframes.map((tf) => (
+                        <td key={tf.label} className="px-3 py-2.5 text-center font-mono whitespace-nowrap">
+                          <TimeframeCell timeframe={tf} />
+                        </td>
+                      ))}
+                      <td className="px-3 py-2.5 font-mono"><ContinuityCell continuity={row.continuity} /></td>
+                      <td className="px-3 py-2.5 font-mono"><LevelsCell levels={row.levels} /></td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
         )}
       </div>
+
+      {detailSymbol && (
+        <KeyLevelsDrawer key={detailSymbol} symbol={detailSymbol} onClose={() => setDetailSymbol(null)} />
+      )}
     </div>
   );
 }
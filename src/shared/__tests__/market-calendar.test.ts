@@ -0,0 +1,161 @@
+/**
+ * Unit tests for the shared market calendar (holidays, half days, sessions)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assetClassForSymbol,
+  getMarketStatus,
+  isAssetClass,
+  nyseEarlyClose,
+  nyseHoliday,
+  sessionForSymbol,
+  tradingDay,
+  tradingDaysFrom,
+  zonedTimeToUtc,
+} from '../market-calendar';
+
+/** ms for an ET wall-clock time */
+const et = (y: number, mo: number, d: number, h: number, mi = 0): number => zonedTimeToUtc(y, mo, d, h, mi);
+
+describe('nyseHoliday', () => {
+  it('should derive every 2024 holiday from its rule', () => {
+    const holidays = [
+      [1, 1], [1, 15], [2, 19], [3, 29], [5, 27], [6, 19], [7, 4], [9, 2], [11, 28], [12, 25],
+    ].map(([m, d]) => nyseHoliday(2024, m, d));
+
+    expect(holidays).toEqual([
+      "New Year's Day", 'Martin Luther King Jr. Day', "Washington's Birthday", 'Good Friday', 'Memorial Day',
+      'Juneteenth', 'Independence Day', 'Labor Day', 'Thanksgiving Day', 'Christmas Day',
+    ]);
+    expect(nyseHoliday(2024, 11, 29)).toBeNull();
+  });
+
+  it('should observe weekend holidays on the nearest weekday', () => {
+    // Independence Day 2026 is a Saturday, Christmas 2022 a Sunday
+    expect(nyseHoliday(2026, 7, 3)).toBe('Independence Day');
+    expect(nyseHoliday(2022, 12, 26)).toBe('Christmas Day');
+    // ...but a Saturday New Year's Day isn't moved back into December
+    expect(nyseHoliday(2021, 12, 31)).toBeNull();
+  });
+
+  it('should only close for Juneteenth from 2022', () => {
+    expect(nyseHoliday(2021, 6, 18)).toBeNull();
+    expect(nyseHoliday(2023, 6, 19)).toBe('Juneteenth');
+  });
+});
+
+describe('nyseEarlyClose', () => {
+  it('should close early around Independence Day, Thanksgiving and Christmas', () => {
+    expect(nyseEarlyClose(2024, 7, 3)).toBe('Independence Day eve');
+    expect(nyseEarlyClose(2024, 11, 29)).toBe('Day after Thanksgiving');
+    expect(nyseEarlyClose(2024, 12, 24)).toBe('Christmas Eve');
+  });
+
+  it('should not shorten a day that is already a holiday or weekend', () => {
+    expect(nyseEarlyClose(2026, 7, 3)).toBeNull(); // observed Independence Day
+    expect(nyseEarlyClose(2022, 12, 24)).toBeNull(); // Saturday
+  });
+});
+
+describe('sessionForSymbol', () => {
+  it('should map Yahoo tickers to their session', () => {
+    expect(sessionForSymbol('AAPL')).toBe('us-equity');
+    expect(sessionForSymbol('BRK-B')).toBe('us-equity');
+    expect(sessionForSymbol('btc-usd')).toBe('crypto');
+    expect(sessionForSymbol('ES=F')).toBe('cme-futures');
+    expect(sessionForSymbol('/NQ')).toBe('cme-futures');
+    expect(sessionForSymbol('EURUSD=X')).toBe('forex');
+  });
+
+  it('should guess asset classes, leaving ETFs to the user', () => {
+    expect(['SPY', 'NQ=F', 'ETH-USD', 'GBPJPY=X'].map(assetClassForSymbol)).toEqual(['equity', 'future', 'crypto', 'forex']);
+  });
+
+  it('should only accept named asset classes, not object keys', () => {
+    expect(isAssetClass('etf')).toBe(true);
+    expect(['constructor', 'toString', 'stock', 42].some(isAssetClass)).toBe(false);
+  });
+});
+
+describe('tradingDay', () => {
+  it('should give equities regular hours, 13:00 on half days and nothing on holidays', () => {
+    expect(tradingDay('us-equity', 2024, 7, 15)).toEqual({
+      session: 'us-equity',
+      date: '2024-07-15',
+      open: et(2024, 7, 15, 9, 30),
+      close: et(2024, 7, 15, 16),
+      note: null,
+    });
+    expect(tradingDay('us-equity', 2024, 11, 29)?.close).toBe(et(2024, 11, 29, 13));
+    expect(tradingDay('us-equity', 2024, 11, 28)).toBeNull();
+    expect(tradingDay('us-equity', 2024, 7, 13)).toBeNull();
+  });
+
+  it('should run crypto midnight to midnight UTC every day', () => {
+    expect(tradingDay('crypto', 2024, 7, 13)).toMatchObject({
+      open: Date.parse('2024-07-13T00:00:00Z'),
+      close: Date.parse('2024-07-14T00:00:00Z'),
+    });
+  });
+
+  it('should open futures the evening before and halt early around holidays', () => {
+    // Monday's session opens Sunday evening
+    expect(tradingDay('cme-futures', 2024, 7, 15)).toMatchObject({
+      open: et(2024, 7, 14, 18),
+      close: et(2024, 7, 15, 17),
+    });
+    expect(tradingDay('cme-futures', 2024, 11, 28)).toMatchObject({ close: et(2024, 11, 28, 13), note: 'Thanksgiving Day' });
+    expect(tradingDay('cme-futures', 2024, 11, 29)?.close).toBe(et(2024, 11, 29, 13, 15));
+    expect(tradingDay('cme-futures', 2024, 12, 25)).toBeNull();
+  });
+
+  it('should run forex from 17:00 ET the evening before, closed on Christmas', () => {
+    expect(tradingDay('forex', 2024, 7, 15)).toMatchObject({ open: et(2024, 7, 14, 17), close: et(2024, 7, 15, 17) });
+    expect(tradingDay('forex', 2024, 12, 25)).toBeNull();
+    expect(tradingDay('forex', 2024, 11, 28)).not.toBeNull();
+  });
+
+  it('should keep wall-clock hours across a DST change', () => {
+    // Clocks go forward on Sunday 10 March 2024
+    expect(new Date(tradingDay('us-equity', 2024, 3, 8)!.open).toISOString()).toBe('2024-03-08T14:30:00.000Z');
+    expect(new Date(tradingDay('us-equity', 2024, 3, 11)!.open).toISOString()).toBe('2024-03-11T13:30:00.000Z');
+  });
+});
+
+describe('tradingDaysFrom', () => {
+  it('should skip weekends and holidays', () => {
+    const days = tradingDaysFrom('us-equity', et(2024, 11, 27, 12), 6).map((d) => d.date);
+
+    expect(days).toEqual(['2024-11-27', '2024-11-29', '2024-12-02']);
+  });
+});
+
+describe('getMarketStatus', () => {
+  it('should report a holiday close and the next open', () => {
+    expect(getMarketStatus('us-equity', et(2024, 11, 28, 11))).toEqual({
+      session: 'us-equity',
+      open: false,
+      nextChange: et(2024, 11, 29, 9, 30),
+      note: 'Thanksgiving Day',
+    });
+  });
+
+  it('should report the early close while a half day is trading', () => {
+    expect(getMarketStatus('us-equity', et(2024, 12, 24, 10))).toMatchObject({
+      open: true,
+      nextChange: et(2024, 12, 24, 13),
+      note: 'Christmas Eve',
+    });
+  });
+
+  it('should see the futures daily break and weekend', () => {
+    expect(getMarketStatus('cme-futures', et(2024, 7, 16, 17, 30))).toMatchObject({ open: false, nextChange: et(2024, 7, 16, 18) });
+    expect(getMarketStatus('cme-futures', et(2024, 7, 16, 20))).toMatchObject({ open: true, nextChange: et(2024, 7, 17, 17) });
+    expect(getMarketStatus('cme-futures', et(2024, 7, 13, 12))).toMatchObject({ open: false, nextChange: et(2024, 7, 14, 18) });
+  });
+
+  it('should keep crypto open on weekends', () => {
+    expect(getMarketStatus('crypto', et(2024, 7, 13, 12)).open).toBe(true);
+  });
+});
@@ -21,6 +21,7 @@ export const IPC_CHANNELS = {
   DB_GET_TRADE: 'db:get-trade',
   DB_LIST_TRADES: 'db:list-trades',
   DB_DELETE_TRADE: 'db:delete-trade',
+  DB_TRADE_PERFORMANCE: 'db:trade-performance',
 
   // Database - Conversations
   DB_CREATE_CONVERSATION: 'db:create-conversation',
@@ -65,11 +66,53 @@ export const IPC_CHANNELS = {
 
   // Screener
   SCREENER_SCAN: 'screener:scan',
-
-  // Watchlist
+  SCREENER_SCAN_PROGRESS: 'screener:scan-progress',
+  SCREENER_SCAN_CANCEL: 'screener:scan-cancel',
+  SCREENER_UPDATED: 'screener:updated',
+  SCREENER_ALERT: 'screener:alert',
+  SCREENER_SCHEDULE_CONFIGURE: 'screener:schedule-configure',
+  SCREENER_SCHEDULE_STATUS: 'screener:schedule-status',
+  SCREENER_HISTORY_LIST: 'screener:history-list',
+  SCREENER_HISTORY_GET: 'screener:history-get',
+  SCREENER_HISTORY_DIFF: 'screener:history-diff',
+  SCREENER_EXPORT: 'screener:export',
+
+  // Backtest
+  BACKTEST_RUN: 'backtest:run',
+  BACKTEST_EXPORT: 'backtest:export',
+
+  // Paper trading
+  PAPER_PLACE_ORDER: 'paper:place-order',
+  PAPER_CANCEL_ORDER: 'paper:cancel-order',
+  PAPER_CLOSE_POSITION: 'paper:close-position',
+  PAPER_SYNC: 'paper:sync',
+  PAPER_CONFIGURE: 'paper:configure',
+
+  // Replay training
+  REPLAY_START: 'replay:start',
+  REPLAY_ANSWER: 'replay:answer',
+  REPLAY_SCORES: 'replay:scores',
+
+  // Key levels
+  KEY_LEVELS_GET: 'key-levels:get',
+
+  // Trading styles
+  TRADING_STYLES_LIST: 'trading-styles:list',
+  TRADING_STYLES_SAVE: 'trading-styles:save',
+  TRADING_STYLES_RESET: 'trading-styles:reset',
+
+  // Watchlists
+  WATCHLISTS_LIST: 'watchlists:list',
+  WATCHLISTS_CREATE: 'watchlists:create',
+  WATCHLISTS_UPDATE: 'watchlists:update',
+  WATCHLISTS_DELETE: 'watchlists:delete',
   WATCHLIST_GET: 'watchlist:get',
   WATCHLIST_ADD: 'watchlist:add',
+  WATCHLIST_UPDATE_ITEM: 'watchlist:update-item',
   WATCHLIST_REMOVE: 'watchlist:remove',
+  WATCHLIST_REORDER: 'watchlist:reorder',
+  WATCHLIST_IMPORT: 'watchlist:import',
+  WATCHLIST_EXPORT: 'watchlist:export',
 } as const;
 
 /**
@@ -133,6 +176,7 @@ export interface ListTradesRequest {
   limit?: number;
   offset?: number;
   ticker?: string;
+  simulated?: boolean; // true = paper trades only, false = live only, Default: both
 }
 
 export interface ListTradesResponse {
@@ -140,6 +184,17 @@ export interface ListTradesResponse {
   total: number;
 }
 
+/** Journal results for either paper or live trades */
+export interface TradePerformance {
+  simulated: boolean;
+  trades: number;
+  open: number; // no exit yet
+  wins: number; // closed with a profit
+  losses: number;
+  winRate: number | null; // wins / closed trades, null until one closes
+  totalPnl: number; // closed trades only
+}
+
 // Conversation Operations
 export interface CreateConversationRequest {
   title: string;
@@ -239,32 +294,148 @@ export interface MultiTimeframeAnalyzeResponse {
 
 // Screener
 export type StratCandleType = '2-up' | '2-down' | '1' | '3';
+/** Wick shape, independent of the scenario type — see classifyShape in strat-patterns.ts */
+export type CandleShape = 'hammer' | 'shooter';
 export type StratDirection = 'bullish' | 'bearish' | null;
 export type StratAlignment = 'full-ftfc' | 'partial' | 'none';
 export type ScreenerTradingStyle = 'day-trade' | 'swing-trade' | 'position-trade';
 
+/** Classification of the last two completed candles — the forming candle is never included */
 export interface TimeframeCheck {
   candle1: StratCandleType | null;
-  candle2: StratCandleType | null;
+  candle2: StratCandleType | null; // last completed candle
+  shape1: CandleShape | null;
+  shape2: CandleShape | null;
   direction: StratDirection;
 }
 
+export type StratPatternName =
+  | '2-1-2-reversal'
+  | '2-1-2-continuation'
+  | '2-2-reversal'
+  | '3-1-2'
+  | '3-2-2'
+  | 'rev-strat';
+
+export interface StratPattern {
+  name: StratPatternName;
+  bias: 'bullish' | 'bearish'; // direction of the final 2-candle
+  sequence: StratCandleType[]; // e.g. ['2-down', '1', '2-up']
+  barsAgo: number; // 0 = ends on the latest candle
+  forming: boolean; // ends on the still-forming candle and may not survive its close
+}
+
+/** Where the last close sits against a broadening formation's range */
+export type BroadeningPosition = 'above' | 'top' | 'middle' | 'bottom' | 'below';
+
+/** Expanding swing highs and lows — the megaphone that marks exhaustion at its edges */
+export interface BroadeningFormation {
+  upper: number; // latest swing high, above the one before it
+  lower: number; // latest swing low, below the one before it
+  startBarsAgo: number; // first of the four swing pivots, in completed candles back from the latest
+  position: BroadeningPosition;
+}
+
+/** Pivot Machine Gun: 5+ consecutive 2s the same way, stacking pivots */
+export interface PivotMachineGun {
+  trend: 'up' | 'down'; // the run of 2-ups or 2-downs
+  bias: 'bullish' | 'bearish'; // the exhaustion reversal it sets up, against the trend
+  length: number; // consecutive 2s
+  endBarsAgo: number; // 0 = the run includes the latest completed candle
+  pivots: number[]; // stacked lows (up) or highs (down), oldest first — targets back through the run
+  reversed: boolean; // the run ended with an opposite 2 — the 2-2 reversal entry
+}
+
 export interface ScreenerTimeframeResult {
   label: string;
   check: TimeframeCheck;
+  live: StratCandleType | null; // forming candle vs the last completed one; null when no candle is forming
+  liveShape: CandleShape | null; // shape of the forming candle so far
+  liveClosesAt: string | null; // ISO time the forming candle closes
+  patterns: StratPattern[]; // newest first, may end on the forming candle
+  broadening: BroadeningFormation | null; // completed candles only
+  pmg: PivotMachineGun | null; // completed candles only
+}
+
+/** Concrete trade plan for a detected pattern (guardrails entry/stop/magnitude rules) */
+export interface StratTradeLevels {
+  timeframe: string; // e.g. '1D'
+  pattern: StratPatternName;
+  bias: 'bullish' | 'bearish';
+  trigger: number; // break of this price is the entry
+  stop: number; // pattern extreme on the opposite side
+  target: number | null; // first magnitude target; null when it is not beyond the trigger
+  inForce: boolean; // last price is still beyond the trigger
+  lastPrice: number;
+}
+
+export type ContinuityState = 'green' | 'red' | 'flat';
+
+/** Last price against the open of one timeframe's current candle */
+export interface TimeframeContinuity {
+  timeframe: string; // 'M' | 'W' | 'D' | '60' | '15'
+  open: number;
+  distance: number; // lastPrice - open
+  distancePct: number; // distance as a percentage of the open
+  state: ContinuityState; // green = trading above the open
+}
+
+/** Open-based Full Timeframe Continuity (guardrails definition) */
+export interface StratContinuity {
+  lastPrice: number;
+  timeframes: TimeframeContinuity[]; // highest timeframe first
+  score: number; // green count minus red count; +5 / -5 is full continuity
+  direction: StratDirection; // set only when every timeframe agrees
+}
+
+/**
+ * Guardrail "do not trade" conditions (see red-flags.ts):
+ *  2-2-continuation  the row's direction comes from 2-2 continuations with no entry pattern behind it
+ *  mother-bar        price is still inside an earlier, larger candle
+ *  tightening-range  the highest timeframe's forming candle is an inside bar
+ *  late-week-inside  Thursday or Friday and the week is still inside the previous week
+ *  against-ftfc      a pattern's bias opposes full timeframe continuity
+ */
+export type ScreenerRedFlagReason =
+  | '2-2-continuation'
+  | 'mother-bar'
+  | 'tightening-range'
+  | 'late-week-inside'
+  | 'against-ftfc';
+
+export interface ScreenerRedFlag {
+  reason: ScreenerRedFlagReason;
+  timeframes: string[]; // labels the flag applies to, e.g. ['1D'] or ['W']
+  message: string;
 }
 
 export interface ScreenerSymbolResult {
   symbol: string;
   direction: StratDirection;
-  timeframes: ScreenerTimeframeResult[]; // always 3 entries
+  timeframes: ScreenerTimeframeResult[]; // one per style timeframe, lowest first
   alignment: StratAlignment;
+  levels: StratTradeLevels[]; // one per detected pattern, in timeframe order
+  continuity: StratContinuity | null; // null when a continuity timeframe has no data
+  redFlags: ScreenerRedFlag[]; // empty when nothing argues against trading the row
   error?: string;
 }
 
+/**
+ * Where the screener reads candles from.
+ * 'file' reads <SYMBOL>.<interval>.csv|json from a directory;
+ * 'replay' reads fixtures recorded from an earlier scan.
+ */
+export type MarketDataSource =
+  | { kind: 'yahoo' }
+  | { kind: 'file'; directory: string }
+  | { kind: 'replay'; fixturePath: string; asOf?: number }; // asOf: unix seconds
+
 export interface ScreenerScanRequest {
-  symbols?: string[];
+  symbols?: string[]; // Default: the symbols of `watchlistId`
+  watchlistId?: string; // Default: the built-in 'default' list
   tradingStyle?: ScreenerTradingStyle;
+  dataSource?: MarketDataSource; // Default: { kind: 'yahoo' }
+  requestId?: string; // caller-chosen id — enables progress events and cancelScreenerScan
 }
 
 export interface ScreenerScanResponse {
@@ -273,6 +444,431 @@ export interface ScreenerScanResponse {
   duration: number;
   tradingStyle: ScreenerTradingStyle;
   timeframeLabels: string[]; // e.g. ['1H', '4H', '1D']
+  dataSource: MarketDataSource['kind'];
+  scanId?: string; // set once the scan is stored in scan history (live scans only)
+  watchlistId?: string; // the list that was scanned; absent for explicit symbol lists
+  throttled?: ScreenerThrottle; // set when the provider rate-limited the scan before it finished
+  cancelled?: boolean; // stopped via cancelScreenerScan — results hold the symbols that finished
+}
+
+/** Pushed as each symbol of a manual scan finishes, in completion order */
+export interface ScreenerScanProgress {
+  requestId: string;
+  tradingStyle: ScreenerTradingStyle;
+  timeframeLabels: string[];
+  result: ScreenerSymbolResult;
+  completed: number;
+  total: number;
+}
+
+/** Prior-period and session levels, see key-levels.ts */
+export type KeyLevelId = 'PDH' | 'PDL' | 'PWH' | 'PWL' | 'PMH' | 'PML' | 'PYH' | 'PYL' | 'HOD' | 'LOD';
+
+export interface KeyLevel {
+  id: KeyLevelId;
+  label: string; // e.g. 'Previous week high'
+  price: number;
+}
+
+export interface SymbolKeyLevels {
+  symbol: string;
+  lastPrice: number | null;
+  levels: KeyLevel[]; // only the levels with data; HOD/LOD only while a session is forming
+  asOf: string; // ISO
+}
+
+/** Symbols a scan gave up on because the data provider was throttling requests */
+export interface ScreenerThrottle {
+  message: string;
+  retryAt: string; // when the provider's circuit breaker lets requests through again
+  skippedSymbols: string[];
+}
+
+/** A stored scan without its per-symbol results */
+export interface ScreenerScanSummary {
+  id: string;
+  watchlistId: string | null;
+  tradingStyle: ScreenerTradingStyle;
+  timeframeLabels: string[];
+  dataSource: MarketDataSource['kind'];
+  scannedAt: string; // ISO
+  duration: number;
+  symbolCount: number;
+  fullFtfcCount: number;
+}
+
+export interface ListScreenerScansRequest {
+  tradingStyle?: ScreenerTradingStyle;
+  watchlistId?: string;
+  since?: string; // ISO, inclusive
+  until?: string; // ISO, inclusive
+  limit?: number; // Default: 50, newest first
+}
+
+export type ScreenerChangeKind =
+  | 'added' // symbol not in the earlier scan
+  | 'removed' // symbol not in the later scan
+  | 'new-full-ftfc'
+  | 'lost-alignment' // full-ftfc → partial/none, or partial → none
+  | 'direction-flip'
+  | 'pattern-added'
+  | 'pattern-removed';
+
+/** How one symbol changed between two scans. Only symbols with at least one change are listed. */
+export interface ScreenerSymbolChange {
+  symbol: string;
+  kinds: ScreenerChangeKind[];
+  alignmentBefore: StratAlignment | null; // null when the symbol wasn't scanned
+  alignmentAfter: StratAlignment | null;
+  directionBefore: StratDirection;
+  directionAfter: StratDirection;
+  patternsAdded: string[]; // e.g. '1D 2-1-2-reversal bullish'
+  patternsRemoved: string[];
+}
+
+export interface DiffScreenerScansRequest {
+  fromId: string; // the baseline scan
+  toId: string;
+}
+
+export interface ScreenerScanDiff {
+  from: ScreenerScanSummary;
+  to: ScreenerScanSummary;
+  changes: ScreenerSymbolChange[];
+}
+
+export type ScreenerExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ExportScreenerResultsRequest {
+  scan: ScreenerScanResponse;
+  format: ScreenerExportFormat;
+}
+
+export type ScreenerAlertKind = 'full-ftfc' | 'pattern-triggered' | 'direction-flip';
+
+/** Raised by the background scheduler when a scan differs from the previous one */
+export interface ScreenerAlert {
+  kind: ScreenerAlertKind;
+  symbol: string;
+  tradingStyle: ScreenerTradingStyle;
+  direction: StratDirection;
+  timeframe?: string; // pattern-triggered only
+  pattern?: StratPatternName; // pattern-triggered only
+  message: string;
+  at: string; // ISO time of the scan that raised it
+}
+
+export interface ConfigureScreenerScheduleRequest {
+  tradingStyle?: ScreenerTradingStyle;
+  watchlistId?: string;
+  enabled?: boolean;
+}
+
+export interface ScreenerScheduleStatus {
+  tradingStyle: ScreenerTradingStyle;
+  watchlistId: string;
+  enabled: boolean;
+  nextRunAt: string | null; // ISO
+  lastScan: ScreenerScanResponse | null; // most recent live scan for this style and list
+}
+
+/** The built-in list (created by 007_watchlists.sql) — always exists and can't be deleted */
+export const DEFAULT_WATCHLIST_ID = 'default';
+
+/** A named watchlist */
+export interface Watchlist {
+  id: string;
+  name: string; // e.g. 'Mag 7', 'Earnings this week'
+  defaultTradingStyle: ScreenerTradingStyle | null; // null = use the screener's selected style
+  symbolCount: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** What a watchlist symbol is — decides which market session its candles and scans follow */
+export type AssetClass = 'equity' | 'etf' | 'future' | 'crypto' | 'forex';
+
+export interface WatchlistItem {
+  symbol: string;
+  assetClass: AssetClass;
+  tier: number; // 1 = tier1 (daily), 2 = tier2 (high beta), …
+  position: number; // manual order within the list
+  notes: string | null;
+  addedAt: number;
+}
+
+export interface CreateWatchlistRequest {
+  name: string;
+  defaultTradingStyle?: ScreenerTradingStyle | null;
+}
+
+export interface UpdateWatchlistRequest {
+  id: string;
+  name?: string;
+  defaultTradingStyle?: ScreenerTradingStyle | null;
+}
+
+export interface AddWatchlistItemRequest {
+  watchlistId: string;
+  symbol: string;
+  assetClass?: AssetClass; // Default: guessed from the ticker
+  tier?: number; // Default: 2
+  notes?: string | null;
+}
+
+export interface UpdateWatchlistItemRequest {
+  watchlistId: string;
+  symbol: string;
+  assetClass?: AssetClass;
+  tier?: number;
+  notes?: string | null;
+}
+
+export interface RemoveWatchlistItemRequest {
+  watchlistId: string;
+  symbol: string;
+}
+
+export interface ReorderWatchlistRequest {
+  watchlistId: string;
+  symbols: string[]; // new order; symbols left out keep their relative order after these
+}
+
+/** tradingview = TradingView's .txt export (`###Section` headers map to tiers) */
+export type WatchlistFileFormat = 'tradingview' | 'csv' | 'json';
+
+export interface ImportWatchlistRequest {
+  watchlistId?: string; // Default: create a new list named after the file
+}
+
+export interface ImportWatchlistResult {
+  canceled: boolean;
+  watchlist: Watchlist | null; // the list imported into
+  added: string[];
+  alreadyListed: string[]; // left as they were
+  skipped: string[]; // entries that aren't valid tickers
+}
+
+export interface ExportWatchlistRequest {
+  watchlistId: string;
+  format: WatchlistFileFormat;
+}
+
+export interface ExportFileResult {
+  canceled: boolean;
+  filePath: string | null; // null when canceled
+}
+
+/** A trading style's timeframe set, shared by the screener and chart auto-capture */
+export interface TradingStyleDefinition {
+  id: ScreenerTradingStyle;
+  label: string; // e.g. 'Swing Trading'
+  timeframes: string[]; // timeframe catalog labels, lowest first, e.g. ['1H', '4H', '1D', '1W']
+  updatedAt: number | null; // null = built-in default
+}
+
+export interface TradingStylesResponse {
+  styles: TradingStyleDefinition[];
+  availableTimeframes: string[]; // every catalog label, lowest first
+}
+
+export interface SaveTradingStyleRequest {
+  id: ScreenerTradingStyle;
+  timeframes: string[];
+}
+
+/**
+ * Setup backtester — replays the screener's combos over historical candles
+ * (see backtest.ts)
+ */
+export interface BacktestRequest {
+  symbols?: string[]; // Default: the symbols of `watchlistId`
+  watchlistId?: string; // Default: the built-in 'default' list
+  tradingStyle?: ScreenerTradingStyle; // timeframes to test, Default: swing-trade
+  dataSource?: MarketDataSource; // Default: { kind: 'yahoo' }
+  maxHoldBars?: number; // candles after the trigger before a trade is closed at market, Default: 20
+}
+
+/** target = magnitude reached, stop = guardrail stop hit, expired = closed at market after maxHoldBars */
+export type BacktestOutcome = 'target' | 'stop' | 'expired';
+
+export interface BacktestTrade {
+  symbol: string;
+  timeframe: string;
+  pattern: StratPatternName;
+  bias: 'bullish' | 'bearish';
+  ftfc: boolean; // this and every higher tested timeframe agreed with the trade at entry
+  entryTime: number; // unix seconds, open of the trigger candle
+  entry: number; // trigger price, or the open when the candle gapped through it
+  stop: number;
+  target: number;
+  outcome: BacktestOutcome;
+  exitTime: number; // unix seconds, open of the exit candle
+  exit: number;
+  r: number; // result in multiples of the entry-to-stop risk
+  bars: number; // candles after the trigger candle until the exit (0 = the trigger candle itself)
+}
+
+export interface BacktestStats {
+  trades: number;
+  wins: number; // reached the target
+  losses: number; // stopped out
+  expired: number;
+  winRate: number | null; // wins / trades, null without trades
+  avgR: number | null;
+  avgBarsToTarget: number | null; // winners only
+}
+
+/** Stats for one slice of the trades; a null key covers every value of it */
+export interface BacktestGroupStats extends BacktestStats {
+  pattern: StratPatternName | null;
+  timeframe: string | null;
+  ftfc: boolean | null;
+}
+
+export interface BacktestResponse {
+  tradingStyle: ScreenerTradingStyle;
+  timeframeLabels: string[];
+  symbols: string[];
+  dataSource: MarketDataSource['kind'];
+  ranAt: string; // ISO timestamp
+  maxHoldBars: number;
+  summary: BacktestStats;
+  bySetup: BacktestGroupStats[];
+  byTimeframe: BacktestGroupStats[];
+  byFtfc: BacktestGroupStats[];
+  breakdown: BacktestGroupStats[]; // every setup × timeframe × FTFC combination that traded
+  trades: BacktestTrade[]; // oldest entry first
+  skipped: number; // setups with no magnitude target left at entry
+  unresolved: number; // trades still open when the data ran out
+  errors: Array<{ symbol: string; error: string }>;
+}
+
+export interface ExportBacktestRequest {
+  result: BacktestResponse;
+  format: ScreenerExportFormat;
+}
+
+/**
+ * Paper trading — orders filled by the simulated broker (see paper-broker.ts)
+ *
+ *  market  fills at the last price
+ *  stop    the Strat trigger: fills once price trades through `price`
+ *  limit   fills at `price` or better
+ *
+ * A stopLoss and/or takeProfit turns the order into a bracket: the position
+ * closes by itself when either is hit.
+ */
+export type PaperOrderType = 'market' | 'stop' | 'limit';
+
+export type PaperOrderStatus = 'working' | 'filled' | 'cancelled';
+
+/** Candles orders are filled against */
+export type PaperFillInterval = '5m' | '15m' | '1h' | '1d';
+
+export interface PlacePaperOrderRequest {
+  symbol: string;
+  direction: 'long' | 'short';
+  type: PaperOrderType;
+  price?: number; // stop trigger or limit price; ignored for market orders
+  quantity: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  timeframe: string; // the chart the setup came from, for the journal
+  stratSetup?: string; // Default: 'custom'
+  notes?: string;
+}
+
+export interface PaperOrder extends PlacePaperOrderRequest {
+  id: string;
+  status: PaperOrderStatus;
+  placedAt: number; // unix ms
+  tradeId: string | null; // journal entry, once filled
+}
+
+export interface ConfigurePaperBrokerRequest {
+  dataSource?: MarketDataSource; // replay sources fill up to their asOf cursor
+  fillInterval?: PaperFillInterval;
+}
+
+export interface PaperBrokerState {
+  orders: PaperOrder[]; // this session's orders, newest first
+  positions: Trade[]; // open paper trades from the journal
+  lastPrices: Record<string, number>;
+  dataSource: MarketDataSource;
+  fillInterval: PaperFillInterval;
+  asOf: number; // unix ms the broker has filled up to
+}
+
+/**
+ * Replay training — completed candles revealed one bar at a time (see
+ * replay-training.ts). For each bar the trainee calls its label, the combo it
+ * completes and that combo's trigger; the trigger only counts when there was
+ * a combo.
+ */
+export type ReplaySetupCall = StratPatternName | 'none';
+
+export interface ReplayCandle {
+  timestamp: number; // unix seconds, bar open time
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface StartReplayRequest {
+  symbol: string;
+  timeframe: string; // catalog label, e.g. '1D'
+  bars?: number; // bars to call; Default: 20
+  dataSource?: MarketDataSource; // Default: { kind: 'yahoo' }
+}
+
+export interface ReplayCall {
+  label: StratCandleType;
+  setup: ReplaySetupCall;
+  trigger: number | null; // one of the session's triggerChoices; null without a setup
+}
+
+export interface ReplayAnswerRequest extends ReplayCall {
+  sessionId: string;
+}
+
+export interface ReplayBarResult {
+  bar: number; // 1 = first bar called
+  timestamp: number; // unix seconds
+  call: ReplayCall;
+  label: StratCandleType;
+  setup: ReplaySetupCall;
+  bias: 'bullish' | 'bearish' | null;
+  trigger: number | null;
+  labelCorrect: boolean;
+  setupCorrect: boolean;
+  triggerCorrect: boolean | null; // null when the bar completed no combo
+}
+
+export interface ReplayScore {
+  id: string; // the session id
+  symbol: string;
+  timeframe: string;
+  totalBars: number;
+  bars: number; // called so far
+  labelCorrect: number;
+  setupCorrect: number;
+  triggerCorrect: number;
+  triggerTotal: number; // bars that completed a combo
+  startedAt: number; // unix ms
+  updatedAt: number; // unix ms
+}
+
+export interface ReplaySession {
+  id: string;
+  symbol: string;
+  timeframe: string;
+  candles: ReplayCandle[]; // revealed so far; until done, the last one is the bar to call
+  triggerChoices: number[]; // trigger prices offered for the bar to call, highest first
+  results: ReplayBarResult[]; // oldest first
+  score: ReplayScore;
+  done: boolean;
 }
 
 /**
@@ -292,6 +888,7 @@ export interface ElectronAPI {
   getTrade: (id: string) => Promise<Trade | null>;
   listTrades: (request?: ListTradesRequest) => Promise<ListTradesResponse>;
   deleteTrade: (id: string) => Promise<void>;
+  getTradePerformance: (simulated: boolean) => Promise<TradePerformance>;
 
   // Conversations
   createConversation: (request: CreateConversationRequest) => Promise<Conversation>;
@@ -340,11 +937,53 @@ export interface ElectronAPI {
 
   // Screener
   screenerScan: (request?: ScreenerScanRequest) => Promise<ScreenerScanResponse>;
-
-  // Watchlist
-  getWatchlist: () => Promise<string[]>;
-  addToWatchlist: (symbol: string) => Promise<string[]>;
-  removeFromWatchlist: (symbol: string) => Promise<string[]>;
+  configureScreenerSchedule: (request: ConfigureScreenerScheduleRequest) => Promise<ScreenerScheduleStatus>;
+  getScreenerScheduleStatus: () => Promise<ScreenerScheduleStatus>;
+  cancelScreenerScan: (requestId: string) => Promise<boolean>;
+  onScreenerScanProgress: (callback: (progress: ScreenerScanProgress) => void) => () => void;
+  onScreenerUpdated: (callback: (response: ScreenerScanResponse) => void) => () => void;
+  onScreenerAlert: (callback: (alerts: ScreenerAlert[]) => void) => () => void;
+  listScreenerScans: (request?: ListScreenerScansRequest) => Promise<ScreenerScanSummary[]>;
+  getScreenerScan: (id: string) => Promise<ScreenerScanResponse | null>;
+  diffScreenerScans: (request: DiffScreenerScansRequest) => Promise<ScreenerScanDiff>;
+  exportScreenerResults: (request: ExportScreenerResultsRequest) => Promise<ExportFileResult>;
+
+  // Backtest
+  runBacktest: (request?: BacktestRequest) => Promise<BacktestResponse>;
+  exportBacktest: (request: ExportBacktestRequest) => Promise<ExportFileResult>;
+
+  // Paper trading
+  placePaperOrder: (request: PlacePaperOrderRequest) => Promise<PaperOrder>;
+  cancelPaperOrder: (id: string) => Promise<PaperOrder>;
+  closePaperPosition: (tradeId: string) => Promise<Trade>;
+  syncPaperBroker: () => Promise<PaperBrokerState>;
+  configurePaperBroker: (request: ConfigurePaperBrokerRequest) => Promise<PaperBrokerState>;
+
+  // Replay training
+  startReplayTraining: (request: StartReplayRequest) => Promise<ReplaySession>;
+  answerReplayBar: (request: ReplayAnswerRequest) => Promise<ReplaySession>;
+  listReplayScores: (limit?: number) => Promise<ReplayScore[]>;
+
+  // Key levels
+  getKeyLevels: (symbol: string) => Promise<SymbolKeyLevels>;
+
+  // Trading styles
+  listTradingStyles: () => Promise<TradingStylesResponse>;
+  saveTradingStyle: (request: SaveTradingStyleRequest) => Promise<TradingStylesResponse>;
+  resetTradingStyle: (id: ScreenerTradingStyle) => Promise<TradingStylesResponse>;
+
+  // Watchlists
+  listWatchlists: () => Promise<Watchlist[]>;
+  createWatchlist: (request: CreateWatchlistRequest) => Promise<Watchlist>;
+  updateWatchlist: (request: UpdateWatchlistRequest) => Promise<Watchlist>;
+  deleteWatchlist: (id: string) => Promise<Watchlist[]>;
+  getWatchlist: (watchlistId: string) => Promise<WatchlistItem[]>;
+  addToWatchlist: (request: AddWatchlistItemRequest) => Promise<WatchlistItem[]>;
+  updateWatchlistItem: (request: UpdateWatchlistItemRequest) => Promise<WatchlistItem[]>;
+  removeFromWatchlist: (request: RemoveWatchlistItemRequest) => Promise<WatchlistItem[]>;
+  reorderWatchlist: (request: ReorderWatchlistRequest) => Promise<WatchlistItem[]>;
+  importWatchlist: (request?: ImportWatchlistRequest) => Promise<ImportWatchlistResult>;
+  exportWatchlist: (request: ExportWatchlistRequest) => Promise<ExportFileResult>;
 }
 
 /**
@@ -0,0 +1,424 @@
+/**
+ * Market Calendar
+ *
+ * Trading sessions shared by the main process and the renderer:
+ *
+ *  us-equity    NYSE regular hours, 9:30–16:00 ET on weekdays. Closed on
+ *               exchange holidays, with a 13:00 early close the day before
+ *               Independence Day, the day after Thanksgiving and on
+ *               Christmas Eve.
+ *  crypto       Trades around the clock; days run midnight to midnight UTC.
+ *  cme-futures  CME Globex equity-index hours: each trading day opens at
+ *               18:00 ET the evening before and closes at 17:00 ET, Monday
+ *               to Friday, leaving a one-hour daily break. Closed on Good
+ *               Friday, Christmas and New Year's Day; halts at 13:00 ET on
+ *               other NYSE holidays and at 13:15 ET on NYSE half days.
+ *  forex        24 hours, Sunday 17:00 ET to Friday 17:00 ET; each trading
+ *               day opens at 17:00 ET the evening before. Closed on
+ *               Christmas and New Year's Day.
+ *
+ * Watchlist entries carry an asset class (see AssetClass in ipc-types.ts);
+ * equities and ETFs trade the us-equity session, the rest their own.
+ *
+ * Holidays are derived from the exchange's rules rather than listed, so the
+ * calendar never runs out. Wall-clock conversion goes through Intl so
+ * daylight saving comes from the platform's tz database.
+ */
+
+import type { AssetClass } from './ipc-types';
+
+export type MarketSession = 'us-equity' | 'crypto' | 'cme-futures' | 'forex';
+
+export const MARKET_TIME_ZONE = 'America/New_York';
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+/** One session of a market, open to close */
+export interface TradingDay {
+  session: MarketSession;
+  /** The calendar day the session belongs to, YYYY-MM-DD (ET, or UTC for crypto) */
+  date: string;
+  open: number; // ms
+  close: number; // ms
+  /** Holiday or early-close name when the session isn't a regular one */
+  note: string | null;
+}
+
+export interface MarketStatus {
+  session: MarketSession;
+  open: boolean;
+  /** When the market next closes (while open) or opens (while closed), ms */
+  nextChange: number;
+  /** Why today's session is closed or short, e.g. "Thanksgiving Day" */
+  note: string | null;
+}
+
+const EQUITY_OPEN_MINUTE = 9 * 60 + 30;
+const EQUITY_CLOSE_MINUTE = 16 * 60;
+const EQUITY_EARLY_CLOSE_MINUTE = 13 * 60;
+
+const FUTURES_OPEN_MINUTE = 18 * 60; // the evening before
+const FUTURES_CLOSE_MINUTE = 17 * 60;
+const FUTURES_HOLIDAY_CLOSE_MINUTE = 13 * 60;
+const FUTURES_EARLY_CLOSE_MINUTE = 13 * 60 + 15;
+
+const FOREX_ROLLOVER_MINUTE = 17 * 60; // each day opens and closes here
+
+/** NYSE holidays on which CME equity-index futures don't trade at all */
+const FUTURES_CLOSED_HOLIDAYS = new Set(["New Year's Day", 'Good Friday', 'Christmas Day']);
+
+/** First year Juneteenth was an exchange holiday */
+const JUNETEENTH_FROM = 2022;
+
+const DAY_MS = 86_400_000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Time zones
+// ─────────────────────────────────────────────────────────────────────────────
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock parts of a UTC instant (ms) in the given time zone */
+export function getZonedParts(ms: number, timeZone = MARKET_TIME_ZONE): ZonedParts {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(new Date(ms))
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/** UTC instant (ms) of a wall-clock time in the given time zone */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone = MARKET_TIME_ZONE
+): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const offsetAt = (ms: number): number => {
+    const p = getZonedParts(ms, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(ms / 60_000) * 60_000;
+  };
+  // Two passes settle the offset on either side of a DST change
+  const first = wall - offsetAt(wall);
+  return wall - offsetAt(first);
+}
+
+/** UTC instant (ms) of a minute after midnight ET on a calendar day */
+function etTime(year: number, month: number, day: number, minute: number): number {
+  return zonedTimeToUtc(year, month, day, Math.floor(minute / 60), minute % 60);
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Calendar days
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+}
+
+/** The calendar day `offset` days from the given one (month and day may overflow) */
+function calendarDay(year: number, month: number, day: number, offset = 0): CalendarDay {
+  const date = new Date(Date.UTC(year, month - 1, day + offset));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+  };
+}
+
+const dateKey = ({ year, month, day }: { year: number; month: number; day: number }): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/** The nth (1-based) given weekday of a month; n = -1 for the last */
+function nthWeekday(year: number, month: number, weekday: number, n: number): CalendarDay {
+  if (n < 0) {
+    const last = calendarDay(year, month + 1, 0);
+    return calendarDay(year, month, last.day - ((last.weekday - weekday + 7) % 7));
+  }
+  const first = calendarDay(year, month, 1);
+  return calendarDay(year, month, 1 + ((weekday - first.weekday + 7) % 7) + (n - 1) * 7);
+}
+
+/** Two days before Easter Sunday (Gregorian, anonymous algorithm) */
+function goodFriday(year: number): CalendarDay {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return calendarDay(year, month, day - 2);
+}
+
+/** Saturday holidays move to Friday, Sunday holidays to Monday */
+function observed(year: number, month: number, day: number): CalendarDay {
+  const date = calendarDay(year, month, day);
+  if (date.weekday === 6) return calendarDay(year, month, day - 1);
+  if (date.weekday === 0) return calendarDay(year, month, day + 1);
+  return date;
+}
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/** NYSE full-day closures in a year, keyed by YYYY-MM-DD */
+function nyseHolidays(year: number): Map<string, string> {
+  let holidays = holidayCache.get(year);
+  if (holidays) return holidays;
+
+  const entries: [CalendarDay, string][] = [
+    [nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day'],
+    [nthWeekday(year, 2, 1, 3), "Washington's Birthday"],
+    [goodFriday(year), 'Good Friday'],
+    [nthWeekday(year, 5, 1, -1), 'Memorial Day'],
+    [observed(year, 7, 4), 'Independence Day'],
+    [nthWeekday(year, 9, 1, 1), 'Labor Day'],
+    [nthWeekday(year, 11, 4, 4), 'Thanksgiving Day'],
+    [observed(year, 12, 25), 'Christmas Day'],
+  ];
+
+  // A Saturday New Year's Day isn't observed on the Friday before — that would close the old year
+  const newYear = calendarDay(year, 1, 1);
+  if (newYear.weekday !== 6) entries.push([observed(year, 1, 1), "New Year's Day"]);
+  if (year >= JUNETEENTH_FROM) entries.push([observed(year, 6, 19), 'Juneteenth']);
+
+  holidays = new Map(entries.map(([date, name]) => [dateKey(date), name]));
+  holidayCache.set(year, holidays);
+  return holidays;
+}
+
+/** The NYSE holiday on an ET calendar day, or null */
+export function nyseHoliday(year: number, month: number, day: number): string | null {
+  return nyseHolidays(year).get(dateKey({ year, month, day })) ?? null;
+}
+
+/** Why the NYSE closes at 13:00 on an ET calendar day, or null for a full session */
+export function nyseEarlyClose(year: number, month: number, day: number): string | null {
+  const { weekday } = calendarDay(year, month, day);
+  if (weekday === 0 || weekday === 6 || nyseHoliday(year, month, day)) return null;
+
+  if (month === 7 && day === 3) return 'Independence Day eve';
+  if (month === 12 && day === 24) return 'Christmas Eve';
+  const thanksgiving = nthWeekday(year, 11, 4, 4);
+  if (month === 11 && day === thanksgiving.day + 1) return 'Day after Thanksgiving';
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Sessions
+// ─────────────────────────────────────────────────────────────────────────────
+
+const ASSET_CLASS_SESSIONS: Record<AssetClass, MarketSession> = {
+  equity: 'us-equity',
+  etf:    'us-equity',
+  future: 'cme-futures',
+  crypto: 'crypto',
+  forex:  'forex',
+};
+
+/** Every asset class, in the order the watchlist editor offers them */
+export const ASSET_CLASSES = Object.keys(ASSET_CLASS_SESSIONS) as AssetClass[];
+
+export function isAssetClass(value: unknown): value is AssetClass {
+  return typeof value === 'string' && Object.hasOwn(ASSET_CLASS_SESSIONS, value);
+}
+
+export function sessionForAssetClass(assetClass: AssetClass): MarketSession {
+  return ASSET_CLASS_SESSIONS[assetClass];
+}
+
+/**
+ * Best guess at a symbol's asset class from its Yahoo Finance ticker:
+ * "ES=F" (or "/ES") is a future, "BTC-USD" crypto, "EURUSD=X" forex, and
+ * anything else an equity — ETFs can't be told apart by ticker.
+ */
+export function assetClassForSymbol(symbol: string): AssetClass {
+  const upper = symbol.trim().toUpperCase();
+  if (upper.endsWith('=F') || upper.startsWith('/')) return 'future';
+  if (upper.endsWith('=X')) return 'forex';
+  if (/-(USD|USDT|USDC|BTC|ETH)$/.test(upper)) return 'crypto';
+  return 'equity';
+}
+
+/** The session a symbol trades in when its asset class isn't known */
+export function sessionForSymbol(symbol: string): MarketSession {
+  return sessionForAssetClass(assetClassForSymbol(symbol));
+}
+
+/** Crypto days follow UTC; every other session keeps exchange time */
+export function sessionTimeZone(session: MarketSession): string {
+  return session === 'crypto' ? 'UTC' : MARKET_TIME_ZONE;
+}
+
+/** Wall-clock minute (in the session's time zone) its trading day starts, where intraday buckets anchor */
+export function sessionOpenMinute(session: MarketSession): number {
+  switch (session) {
+    case 'us-equity':   return EQUITY_OPEN_MINUTE;
+    case 'cme-futures': return FUTURES_OPEN_MINUTE;
+    case 'forex':       return FOREX_ROLLOVER_MINUTE;
+    case 'crypto':      return 0;
+  }
+}
+
+/** Weekday (0 = Sunday) whose session closes the week */
+export function sessionWeekEnd(session: MarketSession): number {
+  return session === 'crypto' ? 0 : 5;
+}
+
+/**
+ * The session held on a calendar day — ET, or UTC for crypto — or null when
+ * the market is closed all day.
+ */
+export function tradingDay(session: MarketSession, year: number, month: number, day: number): TradingDay | null {
+  const date = calendarDay(year, month, day);
+  const key = dateKey(date);
+
+  if (session === 'crypto') {
+    const open = Date.UTC(date.year, date.month - 1, date.day);
+    return { session, date: key, open, close: open + DAY_MS, note: null };
+  }
+
+  if (date.weekday === 0 || date.weekday === 6) return null;
+  const eve = calendarDay(date.year, date.month, date.day - 1);
+
+  if (session === 'forex') {
+    if ((date.month === 12 && date.day === 25) || (date.month === 1 && date.day === 1)) return null;
+    return {
+      session,
+      date: key,
+      open: etTime(eve.year, eve.month, eve.day, FOREX_ROLLOVER_MINUTE),
+      close: etTime(date.year, date.month, date.day, FOREX_ROLLOVER_MINUTE),
+      note: null,
+    };
+  }
+
+  const holiday = nyseHoliday(date.year, date.month, date.day);
+  const earlyClose = nyseEarlyClose(date.year, date.month, date.day);
+
+  if (session === 'us-equity') {
+    if (holiday) return null;
+    return {
+      session,
+      date: key,
+      open: etTime(date.year, date.month, date.day, EQUITY_OPEN_MINUTE),
+      close: etTime(date.year, date.month, date.day, earlyClose ? EQUITY_EARLY_CLOSE_MINUTE : EQUITY_CLOSE_MINUTE),
+      note: earlyClose,
+    };
+  }
+
+  if (holiday && FUTURES_CLOSED_HOLIDAYS.has(holiday)) return null;
+  const closeMinute = holiday
+    ? FUTURES_HOLIDAY_CLOSE_MINUTE
+    : earlyClose
+      ? FUTURES_EARLY_CLOSE_MINUTE
+      : FUTURES_CLOSE_MINUTE;
+  return {
+    session,
+    date: key,
+    open: etTime(eve.year, eve.month, eve.day, FUTURES_OPEN_MINUTE),
+    close: etTime(date.year, date.month, date.day, closeMinute),
+    note: holiday ?? earlyClose,
+  };
+}
+
+/** The calendar day `ms` falls on in a session's own time zone */
+function sessionDate(session: MarketSession, ms: number): CalendarDay {
+  const { year, month, day } = getZonedParts(ms, sessionTimeZone(session));
+  return calendarDay(year, month, day);
+}
+
+/**
+ * Sessions from the one on the calendar day of `ms` (ET, or UTC for crypto)
+ * onwards, skipping closed days, for up to `days` calendar days.
+ */
+export function tradingDaysFrom(session: MarketSession, ms: number, days = 14): TradingDay[] {
+  const start = sessionDate(session, ms);
+  const found: TradingDay[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = calendarDay(start.year, start.month, start.day, offset);
+    const trading = tradingDay(session, date.year, date.month, date.day);
+    if (trading) found.push(trading);
+  }
+  return found;
+}
+
+/** The latest session on or before a calendar day, e.g. the last trading day of a week or month */
+export function lastTradingDayOnOrBefore(
+  session: MarketSession,
+  year: number,
+  month: number,
+  day: number
+): TradingDay {
+  for (let offset = 0; ; offset--) {
+    const date = calendarDay(year, month, day, offset);
+    const found = tradingDay(session, date.year, date.month, date.day);
+    if (found) return found;
+  }
+}
+
+/** The session in progress at `ms`, or the next one to open */
+export function sessionAt(session: MarketSession, ms: number): TradingDay {
+  // Futures and forex sessions open the evening before their date, so start a day early
+  const found = tradingDaysFrom(session, ms - DAY_MS).find((day) => ms < day.close);
+  if (!found) throw new Error(`No ${session} session found after ${new Date(ms).toISOString()}`);
+  return found;
+}
+
+/** Whether the market is open at `ms` and when that next changes */
+export function getMarketStatus(session: MarketSession, ms: number): MarketStatus {
+  const day = sessionAt(session, ms);
+  if (ms >= day.open) return { session, open: true, nextChange: day.close, note: day.note };
+
+  const today = sessionDate(session, ms);
+  const note = session === 'us-equity' || session === 'cme-futures' ? nyseHoliday(today.year, today.month, today.day) : null;
+  return { session, open: false, nextChange: day.open, note };
+}
@@ -19,6 +19,7 @@ export interface Trade {
   entryTimestamp: number;
   exitTimestamp?: number;
   pnl?: number;
+  simulated?: boolean; // paper trade from the simulated broker, kept out of live performance
   createdAt: number;
   updatedAt: number;
 }
@@ -27,8 +27,11 @@ export default defineConfig(({ command }) => {
       react(),
       electron({
         main: {
-          // Main process entry point
-          entry: 'src/main/index.ts',
+          // Main process entry point, plus the screener's worker thread (see scan-pool.ts)
+          entry: {
+            index: 'src/main/index.ts',
+            'scan-worker': 'src/main/services/scan-worker.ts',
+          },
           onstart(args) {
             if (process.env.VSCODE_DEBUG) {
               // eslint-disable-next-line no-console